@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { useServerEvents } from "@/hooks/useServerEvents";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
 import Home from "@/pages/home";
@@ -31,6 +32,12 @@ function Router() {
     return <Landing />;
   }
 
+  return <AuthenticatedRouter />;
+}
+
+function AuthenticatedRouter() {
+  useServerEvents();
+
   return (
     <Switch>
       <Route path="/" component={Home} />
@@ -1,20 +1,25 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
 import { formatCurrency } from "@/lib/currency";
-import { Account } from "@shared/schema";
-import { Mail, Phone, Edit } from "lucide-react";
+import { AccountSummary } from "@shared/schema";
+import { Mail, Phone, Edit, KeyRound, Eye, EyeOff } from "lucide-react";
 
 interface AccountCardProps {
-  account: Account;
+  account: AccountSummary;
   stats?: {
     activeOrders: number;
     totalInvestment: number;
     pendingAmount: number;
     expectedRefund: number;
   };
-  onEdit?: (account: Account) => void;
-  onViewOrders?: (account: Account) => void;
+  onEdit?: (account: AccountSummary) => void;
+  onViewOrders?: (account: AccountSummary) => void;
 }
 
 const platformIcons: Record<string, string> = {
@@ -45,6 +50,38 @@ export function AccountCard({
   onEdit, 
   onViewOrders 
 }: AccountCardProps) {
+  const { toast } = useToast();
+  const [revealedPassword, setRevealedPassword] = useState<string | null>(null);
+
+  // Every reveal is recorded in the account's audit log on the server
+  const revealMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/accounts/${account.id}/reveal-password`);
+      return res.json();
+    },
+    onSuccess: (data: { password: string | null }) => {
+      setRevealedPassword(data.password ?? "");
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to reveal password",
+        variant: "destructive",
+      });
+    },
+  });
+
   return (
     <Card className="card-shadow hover-lift h-full" data-testid={`account-card-${account.id}`}>
       <CardContent className="p-6">
@@ -89,6 +126,24 @@ export function AccountCard({
               {account.phone}
             </span>
           </div>
+          {account.hasPassword && (
+            <div className="flex items-center space-x-2">
+              <KeyRound className="w-4 h-4 text-muted-foreground" />
+              <span className="text-sm font-mono flex-1 truncate" data-testid={`account-password-${account.id}`}>
+                {revealedPassword !== null ? revealedPassword : "••••••••"}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2"
+                disabled={revealMutation.isPending}
+                onClick={() => (revealedPassword !== null ? setRevealedPassword(null) : revealMutation.mutate())}
+                data-testid={`button-reveal-password-${account.id}`}
+              >
+                {revealedPassword !== null ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              </Button>
+            </div>
+          )}
           {account.comments && (
             <div className="text-sm text-muted-foreground mt-2" data-testid={`account-comments-${account.id}`}>
               {account.comments}
@@ -24,7 +24,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { Account } from "@shared/schema";
+import type { AccountSummary } from "@shared/schema";
 
 const accountFormSchema = z.object({
   name: z.string().min(3, "Account name must be at least 3 characters"),
@@ -38,7 +38,7 @@ const accountFormSchema = z.object({
 type AccountFormData = z.infer<typeof accountFormSchema>;
 
 interface AccountFormProps {
-  account?: Account | null;
+  account?: AccountSummary | null;
   onSuccess?: () => void;
   onCancel?: () => void;
 }
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { JobRun, JobRunStatus } from "@shared/schema";
+import {
+  cronJobLabels,
+  cronJobNames,
+  isCronJobName,
+  jobRunStatusLabels,
+  jobRunTriggerLabels,
+  type CronJobName,
+} from "@shared/cron-jobs";
+
+const statusStyles: Record<JobRunStatus, string> = {
+  running: "bg-blue-100 text-blue-800",
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+interface JobRunHistoryResponse {
+  runs: JobRun[];
+  latest: JobRun[];
+}
+
+const jobTitle = (job: string) => (isCronJobName(job) ? cronJobLabels[job].title : job);
+
+function describeCounts(counts: JobRun["counts"]) {
+  return Object.entries(counts ?? {})
+    .map(([name, value]) => `${name} ${value}`)
+    .join(" · ");
+}
+
+function describeDuration(run: JobRun) {
+  if (!run.finishedAt) return "";
+  const ms = new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime();
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function JobRunHistory() {
+  const [job, setJob] = useState<CronJobName | "all">("all");
+
+  const { data, isLoading } = useQuery<JobRunHistoryResponse>({
+    queryKey: [job === "all" ? "/api/cron/runs" : `/api/cron/runs?job=${job}`],
+    refetchInterval: 60_000,
+  });
+
+  const latestByJob = new Map((data?.latest ?? []).map((run) => [run.job, run]));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {cronJobNames.map((name) => {
+          const latest = latestByJob.get(name);
+          return (
+            <div key={name} className="flex items-center justify-between rounded-lg border p-3" data-testid={`job-summary-${name}`}>
+              <div>
+                <p className="text-sm font-medium">{cronJobLabels[name].title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {cronJobLabels[name].schedule}
+                  {latest && ` · last run ${formatDistanceToNow(new Date(latest.startedAt), { addSuffix: true })}`}
+                </p>
+              </div>
+              {latest ? (
+                <Badge className={statusStyles[latest.status]}>{jobRunStatusLabels[latest.status]}</Badge>
+              ) : (
+                <Badge variant="outline">Never run</Badge>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <h5 className="font-medium">Recent Runs</h5>
+        <Select value={job} onValueChange={(value) => setJob(value as CronJobName | "all")}>
+          <SelectTrigger className="h-8 w-48" data-testid="select-job-run-filter">
+            <SelectValue placeholder="All jobs" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All jobs</SelectItem>
+            {cronJobNames.map((name) => (
+              <SelectItem key={name} value={name}>
+                {cronJobLabels[name].title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading job runs...</p>
+      ) : !data?.runs.length ? (
+        <p className="text-sm text-muted-foreground">No job runs recorded yet</p>
+      ) : (
+        <div className="divide-y border rounded-lg max-h-96 overflow-y-auto">
+          {data.runs.map((run) => (
+            <div key={run.id} className="p-3 space-y-1" data-testid={`row-job-run-${run.id}`}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge className={statusStyles[run.status]}>{jobRunStatusLabels[run.status]}</Badge>
+                  <span className="text-sm font-medium truncate">{jobTitle(run.job)}</span>
+                  {run.trigger !== "schedule" && (
+                    <Badge variant="outline">{jobRunTriggerLabels[run.trigger]}</Badge>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {format(new Date(run.startedAt), "MMM dd, HH:mm:ss")}
+                  {run.finishedAt && ` · ${describeDuration(run)}`}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {run.instance}
+                {run.counts && Object.keys(run.counts).length > 0 && ` · ${describeCounts(run.counts)}`}
+              </p>
+              {run.error && <p className="text-xs text-red-600">{run.error}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Copy, Link as LinkIcon, RefreshCw, Trash2 } from "lucide-react";
+
+interface CalendarFeedLinks {
+  url: string;
+  webcalUrl: string;
+}
+
+export function CalendarFeedLink() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: feed, isLoading } = useQuery<CalendarFeedLinks | null>({
+    queryKey: ["/api/calendar/feed"],
+  });
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar/feed");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/feed"] });
+      toast({
+        title: "Success",
+        description: feed
+          ? "New feed link created - the old link no longer works"
+          : "Calendar feed link created",
+      });
+    },
+    onError: handleError("Failed to create calendar feed link"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/calendar/feed");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/feed"] });
+      toast({
+        title: "Success",
+        description: "Calendar feed link revoked",
+      });
+    },
+    onError: handleError("Failed to revoke calendar feed link"),
+  });
+
+  const copyLink = () => {
+    if (!feed) return;
+    navigator.clipboard.writeText(feed.webcalUrl);
+    toast({
+      title: "Copied!",
+      description: "Feed link copied to clipboard",
+    });
+  };
+
+  const isPending = rotateMutation.isPending || revokeMutation.isPending;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="font-medium">Calendar Feed</h4>
+        <p className="text-sm text-muted-foreground">
+          Subscribe from Apple Calendar, Outlook or Thunderbird to see upcoming deliveries, reviews and refund form
+          deadlines - no Google account needed. Anyone with the link can see these events.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading feed...</p>
+      ) : feed ? (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input value={feed.webcalUrl} readOnly className="font-mono text-xs" data-testid="input-calendar-feed-url" />
+            <Button variant="outline" size="sm" onClick={copyLink} title="Copy link" data-testid="button-copy-calendar-feed">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={feed.webcalUrl} data-testid="link-subscribe-calendar-feed">
+                <LinkIcon className="w-4 h-4 mr-2" />
+                Subscribe
+              </a>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => rotateMutation.mutate()}
+              disabled={isPending}
+              data-testid="button-reset-calendar-feed"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Reset Link
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => revokeMutation.mutate()}
+              disabled={isPending}
+              className="text-red-600 hover:text-red-700"
+              data-testid="button-revoke-calendar-feed"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Revoke
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => rotateMutation.mutate()}
+          disabled={isPending}
+          data-testid="button-create-calendar-feed"
+        >
+          <LinkIcon className="w-4 h-4 mr-2" />
+          Create Feed Link
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { CalendarSyncJobWithOrder, CalendarSyncStatus as SyncStatus } from "@shared/schema";
+import { RefreshCw } from "lucide-react";
+
+const statusStyles: Record<SyncStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  syncing: "bg-blue-100 text-blue-800",
+  synced: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+interface CalendarSyncJobs {
+  jobs: CalendarSyncJobWithOrder[];
+  counts: Record<SyncStatus, number>;
+}
+
+export function CalendarSyncStatus() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasRole } = useWorkspace();
+
+  const { data, isLoading } = useQuery<CalendarSyncJobs>({
+    queryKey: ["/api/calendar/sync-jobs"],
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar/sync-jobs/retry");
+      return (await response.json()) as { retried: number };
+    },
+    onSuccess: ({ retried }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/sync-jobs"] });
+      toast({
+        title: "Success",
+        description: `${retried} ${retried === 1 ? "order" : "orders"} queued to sync again`,
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to retry calendar sync"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const counts = data?.counts;
+  const jobs = data?.jobs ?? [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h5 className="font-medium">Sync Status</h5>
+        {counts && counts.failed > 0 && hasRole("operator") && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => retryMutation.mutate()}
+            disabled={retryMutation.isPending}
+            data-testid="button-retry-calendar-sync"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Retry All
+          </Button>
+        )}
+      </div>
+
+      {counts && (
+        <div className="flex flex-wrap gap-2" data-testid="text-calendar-sync-counts">
+          {(Object.keys(statusStyles) as SyncStatus[]).map((status) => (
+            <Badge key={status} className={statusStyles[status]}>
+              {counts[status]} {status}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading sync status...</p>
+      ) : jobs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No orders have been synced yet</p>
+      ) : (
+        <div className="divide-y border rounded-lg max-h-80 overflow-y-auto">
+          {jobs.map((job) => (
+            <div key={job.id} className="p-3 space-y-1" data-testid={`row-calendar-sync-${job.id}`}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge className={statusStyles[job.status]}>{job.status}</Badge>
+                  <span className="text-sm font-medium truncate">
+                    {job.order ? `#${job.order.orderId} - ${job.order.productName}` : `${job.productName} (deleted)`}
+                  </span>
+                </div>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {job.updatedAt ? formatDistanceToNow(new Date(job.updatedAt), { addSuffix: true }) : ""}
+                </span>
+              </div>
+              {job.lastError && job.status !== "synced" && (
+                <p className="text-xs text-red-600">
+                  Attempt {job.attempts}: {job.lastError}
+                </p>
+              )}
+              {job.status === "pending" && job.nextAttemptAt && job.attempts > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Next attempt {formatDistanceToNow(new Date(job.nextAttemptAt), { addSuffix: true })}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useMemo } from "react";
-import { OrderWithRelations } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import type { OrderWithRelations, ReminderRule, UserSettingsSelect } from "@shared/schema";
+import { evaluateReminderRules } from "@shared/reminder-rules";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -11,7 +13,6 @@ import {
   Bell,
   CheckCircle2
 } from "lucide-react";
-import { formatDistanceToNow } from "date-fns";
 import { Link } from "wouter";
 import { formatCurrency } from "@/lib/currency";
 
@@ -23,134 +24,44 @@ interface SmartNotificationsProps {
 interface Notification {
   id: string;
   orderId: string;
-  type: "critical" | "warning" | "info";
+  type: "critical" | "warning" | "info" | "success";
   title: string;
   message: string;
-  actionLabel: string;
   orderDetails: {
     productName: string;
     platform: string;
     amount: number;
   };
-  daysOverdue?: number;
-  deadline?: Date;
 }
 
 export function SmartNotifications({ orders, isLoading }: SmartNotificationsProps) {
-  const notifications = useMemo(() => {
-    const now = new Date();
-    const notifications: Notification[] = [];
-
-    orders.forEach(order => {
-      const twoDaysFromNow = new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000);
-      const threeDaysFromNow = new Date(now.getTime() + 3 * 24 * 60 * 60 * 1000);
-
-      // Critical: Overdue refund form
-      if (order.currentStatus === "Overdue Passed for Refund Form") {
-        notifications.push({
-          id: `${order.id}-overdue-refund`,
-          orderId: order.id,
-          type: "critical",
-          title: "Overdue Refund Form",
-          message: "Refund form deadline has passed",
-          actionLabel: "Submit Now",
-          orderDetails: {
-            productName: order.productName,
-            platform: order.platform,
-            amount: order.refundAmount,
-          },
-        });
-      }
-
-      // Critical: Delivered but no action taken
-      if (order.currentStatus === "Delivered" && order.deliveryDate) {
-        const daysSinceDelivery = Math.floor((now.getTime() - new Date(order.deliveryDate).getTime()) / (1000 * 60 * 60 * 24));
-        if (daysSinceDelivery >= 3) {
-          notifications.push({
-            id: `${order.id}-delivered-action`,
-            orderId: order.id,
-            type: "critical",
-            title: "Action Required",
-            message: `Delivered ${daysSinceDelivery} days ago - Submit review now`,
-            actionLabel: "Complete Review",
-            orderDetails: {
-              productName: order.productName,
-              platform: order.platform,
-              amount: order.refundAmount,
-            },
-            daysOverdue: daysSinceDelivery - 3,
-          });
-        }
-      }
-
-      // Warning: Upcoming delivery deadline
-      if (order.deliveryDate && order.currentStatus === "Ordered") {
-        const deliveryDate = new Date(order.deliveryDate);
-        if (deliveryDate <= threeDaysFromNow && deliveryDate > now) {
-          notifications.push({
-            id: `${order.id}-delivery-soon`,
-            orderId: order.id,
-            type: "warning",
-            title: "Delivery Expected Soon",
-            message: `Expected ${formatDistanceToNow(deliveryDate, { addSuffix: true })}`,
-            actionLabel: "View Order",
-            orderDetails: {
-              productName: order.productName,
-              platform: order.platform,
-              amount: order.orderAmount,
-            },
-            deadline: deliveryDate,
-          });
-        }
-      }
+  // Same rules the server uses for reminder notifications, configured in Settings
+  const { data: rules = [], isLoading: rulesLoading } = useQuery<ReminderRule[]>({
+    queryKey: ["/api/reminder-rules"],
+  });
+  // "Today" is the user's day, as for the server's reminders
+  const { data: userSettings } = useQuery<UserSettingsSelect>({
+    queryKey: ["/api/user-settings"],
+  });
 
-      // Warning: Upcoming refund form deadline
-      if (order.refundFormDate && order.currentStatus === "Deliverables Done") {
-        const refundFormDate = new Date(order.refundFormDate);
-        if (refundFormDate <= threeDaysFromNow && refundFormDate > now) {
-          notifications.push({
-            id: `${order.id}-refund-soon`,
-            orderId: order.id,
-            type: "warning",
-            title: "Refund Form Due Soon",
-            message: `Due ${formatDistanceToNow(refundFormDate, { addSuffix: true })}`,
-            actionLabel: "Submit Form",
-            orderDetails: {
-              productName: order.productName,
-              platform: order.platform,
-              amount: order.refundAmount,
-            },
-            deadline: refundFormDate,
-          });
-        }
-      }
-
-      // Info: Remind mediator for payment
-      if (order.currentStatus === "Remind Mediator for Payment") {
-        notifications.push({
-          id: `${order.id}-remind-mediator`,
-          orderId: order.id,
-          type: "info",
-          title: "Follow Up with Mediator",
-          message: "Payment reminder needed",
-          actionLabel: "Contact Mediator",
-          orderDetails: {
-            productName: order.productName,
-            platform: order.platform,
-            amount: order.refundAmount,
-          },
-        });
-      }
-    });
-
-    // Sort by priority: critical first, then warning, then info
-    return notifications.sort((a, b) => {
-      const priority = { critical: 0, warning: 1, info: 2 };
-      return priority[a.type] - priority[b.type];
-    }).slice(0, 5); // Show max 5 notifications
-  }, [orders]);
-
-  if (isLoading) {
+  const notifications = useMemo(() => {
+    return evaluateReminderRules(rules, orders, new Date(), userSettings?.timezone)
+      .slice(0, 5) // Show max 5 notifications, most severe first
+      .map(({ rule, order, severity, title, message }): Notification => ({
+        id: `${order.id}-${rule.id}`,
+        orderId: order.id,
+        type: severity.toLowerCase() as Notification["type"],
+        title,
+        message,
+        orderDetails: {
+          productName: order.productName,
+          platform: order.platform,
+          amount: rule.reminderCategory === "Delivery" ? order.orderAmount : order.refundAmount,
+        },
+      }));
+  }, [rules, orders, userSettings?.timezone]);
+
+  if (isLoading || rulesLoading) {
     return (
       <Card className="card-shadow">
         <CardHeader>
@@ -198,6 +109,8 @@ export function SmartNotifications({ orders, isLoading }: SmartNotificationsProp
         return <Clock className="w-4 h-4" />;
       case "info":
         return <Calendar className="w-4 h-4" />;
+      case "success":
+        return <CheckCircle2 className="w-4 h-4" />;
     }
   };
 
@@ -209,6 +122,8 @@ export function SmartNotifications({ orders, isLoading }: SmartNotificationsProp
         return "text-orange-600 bg-orange-50 border-orange-200 dark:bg-orange-950 dark:border-orange-900";
       case "info":
         return "text-blue-600 bg-blue-50 border-blue-200 dark:bg-blue-950 dark:border-blue-900";
+      case "success":
+        return "text-green-600 bg-green-50 border-green-200 dark:bg-green-950 dark:border-green-900";
     }
   };
 
@@ -219,6 +134,7 @@ export function SmartNotifications({ orders, isLoading }: SmartNotificationsProp
       case "warning":
         return "outline";
       case "info":
+      case "success":
         return "secondary";
     }
   };
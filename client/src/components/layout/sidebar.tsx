@@ -1,4 +1,5 @@
 import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import {
@@ -14,6 +15,7 @@ import {
   Menu,
   Building2
 } from "lucide-react";
+import { WorkspaceSwitcher } from "@/components/workspace/workspace-switcher";
 import { cn } from "@/lib/utils";
 import { useState } from "react";
 import {
@@ -36,16 +38,25 @@ const menuItems = [
 function SidebarContent({ onNavigate }: { onNavigate?: () => void }) {
   const [location] = useLocation();
   const { user } = useAuth();
+  // Kept live by the /api/events stream
+  const { data: unreadNotifications } = useQuery<{ unread: number }>({
+    queryKey: ["/api/notifications", "unread-count"],
+  });
+  const unreadCount = unreadNotifications?.unread ?? 0;
 
   return (
     <>
       <div className="p-6">
-        <div className="flex items-center space-x-3 mb-8">
+        <div className="flex items-center space-x-3 mb-6">
           <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
             <Star className="h-4 w-4 text-primary-foreground" />
           </div>
           <h1 className="text-xl font-semibold">ReviewSystem</h1>
         </div>
+
+        <div className="mb-6">
+          <WorkspaceSwitcher />
+        </div>
         
         <nav className="space-y-1">
           {menuItems.map((item) => {
@@ -67,6 +78,17 @@ function SidebarContent({ onNavigate }: { onNavigate?: () => void }) {
               >
                 <Icon className="h-5 w-5" />
                 <span>{item.label}</span>
+                {item.path === "/notifications" && unreadCount > 0 && (
+                  <span
+                    className={cn(
+                      "ml-auto min-w-5 rounded-full px-1.5 text-center text-xs font-semibold",
+                      isActive ? "bg-primary-foreground text-primary" : "bg-red-500 text-white"
+                    )}
+                    data-testid="badge-unread-notifications"
+                  >
+                    {unreadCount > 99 ? "99+" : unreadCount}
+                  </span>
+                )}
               </Link>
             );
           })}
@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { formatCurrency } from "@/lib/currency";
 import { Mediator } from "@shared/schema";
-import { MessageCircle, Edit } from "lucide-react";
+import { MessageCircle, Edit, IndianRupee, HandCoins } from "lucide-react";
 
 interface MediatorCardProps {
   mediator: Mediator;
@@ -11,11 +11,15 @@ interface MediatorCardProps {
     activeOrders: number;
     totalInvestment: number;
     expectedReturns: number;
+    receivedAmount: number;
     successRate: number;
+    awaitingPayment: number; // orders in a payment-request status
   };
   onEdit?: (mediator: Mediator) => void;
   onViewOrders?: (mediator: Mediator) => void;
   onMessage?: (mediator: Mediator) => void;
+  onRecordPayment?: (mediator: Mediator) => void;
+  onRequestPayment?: (mediator: Mediator) => void;
 }
 
 export function MediatorCard({ 
@@ -23,7 +27,9 @@ export function MediatorCard({
   stats, 
   onEdit, 
   onViewOrders, 
-  onMessage 
+  onMessage,
+  onRecordPayment,
+  onRequestPayment
 }: MediatorCardProps) {
   const handleWhatsApp = () => {
     const phoneNumber = mediator.whatsappNumber.replace(/\D/g, '');
@@ -94,6 +100,12 @@ export function MediatorCard({
                   {formatCurrency(stats.expectedReturns)}
                 </span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-sm text-muted-foreground">Received So Far</span>
+                <span className="text-sm font-medium text-green-600" data-testid={`mediator-received-${mediator.id}`}>
+                  {formatCurrency(stats.receivedAmount)}
+                </span>
+              </div>
             </div>
           </>
         )}
@@ -107,6 +119,34 @@ export function MediatorCard({
           >
             View Orders
           </Button>
+          {onRequestPayment && (
+            <Button 
+              variant="outline" 
+              size="sm"
+              className="btn-press relative"
+              onClick={() => onRequestPayment(mediator)}
+              title="Request payment"
+              data-testid={`button-request-payment-${mediator.id}`}
+            >
+              <HandCoins className="w-4 h-4" />
+              {!!stats?.awaitingPayment && (
+                <span className="absolute -top-1.5 -right-1.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-amber-500 text-white text-[10px] leading-[1.1rem] text-center">
+                  {stats.awaitingPayment}
+                </span>
+              )}
+            </Button>
+          )}
+          {onRecordPayment && (
+            <Button 
+              variant="outline" 
+              size="sm"
+              className="btn-press"
+              onClick={() => onRecordPayment(mediator)}
+              data-testid={`button-record-payment-${mediator.id}`}
+            >
+              <IndianRupee className="w-4 h-4" />
+            </Button>
+          )}
           <Button 
             variant="ghost" 
             size="sm"
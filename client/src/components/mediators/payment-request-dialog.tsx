@@ -0,0 +1,181 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCurrency } from "@/lib/currency";
+import type { Mediator, OutboxMessage } from "@shared/schema";
+import type { PaymentRequest } from "@shared/payment-request";
+import { Loader2, MessageCircle, Send } from "lucide-react";
+
+interface PaymentRequestDialogProps {
+  mediator: Mediator;
+  onClose: () => void;
+}
+
+export function PaymentRequestDialog({ mediator, onClose }: PaymentRequestDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasRole } = useWorkspace();
+
+  const { data: request, isLoading } = useQuery<PaymentRequest>({
+    queryKey: ["/api/mediators", mediator.id, "payment-request"],
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (delivery: "server" | "whatsapp-link") => {
+      const response = await apiRequest("POST", `/api/mediators/${mediator.id}/payment-request`, { delivery });
+      return (await response.json()) as { request: PaymentRequest; outboxMessage?: OutboxMessage };
+    },
+    onSuccess: ({ request, outboxMessage }) => {
+      // Activity log queries are keyed by their full URL including filters
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/activity-logs"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
+      if (outboxMessage?.status === "failed") {
+        toast({
+          title: "Message Failed",
+          description: outboxMessage.lastError || "The payment request could not be delivered",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Success",
+        description: outboxMessage && outboxMessage.status !== "sent"
+          ? `Payment request queued - delivery will be retried`
+          : `Payment request for ${request.orderCount} orders logged for ${mediator.name}`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to send payment request"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenWhatsApp = () => {
+    if (!request) return;
+    const phoneNumber = mediator.whatsappNumber.replace(/\D/g, '');
+    window.open(`https://wa.me/${phoneNumber}?text=${encodeURIComponent(request.message)}`, '_blank');
+    requestMutation.mutate("whatsapp-link");
+  };
+
+  const canSend = hasRole("operator") && !!request && request.orderCount > 0;
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Request Payment from {mediator.name}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !request || request.orderCount === 0 ? (
+          <p className="text-sm text-muted-foreground py-4" data-testid="text-no-pending-payments">
+            No orders are waiting on payment from {mediator.name}. Orders appear here once they reach
+            "Refund Form Done" or "Remind Mediator for Payment".
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {request.groups.map((group) => (
+              <div key={group.bankAccount?.id ?? "unassigned"} className="border rounded-lg">
+                <div className="flex items-center justify-between px-3 py-2 bg-muted/50 border-b">
+                  <span className="text-sm font-medium">
+                    {group.bankAccount
+                      ? `${group.bankAccount.accountName} (${group.bankAccount.accountNumber})`
+                      : "No bank account"}
+                  </span>
+                  <span className="text-sm font-semibold">{formatCurrency(group.total)}</span>
+                </div>
+                <div className="divide-y">
+                  {group.lines.map((line) => (
+                    <div key={line.orderId} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">#{line.platformOrderId}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {line.productName}
+                          {line.refundFormDate && ` · Refund form ${new Date(line.refundFormDate).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      <span>{formatCurrency(line.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between font-semibold">
+              <span>Total due ({request.orderCount} orders)</span>
+              <span data-testid="text-payment-request-total">{formatCurrency(request.total)}</span>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Message</label>
+              <Textarea value={request.message} readOnly rows={10} className="font-mono text-xs" data-testid="textarea-payment-request" />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {canSend && (
+            <>
+              <Button
+                variant="outline"
+                onClick={handleOpenWhatsApp}
+                disabled={requestMutation.isPending}
+                className="text-green-600 hover:text-green-700"
+                data-testid="button-payment-request-whatsapp"
+              >
+                <MessageCircle className="w-4 h-4 mr-2" />
+                Open in WhatsApp
+              </Button>
+              <Button
+                onClick={() => requestMutation.mutate("server")}
+                disabled={requestMutation.isPending}
+                data-testid="button-payment-request-send"
+              >
+                {requestMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Send className="w-4 h-4 mr-2" />
+                )}
+                Send Request
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,122 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { MessageStatus, OutboxMessage } from "@shared/schema";
+import { RefreshCw } from "lucide-react";
+
+const statusStyles: Record<MessageStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  sending: "bg-blue-100 text-blue-800",
+  sent: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+interface MessagingProviders {
+  whatsapp: string;
+  email: string;
+}
+
+export function MessageOutbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasRole } = useWorkspace();
+
+  const { data: messages = [], isLoading } = useQuery<OutboxMessage[]>({
+    queryKey: ["/api/messages"],
+  });
+
+  const { data: providers } = useQuery<MessagingProviders>({
+    queryKey: ["/api/messaging/providers"],
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/messages/${id}/retry`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
+      toast({
+        title: "Success",
+        description: "Message retried",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to retry message"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h5 className="font-medium">Recent Messages</h5>
+        {providers && (
+          <p className="text-xs text-muted-foreground" data-testid="text-messaging-providers">
+            WhatsApp via {providers.whatsapp} · Email via {providers.email}
+          </p>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading messages...</p>
+      ) : messages.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No messages have been sent yet</p>
+      ) : (
+        <div className="divide-y border rounded-lg max-h-80 overflow-y-auto">
+          {messages.slice(0, 20).map((message) => (
+            <div key={message.id} className="p-3 space-y-1" data-testid={`row-message-${message.id}`}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge className={statusStyles[message.status]}>{message.status}</Badge>
+                  <span className="text-sm font-medium truncate">{message.recipient}</span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-xs text-muted-foreground">
+                    {message.createdAt ? formatDistanceToNow(new Date(message.createdAt), { addSuffix: true }) : ""}
+                  </span>
+                  {message.status === "failed" && hasRole("operator") && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => retryMutation.mutate(message.id)}
+                      disabled={retryMutation.isPending}
+                      title="Retry"
+                      data-testid={`button-retry-message-${message.id}`}
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground line-clamp-2">{message.body}</p>
+              {message.lastError && message.status !== "sent" && (
+                <p className="text-xs text-red-600">
+                  Attempt {message.attempts}: {message.lastError}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import {
+  findUnknownVariables,
+  messageTemplateKeys,
+  messageTemplateLabels,
+  messageTemplatePresets,
+  messageTemplateStyleLabels,
+  messageTemplateStyles,
+  renderMessageTemplate,
+  sampleTemplateOrder,
+  templateVariables,
+  type MessageTemplateKey,
+  type MessageTemplateSettings,
+  type MessageTemplateStyle,
+} from "@shared/message-templates";
+import { orderStatusTransitions, type OrderStatus } from "@shared/order-status";
+import type { OrderPage } from "@shared/order-query";
+import { Loader2, RotateCcw, Save } from "lucide-react";
+
+const orderStatuses = Object.keys(orderStatusTransitions) as OrderStatus[];
+const SAMPLE_ORDER = "__sample__";
+
+export function MessageTemplateEditor() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<MessageTemplateSettings | null>(null);
+  const [previewOrderId, setPreviewOrderId] = useState<string>(SAMPLE_ORDER);
+  const [activeKey, setActiveKey] = useState<MessageTemplateKey>("orderConfirmation");
+  const textareaRefs = useRef<Partial<Record<MessageTemplateKey, HTMLTextAreaElement | null>>>({});
+
+  const { data: saved, isLoading } = useQuery<MessageTemplateSettings>({
+    queryKey: ["/api/message-templates"],
+  });
+
+  // Recent orders to preview the templates against
+  const { data: recentOrders } = useQuery<OrderPage>({
+    queryKey: ["/api/orders", "page", "limit=10"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/orders?limit=10");
+      return res.json();
+    },
+  });
+
+  useEffect(() => {
+    if (saved) {
+      setDraft(saved);
+    }
+  }, [saved]);
+
+  const previewOrder = useMemo(
+    () => recentOrders?.items.find((order) => order.id === previewOrderId) ?? sampleTemplateOrder,
+    [recentOrders, previewOrderId]
+  );
+
+  const errors = useMemo(() => {
+    const result: Partial<Record<MessageTemplateKey, string>> = {};
+    if (!draft) return result;
+    for (const key of messageTemplateKeys) {
+      const template = draft.templates[key];
+      const unknown = findUnknownVariables(template);
+      if (!template.trim()) {
+        result[key] = "Template cannot be empty";
+      } else if (unknown.length > 0) {
+        result[key] = `Unknown ${unknown.length === 1 ? "variable" : "variables"}: ${unknown.map((name) => `{{${name}}}`).join(", ")}`;
+      }
+    }
+    return result;
+  }, [draft]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: MessageTemplateSettings) => {
+      const response = await apiRequest("PUT", "/api/message-templates", settings);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/message-templates"] });
+      toast({
+        title: "Success",
+        description: "Message templates saved successfully",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to save message templates"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !draft) {
+    return <p className="text-sm text-muted-foreground">Loading templates...</p>;
+  }
+
+  const updateTemplate = (key: MessageTemplateKey, value: string) => {
+    setDraft((prev) => prev && { ...prev, templates: { ...prev.templates, [key]: value } });
+  };
+
+  const applyStyle = (style: MessageTemplateStyle) => {
+    setDraft((prev) => prev && { ...prev, style, templates: { ...messageTemplatePresets[style] } });
+  };
+
+  // Insert the variable at the cursor of the template last focused
+  const insertVariable = (name: string) => {
+    const textarea = textareaRefs.current[activeKey];
+    const template = draft.templates[activeKey];
+    const placeholder = `{{${name}}}`;
+    const start = textarea?.selectionStart ?? template.length;
+    const end = textarea?.selectionEnd ?? template.length;
+    updateTemplate(activeKey, template.slice(0, start) + placeholder + template.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const hasErrors = Object.keys(errors).length > 0;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(saved);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm font-medium">Start From Style</label>
+          <Select value={draft.style} onValueChange={(value) => applyStyle(value as MessageTemplateStyle)}>
+            <SelectTrigger className="mt-1" data-testid="select-message-template">
+              <SelectValue placeholder="Select template style" />
+            </SelectTrigger>
+            <SelectContent>
+              {messageTemplateStyles.map((style) => (
+                <SelectItem key={style} value={style}>
+                  {messageTemplateStyleLabels[style]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground mt-1">Choosing a style replaces the templates below</p>
+        </div>
+        <div>
+          <label className="text-sm font-medium">Preview With Order</label>
+          <Select value={previewOrderId} onValueChange={setPreviewOrderId}>
+            <SelectTrigger className="mt-1" data-testid="select-preview-order">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SAMPLE_ORDER}>Sample order</SelectItem>
+              {recentOrders?.items.map((order) => (
+                <SelectItem key={order.id} value={order.id}>
+                  #{order.orderId} - {order.productName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <h5 className="font-medium mb-2">Variables</h5>
+        <div className="flex flex-wrap gap-1">
+          {Object.entries(templateVariables).map(([name, variable]) => (
+            <Badge
+              key={name}
+              variant="outline"
+              className="cursor-pointer font-mono text-xs hover:bg-muted"
+              title={`${variable.description} - insert into ${messageTemplateLabels[activeKey]}`}
+              onClick={() => insertVariable(name)}
+              data-testid={`button-insert-variable-${name}`}
+            >
+              {`{{${name}}}`}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {messageTemplateKeys.map((key) => (
+          <div key={key} className="space-y-2">
+            <label className="text-sm font-medium">{messageTemplateLabels[key]}</label>
+            <Textarea
+              ref={(element) => {
+                textareaRefs.current[key] = element;
+              }}
+              value={draft.templates[key]}
+              onChange={(event) => updateTemplate(key, event.target.value)}
+              onFocus={() => setActiveKey(key)}
+              rows={2}
+              className={errors[key] ? "border-red-500" : undefined}
+              data-testid={`textarea-template-${key}`}
+            />
+            {errors[key] ? (
+              <p className="text-xs text-red-600">{errors[key]}</p>
+            ) : (
+              <p className="text-sm bg-gray-50 dark:bg-gray-800 rounded-lg p-3 whitespace-pre-wrap">
+                {renderMessageTemplate(draft.templates[key], previewOrder)}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h5 className="font-medium mb-2">Default Template Per Status</h5>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {orderStatuses.map((status) => (
+            <div key={status} className="flex items-center justify-between gap-2">
+              <span className="text-sm">{status}</span>
+              <Select
+                value={draft.statusDefaults[status]}
+                onValueChange={(value) =>
+                  setDraft((prev) => prev && {
+                    ...prev,
+                    statusDefaults: { ...prev.statusDefaults, [status]: value as MessageTemplateKey },
+                  })
+                }
+              >
+                <SelectTrigger className="w-48" data-testid={`select-status-template-${status}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {messageTemplateKeys.map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {messageTemplateLabels[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          onClick={() => setDraft(saved ?? null)}
+          disabled={!isDirty || saveMutation.isPending}
+          data-testid="button-discard-templates"
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Discard Changes
+        </Button>
+        <Button
+          onClick={() => saveMutation.mutate(draft)}
+          disabled={!isDirty || hasErrors || saveMutation.isPending}
+          data-testid="button-save-templates"
+        >
+          {saveMutation.isPending ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="w-4 h-4 mr-2" />
+          )}
+          Save Templates
+        </Button>
+      </div>
+    </div>
+  );
+}
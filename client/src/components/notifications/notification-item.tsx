@@ -1,7 +1,14 @@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { formatDistanceToNow } from "date-fns";
-import { NotificationWithOrder } from "@shared/schema";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { addDays, addHours, formatDistanceToNow, setHours, startOfHour } from "date-fns";
+import { NotificationWithOrder, SnoozeNotification } from "@shared/schema";
 import { AlertTriangle, CheckCircle, Info, Truck } from "lucide-react";
 
 interface NotificationItemProps {
@@ -9,8 +16,16 @@ interface NotificationItemProps {
   onMarkRead?: (id: string) => void;
   onViewOrder?: (orderId: string) => void;
   onMessageMediator?: (orderId: string) => void;
+  onSnooze?: (id: string, snooze: SnoozeNotification) => void;
+  onDismiss?: (id: string) => void;
 }
 
+const snoozeOptions = [
+  { label: "1 hour", until: () => addHours(new Date(), 1) },
+  { label: "Tomorrow morning", until: () => setHours(startOfHour(addDays(new Date(), 1)), 9) },
+  { label: "3 days", until: () => addDays(new Date(), 3) },
+];
+
 const typeIcons = {
   Critical: AlertTriangle,
   Warning: AlertTriangle,
@@ -29,7 +44,9 @@ export function NotificationItem({
   notification, 
   onMarkRead, 
   onViewOrder,
-  onMessageMediator 
+  onMessageMediator,
+  onSnooze,
+  onDismiss
 }: NotificationItemProps) {
   const Icon = typeIcons[notification.type] || Info;
   const isUnread = notification.isRead === 0;
@@ -54,6 +71,11 @@ export function NotificationItem({
                   New
                 </Badge>
               )}
+              {notification.escalatedAt && (
+                <Badge className="text-xs bg-red-100 text-red-800" data-testid={`badge-escalated-${notification.id}`}>
+                  Escalated
+                </Badge>
+              )}
             </div>
             <span className="text-xs text-muted-foreground" data-testid={`notification-time-${notification.id}`}>
               {notification.createdAt ? formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true }) : 'Unknown time'}
@@ -101,6 +123,49 @@ export function NotificationItem({
                 Mark Read
               </Button>
             )}
+            {onSnooze && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="text-xs p-0 h-auto"
+                    data-testid={`button-snooze-${notification.id}`}
+                  >
+                    Snooze
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {snoozeOptions.map((option) => (
+                    <DropdownMenuItem
+                      key={option.label}
+                      onClick={() => onSnooze(notification.id, { until: option.until() })}
+                    >
+                      {option.label}
+                    </DropdownMenuItem>
+                  ))}
+                  {notification.order && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={() => onSnooze(notification.id, { untilStatusChange: true })}>
+                        Until the status changes
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {onDismiss && (
+              <Button 
+                variant="link" 
+                size="sm" 
+                className="text-xs p-0 h-auto text-muted-foreground"
+                onClick={() => onDismiss(notification.id)}
+                data-testid={`button-dismiss-${notification.id}`}
+              >
+                Dismiss
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,502 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { AccountSummary, Mediator, ReminderRule } from "@shared/schema";
+import { orderStatusTransitions, type OrderStatus } from "@shared/order-status";
+import { orderPlatforms } from "@shared/order-query";
+import { templateVariables } from "@shared/message-templates";
+import { notificationChannels, notificationPreferenceLabels } from "@shared/notification-preferences";
+import {
+  defaultReminderRules,
+  reminderCategories,
+  reminderDateFieldLabels,
+  reminderDateFields,
+  reminderRuleSchema,
+  reminderSeverities,
+  reminderTemplateVariables,
+  reminderTriggerLabels,
+  reminderTriggers,
+  type ReminderDateField,
+  type ReminderRuleInput,
+} from "@shared/reminder-rules";
+
+const orderStatuses = Object.keys(orderStatusTransitions) as OrderStatus[];
+const ANY = "__any__";
+
+interface ReminderRuleFormProps {
+  rule?: ReminderRule | null;
+  onClose: () => void;
+}
+
+export function toReminderRuleInput(rule: ReminderRule): ReminderRuleInput {
+  return {
+    name: rule.name,
+    enabled: rule.enabled,
+    trigger: rule.trigger,
+    dateField: rule.dateField as ReminderDateField | null,
+    offsetDays: rule.offsetDays,
+    statuses: rule.statuses,
+    platform: rule.platform,
+    mediatorId: rule.mediatorId,
+    accountId: rule.accountId,
+    severity: rule.severity,
+    reminderCategory: rule.reminderCategory,
+    title: rule.title,
+    messageTemplate: rule.messageTemplate,
+    channels: rule.channels as ReminderRuleInput["channels"],
+    escalationOffsetDays: rule.escalationOffsetDays,
+  };
+}
+
+export function ReminderRuleForm({ rule, onClose }: ReminderRuleFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isEditing = !!rule;
+
+  const { data: mediators = [] } = useQuery<Mediator[]>({ queryKey: ["/api/mediators"] });
+  const { data: accounts = [] } = useQuery<AccountSummary[]>({ queryKey: ["/api/accounts"] });
+
+  const form = useForm<ReminderRuleInput>({
+    resolver: zodResolver(reminderRuleSchema),
+    defaultValues: rule
+      ? toReminderRuleInput(rule)
+      : { ...defaultReminderRules[0], name: "", title: "", messageTemplate: "" },
+  });
+
+  const trigger = form.watch("trigger");
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ReminderRuleInput) => {
+      const response = isEditing
+        ? await apiRequest("PUT", `/api/reminder-rules/${rule!.id}`, data)
+        : await apiRequest("POST", "/api/reminder-rules", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reminder-rules"] });
+      toast({
+        title: "Success",
+        description: isEditing ? "Reminder rule updated successfully" : "Reminder rule created successfully",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to save reminder rule"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Reminder Rule" : "Add Reminder Rule"}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rule Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Review overdue" {...field} data-testid="input-reminder-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="trigger"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Trigger</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue("dateField", value === "date" ? "deliveryDate" : null);
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-reminder-trigger">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {reminderTriggers.map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {reminderTriggerLabels[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {trigger === "date" && (
+                <FormField
+                  control={form.control}
+                  name="dateField"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date</FormLabel>
+                      <Select value={field.value ?? undefined} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-reminder-date-field">
+                            <SelectValue placeholder="Select date" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {reminderDateFields.map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {reminderDateFieldLabels[value]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="offsetDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{trigger === "date" ? "Offset (days)" : "Days in status"}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        value={field.value}
+                        onChange={(event) => field.onChange(Number(event.target.value))}
+                        data-testid="input-reminder-offset"
+                      />
+                    </FormControl>
+                    {trigger === "date" && (
+                      <p className="text-xs text-muted-foreground">Negative to remind before the date</p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="statuses"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{trigger === "date" ? "Only while the order is" : "Status"}</FormLabel>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {orderStatuses.map((status) => (
+                      <label key={status} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(status)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked ? [...field.value, status] : field.value.filter((value) => value !== status)
+                            )
+                          }
+                          data-testid={`checkbox-reminder-status-${status}`}
+                        />
+                        {status}
+                      </label>
+                    ))}
+                  </div>
+                  {trigger === "date" && (
+                    <p className="text-xs text-muted-foreground">Leave empty to match orders in any status</p>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="platform"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Platform</FormLabel>
+                    <Select
+                      value={field.value ?? ANY}
+                      onValueChange={(value) => field.onChange(value === ANY ? null : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-reminder-platform">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any platform</SelectItem>
+                        {orderPlatforms.map((platform) => (
+                          <SelectItem key={platform} value={platform}>
+                            {platform}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="mediatorId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Mediator</FormLabel>
+                    <Select
+                      value={field.value ?? ANY}
+                      onValueChange={(value) => field.onChange(value === ANY ? null : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-reminder-mediator">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any mediator</SelectItem>
+                        {mediators.map((mediator) => (
+                          <SelectItem key={mediator.id} value={mediator.id}>
+                            {mediator.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="accountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Account</FormLabel>
+                    <Select
+                      value={field.value ?? ANY}
+                      onValueChange={(value) => field.onChange(value === ANY ? null : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-reminder-account">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any account</SelectItem>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.name} ({account.platform})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="severity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Severity</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-reminder-severity">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {reminderSeverities.map((severity) => (
+                          <SelectItem key={severity} value={severity}>
+                            {severity}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="reminderCategory"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-reminder-category">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {reminderCategories.map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {category.replace("_", " ")}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="escalationOffsetDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{trigger === "date" ? "Escalate at offset (days)" : "Escalate after (days)"}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        placeholder="Never"
+                        value={field.value ?? ""}
+                        onChange={(event) => field.onChange(event.target.value === "" ? null : Number(event.target.value))}
+                        data-testid="input-reminder-escalation"
+                      />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">Unresolved reminders turn Critical and are re-sent</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notification Title</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Review Overdue" {...field} data-testid="input-reminder-title" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="messageTemplate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Message</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} data-testid="textarea-reminder-message" />
+                  </FormControl>
+                  <FormMessage />
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    {[...Object.keys(reminderTemplateVariables), ...Object.keys(templateVariables)].map((name) => (
+                      <Badge key={name} variant="outline" className="font-mono text-xs">
+                        {`{{${name}}}`}
+                      </Badge>
+                    ))}
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="channels"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Also Send Via</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {notificationChannels.map((channel) => (
+                      <label key={channel} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(channel)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked ? [...field.value, channel] : field.value.filter((value) => value !== channel)
+                            )
+                          }
+                          data-testid={`checkbox-reminder-channel-${channel}`}
+                        />
+                        {notificationPreferenceLabels[`${channel}Notifications`].title.replace(" Notifications", "")}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Reminders always appear in Notifications. Each member's notification preferences still apply.
+                  </p>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-reminder-rule">
+                {saveMutation.isPending ? "Saving..." : isEditing ? "Update Rule" : "Create Rule"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
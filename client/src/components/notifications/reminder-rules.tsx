@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { ReminderRule } from "@shared/schema";
+import { reminderDateFieldLabels, type ReminderDateField } from "@shared/reminder-rules";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { ReminderRuleForm, toReminderRuleInput } from "./reminder-rule-form";
+
+const severityStyles: Record<ReminderRule["severity"], string> = {
+  Critical: "bg-red-100 text-red-800",
+  Warning: "bg-orange-100 text-orange-800",
+  Info: "bg-blue-100 text-blue-800",
+  Success: "bg-green-100 text-green-800",
+};
+
+function describeTrigger(rule: ReminderRule): string {
+  const statuses = rule.statuses.join(", ");
+  if (rule.trigger === "status") {
+    return `${rule.offsetDays} ${rule.offsetDays === 1 ? "day" : "days"} in ${statuses}`;
+  }
+  const date = reminderDateFieldLabels[rule.dateField as ReminderDateField] ?? rule.dateField;
+  const days = Math.abs(rule.offsetDays);
+  const when = rule.offsetDays === 0
+    ? `On ${date}`
+    : `${days} ${days === 1 ? "day" : "days"} ${rule.offsetDays < 0 ? "before" : "after"} ${date}`;
+  return statuses ? `${when}, while ${statuses}` : when;
+}
+
+export function ReminderRules() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasRole } = useWorkspace();
+  const canEdit = hasRole("manager");
+  const [editingRule, setEditingRule] = useState<ReminderRule | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { data: rules = [], isLoading } = useQuery<ReminderRule[]>({
+    queryKey: ["/api/reminder-rules"],
+  });
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const toggleMutation = useMutation({
+    mutationFn: async (rule: ReminderRule) => {
+      const response = await apiRequest("PUT", `/api/reminder-rules/${rule.id}`, {
+        ...toReminderRuleInput(rule),
+        enabled: rule.enabled === 1 ? 0 : 1,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reminder-rules"] });
+    },
+    onError: handleError("Failed to update reminder rule"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/reminder-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reminder-rules"] });
+      toast({
+        title: "Success",
+        description: "Reminder rule deleted successfully",
+      });
+    },
+    onError: handleError("Failed to delete reminder rule"),
+  });
+
+  const openForm = (rule: ReminderRule | null) => {
+    setEditingRule(rule);
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = (rule: ReminderRule) => {
+    if (confirm(`Delete the reminder rule "${rule.name}"? This action cannot be undone.`)) {
+      deleteMutation.mutate(rule.id);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Rules decide when reminders are raised for this workspace - both in Notifications and on the dashboard.
+        </p>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => openForm(null)} data-testid="button-add-reminder-rule">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Rule
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading reminder rules...</p>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No reminder rules - you will not get any reminders</p>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between gap-3 p-3" data-testid={`row-reminder-rule-${rule.id}`}>
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{rule.name}</span>
+                  <Badge className={severityStyles[rule.severity]}>{rule.severity}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {describeTrigger(rule)}
+                  {rule.platform && ` · ${rule.platform} only`}
+                  {rule.escalationOffsetDays !== null && ` · escalates at ${rule.escalationOffsetDays > 0 ? "+" : ""}${rule.escalationOffsetDays} days`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Switch
+                  checked={rule.enabled === 1}
+                  onCheckedChange={() => toggleMutation.mutate(rule)}
+                  disabled={!canEdit || toggleMutation.isPending}
+                  data-testid={`switch-reminder-rule-${rule.id}`}
+                />
+                {canEdit && (
+                  <>
+                    <Button variant="ghost" size="sm" onClick={() => openForm(rule)} title="Edit rule">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(rule)}
+                      disabled={deleteMutation.isPending}
+                      className="text-red-600 hover:text-red-700"
+                      title="Delete rule"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isFormOpen && (
+        <ReminderRuleForm rule={editingRule} onClose={() => setIsFormOpen(false)} />
+      )}
+    </div>
+  );
+}
@@ -23,10 +23,11 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage, isConflictError } from "@/lib/queryClient";
 import { parseRupeesToPaise } from "@/lib/currency";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { OrderWithRelations } from "@shared/schema";
+import type { BankAccount, OrderWithRelations } from "@shared/schema";
+import { getAllowedTransitions, isFullyPaid, validateStatusTransition } from "@shared/order-status";
 
 const orderFormSchema = z.object({
   productName: z.string().min(3, "Product name must be at least 3 characters"),
@@ -97,7 +98,7 @@ export function OrderForm({ order, onSuccess, onCancel }: OrderFormProps) {
   });
 
   // Fetch bank accounts
-  const { data: bankAccounts = [] } = useQuery({
+  const { data: bankAccounts = [] } = useQuery<BankAccount[]>({
     queryKey: ["/api/bank-accounts", "active"],
     queryFn: async () => {
       const response = await fetch("/api/bank-accounts?active=true", {
@@ -167,8 +168,8 @@ export function OrderForm({ order, onSuccess, onCancel }: OrderFormProps) {
         return;
       }
       toast({
-        title: "Error",
-        description: "Failed to create order. Please try again.",
+        title: isConflictError(error) ? "Status not allowed" : "Error",
+        description: getApiErrorMessage(error, "Failed to create order. Please try again."),
         variant: "destructive",
       });
     },
@@ -213,8 +214,8 @@ export function OrderForm({ order, onSuccess, onCancel }: OrderFormProps) {
         return;
       }
       toast({
-        title: "Error",
-        description: "Failed to update order. Please try again.",
+        title: isConflictError(error) ? "Status change not allowed" : "Error",
+        description: getApiErrorMessage(error, "Failed to update order. Please try again."),
         variant: "destructive",
       });
     },
@@ -222,8 +223,34 @@ export function OrderForm({ order, onSuccess, onCancel }: OrderFormProps) {
 
   const isEditing = !!order;
 
+  // Only the current status and its legal next statuses can be picked;
+  // "Refunded" is left to the payment ledger until payments cover the refund
+  const statusOptions = order
+    ? [
+        order.currentStatus,
+        ...getAllowedTransitions(order.currentStatus).filter(
+          (status) => status !== "Refunded" || isFullyPaid(order)
+        ),
+      ]
+    : [];
+
   const onSubmit = (data: OrderFormData) => {
     if (isEditing) {
+      const transition = validateStatusTransition(order!.currentStatus, data.currentStatus, {
+        deliveryDate: data.deliveryDate ? new Date(data.deliveryDate) : null,
+        refundFormDate: data.refundFormDate ? new Date(data.refundFormDate) : null,
+        refundFormLink: data.refundFormLink?.trim() || null,
+      });
+      if (!transition.allowed) {
+        if (transition.missingFields.length > 0) {
+          transition.missingFields.forEach(({ field, label }) => {
+            form.setError(field, { message: `${label} is required for "${data.currentStatus}"` });
+          });
+        } else {
+          form.setError("currentStatus", { message: transition.reason });
+        }
+        return;
+      }
       updateOrderMutation.mutate(data);
     } else {
       createOrderMutation.mutate(data);
@@ -448,6 +475,33 @@ export function OrderForm({ order, onSuccess, onCancel }: OrderFormProps) {
                   </FormItem>
                 )}
               />
+
+              {isEditing && (
+                <FormField
+                  control={form.control}
+                  name="currentStatus"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Status</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-status">
+                            <SelectValue placeholder="Select status" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {statusOptions.map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {status}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-3 lg:gap-4">
@@ -0,0 +1,459 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCurrency } from "@/lib/currency";
+import { readXlsxRows } from "@/lib/xlsx";
+import type { SavedOrderImportMapping } from "@shared/schema";
+import { parseCsv } from "@shared/bank-statement";
+import {
+  guessOrderImportMapping,
+  mappingMatchesHeaders,
+  normalizeImportHeader,
+  orderImportFieldLabels,
+  orderImportFields,
+  ORDER_IMPORT_MAX_ROWS,
+  requiredOrderImportFields,
+  type OrderImportField,
+  type OrderImportPreview,
+  type OrderImportResult,
+} from "@shared/order-import";
+import { Eye, Save, Trash2, Upload } from "lucide-react";
+
+type ColumnMapping = Partial<Record<OrderImportField, string>>;
+
+type RowFilter = "all" | "invalid" | "warnings";
+
+// Radix selects cannot use an empty value
+const NOT_MAPPED = "__not_mapped__";
+
+// Rows rendered at once - the summary counts cover the whole file
+const PREVIEW_ROW_LIMIT = 200;
+
+// Point a mapping at the file's own spelling of each header, dropping columns it does not have
+function resolveMapping(mapping: ColumnMapping, headers: string[]): ColumnMapping {
+  const resolved: ColumnMapping = {};
+  for (const field of orderImportFields) {
+    const header = mapping[field] && headers.find((candidate) => normalizeImportHeader(candidate) === normalizeImportHeader(mapping[field]!));
+    if (header) resolved[field] = header;
+  }
+  return resolved;
+}
+
+function readFileText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve(event.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * Two-step order import: map the file's columns and preview every row, then
+ * import the valid rows in one go.
+ */
+export function OrderImport() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasRole } = useWorkspace();
+  const canImport = hasRole("manager");
+
+  const [file, setFile] = useState<{ fileName: string; rows: string[][] } | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [savedMappingId, setSavedMappingId] = useState<string | null>(null);
+  const [mappingName, setMappingName] = useState("");
+  const [preview, setPreview] = useState<OrderImportPreview | null>(null);
+  const [filter, setFilter] = useState<RowFilter>("all");
+
+  const { data: savedMappings = [] } = useQuery<SavedOrderImportMapping[]>({
+    queryKey: ["/api/import/mappings"],
+    enabled: canImport,
+  });
+
+  const headers = file?.rows[0] ?? [];
+  const missingFields = requiredOrderImportFields.filter((field) => !mapping[field]);
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const reset = () => {
+    setFile(null);
+    setFileInputKey((key) => key + 1);
+    setMapping({});
+    setSavedMappingId(null);
+    setMappingName("");
+    setPreview(null);
+    setFilter("all");
+  };
+
+  const importBody = () => ({ fileName: file?.fileName, rows: file?.rows, mapping });
+
+  const previewMutation = useMutation({
+    mutationFn: async (): Promise<OrderImportPreview> => {
+      const res = await apiRequest("POST", "/api/import/orders/preview", importBody());
+      return res.json();
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      setFilter(result.invalid > 0 ? "invalid" : "all");
+    },
+    onError: handleError("Failed to preview import"),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (): Promise<OrderImportResult> => {
+      const res = await apiRequest("POST", "/api/import/orders", importBody());
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+      toast({
+        title: "Import Complete",
+        description:
+          `${result.imported} ${result.imported === 1 ? "order" : "orders"} imported` +
+          (result.errors > 0 ? `, ${result.errors} invalid ${result.errors === 1 ? "row" : "rows"} skipped` : ""),
+      });
+      reset();
+    },
+    onError: handleError("Failed to import orders"),
+  });
+
+  const saveMappingMutation = useMutation({
+    mutationFn: async (): Promise<SavedOrderImportMapping> => {
+      const res = await apiRequest("POST", "/api/import/mappings", { name: mappingName, mapping });
+      return res.json();
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import/mappings"] });
+      setSavedMappingId(saved.id);
+      toast({
+        title: "Success",
+        description: `Column mapping "${saved.name}" saved`,
+      });
+    },
+    onError: handleError("Failed to save column mapping"),
+  });
+
+  const deleteMappingMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/import/mappings/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import/mappings"] });
+      setSavedMappingId(null);
+      setMappingName("");
+      toast({
+        title: "Success",
+        description: "Column mapping deleted",
+      });
+    },
+    onError: handleError("Failed to delete column mapping"),
+  });
+
+  // A changed mapping makes the preview stale
+  const updateMapping = (next: ColumnMapping) => {
+    setMapping(next);
+    setPreview(null);
+  };
+
+  const applySavedMapping = (saved: SavedOrderImportMapping, fileHeaders: string[]) => {
+    updateMapping(resolveMapping(saved.mapping, fileHeaders));
+    setSavedMappingId(saved.id);
+    setMappingName(saved.name);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    try {
+      const rows = /\.xlsx$/i.test(selected.name)
+        ? await readXlsxRows(await selected.arrayBuffer())
+        : parseCsv(await readFileText(selected));
+
+      if (rows.length < 2) {
+        throw new Error("The file needs a header row and at least one order");
+      }
+      if (rows.length - 1 > ORDER_IMPORT_MAX_ROWS) {
+        throw new Error(`The file has ${rows.length - 1} rows - import at most ${ORDER_IMPORT_MAX_ROWS} orders at a time`);
+      }
+
+      setFile({ fileName: selected.name, rows });
+      setFilter("all");
+
+      // Reuse a saved mapping whose columns are all in this file, otherwise guess from the headers
+      const saved = savedMappings.find((candidate) => mappingMatchesHeaders(candidate.mapping, rows[0]));
+      if (saved) {
+        applySavedMapping(saved, rows[0]);
+      } else {
+        updateMapping(resolveMapping(guessOrderImportMapping(rows[0]), rows[0]));
+        setSavedMappingId(null);
+        setMappingName("");
+      }
+    } catch (error) {
+      toast({
+        title: "Invalid File",
+        description: error instanceof Error ? error.message : "Failed to read the file",
+        variant: "destructive",
+      });
+      setFileInputKey((key) => key + 1);
+    }
+  };
+
+  const visibleRows = (preview?.rows ?? []).filter((row) =>
+    filter === "invalid" ? row.status === "invalid" :
+    filter === "warnings" ? row.warnings.length > 0 :
+    true
+  );
+
+  if (!canImport) {
+    return <p className="text-sm text-muted-foreground">Only managers can import orders</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="orderImportFile">Upload CSV or Excel File</Label>
+        <Input
+          key={fileInputKey}
+          id="orderImportFile"
+          type="file"
+          accept=".csv,.xlsx"
+          onChange={handleFile}
+          data-testid="input-import-file"
+          className="border-2 border-dashed border-gray-300 hover:border-blue-500 transition-colors"
+        />
+        <p className="text-xs text-muted-foreground">
+          Any column order works - match the columns to order fields below, then preview before importing. Only the first sheet of an Excel file is read.
+        </p>
+      </div>
+
+      {file && (
+        <div className="space-y-4 border rounded-md p-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1 min-w-[200px]">
+              <Label className="text-xs">Saved Mapping</Label>
+              <Select
+                value={savedMappingId ?? NOT_MAPPED}
+                onValueChange={(value) => {
+                  const saved = savedMappings.find((candidate) => candidate.id === value);
+                  if (saved) applySavedMapping(saved, headers);
+                }}
+              >
+                <SelectTrigger data-testid="select-import-mapping">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_MAPPED} disabled>
+                    {savedMappings.length === 0 ? "No saved mappings" : "Choose a saved mapping"}
+                  </SelectItem>
+                  {savedMappings.map((saved) => (
+                    <SelectItem key={saved.id} value={saved.id}>
+                      {saved.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 flex-1 min-w-[180px]">
+              <Label className="text-xs">Save Mapping As</Label>
+              <Input
+                value={mappingName}
+                onChange={(e) => setMappingName(e.target.value)}
+                placeholder="e.g. Mediator sheet"
+                data-testid="input-import-mapping-name"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => saveMappingMutation.mutate()}
+              disabled={!mappingName.trim() || missingFields.length > 0 || saveMappingMutation.isPending}
+              data-testid="button-save-import-mapping"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </Button>
+            {savedMappingId && (
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  const saved = savedMappings.find((candidate) => candidate.id === savedMappingId);
+                  if (saved && confirm(`Delete the column mapping "${saved.name}"?`)) {
+                    deleteMappingMutation.mutate(saved.id);
+                  }
+                }}
+                disabled={deleteMappingMutation.isPending}
+                className="text-red-600 hover:text-red-700"
+                title="Delete saved mapping"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {orderImportFields.map((field) => (
+              <div key={field} className="space-y-1">
+                <Label className="text-xs">
+                  {orderImportFieldLabels[field]} {requiredOrderImportFields.includes(field) && <span className="text-destructive">*</span>}
+                </Label>
+                <Select
+                  value={mapping[field] ?? NOT_MAPPED}
+                  onValueChange={(value) => {
+                    const { [field]: _previous, ...rest } = mapping;
+                    updateMapping(value === NOT_MAPPED ? rest : { ...rest, [field]: value });
+                  }}
+                >
+                  <SelectTrigger data-testid={`select-import-column-${field}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                    {headers.filter((header) => header !== "").map((header, index) => (
+                      <SelectItem key={`${header}-${index}`} value={header}>
+                        {header}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              {file.fileName} - {file.rows.length - 1} {file.rows.length === 2 ? "row" : "rows"}
+              {missingFields.length > 0 && (
+                <span className="text-red-600"> - choose the column for {missingFields.map((field) => orderImportFieldLabels[field]).join(", ")}</span>
+              )}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={reset}>
+                Cancel
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate()}
+                disabled={missingFields.length > 0 || previewMutation.isPending}
+                data-testid="button-preview-import"
+              >
+                <Eye className="w-4 h-4 mr-2" />
+                {previewMutation.isPending ? "Checking..." : "Preview"}
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate()}
+                disabled={!preview || preview.valid === 0 || importMutation.isPending}
+                data-testid="button-import-orders"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {importMutation.isPending ? "Importing..." : `Import ${preview?.valid ?? 0} Valid ${preview?.valid === 1 ? "Row" : "Rows"}`}
+              </Button>
+            </div>
+          </div>
+
+          {preview && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <Badge variant="outline" className="border-green-500 text-green-700">{preview.valid} valid</Badge>
+                  <Badge variant="outline" className="border-red-500 text-red-700">{preview.invalid} with errors</Badge>
+                  <Badge variant="outline" className="border-amber-500 text-amber-700">{preview.withWarnings} with warnings</Badge>
+                </div>
+                <Select value={filter} onValueChange={(value) => setFilter(value as RowFilter)}>
+                  <SelectTrigger className="w-44" data-testid="select-import-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All rows</SelectItem>
+                    <SelectItem value="invalid">Rows with errors</SelectItem>
+                    <SelectItem value="warnings">Rows with warnings</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {preview.invalid > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Rows with errors are skipped. Fix them in the file and upload it again, or import the valid rows now.
+                </p>
+              )}
+
+              {visibleRows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No rows to show</p>
+              ) : (
+                <div className="divide-y border rounded-lg max-h-96 overflow-y-auto">
+                  {visibleRows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                    <div key={row.row} className="p-3 space-y-1" data-testid={`row-import-preview-${row.row}`}>
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <span className="text-xs text-muted-foreground shrink-0">Row {row.row}</span>
+                          <span className="text-sm font-medium truncate">{row.order.productName || "(no product name)"}</span>
+                        </div>
+                        <Badge variant={row.status === "valid" ? "outline" : "destructive"} className="shrink-0">
+                          {row.status === "valid" ? "Valid" : "Error"}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {[
+                          row.order.orderId && `#${row.order.orderId}`,
+                          row.order.platform,
+                          row.order.accountName,
+                          row.order.mediatorName,
+                          row.order.orderAmount !== null && formatCurrency(row.order.orderAmount),
+                          row.order.currentStatus,
+                        ].filter(Boolean).join(" · ")}
+                      </p>
+                      {row.errors.map((error, index) => (
+                        <p key={`error-${index}`} className="text-xs text-red-600">{error}</p>
+                      ))}
+                      {row.warnings.map((warning, index) => (
+                        <p key={`warning-${index}`} className="text-xs text-amber-600">{warning}</p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {visibleRows.length > PREVIEW_ROW_LIMIT && (
+                <p className="text-xs text-muted-foreground">
+                  Showing the first {PREVIEW_ROW_LIMIT} of {visibleRows.length} rows
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
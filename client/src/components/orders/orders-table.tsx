@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -26,7 +26,7 @@ import {
   DialogTitle,
   DialogFooter,
 } from "@/components/ui/dialog";
-import { formatCurrency } from "@/lib/currency";
+import { formatCurrency, parseRupeesToPaise } from "@/lib/currency";
 import { OrderWithRelations } from "@shared/schema";
 import { createPortal } from "react-dom";
 import { useEffect, useRef } from "react";
@@ -38,17 +38,35 @@ import {
   ExternalLink,
   Copy,
   MoreVertical,
+  ArrowUp,
+  ArrowDown,
+  ChevronsUpDown,
+  SlidersHorizontal,
 } from "lucide-react";
 import { CreateEventButton } from "@/components/calendar/create-event-button";
 import { WhatsappLink } from "@/components/orders/whatsapp-link";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { apiRequest, getApiErrorMessage, isConflictError } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { OrderPayments } from "@/components/payments/order-payments";
+import { getAllowedTransitions, isFullyPaid, type OrderStatus } from "@shared/order-status";
+import {
+  DEFAULT_ORDER_SORT,
+  serializeOrderSort,
+  type OrderDateField,
+  type OrderPage,
+  type OrderSort,
+  type OrderSortField,
+} from "@shared/order-query";
 
 interface OrdersTableProps {
-  orders: OrderWithRelations[];
   mediators: any[];
-  isLoading?: boolean;
   onNewOrder?: () => void;
   onEditOrder?: (order: OrderWithRelations) => void;
   initialStatusFilter?: string;
@@ -76,21 +94,28 @@ const platforms = [
   "Snapdeal",
 ];
 
-const orderStatuses = [
-  "Ordered",
-  "Delivered",
-  "Deliverables Done",
-  "Refund Form Done",
-  "Overdue Passed for Refund Form",
-  "Remind Mediator for Payment",
-  "Refunded",
-  "Cancelled",
+const PAGE_SIZE = 50;
+
+const dateFilterFields: { value: OrderDateField; label: string }[] = [
+  { value: "orderDate", label: "Order Date" },
+  { value: "deliveryDate", label: "Delivery Date" },
+  { value: "refundFormDate", label: "Refund Form Date" },
+  { value: "remindRefundDate", label: "Remind Refund Date" },
+  { value: "createdAt", label: "Created" },
+  { value: "updatedAt", label: "Last Updated" },
+];
+
+// Statuses offered in an order's status dropdown: its current one plus the legal next moves.
+// "Refunded" is set by the payment ledger, so it only shows up once payments cover the refund.
+const statusOptionsFor = (order: OrderWithRelations): OrderStatus[] => [
+  order.currentStatus,
+  ...getAllowedTransitions(order.currentStatus).filter(
+    (status) => status !== "Refunded" || isFullyPaid(order)
+  ),
 ];
 
 export function OrdersTable({
-  orders,
   mediators,
-  isLoading,
   onNewOrder,
   onEditOrder,
   initialStatusFilter,
@@ -101,8 +126,19 @@ export function OrdersTable({
     status: initialStatusFilter || "",
     platform: "",
     mediatorId: "",
+    accountId: "",
+    bankAccountId: "",
     search: "",
+    dateField: "orderDate" as OrderDateField,
+    dateFrom: "",
+    dateTo: "",
+    refundMin: "",
+    refundMax: "",
   });
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [sort, setSort] = useState<OrderSort[]>(DEFAULT_ORDER_SORT);
+  const [showMoreFilters, setShowMoreFilters] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
   const menuRef = useRef<HTMLDivElement | null>(null);
 
   const [openMenuId, setOpenMenuId] = useState(null);
@@ -136,6 +172,132 @@ export function OrdersTable({
   );
   const [showOrderDetails, setShowOrderDetails] = useState(false);
 
+  // Wait for typing to pause before searching on the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(filters.search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [filters.search]);
+
+  const { data: accounts = [] } = useQuery<any[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const { data: bankAccounts = [] } = useQuery<any[]>({
+    queryKey: ["/api/bank-accounts"],
+  });
+
+  const queryString = useMemo(() => {
+    const params = new URLSearchParams({
+      limit: String(PAGE_SIZE),
+      sort: serializeOrderSort(sort),
+    });
+    const setFilter = (key: string, value: string) => {
+      if (value && value !== "all") params.set(key, value);
+    };
+
+    setFilter("status", filters.status);
+    setFilter("platform", filters.platform);
+    setFilter("mediatorId", filters.mediatorId);
+    setFilter("accountId", filters.accountId);
+    setFilter("bankAccountId", filters.bankAccountId);
+    setFilter("search", debouncedSearch);
+    setFilter(`${filters.dateField}From`, filters.dateFrom);
+    setFilter(`${filters.dateField}To`, filters.dateTo);
+    if (filters.refundMin) {
+      params.set("refundAmountMin", String(parseRupeesToPaise(parseFloat(filters.refundMin) || 0)));
+    }
+    if (filters.refundMax) {
+      params.set("refundAmountMax", String(parseRupeesToPaise(parseFloat(filters.refundMax) || 0)));
+    }
+    return params.toString();
+  }, [filters, debouncedSearch, sort]);
+
+  const {
+    data,
+    isLoading,
+    isFetching,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<OrderPage>({
+    queryKey: ["/api/orders", "page", queryString],
+    queryFn: async ({ pageParam }) => {
+      const cursor = pageParam ? `&cursor=${encodeURIComponent(pageParam as string)}` : "";
+      const res = await apiRequest("GET", `/api/orders?${queryString}${cursor}`);
+      return res.json();
+    },
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    placeholderData: keepPreviousData,
+  });
+
+  const orders = useMemo(
+    () => data?.pages.flatMap((page) => page.items) ?? [],
+    [data]
+  );
+  const totalOrders = data?.pages[0]?.total ?? 0;
+  const hasActiveFilters = queryString !== new URLSearchParams({
+    limit: String(PAGE_SIZE),
+    sort: serializeOrderSort(sort),
+  }).toString();
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Click sorts by a column; shift-click adds it as a secondary sort
+  const toggleSort = (field: OrderSortField, additive: boolean) => {
+    setSort((prev) => {
+      const existing = prev.find((item) => item.field === field);
+      const direction: OrderSort["direction"] =
+        existing?.direction === "asc" ? "desc" : "asc";
+      if (!additive) {
+        return [{ field, direction: existing && prev[0].field === field ? direction : "asc" }];
+      }
+      return existing
+        ? prev.map((item) => (item.field === field ? { ...item, direction } : item))
+        : [...prev, { field, direction: "asc" }];
+    });
+  };
+
+  const sortIndicator = (field: OrderSortField) => {
+    const index = sort.findIndex((item) => item.field === field);
+    if (index === -1) {
+      return <ChevronsUpDown className="w-3 h-3 text-muted-foreground" />;
+    }
+    const Icon = sort[index].direction === "asc" ? ArrowUp : ArrowDown;
+    return (
+      <span className="inline-flex items-center">
+        <Icon className="w-3 h-3" />
+        {sort.length > 1 && <span className="text-[10px]">{index + 1}</span>}
+      </span>
+    );
+  };
+
+  const sortableHead = (field: OrderSortField, label: string) => (
+    <TableHead>
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 hover:text-foreground"
+        onClick={(e) => toggleSort(field, e.shiftKey)}
+        data-testid={`sort-${field}`}
+      >
+        {label}
+        {sortIndicator(field)}
+      </button>
+    </TableHead>
+  );
+
   const updateStatusMutation = useMutation({
     mutationFn: async ({
       orderId,
@@ -170,34 +332,16 @@ export function OrdersTable({
         return;
       }
       toast({
-        title: "Error",
-        description: "Failed to update order status. Please try again.",
+        title: isConflictError(error) ? "Status change not allowed" : "Error",
+        description: getApiErrorMessage(
+          error,
+          "Failed to update order status. Please try again."
+        ),
         variant: "destructive",
       });
     },
   });
 
-  const filteredOrders = orders.filter((order) => {
-    const matchesStatus =
-      !filters.status ||
-      filters.status === "all" ||
-      order.currentStatus === filters.status;
-    const matchesPlatform =
-      !filters.platform ||
-      filters.platform === "all" ||
-      order.platform === filters.platform;
-    const matchesMediator =
-      !filters.mediatorId ||
-      filters.mediatorId === "all" ||
-      order.mediatorId === filters.mediatorId;
-    const matchesSearch =
-      !filters.search ||
-      order.productName.toLowerCase().includes(filters.search.toLowerCase()) ||
-      order.orderId.toLowerCase().includes(filters.search.toLowerCase());
-
-    return matchesStatus && matchesPlatform && matchesMediator && matchesSearch;
-  });
-
   const calculateProfit = (order: OrderWithRelations) => {
     const profit = order.refundAmount - order.orderAmount;
     return {
@@ -326,24 +470,201 @@ export function OrdersTable({
               </div>
             </div>
           </div>
+
+          <div className="flex items-center justify-between mt-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowMoreFilters((prev) => !prev)}
+              data-testid="button-more-filters"
+            >
+              <SlidersHorizontal className="w-4 h-4 mr-2" />
+              {showMoreFilters ? "Fewer filters" : "More filters"}
+            </Button>
+            <div className="flex items-center gap-2">
+              <Select
+                value={serializeOrderSort(sort)}
+                onValueChange={(value) =>
+                  setSort(
+                    value.split(",").map((part) => ({
+                      field: part.replace(/^-/, "") as OrderSortField,
+                      direction: part.startsWith("-") ? "desc" : "asc",
+                    }))
+                  )
+                }
+              >
+                <SelectTrigger className="w-48" data-testid="select-sort">
+                  <SelectValue placeholder="Custom sort" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="-createdAt">Newest first</SelectItem>
+                  <SelectItem value="createdAt">Oldest first</SelectItem>
+                  <SelectItem value="-orderDate">Order date (latest)</SelectItem>
+                  <SelectItem value="deliveryDate">Delivery date (soonest)</SelectItem>
+                  <SelectItem value="refundFormDate">Refund form date (soonest)</SelectItem>
+                  <SelectItem value="-refundAmount">Refund amount (highest)</SelectItem>
+                </SelectContent>
+              </Select>
+              {hasActiveFilters && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setFilters((prev) => ({
+                      ...prev,
+                      status: "",
+                      platform: "",
+                      mediatorId: "",
+                      accountId: "",
+                      bankAccountId: "",
+                      search: "",
+                      dateFrom: "",
+                      dateTo: "",
+                      refundMin: "",
+                      refundMax: "",
+                    }))
+                  }
+                  data-testid="button-clear-filters"
+                >
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {showMoreFilters && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 lg:gap-4 w-full mt-3">
+              <div>
+                <label className="block text-sm font-medium mb-2">Account</label>
+                <Select
+                  value={filters.accountId}
+                  onValueChange={(value) =>
+                    setFilters((prev) => ({ ...prev, accountId: value }))
+                  }
+                >
+                  <SelectTrigger data-testid="filter-account">
+                    <SelectValue placeholder="All Accounts" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Accounts</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name} ({account.platform})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Bank Account</label>
+                <Select
+                  value={filters.bankAccountId}
+                  onValueChange={(value) =>
+                    setFilters((prev) => ({ ...prev, bankAccountId: value }))
+                  }
+                >
+                  <SelectTrigger data-testid="filter-bank-account">
+                    <SelectValue placeholder="All Bank Accounts" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Bank Accounts</SelectItem>
+                    <SelectItem value="none">No bank account</SelectItem>
+                    {bankAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.accountName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Date Range</label>
+                <div className="space-y-2">
+                  <Select
+                    value={filters.dateField}
+                    onValueChange={(value) =>
+                      setFilters((prev) => ({ ...prev, dateField: value as OrderDateField }))
+                    }
+                  >
+                    <SelectTrigger data-testid="filter-date-field">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {dateFilterFields.map((field) => (
+                        <SelectItem key={field.value} value={field.value}>
+                          {field.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex gap-2">
+                    <Input
+                      type="date"
+                      value={filters.dateFrom}
+                      onChange={(e) =>
+                        setFilters((prev) => ({ ...prev, dateFrom: e.target.value }))
+                      }
+                      data-testid="filter-date-from"
+                    />
+                    <Input
+                      type="date"
+                      value={filters.dateTo}
+                      onChange={(e) =>
+                        setFilters((prev) => ({ ...prev, dateTo: e.target.value }))
+                      }
+                      data-testid="filter-date-to"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Refund Amount (₹)</label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Min"
+                    value={filters.refundMin}
+                    onChange={(e) =>
+                      setFilters((prev) => ({ ...prev, refundMin: e.target.value }))
+                    }
+                    data-testid="filter-refund-min"
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Max"
+                    value={filters.refundMax}
+                    onChange={(e) =>
+                      setFilters((prev) => ({ ...prev, refundMax: e.target.value }))
+                    }
+                    data-testid="filter-refund-max"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Mobile Card View */}
       <div className="lg:hidden space-y-3">
-        {filteredOrders.length === 0 ? (
+        {orders.length === 0 ? (
           <Card className="card-shadow">
             <CardContent className="p-6 text-center text-muted-foreground">
               <p>No orders found</p>
               <p className="text-sm mt-1">
-                {orders.length === 0
+                {!hasActiveFilters
                   ? "Create your first order to get started"
                   : "Try adjusting your filters"}
               </p>
             </CardContent>
           </Card>
         ) : (
-          filteredOrders.map((order) => {
+          orders.map((order) => {
             const profit = calculateProfit(order);
             return (
               <Card
@@ -393,7 +714,7 @@ export function OrdersTable({
                         </SelectValue>
                       </SelectTrigger>
                       <SelectContent>
-                        {orderStatuses.map((status) => (
+                        {statusOptionsFor(order).map((status) => (
                           <SelectItem key={status} value={status}>
                             <Badge
                               className={
@@ -511,7 +832,12 @@ export function OrdersTable({
       <Card className="card-shadow hidden lg:block w-full">
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle>Orders ({filteredOrders.length})</CardTitle>
+            <CardTitle>
+              Orders ({totalOrders})
+              {isFetching && !isFetchingNextPage && (
+                <span className="ml-2 text-sm font-normal text-muted-foreground">Updating...</span>
+              )}
+            </CardTitle>
             {onNewOrder && (
               <Button onClick={onNewOrder} data-testid="button-new-order">
                 New Order
@@ -520,11 +846,11 @@ export function OrdersTable({
           </div>
         </CardHeader>
         <CardContent>
-          {filteredOrders.length === 0 ? (
+          {orders.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               <p>No orders found</p>
               <p className="text-sm mt-1">
-                {orders.length === 0
+                {!hasActiveFilters
                   ? "Create your first order to get started"
                   : "Try adjusting your filters"}
               </p>
@@ -534,18 +860,18 @@ export function OrdersTable({
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Product</TableHead>
-                    <TableHead>Platform</TableHead>
+                    {sortableHead("productName", "Product")}
+                    {sortableHead("platform", "Platform")}
                     <TableHead>Mediator</TableHead>
-                    <TableHead>Order Amount</TableHead>
-                    <TableHead>Refund Amount</TableHead>
+                    {sortableHead("orderAmount", "Order Amount")}
+                    {sortableHead("refundAmount", "Refund Amount")}
                     <TableHead>Profit/Loss</TableHead>
-                    <TableHead>Status</TableHead>
+                    {sortableHead("currentStatus", "Status")}
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredOrders.map((order) => {
+                  {orders.map((order) => {
                     const profit = calculateProfit(order);
                     return (
                       <TableRow
@@ -586,6 +912,11 @@ export function OrdersTable({
                           data-testid={`order-refund-${order.id}`}
                         >
                           {formatCurrency(order.refundAmount)}
+                          {!!order.receivedAmount && (
+                            <p className="text-xs text-muted-foreground font-normal">
+                              {formatCurrency(order.receivedAmount)} received
+                            </p>
+                          )}
                         </TableCell>
                         <TableCell
                           className={`font-medium ${
@@ -623,7 +954,7 @@ export function OrdersTable({
                               </SelectValue>
                             </SelectTrigger>
                             <SelectContent>
-                              {orderStatuses.map((status) => (
+                              {statusOptionsFor(order).map((status) => (
                                 <SelectItem key={status} value={status}>
                                   <Badge
                                     className={
@@ -720,6 +1051,22 @@ export function OrdersTable({
         </CardContent>
       </Card>
 
+      {/* Infinite scroll sentinel */}
+      <div ref={loadMoreRef} className="flex justify-center">
+        {hasNextPage && (
+          <Button
+            variant="outline"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            data-testid="button-load-more"
+          >
+            {isFetchingNextPage
+              ? "Loading..."
+              : `Load more (${orders.length} of ${totalOrders})`}
+          </Button>
+        )}
+      </div>
+
       {/* Order Details Modal */}
       <Dialog open={showOrderDetails} onOpenChange={setShowOrderDetails}>
         <DialogContent className="max-w-2xl">
@@ -808,6 +1155,14 @@ export function OrdersTable({
                 </div>
               </div>
 
+              {/* Payments received against this order */}
+              <OrderPayments
+                order={
+                  orders.find((order) => order.id === selectedOrder.id) ??
+                  selectedOrder
+                }
+              />
+
               {/* Account & Mediator */}
               <div className="grid grid-cols-2 gap-4">
                 <div>
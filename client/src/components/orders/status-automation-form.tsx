@@ -0,0 +1,363 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { StatusAutomation } from "@shared/schema";
+import { orderStatusTransitions, type OrderStatus } from "@shared/order-status";
+import {
+  reminderDateFieldLabels,
+  reminderDateFields,
+  reminderTriggerLabels,
+  reminderTriggers,
+  type ReminderDateField,
+} from "@shared/reminder-rules";
+import {
+  defaultStatusAutomations,
+  statusAutomationSchema,
+  statusAutomationTargets,
+  type StatusAutomationInput,
+  type StatusAutomationPreview,
+  type StatusAutomationTarget,
+} from "@shared/status-automations";
+import { fetchStatusAutomationPreview, StatusAutomationPreviewResults } from "./status-automation-preview";
+
+const orderStatuses = Object.keys(orderStatusTransitions) as OrderStatus[];
+const ANY = "__any__";
+
+interface StatusAutomationFormProps {
+  automation?: StatusAutomation | null;
+  onClose: () => void;
+}
+
+export function toStatusAutomationInput(automation: StatusAutomation): StatusAutomationInput {
+  return {
+    name: automation.name,
+    enabled: automation.enabled,
+    trigger: automation.trigger,
+    dateField: automation.dateField as ReminderDateField | null,
+    offsetDays: automation.offsetDays,
+    statuses: automation.statuses,
+    toStatus: automation.toStatus as StatusAutomationTarget,
+    missingDateField: automation.missingDateField as ReminderDateField | null,
+  };
+}
+
+export function StatusAutomationForm({ automation, onClose }: StatusAutomationFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isEditing = !!automation;
+  const [preview, setPreview] = useState<StatusAutomationPreview | null>(null);
+
+  const form = useForm<StatusAutomationInput>({
+    resolver: zodResolver(statusAutomationSchema),
+    defaultValues: automation
+      ? toStatusAutomationInput(automation)
+      : { ...defaultStatusAutomations[0], name: "", enabled: 0 },
+  });
+
+  const trigger = form.watch("trigger");
+  const toStatus = form.watch("toStatus");
+  // Only statuses that can move to the chosen one
+  const fromStatuses = orderStatuses.filter((status) => orderStatusTransitions[status].includes(toStatus));
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: StatusAutomationInput) => {
+      const response = isEditing
+        ? await apiRequest("PUT", `/api/status-automations/${automation!.id}`, data)
+        : await apiRequest("POST", "/api/status-automations", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/status-automations"] });
+      toast({
+        title: "Success",
+        description: isEditing ? "Status automation updated successfully" : "Status automation created successfully",
+      });
+      onClose();
+    },
+    onError: handleError("Failed to save status automation"),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: fetchStatusAutomationPreview,
+    onSuccess: setPreview,
+    onError: handleError("Failed to preview status automation"),
+  });
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Status Automation" : "Add Status Automation"}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Automation Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Delivery date passed" {...field} data-testid="input-automation-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="toStatus"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Move Orders To</FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      form.setValue(
+                        "statuses",
+                        form.getValues("statuses").filter((status) => orderStatusTransitions[status].includes(value as OrderStatus))
+                      );
+                      setPreview(null);
+                    }}
+                  >
+                    <FormControl>
+                      <SelectTrigger data-testid="select-automation-to-status">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {statusAutomationTargets.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {status}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="statuses"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>From Status</FormLabel>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {fromStatuses.map((status) => (
+                      <label key={status} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(status)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked ? [...field.value, status] : field.value.filter((value) => value !== status)
+                            )
+                          }
+                          data-testid={`checkbox-automation-status-${status}`}
+                        />
+                        {status}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="trigger"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Trigger</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue("dateField", value === "date" ? "deliveryDate" : null);
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-automation-trigger">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {reminderTriggers.map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {reminderTriggerLabels[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {trigger === "date" && (
+                <FormField
+                  control={form.control}
+                  name="dateField"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date</FormLabel>
+                      <Select value={field.value ?? undefined} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-automation-date-field">
+                            <SelectValue placeholder="Select date" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {reminderDateFields.map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {reminderDateFieldLabels[value]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="offsetDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{trigger === "date" ? "Days after the date" : "Days in status"}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={field.value}
+                        onChange={(event) => field.onChange(Number(event.target.value))}
+                        data-testid="input-automation-offset"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="missingDateField"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Only If Empty</FormLabel>
+                  <Select
+                    value={field.value ?? ANY}
+                    onValueChange={(value) => field.onChange(value === ANY ? null : value)}
+                  >
+                    <FormControl>
+                      <SelectTrigger data-testid="select-automation-missing-date">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ANY}>No condition</SelectItem>
+                      {reminderDateFields.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {reminderDateFieldLabels[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">Skip orders where this date has been filled in</p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2 rounded-lg border p-3">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">Dry Run</p>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={form.handleSubmit((data) => previewMutation.mutate(data))}
+                  disabled={previewMutation.isPending}
+                  data-testid="button-preview-automation"
+                >
+                  {previewMutation.isPending ? "Checking..." : "Preview"}
+                </Button>
+              </div>
+              {preview ? (
+                <StatusAutomationPreviewResults preview={preview} />
+              ) : (
+                <p className="text-xs text-muted-foreground">See which orders these settings would move today, without changing anything</p>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-automation">
+                {saveMutation.isPending ? "Saving..." : isEditing ? "Update Automation" : "Create Automation"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,40 @@
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import type { StatusAutomationInput, StatusAutomationPreview } from "@shared/status-automations";
+import { ArrowRight } from "lucide-react";
+
+export async function fetchStatusAutomationPreview(automation: StatusAutomationInput): Promise<StatusAutomationPreview> {
+  const response = await apiRequest("POST", "/api/status-automations/preview", automation);
+  return response.json();
+}
+
+export function StatusAutomationPreviewResults({ preview }: { preview: StatusAutomationPreview }) {
+  if (preview.total === 0) {
+    return <p className="text-sm text-muted-foreground">No orders would be moved right now</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm">
+        {preview.total} {preview.total === 1 ? "order" : "orders"} would be moved right now
+        {preview.total > preview.changes.length && ` - showing the first ${preview.changes.length}`}
+      </p>
+      <div className="divide-y border rounded-lg max-h-72 overflow-y-auto">
+        {preview.changes.map((change) => (
+          <div key={change.id} className="p-3 space-y-1" data-testid={`row-automation-preview-${change.id}`}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium truncate">{change.productName}</span>
+              <span className="text-xs text-muted-foreground shrink-0">#{change.orderId}</span>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <Badge variant="outline">{change.fromStatus}</Badge>
+              <ArrowRight className="w-3 h-3" />
+              <Badge variant="outline">{change.toStatus}</Badge>
+              <span>{change.reason}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
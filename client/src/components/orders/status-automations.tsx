@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { StatusAutomation } from "@shared/schema";
+import { reminderDateFieldLabels, type ReminderDateField } from "@shared/reminder-rules";
+import { Eye, Pencil, Plus, Trash2 } from "lucide-react";
+import { StatusAutomationForm, toStatusAutomationInput } from "./status-automation-form";
+import { fetchStatusAutomationPreview, StatusAutomationPreviewResults } from "./status-automation-preview";
+
+const dateLabel = (field: string | null) => reminderDateFieldLabels[field as ReminderDateField] ?? field;
+
+function describeAutomation(automation: StatusAutomation): string {
+  const days = `${automation.offsetDays} ${automation.offsetDays === 1 ? "day" : "days"}`;
+  const when = automation.trigger === "status"
+    ? `After ${days} in ${automation.statuses.join(", ")}`
+    : `${automation.offsetDays === 0 ? "On" : `${days} after`} ${dateLabel(automation.dateField)}, from ${automation.statuses.join(", ")}`;
+  const condition = automation.missingDateField ? ` with no ${dateLabel(automation.missingDateField)}` : "";
+  return `${when}${condition} → ${automation.toStatus}`;
+}
+
+// Dry run of a saved automation - nothing is changed
+function StatusAutomationPreviewDialog({ automation, onClose }: { automation: StatusAutomation; onClose: () => void }) {
+  const { data: preview, isLoading, error } = useQuery({
+    queryKey: ["/api/status-automations/preview", automation.id, automation.updatedAt],
+    queryFn: () => fetchStatusAutomationPreview(toStatusAutomationInput(automation)),
+  });
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Preview: {automation.name}</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Checking orders...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{getApiErrorMessage(error, "Failed to preview status automation")}</p>
+        ) : preview ? (
+          <StatusAutomationPreviewResults preview={preview} />
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function StatusAutomations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasRole } = useWorkspace();
+  const canEdit = hasRole("manager");
+  const [editingAutomation, setEditingAutomation] = useState<StatusAutomation | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [previewAutomation, setPreviewAutomation] = useState<StatusAutomation | null>(null);
+
+  const { data: automations = [], isLoading } = useQuery<StatusAutomation[]>({
+    queryKey: ["/api/status-automations"],
+  });
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const toggleMutation = useMutation({
+    mutationFn: async (automation: StatusAutomation) => {
+      const response = await apiRequest("PUT", `/api/status-automations/${automation.id}`, {
+        ...toStatusAutomationInput(automation),
+        enabled: automation.enabled === 1 ? 0 : 1,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/status-automations"] });
+    },
+    onError: handleError("Failed to update status automation"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/status-automations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/status-automations"] });
+      toast({
+        title: "Success",
+        description: "Status automation deleted successfully",
+      });
+    },
+    onError: handleError("Failed to delete status automation"),
+  });
+
+  const openForm = (automation: StatusAutomation | null) => {
+    setEditingAutomation(automation);
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = (automation: StatusAutomation) => {
+    if (confirm(`Delete the status automation "${automation.name}"? This action cannot be undone.`)) {
+      deleteMutation.mutate(automation.id);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Enabled automations run every morning with the daily checks. Each change is recorded in the order's activity log.
+        </p>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => openForm(null)} data-testid="button-add-automation">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Automation
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading status automations...</p>
+      ) : automations.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No status automations - order statuses only change by hand</p>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {automations.map((automation) => (
+            <div key={automation.id} className="flex items-center justify-between gap-3 p-3" data-testid={`row-automation-${automation.id}`}>
+              <div className="min-w-0 space-y-1">
+                <span className="font-medium truncate">{automation.name}</span>
+                <p className="text-xs text-muted-foreground">{describeAutomation(automation)}</p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Switch
+                  checked={automation.enabled === 1}
+                  onCheckedChange={() => toggleMutation.mutate(automation)}
+                  disabled={!canEdit || toggleMutation.isPending}
+                  data-testid={`switch-automation-${automation.id}`}
+                />
+                <Button variant="ghost" size="sm" onClick={() => setPreviewAutomation(automation)} title="Preview automation">
+                  <Eye className="w-4 h-4" />
+                </Button>
+                {canEdit && (
+                  <>
+                    <Button variant="ghost" size="sm" onClick={() => openForm(automation)} title="Edit automation">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(automation)}
+                      disabled={deleteMutation.isPending}
+                      className="text-red-600 hover:text-red-700"
+                      title="Delete automation"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isFormOpen && (
+        <StatusAutomationForm automation={editingAutomation} onClose={() => setIsFormOpen(false)} />
+      )}
+      {previewAutomation && (
+        <StatusAutomationPreviewDialog automation={previewAutomation} onClose={() => setPreviewAutomation(null)} />
+      )}
+    </div>
+  );
+}
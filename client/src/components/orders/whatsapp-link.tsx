@@ -1,4 +1,5 @@
-import { MessageCircle } from "lucide-react";
+import { MessageCircle, Send } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import {
   Select,
@@ -9,42 +10,89 @@ import {
 } from "@/components/ui/select";
 import { useState } from "react";
 import { OrderWithRelations } from "@shared/schema";
-import { formatCurrency } from "@/lib/currency";
+import {
+  messageTemplateKeys,
+  messageTemplateLabels,
+  parseMessageTemplateSettings,
+  renderMessageTemplate,
+  templateKeyForStatus,
+  type MessageTemplateKey,
+  type MessageTemplateSettings,
+} from "@shared/message-templates";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
 
 interface WhatsappLinkProps {
   order: OrderWithRelations;
 }
 
-// Message templates based on order status
-const messageTemplates = {
-  orderConfirmation: (order: OrderWithRelations) =>
-    `Hi ${order.mediator.name}, Order #${order.orderId} has been placed for ${order.productName} on ${order.platform}. Amount: ${formatCurrency(order.orderAmount)}`,
-
-  deliveryReminder: (order: OrderWithRelations) =>
-    `Hi ${order.mediator.name}, Please check delivery status for Order #${order.orderId}. Expected delivery: ${order.deliveryDate ? new Date(order.deliveryDate).toLocaleDateString() : 'N/A'}`,
-
-  refundFormReminder: (order: OrderWithRelations) =>
-    `Hi ${order.mediator.name}, Refund form needs to be submitted for Order #${order.orderId} by ${order.refundFormDate ? new Date(order.refundFormDate).toLocaleDateString() : 'N/A'}`,
-
-  paymentRequest: (order: OrderWithRelations) =>
-    `Hi ${order.mediator.name}, Please process payment for Order #${order.orderId}. Refund amount: ${formatCurrency(order.refundAmount)}`,
+export function WhatsappLink({ order }: WhatsappLinkProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasRole } = useWorkspace();
 
-  friendly: (order: OrderWithRelations) =>
-    `Hello ${order.mediator.name}! 😊 Quick check on Order #${order.orderId} - ${order.productName}. Current status: ${order.currentStatus}`,
+  const { data: templateSettings = parseMessageTemplateSettings(null) } = useQuery<MessageTemplateSettings>({
+    queryKey: ["/api/message-templates"],
+  });
 
-  professional: (order: OrderWithRelations) =>
-    `Dear ${order.mediator.name}, Regarding Order #${order.orderId} (${order.productName}). Current status: ${order.currentStatus}. Please update if needed.`,
+  // Until the user picks one, follow the default template for the order's status
+  const [chosenTemplate, setChosenTemplate] = useState<MessageTemplateKey | null>(null);
+  const selectedTemplate = chosenTemplate ?? templateKeyForStatus(templateSettings, order.currentStatus);
 
-  custom: (order: OrderWithRelations) =>
-    `Hi ${order.mediator.name}, regarding Order #${order.orderId} - ${order.productName}`,
-};
+  const buildMessage = () => renderMessageTemplate(templateSettings.templates[selectedTemplate], order);
 
-export function WhatsappLink({ order }: WhatsappLinkProps) {
-  const [selectedTemplate, setSelectedTemplate] = useState<string>("friendly");
+  // Send through the server's messaging provider instead of opening WhatsApp
+  const sendMessageMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/messages", {
+        mediatorId: order.mediatorId,
+        orderId: order.id,
+        templateKey: selectedTemplate,
+      });
+      return await response.json();
+    },
+    onSuccess: (message: { status: string; lastError: string | null }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
+      if (message.status === "failed") {
+        toast({
+          title: "Message Failed",
+          description: message.lastError || "The message could not be delivered",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: message.status === "sent" ? "Message Sent" : "Message Queued",
+        description: message.status === "sent"
+          ? `Message sent to ${order.mediator.name}`
+          : `Delivery will be retried: ${message.lastError}`,
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to send message. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
 
   // Generate WhatsApp link based on selected template
   const generateWhatsAppLink = () => {
-    const message = messageTemplates[selectedTemplate as keyof typeof messageTemplates]?.(order) || messageTemplates.friendly(order);
+    const message = buildMessage();
     const phoneNumber = order.mediator.whatsappNumber.replace(/\D/g, ''); // Remove non-digits
     const encodedMessage = encodeURIComponent(message);
     return `https://wa.me/${phoneNumber}?text=${encodedMessage}`;
@@ -57,18 +105,16 @@ export function WhatsappLink({ order }: WhatsappLinkProps) {
 
   return (
     <div className="flex items-center gap-2">
-      <Select value={selectedTemplate} onValueChange={setSelectedTemplate}>
+      <Select value={selectedTemplate} onValueChange={(value) => setChosenTemplate(value as MessageTemplateKey)}>
         <SelectTrigger className="w-auto h-8 text-xs">
           <SelectValue placeholder="Message type" />
         </SelectTrigger>
         <SelectContent>
-          <SelectItem value="friendly">Friendly 😊</SelectItem>
-          <SelectItem value="orderConfirmation">Order Confirm</SelectItem>
-          <SelectItem value="deliveryReminder">Delivery 🔔</SelectItem>
-          <SelectItem value="refundFormReminder">Refund Form 📝</SelectItem>
-          <SelectItem value="paymentRequest">Payment 💰</SelectItem>
-          <SelectItem value="professional">Professional</SelectItem>
-          <SelectItem value="custom">Custom</SelectItem>
+          {messageTemplateKeys.map((key) => (
+            <SelectItem key={key} value={key}>
+              {messageTemplateLabels[key]}
+            </SelectItem>
+          ))}
         </SelectContent>
       </Select>
 
@@ -81,6 +127,20 @@ export function WhatsappLink({ order }: WhatsappLinkProps) {
       >
         <MessageCircle className="w-4 h-4" />
       </Button>
+
+      {hasRole("operator") && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => sendMessageMutation.mutate()}
+          disabled={sendMessageMutation.isPending}
+          className="text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+          title={`Send to ${order.mediator.name} from the server`}
+          data-testid={`button-send-message-${order.id}`}
+        >
+          <Send className="w-4 h-4" />
+        </Button>
+      )}
     </div>
   );
 }
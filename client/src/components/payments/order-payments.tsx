@@ -0,0 +1,113 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCurrency } from "@/lib/currency";
+import type { OrderWithRelations, PaymentWithRelations } from "@shared/schema";
+import { Trash2 } from "lucide-react";
+
+interface OrderPaymentsProps {
+  order: OrderWithRelations;
+}
+
+export function OrderPayments({ order }: OrderPaymentsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: payments = [], isLoading } = useQuery<PaymentWithRelations[]>({
+    queryKey: ["/api/orders", order.id, "payments"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/payments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: "Payment removed",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to remove payment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const received = order.receivedAmount ?? 0;
+  const progress = order.refundAmount > 0 ? Math.min((received / order.refundAmount) * 100, 100) : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-muted-foreground">Payments</span>
+        <span data-testid={`order-received-${order.id}`}>
+          {formatCurrency(received)} of {formatCurrency(order.refundAmount)} received
+        </span>
+      </div>
+      <Progress value={progress} />
+
+      {isLoading ? (
+        <div className="h-10 bg-muted rounded animate-pulse"></div>
+      ) : payments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No payments recorded yet</p>
+      ) : (
+        <div className="border rounded-md divide-y">
+          {payments.map((payment) => {
+            const allocation = payment.allocations.find((a) => a.orderId === order.id);
+            return (
+              <div key={payment.id} className="flex items-center justify-between p-3 text-sm">
+                <div>
+                  <p className="font-medium">
+                    {formatCurrency(allocation?.amount ?? 0)}
+                    {payment.allocations.length > 1 && (
+                      <span className="text-muted-foreground font-normal">
+                        {" "}of {formatCurrency(payment.amount)} across {payment.allocations.length} orders
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(payment.paymentDate).toLocaleDateString()}
+                    {payment.reference && ` · UTR ${payment.reference}`}
+                    {payment.bankAccount && ` · ${payment.bankAccount.accountName}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => {
+                    if (confirm("Remove this payment from the ledger? It will be removed from every order it covers.")) {
+                      deleteMutation.mutate(payment.id);
+                    }
+                  }}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCurrency, parseRupeesToPaise } from "@/lib/currency";
+import type { BankAccount, Mediator, OrderWithRelations } from "@shared/schema";
+
+interface PaymentFormProps {
+  mediator: Mediator;
+  orders: OrderWithRelations[];
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+const outstandingFor = (order: OrderWithRelations) =>
+  Math.max(order.refundAmount - (order.receivedAmount ?? 0), 0);
+
+export function PaymentForm({ mediator, orders, onSuccess, onCancel }: PaymentFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Orders of this mediator that still have money outstanding
+  const payableOrders = orders.filter(
+    (order) =>
+      order.mediatorId === mediator.id &&
+      order.currentStatus !== "Cancelled" &&
+      outstandingFor(order) > 0
+  );
+
+  // Rupee amount allocated to each selected order
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+  const [bankAccountId, setBankAccountId] = useState<string>("");
+
+  const { data: bankAccounts = [] } = useQuery<BankAccount[]>({
+    queryKey: ["/api/bank-accounts"],
+  });
+
+  const allocatedTotal = Object.values(allocations).reduce(
+    (total, rupees) => total + parseRupeesToPaise(parseFloat(rupees) || 0),
+    0
+  );
+
+  const toggleOrder = (order: OrderWithRelations, checked: boolean) => {
+    setAllocations((prev) => {
+      const next = { ...prev };
+      if (checked) {
+        next[order.id] = String(outstandingFor(order) / 100);
+      } else {
+        delete next[order.id];
+      }
+      return next;
+    });
+  };
+
+  const mutation = useMutation({
+    mutationFn: async (data: any) => {
+      const res = await apiRequest("POST", "/api/payments", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: "Payment recorded successfully",
+      });
+      onSuccess();
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to record payment"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    const orderAllocations = Object.entries(allocations)
+      .map(([orderId, rupees]) => ({
+        orderId,
+        amount: parseRupeesToPaise(parseFloat(rupees) || 0),
+      }))
+      .filter((allocation) => allocation.amount > 0);
+
+    if (orderAllocations.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select at least one order this payment covers",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    mutation.mutate({
+      mediatorId: mediator.id,
+      bankAccountId: bankAccountId || null,
+      amount: allocatedTotal,
+      paymentDate: formData.get("paymentDate"),
+      reference: (formData.get("reference") as string)?.trim() || null,
+      notes: (formData.get("notes") as string)?.trim() || null,
+      allocations: orderAllocations,
+    });
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={onCancel}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record Payment from {mediator.name}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Orders covered by this payment</Label>
+            {payableOrders.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No orders with an outstanding refund for this mediator
+              </p>
+            ) : (
+              <div className="border rounded-md divide-y max-h-64 overflow-y-auto">
+                {payableOrders.map((order) => (
+                  <div
+                    key={order.id}
+                    className="flex items-center gap-3 p-3"
+                    data-testid={`payment-order-${order.id}`}
+                  >
+                    <Checkbox
+                      checked={order.id in allocations}
+                      onCheckedChange={(checked) => toggleOrder(order, checked === true)}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{order.productName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        #{order.orderId} · {formatCurrency(order.receivedAmount ?? 0)} of{" "}
+                        {formatCurrency(order.refundAmount)} received
+                      </p>
+                    </div>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className="w-28"
+                      disabled={!(order.id in allocations)}
+                      value={allocations[order.id] ?? ""}
+                      onChange={(e) =>
+                        setAllocations((prev) => ({ ...prev, [order.id]: e.target.value }))
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-sm font-medium text-right">
+              Total: {formatCurrency(allocatedTotal)}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="paymentDate">
+                Payment Date <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="paymentDate"
+                name="paymentDate"
+                type="date"
+                defaultValue={new Date().toISOString().split("T")[0]}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Received In</Label>
+              <Select value={bankAccountId} onValueChange={setBankAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select bank account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {bankAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.accountName} ({account.accountNumber})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="reference">UTR / Reference</Label>
+              <Input id="reference" name="reference" placeholder="e.g., 412345678901" />
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="notes">Notes</Label>
+              <Textarea id="notes" name="notes" placeholder="Optional notes about this payment" />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={mutation.isPending || allocatedTotal === 0}>
+              {mutation.isPending ? "Saving..." : "Record Payment"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,373 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCurrency } from "@/lib/currency";
+import type {
+  BankAccount,
+  BankStatementLineWithSuggestions,
+  ReconciliationSuggestion,
+} from "@shared/schema";
+import {
+  detectStatementLayout,
+  statementLayouts,
+  statementLayoutValues,
+  type StatementColumnMapping,
+  type StatementLayout,
+} from "@shared/bank-statement";
+import { CheckCircle2, EyeOff, RotateCcw, Upload } from "lucide-react";
+
+interface StatementReconciliationProps {
+  bankAccount: BankAccount;
+  onClose: () => void;
+}
+
+type LineFilter = "open" | "matched" | "ignored";
+
+const emptyMapping: StatementColumnMapping = {
+  dateColumn: "",
+  dateFormat: "dd/MM/yyyy",
+  narrationColumn: "",
+  referenceColumn: "",
+  creditColumn: "",
+  debitColumn: "",
+};
+
+const mappingFields: { key: keyof StatementColumnMapping; label: string; required?: boolean }[] = [
+  { key: "dateColumn", label: "Date Column", required: true },
+  { key: "dateFormat", label: "Date Format", required: true },
+  { key: "narrationColumn", label: "Narration Column", required: true },
+  { key: "creditColumn", label: "Credit Column", required: true },
+  { key: "debitColumn", label: "Debit Column" },
+  { key: "referenceColumn", label: "Reference Column" },
+];
+
+// Mapping saved on the bank account from its previous import
+function savedMapping(bankAccount: BankAccount): { layout: StatementLayout; mapping: StatementColumnMapping } | null {
+  if (!bankAccount.statementMapping) return null;
+  try {
+    return JSON.parse(bankAccount.statementMapping);
+  } catch {
+    return null;
+  }
+}
+
+function mappingFor(layout: StatementLayout): StatementColumnMapping {
+  return layout === "Custom" ? emptyMapping : statementLayouts[layout];
+}
+
+export function StatementReconciliation({ bankAccount, onClose }: StatementReconciliationProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const saved = savedMapping(bankAccount);
+
+  const [layout, setLayout] = useState<StatementLayout>(saved?.layout ?? "HDFC");
+  const [mapping, setMapping] = useState<StatementColumnMapping>(saved?.mapping ?? statementLayouts.HDFC);
+  const [statement, setStatement] = useState<{ fileName: string; csv: string } | null>(null);
+  const [filter, setFilter] = useState<LineFilter>("open");
+
+  const linesKey = ["/api/bank-accounts", bankAccount.id, "statement-lines"];
+
+  const { data: lines = [], isLoading } = useQuery<BankStatementLineWithSuggestions[]>({
+    queryKey: linesKey,
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/bank-accounts/${bankAccount.id}/statements`, {
+        fileName: statement?.fileName,
+        csv: statement?.csv,
+        layout,
+        mapping,
+      });
+      return res.json();
+    },
+    onSuccess: (summary: { imported: number; duplicates: number; debitsSkipped: number; invalidRows: number[] }) => {
+      queryClient.invalidateQueries({ queryKey: linesKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-accounts"] });
+      setStatement(null);
+      setFilter("open");
+      toast({
+        title: "Statement Imported",
+        description:
+          `${summary.imported} new credits imported` +
+          (summary.duplicates > 0 ? `, ${summary.duplicates} already imported` : "") +
+          (summary.invalidRows.length > 0 ? `, ${summary.invalidRows.length} rows could not be read` : ""),
+      });
+    },
+    onError: (error: Error) => handleError(error, "Failed to import bank statement"),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async ({ lineId, suggestion }: { lineId: string; suggestion: ReconciliationSuggestion }) => {
+      const res = await apiRequest("POST", `/api/statement-lines/${lineId}/confirm`, {
+        mediatorId: suggestion.mediatorId,
+        allocations: suggestion.allocations.map(({ orderId, amount }) => ({ orderId, amount })),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: linesKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: "Payment recorded from bank statement",
+      });
+    },
+    onError: (error: Error) => handleError(error, "Failed to confirm match"),
+  });
+
+  const ignoreMutation = useMutation({
+    mutationFn: async ({ lineId, ignored }: { lineId: string; ignored: boolean }) => {
+      const res = await apiRequest("PUT", `/api/statement-lines/${lineId}`, { ignored });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: linesKey });
+    },
+    onError: (error: Error) => handleError(error, "Failed to update statement line"),
+  });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const csv = event.target?.result as string;
+      setStatement({ fileName: file.name, csv });
+
+      // Switch to the bank's layout when the headers give it away
+      const detected = detectStatementLayout(csv);
+      if (detected !== "Custom" && detected !== layout) {
+        setLayout(detected);
+        setMapping(mappingFor(detected));
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const openLines = lines.filter((line) => !line.paymentId && !line.ignored);
+  const visibleLines = lines.filter((line) =>
+    filter === "open" ? !line.paymentId && !line.ignored :
+    filter === "matched" ? !!line.paymentId :
+    !line.paymentId && !!line.ignored
+  );
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reconcile {bankAccount.accountName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 border rounded-md p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Statement Layout</Label>
+              <Select
+                value={layout}
+                onValueChange={(value) => {
+                  const next = value as StatementLayout;
+                  setLayout(next);
+                  setMapping(mappingFor(next));
+                }}
+              >
+                <SelectTrigger data-testid="select-statement-layout">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {statementLayoutValues.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {value === "Custom" ? "Custom columns" : value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="statementFile">Statement CSV</Label>
+              <Input
+                id="statementFile"
+                type="file"
+                accept=".csv"
+                onChange={handleFile}
+                data-testid="input-statement-file"
+              />
+            </div>
+          </div>
+
+          {layout === "Custom" && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {mappingFields.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label className="text-xs">
+                    {field.label} {field.required && <span className="text-destructive">*</span>}
+                  </Label>
+                  <Input
+                    value={mapping[field.key] ?? ""}
+                    placeholder={field.key === "dateFormat" ? "dd/MM/yyyy" : "Column header"}
+                    onChange={(e) => setMapping((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={!statement || importMutation.isPending}
+              data-testid="button-import-statement"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {importMutation.isPending ? "Importing..." : "Import Statement"}
+            </Button>
+          </div>
+        </div>
+
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as LineFilter)}>
+          <TabsList>
+            <TabsTrigger value="open">To Reconcile ({openLines.length})</TabsTrigger>
+            <TabsTrigger value="matched">Matched</TabsTrigger>
+            <TabsTrigger value="ignored">Ignored</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value={filter} className="space-y-3">
+            {isLoading ? (
+              <div className="h-24 bg-muted rounded animate-pulse"></div>
+            ) : visibleLines.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                {filter === "open" ? "No credits waiting to be reconciled" : "Nothing here yet"}
+              </p>
+            ) : (
+              visibleLines.map((line) => (
+                <div key={line.id} className="border rounded-md p-3 space-y-3" data-testid={`statement-line-${line.id}`}>
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-semibold text-green-600">{formatCurrency(line.amount)}</p>
+                      <p className="text-sm break-words">{line.narration}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(line.transactionDate).toLocaleDateString()}
+                        {line.reference && ` · Ref ${line.reference}`}
+                      </p>
+                    </div>
+                    {filter === "open" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={ignoreMutation.isPending}
+                        onClick={() => ignoreMutation.mutate({ lineId: line.id, ignored: true })}
+                      >
+                        <EyeOff className="w-4 h-4 mr-1" />
+                        Ignore
+                      </Button>
+                    )}
+                    {filter === "ignored" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={ignoreMutation.isPending}
+                        onClick={() => ignoreMutation.mutate({ lineId: line.id, ignored: false })}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+
+                  {filter === "matched" && line.payment && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <CheckCircle2 className="w-4 h-4 text-green-600" />
+                      Paid by {line.payment.mediator?.name} for{" "}
+                      {line.payment.allocations.map((a) => `#${a.order?.orderId}`).join(", ")}
+                    </div>
+                  )}
+
+                  {filter === "open" && (
+                    line.suggestions.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">
+                        No pending orders match this credit. Record it from the Mediators page if it is a refund.
+                      </p>
+                    ) : (
+                      <div className="space-y-2">
+                        {line.suggestions.map((suggestion, index) => (
+                          <div key={index} className="flex items-start justify-between gap-3 bg-muted/50 rounded-md p-2">
+                            <div className="min-w-0 text-sm">
+                              <div className="flex items-center gap-2">
+                                <span className="font-medium">{suggestion.mediatorName}</span>
+                                <Badge variant={suggestion.score >= 80 ? "default" : "secondary"}>
+                                  {suggestion.score >= 80 ? "Strong match" : "Possible match"}
+                                </Badge>
+                              </div>
+                              {suggestion.allocations.map((allocation) => (
+                                <p key={allocation.orderId} className="text-xs">
+                                  #{allocation.orderNumber} · {allocation.productName} · {formatCurrency(allocation.amount)}
+                                  {allocation.amount < allocation.outstanding && ` of ${formatCurrency(allocation.outstanding)}`}
+                                </p>
+                              ))}
+                              <p className="text-xs text-muted-foreground">{suggestion.reasons.join(" · ")}</p>
+                            </div>
+                            <Button
+                              size="sm"
+                              disabled={confirmMutation.isPending}
+                              onClick={() => confirmMutation.mutate({ lineId: line.id, suggestion })}
+                              data-testid={`button-confirm-match-${line.id}-${index}`}
+                            >
+                              Confirm
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )
+                  )}
+                </div>
+              ))
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,318 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { workspaceRoleDescriptions, workspaceRoleLabels } from "@shared/workspace-roles";
+import type { WorkspaceMemberWithUser, WorkspaceRole } from "@shared/schema";
+import { Trash2, UserPlus, Users } from "lucide-react";
+
+const assignableRoles = ["manager", "operator", "viewer"] as const;
+
+const renameFormSchema = z.object({
+  name: z.string().trim().min(1, "Workspace name is required").max(80, "Workspace name is too long"),
+});
+
+const inviteFormSchema = z.object({
+  email: z.string().trim().email("Please enter a valid email"),
+  role: z.enum(assignableRoles),
+});
+
+type RenameFormData = z.infer<typeof renameFormSchema>;
+type InviteFormData = z.infer<typeof inviteFormSchema>;
+
+function memberDisplayName(member: WorkspaceMemberWithUser): string {
+  const name = [member.user?.firstName, member.user?.lastName].filter(Boolean).join(" ");
+  return name || member.email;
+}
+
+export function WorkspaceMembers() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { activeWorkspace, hasRole } = useWorkspace();
+  const isOwner = hasRole("owner");
+
+  const { data: members = [], isLoading } = useQuery<WorkspaceMemberWithUser[]>({
+    queryKey: ["/api/workspaces/current/members"],
+    enabled: !!activeWorkspace,
+  });
+
+  const renameForm = useForm<RenameFormData>({
+    resolver: zodResolver(renameFormSchema),
+    defaultValues: { name: "" },
+  });
+
+  const inviteForm = useForm<InviteFormData>({
+    resolver: zodResolver(inviteFormSchema),
+    defaultValues: { email: "", role: "operator" },
+  });
+
+  useEffect(() => {
+    if (activeWorkspace) {
+      renameForm.reset({ name: activeWorkspace.name });
+    }
+  }, [activeWorkspace?.id, activeWorkspace?.name]);
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: async (data: RenameFormData) => {
+      return await apiRequest("PUT", "/api/workspaces/current", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      toast({
+        title: "Success",
+        description: "Workspace renamed successfully",
+      });
+    },
+    onError: (error: Error) => handleError(error, "Failed to rename workspace. Please try again."),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: InviteFormData) => {
+      return await apiRequest("POST", "/api/workspaces/current/members", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces/current/members"] });
+      toast({
+        title: "Success",
+        description: "Member invited successfully",
+      });
+      inviteForm.reset({ email: "", role: inviteForm.getValues("role") });
+    },
+    onError: (error: Error) => handleError(error, "Failed to invite member. Please try again."),
+  });
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: WorkspaceRole }) => {
+      return await apiRequest("PUT", `/api/workspaces/current/members/${id}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces/current/members"] });
+      toast({
+        title: "Success",
+        description: "Member role updated successfully",
+      });
+    },
+    onError: (error: Error) => handleError(error, "Failed to update member role. Please try again."),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/workspaces/current/members/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces/current/members"] });
+      toast({
+        title: "Success",
+        description: "Member removed successfully",
+      });
+    },
+    onError: (error: Error) => handleError(error, "Failed to remove member. Please try again."),
+  });
+
+  const handleRemove = (member: WorkspaceMemberWithUser) => {
+    if (window.confirm(`Remove ${memberDisplayName(member)} from this workspace?`)) {
+      removeMemberMutation.mutate(member.id);
+    }
+  };
+
+  return (
+    <Card className="card-shadow border-l-4 border-l-teal-500">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <Users className="w-5 h-5 mr-2 text-teal-500" />
+          Workspace & Team
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Share orders, mediators and accounts with your team
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          {isOwner && (
+            <Form {...renameForm}>
+              <form
+                onSubmit={renameForm.handleSubmit((data) => renameMutation.mutate(data))}
+                className="flex items-end gap-2"
+              >
+                <FormField
+                  control={renameForm.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Workspace Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-rename-workspace" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" variant="outline" disabled={renameMutation.isPending} data-testid="button-rename-workspace">
+                  {renameMutation.isPending ? "Saving..." : "Rename"}
+                </Button>
+              </form>
+            </Form>
+          )}
+
+          <div>
+            <h4 className="font-medium mb-3">Members</h4>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading members...</p>
+            ) : (
+              <div className="divide-y border rounded-lg">
+                {members.map((member) => (
+                  <div
+                    key={member.id}
+                    className="flex items-center justify-between gap-3 p-3"
+                    data-testid={`row-member-${member.id}`}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium truncate">{memberDisplayName(member)}</p>
+                        {!member.userId && <Badge variant="outline">Pending</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                    </div>
+                    {isOwner && member.role !== "owner" ? (
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={member.role}
+                          onValueChange={(role) => changeRoleMutation.mutate({ id: member.id, role: role as WorkspaceRole })}
+                          disabled={changeRoleMutation.isPending}
+                        >
+                          <SelectTrigger className="w-32" data-testid={`select-member-role-${member.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {assignableRoles.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {workspaceRoleLabels[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemove(member)}
+                          disabled={removeMemberMutation.isPending}
+                          data-testid={`button-remove-member-${member.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge variant="secondary">{workspaceRoleLabels[member.role]}</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {isOwner && (
+            <div>
+              <h4 className="font-medium mb-3 flex items-center">
+                <UserPlus className="w-4 h-4 mr-2" />
+                Invite Member
+              </h4>
+              <Form {...inviteForm}>
+                <form
+                  onSubmit={inviteForm.handleSubmit((data) => inviteMutation.mutate(data))}
+                  className="space-y-3"
+                >
+                  <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem_auto] gap-2 items-start">
+                    <FormField
+                      control={inviteForm.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input type="email" placeholder="teammate@example.com" {...field} data-testid="input-invite-email" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={inviteForm.control}
+                      name="role"
+                      render={({ field }) => (
+                        <FormItem>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-invite-role">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {assignableRoles.map((role) => (
+                                <SelectItem key={role} value={role}>
+                                  {workspaceRoleLabels[role]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="submit" disabled={inviteMutation.isPending} data-testid="button-invite-member">
+                      {inviteMutation.isPending ? "Inviting..." : "Invite"}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {workspaceRoleDescriptions[inviteForm.watch("role")]}. Invites to people who have not
+                    signed in yet are accepted on their first login.
+                  </p>
+                </form>
+              </Form>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { workspaceRoleLabels } from "@shared/workspace-roles";
+
+const NEW_WORKSPACE = "__new__";
+
+const workspaceFormSchema = z.object({
+  name: z.string().trim().min(1, "Workspace name is required").max(80, "Workspace name is too long"),
+});
+
+type WorkspaceFormData = z.infer<typeof workspaceFormSchema>;
+
+export function WorkspaceSwitcher() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { workspaces, activeWorkspace } = useWorkspace();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const form = useForm<WorkspaceFormData>({
+    resolver: zodResolver(workspaceFormSchema),
+    defaultValues: { name: "" },
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  // Everything cached so far belongs to the previous workspace
+  const switchWorkspaceMutation = useMutation({
+    mutationFn: async (workspaceId: string) => {
+      return await apiRequest("PUT", "/api/workspaces/active", { workspaceId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+    onError: (error: Error) => handleError(error, "Failed to switch workspace. Please try again."),
+  });
+
+  const createWorkspaceMutation = useMutation({
+    mutationFn: async (data: WorkspaceFormData) => {
+      return await apiRequest("POST", "/api/workspaces", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+      toast({
+        title: "Success",
+        description: "Workspace created successfully",
+      });
+      form.reset();
+      setIsCreateOpen(false);
+    },
+    onError: (error: Error) => handleError(error, "Failed to create workspace. Please try again."),
+  });
+
+  const handleChange = (value: string) => {
+    if (value === NEW_WORKSPACE) {
+      setIsCreateOpen(true);
+      return;
+    }
+    if (value !== activeWorkspace?.id) {
+      switchWorkspaceMutation.mutate(value);
+    }
+  };
+
+  return (
+    <>
+      <Select
+        value={activeWorkspace?.id ?? ""}
+        onValueChange={handleChange}
+        disabled={switchWorkspaceMutation.isPending}
+      >
+        <SelectTrigger className="w-full" data-testid="select-workspace">
+          <SelectValue placeholder="Select workspace" />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map((workspace) => (
+            <SelectItem key={workspace.id} value={workspace.id}>
+              <span className="truncate">{workspace.name}</span>
+              <span className="ml-2 text-xs text-muted-foreground">{workspaceRoleLabels[workspace.role]}</span>
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={NEW_WORKSPACE} data-testid="option-new-workspace">
+            + New workspace
+          </SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Workspace</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((data) => createWorkspaceMutation.mutate(data))}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Workspace Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Review Team" {...field} data-testid="input-workspace-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={createWorkspaceMutation.isPending}
+                  data-testid="button-create-workspace"
+                >
+                  {createWorkspaceMutation.isPending ? "Creating..." : "Create Workspace"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
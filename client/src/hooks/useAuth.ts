@@ -1,8 +1,11 @@
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import type { User } from "@shared/schema";
 
+// isAdmin marks system administrators (ADMIN_EMAILS on the server)
+type AuthUser = User & { isAdmin?: boolean };
+
 export function useAuth() {
-  const { data: user, isLoading, refetch } = useQuery<User>({
+  const { data: user, isLoading, refetch } = useQuery<AuthUser>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
@@ -11,6 +14,7 @@ export function useAuth() {
     user,
     isLoading,
     isAuthenticated: !!user && user?.id !== "demo-user",
+    isAdmin: !!user?.isAdmin,
     refetch,
   };
 }
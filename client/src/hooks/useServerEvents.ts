@@ -0,0 +1,15 @@
+import { useEffect } from "react";
+import { subscribeToServerEvents } from "@/lib/queryClient";
+import { useWorkspace } from "@/hooks/useWorkspace";
+
+// Keep queries in sync with changes made by the cron jobs and other members.
+// The stream follows the active workspace, so it reconnects after a switch.
+export function useServerEvents() {
+  const { activeWorkspace } = useWorkspace();
+  const workspaceId = activeWorkspace?.id;
+
+  useEffect(() => {
+    if (!workspaceId) return;
+    return subscribeToServerEvents();
+  }, [workspaceId]);
+}
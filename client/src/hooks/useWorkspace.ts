@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import type { WorkspaceRole, WorkspaceWithRole } from "@shared/schema";
+import { hasWorkspaceRole } from "@shared/workspace-roles";
+
+export function useWorkspace() {
+  const { data: workspaces = [], isLoading } = useQuery<WorkspaceWithRole[]>({
+    queryKey: ["/api/workspaces"],
+  });
+
+  const activeWorkspace = workspaces.find((workspace) => workspace.isActive);
+  const role = activeWorkspace?.role;
+
+  return {
+    workspaces,
+    activeWorkspace,
+    role,
+    isLoading,
+    hasRole: (minimum: WorkspaceRole) => hasWorkspaceRole(role, minimum),
+  };
+}
@@ -7,6 +7,21 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Extract the server's `message` from an error thrown by throwIfResNotOk
+export function getApiErrorMessage(error: Error, fallback: string): string {
+  const match = /^\d{3}: ([\s\S]*)$/.exec(error.message);
+  if (!match) return fallback;
+  try {
+    return JSON.parse(match[1]).message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function isConflictError(error: Error): boolean {
+  return /^409: /.test(error.message);
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -55,3 +70,42 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// API paths whose queries are refetched on each /api/events event. Matched as
+// prefixes of the first query key segment, which some queries use for filters.
+const serverEventQueryPaths: Record<string, string[]> = {
+  "notification-created": ["/api/notifications"],
+  "notification-updated": ["/api/notifications"],
+  // Status changes can bring back notifications snoozed until the status changed
+  "order-updated": ["/api/orders", "/api/dashboard/stats", "/api/notifications"],
+  "orders-imported": ["/api/orders", "/api/dashboard/stats", "/api/activity-logs"],
+  "activity-log-created": ["/api/activity-logs"],
+};
+
+/**
+ * Listen to the server's change stream for the active workspace and refetch
+ * the affected queries. EventSource reconnects by itself; returns a function
+ * that closes the stream.
+ */
+export function subscribeToServerEvents(): () => void {
+  const source = new EventSource("/api/events", { withCredentials: true });
+
+  for (const [type, paths] of Object.entries(serverEventQueryPaths)) {
+    source.addEventListener(type, () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => paths.some((path) => String(query.queryKey[0]).startsWith(path)),
+      });
+    });
+  }
+
+  // An open order's activity timeline - its key joins to the logs path, however it is split
+  source.addEventListener("activity-log-created", (event) => {
+    const { orderId } = JSON.parse((event as MessageEvent<string>).data) as { orderId: string | null };
+    if (!orderId) return;
+    queryClient.invalidateQueries({
+      predicate: (query) => query.queryKey.join("/") === `/api/orders/${orderId}/logs`,
+    });
+  });
+
+  return () => source.close();
+}
@@ -0,0 +1,62 @@
+import { apiRequest } from "./queryClient";
+
+// Raised when this browser cannot be subscribed - the message is shown to the user
+export class PushSetupError extends Error {}
+
+export function isPushSupported(): boolean {
+  return "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration | undefined> {
+  if (!("serviceWorker" in navigator)) {
+    return Promise.resolve(undefined);
+  }
+  return navigator.serviceWorker.register("/sw.js").catch((error) => {
+    console.error("Service worker registration failed:", error);
+    return undefined;
+  });
+}
+
+// The VAPID key arrives base64url encoded, PushManager wants the raw bytes
+function decodeApplicationServerKey(key: string): Uint8Array {
+  const base64 = key.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(key.length / 4) * 4, "=");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+/**
+ * Ask for permission, subscribe this browser with the server's VAPID key and
+ * register the subscription with the server.
+ */
+export async function subscribeToPush(): Promise<void> {
+  if (!isPushSupported()) {
+    throw new PushSetupError("This browser does not support push notifications");
+  }
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new PushSetupError("Notifications are blocked for this site in your browser settings");
+  }
+
+  await registerServiceWorker();
+  const registration = await navigator.serviceWorker.ready;
+  const response = await apiRequest("GET", "/api/push/vapid-public-key");
+  const { publicKey } = (await response.json()) as { publicKey: string };
+
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: decodeApplicationServerKey(publicKey),
+  });
+  await apiRequest("POST", "/api/push/subscriptions", subscription.toJSON());
+}
+
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+  await apiRequest("DELETE", `/api/push/subscriptions?endpoint=${encodeURIComponent(subscription.endpoint)}`);
+  await subscription.unsubscribe();
+}
@@ -0,0 +1,166 @@
+/**
+ * Reads the first worksheet of an .xlsx file into rows of text, the same
+ * shape parseCsv returns. An .xlsx file is a zip of XML parts; the browser's
+ * DecompressionStream inflates them, so no spreadsheet library is needed.
+ * Cells formatted as dates come back as YYYY-MM-DD.
+ */
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipEntries(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end of central directory record sits in the last 64KB, before an optional comment
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error("The file is not a valid .xlsx workbook");
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  for (let i = 0; i < count && view.getUint32(offset, true) === 0x02014b50; i++) {
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.set(decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)), {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipText(bytes: Uint8Array, entries: Map<string, ZipEntry>, name: string): Promise<string | null> {
+  const entry = entries.get(name);
+  if (!entry) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start = entry.localHeaderOffset + 30 + view.getUint16(entry.localHeaderOffset + 26, true) + view.getUint16(entry.localHeaderOffset + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new Error(`Unsupported compression in ${name}`);
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return await new Response(stream).text();
+}
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, "application/xml");
+
+// Matched by local name, as some writers prefix the spreadsheet namespace
+const elements = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagNameNS("*", name));
+
+// Built-in number formats that display dates
+const builtInDateFormats = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Which cell styles (by index) format numbers as dates
+function readDateStyles(stylesXml: string | null): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!stylesXml) return dateStyles;
+
+  const styles = parseXml(stylesXml);
+  const customDateFormats = new Set(
+    elements(styles, "numFmt")
+      // Strip quoted text and [colour]/[locale] tags before looking for date parts
+      .filter((format) => /[dmy]/i.test((format.getAttribute("formatCode") ?? "").replace(/"[^"]*"|\[[^\]]*\]/g, "")))
+      .map((format) => Number(format.getAttribute("numFmtId")))
+  );
+  const cellFormats = elements(styles, "cellXfs")[0];
+  if (cellFormats) {
+    elements(cellFormats, "xf").forEach((format, index) => {
+      const id = Number(format.getAttribute("numFmtId") ?? 0);
+      if (builtInDateFormats.has(id) || customDateFormats.has(id)) dateStyles.add(index);
+    });
+  }
+  return dateStyles;
+}
+
+// Spreadsheet dates are days since 30 Dec 1899
+function serialToDate(serial: number): string {
+  const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86_400_000);
+  return date.toISOString().slice(0, 10);
+}
+
+// "B7" -> 1
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "";
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Path of the workbook's first sheet, from the workbook and its relationships
+async function firstSheetPath(bytes: Uint8Array, entries: Map<string, ZipEntry>): Promise<string> {
+  const workbookXml = await readZipText(bytes, entries, "xl/workbook.xml");
+  const relsXml = await readZipText(bytes, entries, "xl/_rels/workbook.xml.rels");
+  if (workbookXml && relsXml) {
+    const sheet = elements(parseXml(workbookXml), "sheet")[0];
+    const relationId = sheet?.getAttributeNS("http://schemas.openxmlformats.org/officeDocument/2006/relationships", "id");
+    const relation = elements(parseXml(relsXml), "Relationship").find((rel) => rel.getAttribute("Id") === relationId);
+    const target = relation?.getAttribute("Target");
+    if (target) {
+      return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return "xl/worksheets/sheet1.xml";
+}
+
+export async function readXlsxRows(buffer: ArrayBuffer): Promise<string[][]> {
+  const bytes = new Uint8Array(buffer);
+  const entries = readZipEntries(bytes);
+
+  const sheetXml = await readZipText(bytes, entries, await firstSheetPath(bytes, entries));
+  if (!sheetXml) {
+    throw new Error("The workbook has no worksheet");
+  }
+  const sharedStringsXml = await readZipText(bytes, entries, "xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? elements(parseXml(sharedStringsXml), "si").map((item) => elements(item, "t").map((text) => text.textContent ?? "").join(""))
+    : [];
+  const dateStyles = readDateStyles(await readZipText(bytes, entries, "xl/styles.xml"));
+
+  const rows: string[][] = [];
+  for (const rowElement of elements(parseXml(sheetXml), "row")) {
+    const row: string[] = [];
+    for (const cell of elements(rowElement, "c")) {
+      const reference = cell.getAttribute("r");
+      const index = reference ? columnIndex(reference) : row.length;
+      const type = cell.getAttribute("t");
+      const raw = elements(cell, "v")[0]?.textContent ?? "";
+
+      let value: string;
+      if (type === "s") {
+        value = sharedStrings[Number(raw)] ?? "";
+      } else if (type === "inlineStr") {
+        value = elements(cell, "t").map((text) => text.textContent ?? "").join("");
+      } else if (type === "b") {
+        value = raw === "1" ? "TRUE" : "FALSE";
+      } else if (raw !== "" && (!type || type === "n") && dateStyles.has(Number(cell.getAttribute("s") ?? 0))) {
+        value = serialToDate(Number(raw));
+      } else {
+        value = raw;
+      }
+
+      while (row.length < index) row.push("");
+      row[index] = value.trim();
+    }
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell !== ""));
+}
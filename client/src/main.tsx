@@ -1,5 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
 import "./index.css";
+import { registerServiceWorker } from "./lib/web-push";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// Needed for Web Push and to make the app installable
+registerServiceWorker();
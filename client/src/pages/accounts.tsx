@@ -16,7 +16,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Plus, Search } from "lucide-react";
-import type { Account, OrderWithRelations } from "@shared/schema";
+import type { AccountSummary, OrderWithRelations } from "@shared/schema";
 
 const platforms = ["Amazon", "Flipkart", "Myntra", "Meesho", "Ajio", "Nykaa", "Paytm Mall", "Snapdeal"];
 
@@ -24,7 +24,7 @@ export default function Accounts() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
   const [showAccountForm, setShowAccountForm] = useState(false);
-  const [selectedAccount, setSelectedAccount] = useState<Account | null>(null);
+  const [selectedAccount, setSelectedAccount] = useState<AccountSummary | null>(null);
   const [filters, setFilters] = useState({
     platform: "",
     search: "",
@@ -110,7 +110,7 @@ export default function Accounts() {
   }
 
   // Calculate stats for each account
-  const accountsWithStats = (accounts as Account[]).map((account: Account) => {
+  const accountsWithStats = (accounts as AccountSummary[]).map((account: AccountSummary) => {
     const accountOrders = (orders as OrderWithRelations[]).filter(order => order.accountId === account.id);
     const activeOrders = accountOrders.filter(order =>
       !["Refunded", "Cancelled"].includes(order.currentStatus)
@@ -226,10 +226,10 @@ export default function Accounts() {
                 <Plus className="w-6 h-6 lg:w-8 lg:h-8 text-muted-foreground" />
               </div>
               <h3 className="text-base lg:text-lg font-semibold mb-2">
-                {(accounts as Account[]).length === 0 ? "No accounts yet" : "No accounts found"}
+                {(accounts as AccountSummary[]).length === 0 ? "No accounts yet" : "No accounts found"}
               </h3>
               <p className="text-sm text-muted-foreground mb-4">
-                {(accounts as Account[]).length === 0
+                {(accounts as AccountSummary[]).length === 0
                   ? "Add your first e-commerce account to start managing orders"
                   : "Try adjusting your filters or add a new account"
                 }
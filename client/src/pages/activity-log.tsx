@@ -16,6 +16,7 @@ import {
   PackageCheck,
   Edit,
   Calendar,
+  IndianRupee,
   X
 } from "lucide-react";
 import { formatCurrency } from "@/lib/currency";
@@ -28,6 +29,10 @@ const activityTypeColors: Record<string, string> = {
   "Calendar Event Created": "bg-indigo-100 text-indigo-800 dark:bg-indigo-950 dark:text-indigo-300",
   "Calendar Event Updated": "bg-cyan-100 text-cyan-800 dark:bg-cyan-950 dark:text-cyan-300",
   "Calendar Event Deleted": "bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-300",
+  "Calendar Sync Conflict": "bg-orange-100 text-orange-800 dark:bg-orange-950 dark:text-orange-300",
+  "Payment Recorded": "bg-emerald-100 text-emerald-800 dark:bg-emerald-950 dark:text-emerald-300",
+  "Payment Removed": "bg-rose-100 text-rose-800 dark:bg-rose-950 dark:text-rose-300",
+  "Payment Requested": "bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-300",
 };
 
 const activityTypeIcons: Record<string, React.ReactNode> = {
@@ -38,6 +43,10 @@ const activityTypeIcons: Record<string, React.ReactNode> = {
   "Calendar Event Created": <Calendar className="w-4 h-4" />,
   "Calendar Event Updated": <Calendar className="w-4 h-4" />,
   "Calendar Event Deleted": <Calendar className="w-4 h-4" />,
+  "Calendar Sync Conflict": <Calendar className="w-4 h-4" />,
+  "Payment Recorded": <IndianRupee className="w-4 h-4" />,
+  "Payment Removed": <IndianRupee className="w-4 h-4" />,
+  "Payment Requested": <IndianRupee className="w-4 h-4" />,
 };
 
 export default function ActivityLog() {
@@ -132,6 +141,10 @@ export default function ActivityLog() {
                     <SelectItem value="Calendar Event Created">Calendar Event Created</SelectItem>
                     <SelectItem value="Calendar Event Updated">Calendar Event Updated</SelectItem>
                     <SelectItem value="Calendar Event Deleted">Calendar Event Deleted</SelectItem>
+                    <SelectItem value="Calendar Sync Conflict">Calendar Sync Conflict</SelectItem>
+                    <SelectItem value="Payment Recorded">Payment Recorded</SelectItem>
+                    <SelectItem value="Payment Removed">Payment Removed</SelectItem>
+                    <SelectItem value="Payment Requested">Payment Requested</SelectItem>
                   </SelectContent>
                 </Select>
 
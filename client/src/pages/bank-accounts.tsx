@@ -3,7 +3,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import MainLayout from "@/components/layout/main-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Plus, Pencil, Trash2, Building2 } from "lucide-react";
+import { Plus, Pencil, Trash2, Building2, FileSpreadsheet } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
@@ -16,12 +16,14 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { StatementReconciliation } from "@/components/payments/statement-reconciliation";
 
 export default function BankAccounts() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [showForm, setShowForm] = useState(false);
   const [editingAccount, setEditingAccount] = useState<any>(null);
+  const [reconcilingAccount, setReconcilingAccount] = useState<any>(null);
 
   const { data: bankAccounts = [], isLoading } = useQuery({
     queryKey: ["/api/bank-accounts"],
@@ -137,11 +139,21 @@ export default function BankAccounts() {
                     </div>
                   </div>
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-4">
                   <div>
                     <Label className="text-xs text-muted-foreground">Account Number</Label>
                     <p className="font-mono text-sm">{account.accountNumber}</p>
                   </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => setReconcilingAccount(account)}
+                    data-testid={`button-reconcile-${account.id}`}
+                  >
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    Reconcile Statement
+                  </Button>
                 </CardContent>
               </Card>
             ))}
@@ -163,6 +175,13 @@ export default function BankAccounts() {
           }}
         />
       )}
+
+      {reconcilingAccount && (
+        <StatementReconciliation
+          bankAccount={reconcilingAccount}
+          onClose={() => setReconcilingAccount(null)}
+        />
+      )}
     </MainLayout>
   );
 }
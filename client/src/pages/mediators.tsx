@@ -3,16 +3,21 @@ import { useQuery } from "@tanstack/react-query";
 import MainLayout from "@/components/layout/main-layout";
 import { MediatorCard } from "@/components/mediators/mediator-card";
 import { MediatorForm } from "@/components/mediators/mediator-form";
+import { PaymentForm } from "@/components/payments/payment-form";
+import { PaymentRequestDialog } from "@/components/mediators/payment-request-dialog";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Plus, ArrowLeft } from "lucide-react";
+import { isAwaitingPayment } from "@shared/payment-request";
 
 export default function Mediators() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
   const [showMediatorForm, setShowMediatorForm] = useState(false);
   const [selectedMediator, setSelectedMediator] = useState<any>(null);
+  const [paymentMediator, setPaymentMediator] = useState<any>(null);
+  const [paymentRequestMediator, setPaymentRequestMediator] = useState<any>(null);
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -62,6 +67,8 @@ export default function Mediators() {
     
     const totalInvestment = activeOrders.reduce((sum: number, order: any) => sum + order.orderAmount, 0);
     const expectedReturns = activeOrders.reduce((sum: number, order: any) => sum + order.refundAmount, 0);
+    const receivedAmount = activeOrders.reduce((sum: number, order: any) => sum + (order.receivedAmount ?? 0), 0);
+    const awaitingPayment = mediatorOrders.filter(isAwaitingPayment).length;
     const successRate = mediatorOrders.length > 0 
       ? (refundedOrders.length / mediatorOrders.length) * 100 
       : 0;
@@ -72,7 +79,9 @@ export default function Mediators() {
         activeOrders: activeOrders.length,
         totalInvestment,
         expectedReturns,
+        receivedAmount,
         successRate,
+        awaitingPayment,
       },
     };
   });
@@ -219,12 +228,30 @@ export default function Mediators() {
                   onViewOrders={(mediator) => {
                     window.location.href = `/orders?mediatorId=${mediator.id}`;
                   }}
+                  onRecordPayment={(mediator) => setPaymentMediator(mediator)}
+                  onRequestPayment={(mediator) => setPaymentRequestMediator(mediator)}
                 />
               </div>
             ))}
           </div>
         )}
       </div>
+
+      {paymentMediator && (
+        <PaymentForm
+          mediator={paymentMediator}
+          orders={orders as any[]}
+          onSuccess={() => setPaymentMediator(null)}
+          onCancel={() => setPaymentMediator(null)}
+        />
+      )}
+
+      {paymentRequestMediator && (
+        <PaymentRequestDialog
+          mediator={paymentRequestMediator}
+          onClose={() => setPaymentRequestMediator(null)}
+        />
+      )}
     </MainLayout>
   );
 }
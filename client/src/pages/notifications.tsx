@@ -3,7 +3,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import MainLayout from "@/components/layout/main-layout";
 import { NotificationItem } from "@/components/notifications/notification-item";
 import { Button } from "@/components/ui/button";
@@ -18,7 +18,7 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Bell, AlertTriangle, CheckCircle, Info, Calendar, Search } from "lucide-react";
-import type { NotificationWithOrder } from "@shared/schema";
+import type { NotificationWithOrder, SnoozeNotification } from "@shared/schema";
 
 export default function Notifications() {
   const { toast } = useToast();
@@ -107,6 +107,64 @@ export default function Notifications() {
     },
   });
 
+  const snoozeMutation = useMutation({
+    mutationFn: async ({ id, snooze }: { id: string; snooze: SnoozeNotification }) => {
+      return await apiRequest("PUT", `/api/notifications/${id}/snooze`, snooze);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      toast({
+        title: "Success",
+        description: "Notification snoozed",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to snooze notification"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (notificationId: string) => {
+      return await apiRequest("PUT", `/api/notifications/${notificationId}/dismiss`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to dismiss notification",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Load user settings for message templates
   const { data: userSettings } = useQuery({
     queryKey: ["/api/user-settings"],
@@ -204,6 +262,14 @@ export default function Notifications() {
     markAsReadMutation.mutate(notificationId);
   };
 
+  const handleSnooze = (notificationId: string, snooze: SnoozeNotification) => {
+    snoozeMutation.mutate({ id: notificationId, snooze });
+  };
+
+  const handleDismiss = (notificationId: string) => {
+    dismissMutation.mutate(notificationId);
+  };
+
   const handleMarkAllRead = () => {
     markAllAsReadMutation.mutate();
   };
@@ -381,6 +447,8 @@ export default function Notifications() {
                     onMarkRead={handleMarkRead}
                     onViewOrder={handleViewOrder}
                     onMessageMediator={handleMessageMediator}
+                    onSnooze={handleSnooze}
+                    onDismiss={handleDismiss}
                   />
                 ))}
               </div>
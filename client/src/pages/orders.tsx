@@ -35,11 +35,6 @@ export default function Orders() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
-  const { data: orders = [], isLoading: ordersLoading } = useQuery({
-    queryKey: ["/api/orders"],
-    enabled: isAuthenticated,
-  });
-
   const { data: mediators = [] } = useQuery({
     queryKey: ["/api/mediators"],
     enabled: isAuthenticated,
@@ -124,9 +119,7 @@ export default function Orders() {
 
       <div className="p-4 lg:p-8">
         <OrdersTable
-          orders={orders as any[]}
           mediators={mediators as any[]}
-          isLoading={ordersLoading}
           onNewOrder={() => setShowOrderForm(true)}
           onEditOrder={(order) => setEditingOrder(order)}
           initialStatusFilter={initialStatusFilter}
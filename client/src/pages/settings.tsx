@@ -6,7 +6,7 @@ import { z } from "zod";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import MainLayout from "@/components/layout/main-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -27,8 +27,27 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Download, Upload, FileText, Bell, User, Database, Settings as SettingsIcon, Calendar, MessageSquare, Loader2 } from "lucide-react";
+import { Download, Upload, FileText, Bell, User, Database, Settings as SettingsIcon, Calendar, MessageSquare, Loader2, AlarmClock, History, Workflow } from "lucide-react";
 import { CalendarConnectButton } from "@/components/calendar/calendar-connect-button";
+import { CalendarSyncStatus } from "@/components/calendar/calendar-sync-status";
+import { CalendarFeedLink } from "@/components/calendar/calendar-feed-link";
+import { WorkspaceMembers } from "@/components/workspace/workspace-members";
+import { MessageOutbox } from "@/components/messaging/message-outbox";
+import { MessageTemplateEditor } from "@/components/messaging/message-template-editor";
+import { ReminderRules } from "@/components/notifications/reminder-rules";
+import { StatusAutomations } from "@/components/orders/status-automations";
+import { OrderImport } from "@/components/orders/order-import";
+import { JobRunHistory } from "@/components/admin/job-run-history";
+import { PushSetupError, subscribeToPush, unsubscribeFromPush } from "@/lib/web-push";
+import type { MessageTemplateSettings } from "@shared/message-templates";
+import type { DigestFrequency, UserSettingsSelect } from "@shared/schema";
+import { commonTimezones, DEFAULT_TIMEZONE } from "@shared/timezone";
+import {
+  digestFrequencyLabels,
+  notificationPreferenceLabels,
+  type NotificationPreferenceKey,
+  type NotificationPreferenceSettings,
+} from "@shared/notification-preferences";
 
 const profileFormSchema = z.object({
   firstName: z.string().min(1, "First name is required"),
@@ -53,21 +72,16 @@ type PasswordFormData = z.infer<typeof passwordFormSchema>;
 
 export default function Settings() {
   const { toast } = useToast();
-  const { user, isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading, isAdmin } = useAuth();
   const queryClient = useQueryClient();
-  const [notificationSettings, setNotificationSettings] = useState({
-    emailNotifications: true,
-    pushNotifications: true,
-    smsNotifications: false,
-    orderDelivered: true,
-    refundFormDue: true,
-    paymentReceived: true,
-    orderDelayed: true,
-    weeklyReports: true,
+  const { data: notificationPreferences } = useQuery<NotificationPreferenceSettings>({
+    queryKey: ["/api/notification-preferences"],
+    enabled: !!isAuthenticated,
   });
 
   // Load user settings from backend
-  const { data: userSettings, isLoading: settingsLoading } = useQuery({
+  // Users who never saved settings get only the defaults back
+  const { data: userSettings, isLoading: settingsLoading } = useQuery<Partial<UserSettingsSelect>>({
     queryKey: ["/api/user-settings"],
     enabled: !!isAuthenticated,
   });
@@ -82,7 +96,11 @@ export default function Settings() {
 
   const [messagingSettings, setMessagingSettings] = useState({
     enabled: false,
-    selectedTemplate: "default",
+  });
+
+  const { data: templateSettings } = useQuery<MessageTemplateSettings>({
+    queryKey: ["/api/message-templates"],
+    enabled: !!isAuthenticated && messagingSettings.enabled,
   });
 
   // Load mediators for messaging tests
@@ -93,40 +111,19 @@ export default function Settings() {
 
   // Update local state when settings are loaded
   useEffect(() => {
-    if (userSettings && typeof userSettings === 'object') {
+    if (userSettings) {
       setCalendarSettings(prev => ({
         ...prev,
-        enabled: (userSettings as any).calendarEnabled === 1,
-        calendarId: (userSettings as any).calendarId || "",
+        enabled: userSettings.calendarEnabled === 1,
+        calendarId: userSettings.calendarId || "",
       }));
       setMessagingSettings(prev => ({
         ...prev,
-        enabled: (userSettings as any).messagingEnabled === 1,
+        enabled: userSettings.messagingEnabled === 1,
       }));
     }
   }, [userSettings]);
 
-  const messageTemplates = {
-    default: {
-      orderConfirmation: "Hi {mediatorName}, Order #{orderId} has been placed for {productName} on {platform}. Amount: {orderAmount}",
-      deliveryReminder: "Hi {mediatorName}, Please check delivery status for Order #{orderId}. Expected delivery: {deliveryDate}",
-      refundFormReminder: "Hi {mediatorName}, Refund form needs to be submitted for Order #{orderId} by {refundFormDate}",
-      paymentRequest: "Hi {mediatorName}, Please process payment for Order #{orderId}. Refund amount: {refundAmount}",
-    },
-    friendly: {
-      orderConfirmation: "Hello {mediatorName}! 😊 New order #{orderId} is ready - {productName} from {platform}. Total: {orderAmount}",
-      deliveryReminder: "Hey {mediatorName}! 📦 Could you please check on order #{orderId}? Expected delivery: {deliveryDate}",
-      refundFormReminder: "Hi {mediatorName}! ⏰ Don't forget the refund form for order #{orderId} - due by {refundFormDate}",
-      paymentRequest: "Hello {mediatorName}! 💰 Ready to process payment for order #{orderId}? Amount: {refundAmount}",
-    },
-    professional: {
-      orderConfirmation: "Dear {mediatorName}, Order #{orderId} has been successfully placed. Product: {productName}, Platform: {platform}, Amount: {orderAmount}",
-      deliveryReminder: "Dear {mediatorName}, This is a reminder to verify delivery status for Order #{orderId}. Scheduled delivery: {deliveryDate}",
-      refundFormReminder: "Dear {mediatorName}, Please ensure refund form submission for Order #{orderId} before {refundFormDate}",
-      paymentRequest: "Dear {mediatorName}, Please proceed with payment processing for Order #{orderId}. Amount due: {refundAmount}",
-    },
-  };
-
   // Redirect if not authenticated
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -149,7 +146,7 @@ export default function Settings() {
       lastName: user?.lastName || "",
       email: user?.email || "",
       phone: "",
-      timezone: "Asia/Kolkata",
+      timezone: DEFAULT_TIMEZONE,
       language: "English",
     },
   });
@@ -171,20 +168,21 @@ export default function Settings() {
         lastName: user.lastName || "",
         email: user.email || "",
         phone: "",
-        timezone: "Asia/Kolkata",
+        timezone: userSettings?.timezone || DEFAULT_TIMEZONE,
         language: "English",
       });
     }
-  }, [user, profileForm]);
+  }, [user, userSettings, profileForm]);
 
   const updateProfileMutation = useMutation({
     mutationFn: async (data: ProfileFormData) => {
-      // Note: This would typically update user profile via API
-      // For now, we'll just show a success message
-      return Promise.resolve();
+      // Only the timezone is stored for now - it drives reminders, digests and calendar times
+      const response = await apiRequest('PUT', '/api/user-settings', { timezone: data.timezone });
+      return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user-settings"] });
       toast({
         title: "Success",
         description: "Profile updated successfully",
@@ -204,7 +202,7 @@ export default function Settings() {
       }
       toast({
         title: "Error",
-        description: "Failed to update profile",
+        description: getApiErrorMessage(error, "Failed to update profile"),
         variant: "destructive",
       });
     },
@@ -242,6 +240,163 @@ export default function Settings() {
     },
   });
 
+  // Each notification switch is saved as soon as it is toggled
+  const updateNotificationPreferenceMutation = useMutation({
+    mutationFn: async ({ key, enabled }: { key: NotificationPreferenceKey; enabled: boolean }) => {
+      // Push needs this browser subscribed first - switching it off unsubscribes this browser only
+      if (key === "pushNotifications") {
+        await (enabled ? subscribeToPush() : unsubscribeFromPush());
+      }
+      const response = await apiRequest('PUT', '/api/notification-preferences', { [key]: enabled ? 1 : 0 });
+      return (await response.json()) as NotificationPreferenceSettings;
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(["/api/notification-preferences"], preferences);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error instanceof PushSetupError
+          ? error.message
+          : getApiErrorMessage(error, "Failed to update notification preferences"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDigestFrequencyMutation = useMutation({
+    mutationFn: async (digestFrequency: DigestFrequency) => {
+      const response = await apiRequest('PUT', '/api/notification-preferences', { digestFrequency });
+      return (await response.json()) as NotificationPreferenceSettings;
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(["/api/notification-preferences"], preferences);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to update digest frequency"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateQuietHoursMutation = useMutation({
+    mutationFn: async (quietHours: Pick<NotificationPreferenceSettings, "quietHoursStart" | "quietHoursEnd">) => {
+      const response = await apiRequest('PUT', '/api/notification-preferences', quietHours);
+      return (await response.json()) as NotificationPreferenceSettings;
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(["/api/notification-preferences"], preferences);
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to update quiet hours"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testDigestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/digest/test');
+      return (await response.json()) as { status: string; recipient: string };
+    },
+    onSuccess: ({ status, recipient }) => {
+      toast({
+        title: "Success",
+        description: status === "sent"
+          ? `Digest sent to ${recipient}`
+          : `Digest queued for ${recipient} - it will be retried from the message outbox`,
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to send test digest"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testPushMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/push/test');
+      return (await response.json()) as { sent: number; failed: number };
+    },
+    onSuccess: ({ sent, failed }) => {
+      toast({
+        title: "Success",
+        description: failed > 0
+          ? `Test notification sent to ${sent} of ${sent + failed} browsers`
+          : `Test notification sent to ${sent} ${sent === 1 ? "browser" : "browsers"}`,
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to send test notification"),
+        variant: "destructive",
+      });
+    },
+  });
+
   // Calendar settings mutation
   const updateCalendarMutation = useMutation({
     mutationFn: async (settings: any) => {
@@ -317,12 +472,48 @@ export default function Settings() {
     },
   });
 
+  // Pull changes made in Google Calendar now instead of waiting for the next sync
+  const syncCalendarMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/calendar/sync');
+      return response.json();
+    },
+    onSuccess: (data: { applied: number; conflicts: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/sync-jobs"] });
+      toast({
+        title: "Success",
+        description: data.applied + data.conflicts > 0
+          ? `${data.applied + data.conflicts} orders updated from Google Calendar${data.conflicts > 0 ? ` (${data.conflicts} conflicts resolved)` : ""}`
+          : "Calendar is up to date",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to sync calendar"),
+        variant: "destructive",
+      });
+    },
+  });
+
   // Messaging settings mutation
   const updateMessagingMutation = useMutation({
     mutationFn: async (settings: any) => {
       const response = await apiRequest('PUT', '/api/user-settings', {
         messagingEnabled: settings.enabled ? 1 : 0,
-        messageTemplates: JSON.stringify({ selectedTemplate: settings.selectedTemplate }),
       });
       return response.json();
     },
@@ -358,15 +549,17 @@ export default function Settings() {
     mutationFn: async () => {
       const testMessageData = {
         messageType: "test",
-        template: messagingSettings.selectedTemplate,
+        template: templateSettings?.style ?? "default",
         mediatorId: mediators[0]?.id || null, // Use first mediator for testing
       };
-      return await apiRequest("POST", "/api/messaging/test", testMessageData);
+      const response = await apiRequest("POST", "/api/messaging/test", testMessageData);
+      return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { success: boolean; message: string; details: { sentVia: string } }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
       toast({
-        title: "Test Message Sent",
-        description: "A test message has been sent to the mediator.",
+        title: result.success ? "Test Message Sent" : "Test Message Queued",
+        description: `${result.message} (via ${result.details.sentVia})`,
       });
     },
     onError: (error: Error) => {
@@ -381,9 +574,10 @@ export default function Settings() {
         }, 500);
         return;
       }
+      queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
       toast({
         title: "Failed to Send Test Message",
-        description: "Could not send test message. Please try again.",
+        description: getApiErrorMessage(error, "Could not send test message. Please try again."),
         variant: "destructive",
       });
     },
@@ -475,203 +669,6 @@ export default function Settings() {
     }
   };
 
-  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-    
-    if (!file.name.endsWith('.csv')) {
-      toast({
-        title: "Invalid File",
-        description: "Please select a CSV file",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    toast({
-      title: "Processing Import",
-      description: "Reading and validating CSV file...",
-    });
-    
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      try {
-        const text = e.target?.result as string;
-        const lines = text.split('\n').filter(line => line.trim());
-        
-        if (lines.length < 2) {
-          toast({
-            title: "Invalid File",
-            description: "CSV file must contain headers and at least one data row",
-            variant: "destructive",
-          });
-          return;
-        }
-        
-        const headers = lines[0];
-        const dataRows = lines.slice(1);
-        
-        // Better CSV parsing that handles quoted values properly
-        const parseCsvRow = (row: string): string[] => {
-          const result = [];
-          let current = '';
-          let inQuotes = false;
-          
-          for (let i = 0; i < row.length; i++) {
-            const char = row[i];
-            const nextChar = row[i + 1];
-            
-            if (char === '"') {
-              if (inQuotes && nextChar === '"') {
-                current += '"';
-                i++; // Skip next quote
-              } else {
-                inQuotes = !inQuotes;
-              }
-            } else if (char === ',' && !inQuotes) {
-              result.push(current.trim());
-              current = '';
-            } else {
-              current += char;
-            }
-          }
-          result.push(current.trim());
-          return result;
-        };
-        
-        const csvData = dataRows.map(parseCsvRow).filter(row => row.some(cell => cell.length > 0));
-        
-        if (csvData.length === 0) {
-          toast({
-            title: "No Data Found",
-            description: "CSV file contains no valid data rows",
-            variant: "destructive",
-          });
-          return;
-        }
-        
-        const res = await apiRequest('POST', '/api/import/orders', { csvData });
-        const response = await res.json();
-        
-        console.log('Import response:', response);
-        
-        // Ensure response has expected structure
-        if (!response || typeof response !== 'object') {
-          console.error('Invalid response structure:', response);
-          toast({
-            title: "❌ Import Failed",
-            description: "Invalid response from server",
-            variant: "destructive",
-          });
-          return;
-        }
-        
-        // Display results in UI
-        const statusDiv = document.getElementById('import-status');
-        const resultsDiv = document.getElementById('import-results');
-        
-        // Check if response indicates success
-        const isSuccess = response.success === true && (response.imported || 0) > 0;
-        const importedCount = response.imported || 0;
-        const errorCount = response.errors || 0;
-        
-        if (statusDiv && resultsDiv) {
-          statusDiv.className = isSuccess
-            ? 'bg-green-50 border border-green-200 rounded-lg p-4 mb-4'
-            : 'bg-red-50 border border-red-200 rounded-lg p-4 mb-4';
-          
-          const titleColor = isSuccess ? 'text-green-800' : 'text-red-800';
-          const textColor = isSuccess ? 'text-green-700' : 'text-red-700';
-          
-          let resultHTML = `<h5 class="font-medium ${titleColor} mb-2">Import Results</h5>`;
-          resultHTML += `<div class="text-sm ${textColor} space-y-1">`;
-          
-          if (response.success === true) {
-            if (importedCount > 0) {
-              resultHTML += `<p><strong>✅ Success:</strong> ${importedCount} orders imported successfully</p>`;
-              
-              if (errorCount > 0) {
-                resultHTML += `<p><strong>⚠️ Errors:</strong> ${errorCount} rows failed to import</p>`;
-                if (response.errorDetails && response.errorDetails.length > 0) {
-                  resultHTML += `<details class="mt-2"><summary class="cursor-pointer font-medium">View Failed Rows</summary>`;
-                  resultHTML += `<ul class="mt-2 ml-4 space-y-1">`;
-                  response.errorDetails.forEach((error: any) => {
-                    resultHTML += `<li>• <strong>Row ${error.row}:</strong> ${error.error}</li>`;
-                  });
-                  resultHTML += `</ul></details>`;
-                }
-              }
-              
-              toast({
-                title: "✅ Import Successful!",
-                description: `Successfully imported ${importedCount} orders${errorCount > 0 ? `. ${errorCount} rows had errors.` : '.'}`,
-              });
-            } else {
-              resultHTML += `<p><strong>❌ No orders imported</strong></p>`;
-              if (response.errorDetails && response.errorDetails.length > 0) {
-                resultHTML += `<p>Errors found in ${errorCount} rows:</p>`;
-                resultHTML += `<ul class="mt-2 ml-4 space-y-1">`;
-                response.errorDetails.forEach((error: any) => {
-                  resultHTML += `<li>• <strong>Row ${error.row}:</strong> ${error.error}</li>`;
-                });
-                resultHTML += `</ul>`;
-              }
-              
-              toast({
-                title: "❌ Import Failed",
-                description: `No orders were imported. ${errorCount} errors found.`,
-                variant: "destructive",
-              });
-            }
-          } else {
-            resultHTML += `<p><strong>❌ Import failed:</strong> ${response.message || "Server error occurred"}</p>`;
-            
-            toast({
-              title: "❌ Import Failed",
-              description: response.message || "Server error occurred",
-              variant: "destructive",
-            });
-          }
-          
-          resultHTML += `</div>`;
-          resultsDiv.innerHTML = resultHTML;
-          statusDiv.classList.remove('hidden');
-        }
-        
-        // Also log to console for debugging
-        if (response.success && response.imported > 0) {
-          console.group('✅ Import Results:');
-          console.log(`Successfully imported: ${response.imported} orders`);
-          if (response.errors > 0) {
-            console.log(`Failed rows: ${response.errors}`);
-            console.log('Error details:', response.errorDetails);
-          }
-          console.groupEnd();
-        } else {
-          console.group('❌ Import Failed:');
-          console.log('Response:', response);
-          if (response.errorDetails) {
-            console.log('Error details:', response.errorDetails);
-          }
-          console.groupEnd();
-        }
-        
-        // Clear the file input
-        event.target.value = '';
-        
-      } catch (error) {
-        console.error('Import error:', error);
-        toast({
-          title: "Import Failed", 
-          description: "Failed to process CSV file. Please check the format.",
-          variant: "destructive",
-        });
-      }
-    };
-    
-    reader.readAsText(file);
-  };
-
   const downloadTemplate = () => {
     const link = document.createElement('a');
     link.href = '/order-import-template.csv';
@@ -792,15 +789,18 @@ export default function Settings() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Timezone</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <Select onValueChange={field.onChange} value={field.value}>
                             <FormControl>
                               <SelectTrigger data-testid="select-timezone">
                                 <SelectValue placeholder="Select timezone" />
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              <SelectItem value="Asia/Kolkata">Asia/Kolkata (GMT+5:30)</SelectItem>
-                              <SelectItem value="Asia/Mumbai">Asia/Mumbai (GMT+5:30)</SelectItem>
+                              {Array.from(new Set<string>([...commonTimezones, field.value])).map((timezone) => (
+                                <SelectItem key={timezone} value={timezone}>
+                                  {timezone.replace(/_/g, " ")}
+                                </SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                           <FormMessage />
@@ -845,6 +845,8 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          <WorkspaceMembers />
+
           {/* Security Settings */}
           <Card className="card-shadow border-l-4 border-l-orange-500">
             <CardHeader>
@@ -941,36 +943,152 @@ export default function Settings() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {Object.entries(notificationSettings).map(([key, value]) => (
+                {(Object.keys(notificationPreferenceLabels) as NotificationPreferenceKey[]).map((key) => (
                   <div key={key} className="flex items-center justify-between">
                     <div>
-                      <h4 className="font-medium">
-                        {key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
-                      </h4>
-                      <p className="text-sm text-muted-foreground">
-                        {key === 'emailNotifications' && 'Receive order updates via email'}
-                        {key === 'pushNotifications' && 'Receive browser notifications'}
-                        {key === 'smsNotifications' && 'Receive SMS notifications'}
-                        {key === 'orderDelivered' && 'Get notified when orders are delivered'}
-                        {key === 'refundFormDue' && 'Get reminders for refund form submissions'}
-                        {key === 'paymentReceived' && 'Get notified when payments are received'}
-                        {key === 'orderDelayed' && 'Get notified about delayed orders'}
-                        {key === 'weeklyReports' && 'Receive weekly summary reports'}
-                      </p>
+                      <h4 className="font-medium">{notificationPreferenceLabels[key].title}</h4>
+                      <p className="text-sm text-muted-foreground">{notificationPreferenceLabels[key].description}</p>
+                      {key === "pushNotifications" && notificationPreferences?.pushNotifications === 1 && (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs"
+                          onClick={() => testPushMutation.mutate()}
+                          disabled={testPushMutation.isPending}
+                          data-testid="button-test-push"
+                        >
+                          {testPushMutation.isPending ? "Sending..." : "Send test notification"}
+                        </Button>
+                      )}
+                      {key === "weeklyReports" && notificationPreferences?.weeklyReports === 1 && (
+                        <Select
+                          value={notificationPreferences.digestFrequency}
+                          onValueChange={(value) => updateDigestFrequencyMutation.mutate(value as DigestFrequency)}
+                          disabled={updateDigestFrequencyMutation.isPending}
+                        >
+                          <SelectTrigger className="mt-2 h-8 w-48" data-testid="select-digest-frequency">
+                            <SelectValue placeholder="Select frequency" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(digestFrequencyLabels) as DigestFrequency[]).map((frequency) => (
+                              <SelectItem key={frequency} value={frequency}>
+                                {digestFrequencyLabels[frequency]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {key === "weeklyReports" && notificationPreferences?.weeklyReports === 1 && (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="block h-auto p-0 text-xs"
+                          onClick={() => testDigestMutation.mutate()}
+                          disabled={testDigestMutation.isPending}
+                          data-testid="button-test-digest"
+                        >
+                          {testDigestMutation.isPending ? "Sending..." : "Send me a digest now"}
+                        </Button>
+                      )}
                     </div>
                     <Switch
-                      checked={value}
-                      onCheckedChange={(checked) => 
-                        setNotificationSettings(prev => ({ ...prev, [key]: checked }))
+                      checked={notificationPreferences?.[key] === 1}
+                      onCheckedChange={(checked) =>
+                        updateNotificationPreferenceMutation.mutate({ key, enabled: checked })
                       }
+                      disabled={!notificationPreferences || updateNotificationPreferenceMutation.isPending}
                       data-testid={`switch-${key}`}
                     />
                   </div>
                 ))}
+
+                <div className="flex items-center justify-between border-t pt-4">
+                  <div>
+                    <h4 className="font-medium">Quiet Hours</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Hold push and email reminders overnight and deliver them when quiet hours end
+                    </p>
+                    {notificationPreferences?.quietHoursStart && notificationPreferences.quietHoursEnd && (
+                      <div className="mt-2 flex items-center gap-2">
+                        <Input
+                          type="time"
+                          className="h-8 w-32"
+                          defaultValue={notificationPreferences.quietHoursStart}
+                          onBlur={(event) => {
+                            if (event.target.value && event.target.value !== notificationPreferences.quietHoursStart) {
+                              updateQuietHoursMutation.mutate({
+                                quietHoursStart: event.target.value,
+                                quietHoursEnd: notificationPreferences.quietHoursEnd,
+                              });
+                            }
+                          }}
+                          disabled={updateQuietHoursMutation.isPending}
+                          data-testid="input-quiet-hours-start"
+                        />
+                        <span className="text-sm text-muted-foreground">to</span>
+                        <Input
+                          type="time"
+                          className="h-8 w-32"
+                          defaultValue={notificationPreferences.quietHoursEnd}
+                          onBlur={(event) => {
+                            if (event.target.value && event.target.value !== notificationPreferences.quietHoursEnd) {
+                              updateQuietHoursMutation.mutate({
+                                quietHoursStart: notificationPreferences.quietHoursStart,
+                                quietHoursEnd: event.target.value,
+                              });
+                            }
+                          }}
+                          disabled={updateQuietHoursMutation.isPending}
+                          data-testid="input-quiet-hours-end"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <Switch
+                    checked={!!notificationPreferences?.quietHoursStart && !!notificationPreferences.quietHoursEnd}
+                    onCheckedChange={(checked) =>
+                      updateQuietHoursMutation.mutate(
+                        checked
+                          ? { quietHoursStart: "22:00", quietHoursEnd: "08:00" }
+                          : { quietHoursStart: null, quietHoursEnd: null }
+                      )
+                    }
+                    disabled={!notificationPreferences || updateQuietHoursMutation.isPending}
+                    data-testid="switch-quiet-hours"
+                  />
+                </div>
               </div>
             </CardContent>
           </Card>
 
+          {/* Reminder Rules */}
+          <Card className="card-shadow border-l-4 border-l-amber-500">
+            <CardHeader>
+              <CardTitle className="flex items-center text-lg">
+                <AlarmClock className="w-5 h-5 mr-2 text-amber-500" />
+                Reminder Rules
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">Choose which order dates and statuses raise reminders</p>
+            </CardHeader>
+            <CardContent>
+              <ReminderRules />
+            </CardContent>
+          </Card>
+
+          {/* Status Automations */}
+          <Card className="card-shadow border-l-4 border-l-teal-500">
+            <CardHeader>
+              <CardTitle className="flex items-center text-lg">
+                <Workflow className="w-5 h-5 mr-2 text-teal-500" />
+                Status Automations
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">Move orders to the next status automatically once dates pass</p>
+            </CardHeader>
+            <CardContent>
+              <StatusAutomations />
+            </CardContent>
+          </Card>
+
           {/* Application Preferences */}
           <Card className="card-shadow border-l-4 border-l-purple-500">
             <CardHeader>
@@ -1085,6 +1203,24 @@ export default function Settings() {
                         >
                           {testCalendarMutation.isPending ? "Testing..." : "Test Connection"}
                         </Button>
+                        <Button
+                          onClick={() => syncCalendarMutation.mutate()}
+                          disabled={syncCalendarMutation.isPending || !userSettings?.googleAccessToken}
+                          variant="outline"
+                          size="sm"
+                          data-testid="button-sync-calendar"
+                        >
+                          {syncCalendarMutation.isPending ? "Syncing..." : "Sync Now"}
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground mb-3">
+                        Moving or deleting a delivery or refund form event in Google Calendar updates the order.
+                        {userSettings?.calendarLastSyncedAt &&
+                          ` Last synced ${new Date(userSettings.calendarLastSyncedAt).toLocaleString()}.`}
+                      </p>
+
+                      <div className="mb-4">
+                        <CalendarSyncStatus />
                       </div>
 
                       <div className="mt-1 p-4 bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-950 dark:to-purple-950 rounded-lg border border-blue-200 dark:border-blue-800">
@@ -1174,6 +1310,10 @@ export default function Settings() {
 
                   </div>
                 )}
+
+                <div className="pt-4 border-t">
+                  <CalendarFeedLink />
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -1207,48 +1347,7 @@ export default function Settings() {
 
                 {messagingSettings.enabled && (
                   <div className="space-y-4 pl-4 border-l-2 border-orange-100">
-                    <div>
-                      <label className="text-sm font-medium">Message Template Style</label>
-                      <Select 
-                        value={messagingSettings.selectedTemplate} 
-                        onValueChange={(value) => {
-                          setMessagingSettings(prev => ({ ...prev, selectedTemplate: value }));
-                          updateMessagingMutation.mutate({ ...messagingSettings, selectedTemplate: value });
-                        }}
-                        disabled={updateMessagingMutation.isPending}
-                      >
-                        <SelectTrigger className="mt-1" data-testid="select-message-template">
-                          <SelectValue placeholder="Select template style" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="default">Default - Simple and clear</SelectItem>
-                          <SelectItem value="friendly">Friendly - Casual with emojis</SelectItem>
-                          <SelectItem value="professional">Professional - Formal business tone</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-
-                    <div className="space-y-3">
-                      <h5 className="font-medium">Template Preview</h5>
-                      <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 space-y-2">
-                        <div>
-                          <span className="text-xs font-medium text-muted-foreground">Order Confirmation:</span>
-                          <p className="text-sm">{messageTemplates[messagingSettings.selectedTemplate as keyof typeof messageTemplates].orderConfirmation}</p>
-                        </div>
-                        <div>
-                          <span className="text-xs font-medium text-muted-foreground">Delivery Reminder:</span>
-                          <p className="text-sm">{messageTemplates[messagingSettings.selectedTemplate as keyof typeof messageTemplates].deliveryReminder}</p>
-                        </div>
-                        <div>
-                          <span className="text-xs font-medium text-muted-foreground">Refund Form Reminder:</span>
-                          <p className="text-sm">{messageTemplates[messagingSettings.selectedTemplate as keyof typeof messageTemplates].refundFormReminder}</p>
-                        </div>
-                        <div>
-                          <span className="text-xs font-medium text-muted-foreground">Payment Request:</span>
-                          <p className="text-sm">{messageTemplates[messagingSettings.selectedTemplate as keyof typeof messageTemplates].paymentRequest}</p>
-                        </div>
-                      </div>
-                    </div>
+                    <MessageTemplateEditor />
 
                     <Button
                       className="w-full"
@@ -1273,6 +1372,8 @@ export default function Settings() {
                         Add a mediator first to test messaging
                       </p>
                     )}
+
+                    <MessageOutbox />
                   </div>
                 )}
               </div>
@@ -1365,66 +1466,43 @@ export default function Settings() {
                     Import Orders
                   </h4>
                   <div className="space-y-4">
-                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
-                      <h5 className="font-medium text-blue-800 mb-2">📝 Before Importing:</h5>
-                      <div className="text-sm text-blue-700 space-y-1">
-                        <p>• <strong>Download the template first</strong> - it shows the correct format</p>
-                        <p>• <strong>Account Name:</strong> Must match exactly with accounts you've created (case-sensitive)</p>
-                        <p>• <strong>Mediator Name:</strong> Must match exactly with mediators you've created (case-sensitive)</p>
-                        <p>• <strong>Bank Account Name:</strong> Optional - must match exactly with bank accounts you've created</p>
-                        <p>• <strong>Tip:</strong> Create accounts, mediators, and bank accounts first, then use their exact names in the CSV</p>
-                        <p>• <strong>Order amounts:</strong> Enter in rupees (e.g., 1500 for ₹1500)</p>
-                        <p>• <strong>Dates:</strong> Use YYYY-MM-DD format (e.g., 2024-01-15)</p>
-                        <p>• <strong>Status:</strong> Use: Ordered, Delivered, Refund Requested, Refund Approved, Refunded, Cancelled, Returned, Disputed</p>
-                      </div>
-                    </div>
-                    
-                    {/* Import Status Display */}
-                    <div id="import-status" className="hidden">
-                      <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-                        <h5 className="font-medium text-green-800 mb-2">Import Status</h5>
-                        <div id="import-results" className="text-sm text-green-700"></div>
-                      </div>
-                    </div>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium mb-2">
-                          Upload CSV File
-                        </label>
-                        <Input
-                          type="file"
-                          accept=".csv"
-                          onChange={handleImport}
-                          data-testid="input-import-file"
-                          className="border-2 border-dashed border-gray-300 hover:border-blue-500 transition-colors"
-                        />
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Select a CSV file formatted according to the template
-                        </p>
-                      </div>
-                      
-                      <div className="flex flex-col justify-center">
-                        <Button
-                          variant="outline"
-                          onClick={downloadTemplate}
-                          data-testid="button-download-template"
-                          className="mb-2 border-blue-500 text-blue-600 hover:bg-blue-50"
-                        >
-                          <FileText className="w-4 h-4 mr-2" />
-                          Download Template
-                        </Button>
-                        <p className="text-xs text-muted-foreground">
-                          Get the CSV template with proper format and sample data
-                        </p>
-                      </div>
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <p className="text-sm text-muted-foreground">
+                        Create the accounts, mediators and bank accounts first - rows are matched to them by name. Amounts are in rupees.
+                      </p>
+                      <Button
+                        variant="outline"
+                        onClick={downloadTemplate}
+                        data-testid="button-download-template"
+                        className="border-blue-500 text-blue-600 hover:bg-blue-50"
+                      >
+                        <FileText className="w-4 h-4 mr-2" />
+                        Download Template
+                      </Button>
                     </div>
+                    <OrderImport />
                   </div>
                 </div>
               </div>
             </CardContent>
           </Card>
 
+          {/* Scheduled Jobs - server-wide, administrators only */}
+          {isAdmin && (
+            <Card className="card-shadow border-l-4 border-l-slate-500">
+              <CardHeader>
+                <CardTitle className="flex items-center text-lg">
+                  <History className="w-5 h-5 mr-2 text-slate-500" />
+                  Scheduled Jobs
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">Run history of the background jobs across all server instances</p>
+              </CardHeader>
+              <CardContent>
+                <JobRunHistory />
+              </CardContent>
+            </Card>
+          )}
+
         </div>
       </div>
     </MainLayout>
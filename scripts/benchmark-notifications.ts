@@ -0,0 +1,181 @@
+/**
+ * Benchmark fixture for the hourly reminder check (CronJobService.checkAndCreateNotifications).
+ *
+ *   npx tsx scripts/benchmark-notifications.ts                 # in memory, 50,000 orders
+ *   npx tsx scripts/benchmark-notifications.ts --orders 10000
+ *   DATABASE_URL=... npx tsx scripts/benchmark-notifications.ts --db
+ *
+ * In memory it times matching and planning for a first run, when every
+ * reminder is new, and a steady-state run, when they were all created
+ * already. With --db it seeds a throwaway user and workspace with the orders,
+ * runs the real check twice while counting queries, then deletes them again.
+ */
+import { randomUUID } from "crypto";
+import { parseArgs } from "util";
+import { addDays, subDays, startOfDay } from "date-fns";
+import {
+  collectReminderMatches,
+  defaultReminderRules,
+  planReminderNotifications,
+  type KeyedReminderMatch,
+} from "../shared/reminder-rules";
+import type { NotificationKeyState, OrderWithRelations, ReminderRule } from "../shared/schema";
+
+const DEFAULT_ORDER_COUNT = 50_000;
+
+function readArgs() {
+  try {
+    return parseArgs({
+      options: {
+        orders: { type: "string" },
+        db: { type: "boolean", default: false },
+      },
+    }).values;
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+}
+
+const args = readArgs();
+if (args.orders !== undefined && !/^[1-9]\d*$/.test(args.orders)) {
+  console.error(`--orders must be a positive whole number, got "${args.orders}"`);
+  process.exit(1);
+}
+const orderCount = args.orders !== undefined ? Number(args.orders) : DEFAULT_ORDER_COUNT;
+const useDatabase = args.db;
+
+const statuses = [
+  "Ordered",
+  "Delivered",
+  "Deliverables Done",
+  "Refund Form Done",
+  "Overdue Passed for Refund Form",
+  "Remind Mediator for Payment",
+] as const;
+const platforms = ["Amazon", "Flipkart", "Myntra", "Meesho"] as const;
+
+// Same fixture on every run, so timings can be compared
+function seededRandom(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 2 ** 32;
+    return seed / 2 ** 32;
+  };
+}
+
+type FixtureOrder = Omit<OrderWithRelations, "mediator" | "account" | "bankAccount">;
+
+// Open orders spread over the last two months, so every default rule has matches
+function buildOrders(count: number, ids: { userId: string; workspaceId: string; mediatorId: string; accountId: string }): FixtureOrder[] {
+  const random = seededRandom(42);
+  const today = startOfDay(new Date());
+  return Array.from({ length: count }, (_, index) => {
+    const orderDate = subDays(today, Math.floor(random() * 60));
+    const deliveryDate = addDays(orderDate, 2 + Math.floor(random() * 10));
+    const refundFormDate = addDays(deliveryDate, 3 + Math.floor(random() * 15));
+    return {
+      id: randomUUID(),
+      ...ids,
+      bankAccountId: null,
+      productName: `Benchmark product ${index}`,
+      platform: platforms[index % platforms.length],
+      orderId: `BENCH-${index}`,
+      orderAmount: 50_000 + Math.floor(random() * 500_000),
+      refundAmount: 50_000 + Math.floor(random() * 500_000),
+      productLink: null,
+      orderDate,
+      deliveryDate,
+      refundFormDate,
+      remindRefundDate: null,
+      refundFormLink: null,
+      comments: null,
+      currentStatus: statuses[Math.floor(random() * statuses.length)],
+      calendarEventIds: null,
+      calendarSequence: 0,
+      statusChangedAt: subDays(new Date(), Math.floor(random() * 10)),
+      createdAt: orderDate,
+      updatedAt: orderDate,
+    };
+  });
+}
+
+function time<T>(label: string, run: () => T): T {
+  const start = performance.now();
+  const result = run();
+  console.log(`${label.padEnd(34)} ${(performance.now() - start).toFixed(0).padStart(6)} ms`);
+  return result;
+}
+
+function runInMemory() {
+  const ids = { userId: "bench-user", workspaceId: "bench-workspace", mediatorId: "bench-mediator", accountId: "bench-account" };
+  const orders: OrderWithRelations[] = buildOrders(orderCount, ids).map(order => ({
+    ...order,
+    mediator: { id: ids.mediatorId, name: "Benchmark Mediator", whatsappNumber: "+910000000000" } as OrderWithRelations["mediator"],
+    account: { id: ids.accountId, name: "Benchmark Account" } as OrderWithRelations["account"],
+  }));
+  const rules = defaultReminderRules.map((rule, index) => ({ ...rule, id: `rule-${index}`, workspaceId: ids.workspaceId }) as ReminderRule);
+  const rulesByWorkspace = new Map([[ids.workspaceId, rules]]);
+  const timezones = new Map<string, string>();
+
+  console.log(`In memory: ${orderCount} orders, ${rules.length} rules\n`);
+  const matches: KeyedReminderMatch[] = time("Match rules", () => collectReminderMatches(orders, rulesByWorkspace, timezones));
+  const first = time("Plan first run (all new)", () => planReminderNotifications(matches, new Map(), new Map()));
+  const escalated = new Set(first.escalationKeys);
+  const existing = new Map<string, NotificationKeyState>(
+    matches.map(({ key }) => [key, { escalatedAt: escalated.has(key) ? new Date() : null, dismissedAt: null }])
+  );
+  const steady = time("Plan steady state (all exist)", () => planReminderNotifications(matches, new Map(), existing));
+
+  console.log(`\n${matches.length} matches, ${first.reminders.length} new on the first run, ${steady.reminders.length} on later runs`);
+  console.log(`${first.escalationKeys.length} to escalate on the first run, ${steady.escalationKeys.length} on later runs`);
+}
+
+async function runAgainstDatabase() {
+  const { db, pool } = await import("../server/db");
+  const { storage } = await import("../server/storage");
+  const { cronJobService } = await import("../server/cron-jobs");
+  const { orders, users } = await import("../shared/schema");
+  const { eq } = await import("drizzle-orm");
+
+  // Count every statement the check sends
+  let queries = 0;
+  const query = pool.query.bind(pool);
+  (pool as any).query = (...queryArgs: any[]) => {
+    queries++;
+    return (query as any)(...queryArgs);
+  };
+
+  const user = await storage.upsertUser({ id: `bench-${randomUUID()}`, email: `bench-${Date.now()}@example.com`, firstName: "Benchmark", lastName: "User" });
+  try {
+    const workspace = await storage.createWorkspace(user, { name: "Notification benchmark" });
+    const mediator = await storage.createMediator(workspace.id, user.id, { name: "Benchmark Mediator", whatsappNumber: "+910000000000" });
+    const account = await storage.createAccount(workspace.id, user.id, { name: "Benchmark Account", platform: "Amazon", email: "bench@example.com", phone: "0000000000" });
+    const fixture = buildOrders(orderCount, { userId: user.id, workspaceId: workspace.id, mediatorId: mediator.id, accountId: account.id });
+
+    const seedStart = performance.now();
+    for (let i = 0; i < fixture.length; i += 1000) {
+      await db.insert(orders).values(fixture.slice(i, i + 1000));
+    }
+    console.log(`Seeded ${orderCount} orders in ${(performance.now() - seedStart).toFixed(0)} ms\n`);
+
+    for (const label of ["First run (all new)", "Second run (nothing new)"]) {
+      queries = 0;
+      const start = performance.now();
+      const created = await cronJobService.checkAndCreateNotifications([workspace.id]);
+      console.log(`${label.padEnd(26)} ${(performance.now() - start).toFixed(0).padStart(6)} ms, ${queries} queries, ${created} notifications created`);
+    }
+  } finally {
+    // Workspaces, orders and notifications go with the user
+    await db.delete(users).where(eq(users.id, user.id));
+    await pool.end();
+  }
+}
+
+if (useDatabase) {
+  runAgainstDatabase().catch(error => {
+    console.error("Benchmark failed:", error);
+    process.exit(1);
+  });
+} else {
+  runInMemory();
+}
@@ -3,11 +3,14 @@ import session from "express-session";
 import type { RequestHandler } from "express";
 import connectPg from "connect-pg-simple";
 import passport from "passport";
+import { createHash, timingSafeEqual } from "crypto";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
 import { OAuth2Client } from "google-auth-library";
 import { pool } from "./db";
 import { storage } from "./storage";
-import type { User } from "@shared/schema";
+import { resolveWorkspace } from "./workspaces";
+import type { User, WorkspaceRole } from "@shared/schema";
+import { hasWorkspaceRole } from "@shared/workspace-roles";
 
 // Get base URL from environment or use localhost for development
 const getBaseUrl = () => {
@@ -39,11 +42,66 @@ export function getSession() {
   });
 }
 
-// Authentication middleware
-export const isAuthenticated: RequestHandler = (req, res, next) => {
+// Authentication middleware - also resolves the workspace the request acts on
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
   if (!req.isAuthenticated() || !req.user) {
     return res.status(401).json({ message: "Unauthorized" });
   }
+  try {
+    (req as any).workspace = await resolveWorkspace(req);
+  } catch (error) {
+    console.error("Error resolving workspace:", error);
+    return res.status(500).json({ message: "Failed to load workspace" });
+  }
+  return next();
+};
+
+// Role check for the active workspace - use after isAuthenticated
+export function requireRole(minimum: WorkspaceRole): RequestHandler {
+  return (req, res, next) => {
+    const role = (req as any).workspace?.role;
+    if (!hasWorkspaceRole(role, minimum)) {
+      return res.status(403).json({ message: `This action requires the ${minimum} role in this workspace` });
+    }
+    return next();
+  };
+}
+
+// System administrators are listed by email in ADMIN_EMAILS (comma separated)
+export function isSystemAdmin(email: string | null | undefined): boolean {
+  if (!email) return false;
+  const admins = (process.env.ADMIN_EMAILS || "").split(",").map(admin => admin.trim().toLowerCase());
+  return admins.includes(email.toLowerCase());
+}
+
+// Server-wide pages such as cron job history - use after isAuthenticated
+export const requireAdmin: RequestHandler = async (req, res, next) => {
+  try {
+    const user = await storage.getUser((req.user as any).claims.sub);
+    if (!isSystemAdmin(user?.email)) {
+      return res.status(403).json({ message: "This action requires an administrator" });
+    }
+  } catch (error) {
+    console.error("Error checking administrator:", error);
+    return res.status(500).json({ message: "Failed to check permissions" });
+  }
+  return next();
+};
+
+// External schedulers (Vercel Cron and the like) authenticate with CRON_SECRET,
+// sent as "Authorization: Bearer <secret>" (what Vercel sends) or an X-Cron-Secret header
+export const requireCronSecret: RequestHandler = (req, res, next) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return res.status(503).json({ message: "CRON_SECRET is not configured" });
+  }
+  const bearer = /^Bearer (.+)$/.exec(req.get("authorization") ?? "")?.[1];
+  const provided = req.get("x-cron-secret") ?? bearer ?? "";
+  // Compare digests so neither the length nor the contents leak through timing
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  if (!timingSafeEqual(digest(provided), digest(secret))) {
+    return res.status(401).json({ message: "Invalid cron secret" });
+  }
   return next();
 };
 
@@ -87,6 +145,11 @@ export async function setupAuth(app: express.Express) {
       await storage.upsertUser(userData);
       console.log('OAuth Strategy: User upserted successfully');
 
+      // Accept workspace invites sent to this email before the first login
+      if (userData.email) {
+        await storage.claimWorkspaceInvites(userData.id, userData.email);
+      }
+
       // Return user data for passport WITH tokens
       const userObj = {
         id: userData.id,
@@ -187,7 +250,7 @@ export async function setupAuth(app: express.Express) {
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      res.json(user);
+      res.json({ ...user, isAdmin: isSystemAdmin(user.email) });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
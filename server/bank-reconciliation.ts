@@ -0,0 +1,276 @@
+import { createHash } from "crypto";
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import { storage } from "./storage";
+import { recordPayment } from "./payment-ledger";
+import type { WorkspaceContext } from "./workspaces";
+import type {
+  BankStatementLine,
+  BankStatementLineWithSuggestions,
+  ConfirmStatementMatch,
+  OrderWithRelations,
+  ReconciliationSuggestion,
+} from "@shared/schema";
+import { parseBankStatement, type ImportBankStatement } from "@shared/bank-statement";
+import { canTransition } from "@shared/order-status";
+
+// Raised when a statement cannot be imported or a line cannot be reconciled
+export class BankReconciliationError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+  }
+}
+
+// Mediators usually pay within this many days of delivery
+export const DEFAULT_MATCH_WINDOW_DAYS = 60;
+
+const MAX_SUGGESTIONS = 5;
+const MAX_ORDERS_PER_PAYMENT = 4;
+const MAX_COMBINATION_CANDIDATES = 12;
+
+const formatRupees = (paise: number) => `₹${(paise / 100).toFixed(2)}`;
+
+const normalizeText = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]+/g, " ").trim();
+
+async function getOwnedBankAccount(workspaceId: string, bankAccountId: string) {
+  const bankAccounts = await storage.getBankAccounts(workspaceId);
+  const bankAccount = bankAccounts.find(account => account.id === bankAccountId);
+  if (!bankAccount) {
+    throw new BankReconciliationError("Bank account not found");
+  }
+  return bankAccount;
+}
+
+/**
+ * Parse a statement CSV and store its credit lines against the bank account.
+ * Lines already imported from an overlapping statement are skipped.
+ */
+export async function importBankStatement(workspace: WorkspaceContext, bankAccountId: string, data: ImportBankStatement) {
+  await getOwnedBankAccount(workspace.workspaceId, bankAccountId);
+
+  let parsed;
+  try {
+    parsed = parseBankStatement(data.csv, data.mapping);
+  } catch (error) {
+    throw new BankReconciliationError(error instanceof Error ? error.message : "Could not read the statement");
+  }
+
+  // Identical transactions on the same day are told apart by their position in the statement
+  const occurrences = new Map<string, number>();
+  const lines = parsed.lines.map(line => {
+    const key = [
+      format(line.transactionDate, "yyyy-MM-dd"),
+      line.amount,
+      line.reference ?? "",
+      normalizeText(line.narration),
+    ].join("|");
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+
+    return {
+      ...line,
+      bankAccountId,
+      fingerprint: createHash("sha256").update(`${key}|${occurrence}`).digest("hex"),
+    };
+  });
+
+  const created = await storage.createStatementLines(workspace.workspaceId, workspace.userId, lines);
+
+  // Remember the layout so the next upload for this account is pre-filled
+  await storage.updateBankAccount(bankAccountId, workspace.workspaceId, {
+    statementMapping: JSON.stringify({ layout: data.layout, mapping: data.mapping }),
+  });
+
+  return {
+    imported: created.length,
+    duplicates: lines.length - created.length,
+    debitsSkipped: parsed.debitCount,
+    invalidRows: parsed.invalidRows,
+  };
+}
+
+function mediatorNameScore(mediatorName: string, narration: string): { score: number; reason?: string } {
+  const name = normalizeText(mediatorName);
+  const text = normalizeText(narration);
+  if (!name) return { score: 0 };
+
+  if (text.replace(/ /g, "").includes(name.replace(/ /g, ""))) {
+    return { score: 30, reason: `Narration mentions ${mediatorName}` };
+  }
+
+  const tokens = name.split(" ").filter(token => token.length >= 3);
+  const words = new Set(text.split(" "));
+  if (tokens.some(token => words.has(token))) {
+    return { score: 15, reason: `Narration partially matches ${mediatorName}` };
+  }
+  return { score: 0 };
+}
+
+const outstandingFor = (order: OrderWithRelations) => order.refundAmount - (order.receivedAmount ?? 0);
+
+// Combinations of orders whose outstanding amounts add up exactly to the credit
+function findOrderCombinations(orders: OrderWithRelations[], amount: number): OrderWithRelations[][] {
+  const results: OrderWithRelations[][] = [];
+
+  const search = (start: number, remaining: number, picked: OrderWithRelations[]) => {
+    if (remaining === 0 && picked.length >= 2) {
+      results.push([...picked]);
+      return;
+    }
+    if (picked.length === MAX_ORDERS_PER_PAYMENT || results.length >= MAX_SUGGESTIONS) return;
+
+    for (let i = start; i < orders.length; i++) {
+      const outstanding = outstandingFor(orders[i]);
+      if (outstanding > remaining) continue;
+      picked.push(orders[i]);
+      search(i + 1, remaining - outstanding, picked);
+      picked.pop();
+    }
+  };
+
+  search(0, amount, []);
+  return results;
+}
+
+/**
+ * Suggest which pending orders a statement credit pays for, scored by an
+ * exact amount match, the date window after delivery and the mediator's name
+ * appearing in the narration.
+ */
+export function suggestMatches(
+  line: BankStatementLine,
+  pendingOrders: OrderWithRelations[],
+  windowDays = DEFAULT_MATCH_WINDOW_DAYS
+): ReconciliationSuggestion[] {
+  const suggestions: ReconciliationSuggestion[] = [];
+
+  const inWindow = pendingOrders.filter(order => {
+    const anchor = order.deliveryDate ?? order.orderDate;
+    const daysAfter = differenceInCalendarDays(line.transactionDate, anchor);
+    return daysAfter >= 0 && line.transactionDate <= addDays(anchor, windowDays);
+  });
+
+  const windowReason = `Received within ${windowDays} days of delivery`;
+
+  const toAllocation = (order: OrderWithRelations, amount: number) => ({
+    orderId: order.id,
+    orderNumber: order.orderId,
+    productName: order.productName,
+    amount,
+    outstanding: outstandingFor(order),
+  });
+
+  // Single order - exact or partial payment
+  for (const order of inWindow) {
+    const outstanding = outstandingFor(order);
+    const nameMatch = mediatorNameScore(order.mediator.name, line.narration);
+
+    if (outstanding === line.amount) {
+      suggestions.push({
+        mediatorId: order.mediatorId,
+        mediatorName: order.mediator.name,
+        score: 50 + 20 + nameMatch.score,
+        reasons: [`Amount matches the ${formatRupees(outstanding)} outstanding`, windowReason, ...(nameMatch.reason ? [nameMatch.reason] : [])],
+        allocations: [toAllocation(order, line.amount)],
+      });
+    } else if (line.amount < outstanding && nameMatch.score > 0) {
+      suggestions.push({
+        mediatorId: order.mediatorId,
+        mediatorName: order.mediator.name,
+        score: 20 + 20 + nameMatch.score,
+        reasons: [`Partial payment of ${formatRupees(line.amount)} against ${formatRupees(outstanding)} outstanding`, windowReason, nameMatch.reason!],
+        allocations: [toAllocation(order, line.amount)],
+      });
+    }
+  }
+
+  // Several orders of the same mediator settled by one transfer
+  const ordersByMediator = new Map<string, OrderWithRelations[]>();
+  for (const order of inWindow) {
+    if (outstandingFor(order) >= line.amount) continue;
+    ordersByMediator.set(order.mediatorId, [...(ordersByMediator.get(order.mediatorId) ?? []), order]);
+  }
+
+  for (const mediatorOrders of Array.from(ordersByMediator.values())) {
+    const mediator = mediatorOrders[0].mediator;
+    const nameMatch = mediatorNameScore(mediator.name, line.narration);
+    if (nameMatch.score === 0) continue;
+
+    const candidates = mediatorOrders
+      .sort((a, b) => (b.deliveryDate ?? b.orderDate).getTime() - (a.deliveryDate ?? a.orderDate).getTime())
+      .slice(0, MAX_COMBINATION_CANDIDATES);
+
+    for (const combination of findOrderCombinations(candidates, line.amount)) {
+      suggestions.push({
+        mediatorId: mediator.id,
+        mediatorName: mediator.name,
+        score: 40 + 20 + nameMatch.score,
+        reasons: [`Amount matches ${combination.length} orders together`, windowReason, nameMatch.reason!],
+        allocations: combination.map(order => toAllocation(order, outstandingFor(order))),
+      });
+    }
+  }
+
+  return suggestions
+    .filter(suggestion => suggestion.score >= 50)
+    .sort((a, b) => b.score - a.score || a.allocations.length - b.allocations.length)
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * All imported lines of a bank account, with match suggestions for the lines
+ * that are still open.
+ */
+export async function getReconciliation(
+  workspaceId: string,
+  bankAccountId: string,
+  windowDays = DEFAULT_MATCH_WINDOW_DAYS
+): Promise<BankStatementLineWithSuggestions[]> {
+  await getOwnedBankAccount(workspaceId, bankAccountId);
+
+  const [lines, orders, payments] = await Promise.all([
+    storage.getStatementLines(workspaceId, bankAccountId),
+    storage.getOrders(workspaceId),
+    storage.getPayments(workspaceId),
+  ]);
+
+  // Only orders awaiting the mediator's payment can be settled by a credit
+  const pendingOrders = orders.filter(order =>
+    canTransition(order.currentStatus, "Refunded") &&
+    outstandingFor(order) > 0 &&
+    (!order.bankAccountId || order.bankAccountId === bankAccountId)
+  );
+  const paymentsById = new Map(payments.map(payment => [payment.id, payment]));
+
+  return lines.map(line => ({
+    ...line,
+    payment: line.paymentId ? paymentsById.get(line.paymentId) : undefined,
+    suggestions: line.paymentId || line.ignored ? [] : suggestMatches(line, pendingOrders, windowDays),
+  }));
+}
+
+/**
+ * Record the statement credit as a mediator payment against the chosen
+ * orders. Orders it pays in full are marked refunded by the ledger.
+ */
+export async function confirmStatementMatch(workspace: WorkspaceContext, lineId: string, data: ConfirmStatementMatch) {
+  const line = await storage.getStatementLine(lineId, workspace.workspaceId);
+  if (!line) {
+    throw new BankReconciliationError("Statement line not found");
+  }
+  if (line.paymentId) {
+    throw new BankReconciliationError("This statement line has already been reconciled", 409);
+  }
+
+  const payment = await recordPayment(workspace, {
+    mediatorId: data.mediatorId,
+    bankAccountId: line.bankAccountId,
+    amount: line.amount,
+    paymentDate: line.transactionDate,
+    reference: line.reference,
+    notes: `Bank statement: ${line.narration}`,
+    allocations: data.allocations,
+  }, { statementLineId: line.id });
+
+  const updatedLine = await storage.getStatementLine(line.id, workspace.workspaceId);
+  return { line: updatedLine, payment };
+}
@@ -1,6 +1,9 @@
-import { format } from 'date-fns';
+import { addDays, startOfDay } from 'date-fns';
+import { DEFAULT_TIMEZONE, zonedTime } from '@shared/timezone';
 
 interface CalendarEvent {
+  uid?: string; // stable across exports so calendars update the event instead of adding a copy
+  sequence?: number;
   title: string;
   description: string;
   startDateTime: Date;
@@ -8,9 +11,10 @@ interface CalendarEvent {
   location?: string;
 }
 
-export function generateICSFile(events: CalendarEvent[]): string {
+export function generateICSFile(events: CalendarEvent[], feed?: { name: string; timeZone?: string }): string {
+  // UTC timestamps, e.g. 20250101T043000Z
   const formatDate = (date: Date): string => {
-    return format(date, "yyyyMMdd'T'HHmmss'Z'");
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
   };
 
   const generateUID = (): string => {
@@ -25,22 +29,44 @@ export function generateICSFile(events: CalendarEvent[]): string {
       .replace(/\n/g, '\\n');
   };
 
+  // Content lines longer than 75 octets are folded onto continuation lines
+  const foldLine = (line: string): string => {
+    const parts: string[] = [];
+    let current = '';
+    for (const char of Array.from(line)) {
+      if (Buffer.byteLength(current + char) > (parts.length === 0 ? 75 : 74)) {
+        parts.push(current);
+        current = '';
+      }
+      current += char;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+  };
+
   let icsContent = [
     'BEGIN:VCALENDAR',
     'VERSION:2.0',
     'PRODID:-//Online Reviewer System//Calendar Export//EN',
     'CALSCALE:GREGORIAN',
-    'METHOD:PUBLISH'
+    'METHOD:PUBLISH',
+    ...(feed ? [
+      `X-WR-CALNAME:${escapeText(feed.name)}`,
+      ...(feed.timeZone ? [`X-WR-TIMEZONE:${feed.timeZone}`] : []),
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      'X-PUBLISHED-TTL:PT1H'
+    ] : [])
   ];
 
   for (const event of events) {
     const startDate = formatDate(event.startDateTime);
     const endDate = formatDate(event.endDateTime);
-    const uid = generateUID();
+    const uid = event.uid ?? generateUID();
     
     icsContent.push(
       'BEGIN:VEVENT',
       `UID:${uid}`,
+      `SEQUENCE:${event.sequence ?? 0}`,
       `DTSTART:${startDate}`,
       `DTEND:${endDate}`,
       `SUMMARY:${escapeText(event.title)}`,
@@ -58,7 +84,7 @@ export function generateICSFile(events: CalendarEvent[]): string {
   }
 
   icsContent.push('END:VCALENDAR');
-  return icsContent.join('\r\n');
+  return icsContent.map(foldLine).join('\r\n') + '\r\n';
 }
 
 export function createOrderCalendarEvents(order: {
@@ -68,7 +94,8 @@ export function createOrderCalendarEvents(order: {
   platform: string;
   deliveryDate?: Date | string | null;
   refundFormDate?: Date | string | null;
-}): CalendarEvent[] {
+  calendarSequence?: number;
+}, timeZone: string = DEFAULT_TIMEZONE): CalendarEvent[] {
   const events: CalendarEvent[] = [];
 
   // Helper function to convert string dates to Date objects
@@ -79,36 +106,68 @@ export function createOrderCalendarEvents(order: {
 
   const deliveryDate = toDate(order.deliveryDate);
   const refundDate = toDate(order.refundFormDate);
+  const sequence = order.calendarSequence ?? 0;
+
+  // Event times are the user's local time on the order's calendar day
+  const at = (day: Date, hours: number) => zonedTime(startOfDay(day), hours, 0, timeZone);
 
   // Delivery reminder event
   if (deliveryDate) {
-    const deliveryStart = new Date(deliveryDate);
-    deliveryStart.setHours(10, 0, 0, 0); // 10 AM
-    const deliveryEnd = new Date(deliveryStart);
-    deliveryEnd.setHours(11, 0, 0, 0); // 11 AM
+    const deliveryStart = at(deliveryDate, 10); // 10 AM
+    const deliveryEnd = at(deliveryDate, 11); // 11 AM
 
     events.push({
+      uid: `${order.id}-delivery@reviewer-system.com`,
+      sequence,
       title: `📦 Product Delivery: ${order.productName}`,
-      description: `Order ID: ${order.orderId}\\nPlatform: ${order.platform}\\nExpected delivery for: ${order.productName}\\n\\nNext Steps:\\n- Check for delivery confirmation\\n- Unbox and test the product\\n- Prepare for review submission`,
+      description: `Order ID: ${order.orderId}\nPlatform: ${order.platform}\nExpected delivery for: ${order.productName}\n\nNext Steps:\n- Check for delivery confirmation\n- Unbox and test the product\n- Prepare for review submission`,
       startDateTime: deliveryStart,
       endDateTime: deliveryEnd,
     });
+
+    // Review reminder (2 days after delivery)
+    const reviewStart = at(addDays(deliveryDate, 2), 14); // 2 PM
+    const reviewEnd = at(addDays(deliveryDate, 2), 15); // 3 PM
+
+    events.push({
+      uid: `${order.id}-review@reviewer-system.com`,
+      sequence,
+      title: `⭐ Complete Review & Rating: ${order.productName}`,
+      description: `Order ID: ${order.orderId}\nPlatform: ${order.platform}\nReview due for: ${order.productName}`,
+      startDateTime: reviewStart,
+      endDateTime: reviewEnd,
+    });
   }
 
   // Refund form reminder event
   if (refundDate) {
-    const refundStart = new Date(refundDate);
-    refundStart.setHours(14, 0, 0, 0); // 2 PM
-    const refundEnd = new Date(refundStart);
-    refundEnd.setHours(15, 0, 0, 0); // 3 PM
+    const refundStart = at(refundDate, 14); // 2 PM
+    const refundEnd = at(refundDate, 15); // 3 PM
 
     events.push({
+      uid: `${order.id}-refund-form@reviewer-system.com`,
+      sequence,
       title: `💰 Submit Refund Form: ${order.productName}`,
-      description: `Order ID: ${order.orderId}\\nPlatform: ${order.platform}\\nRefund form deadline for: ${order.productName}\\n\\nAction Required:\\n- Submit product review on platform\\n- Fill and submit refund form\\n- Upload required screenshots`,
+      description: `Order ID: ${order.orderId}\nPlatform: ${order.platform}\nRefund form deadline for: ${order.productName}\n\nAction Required:\n- Submit product review on platform\n- Fill and submit refund form\n- Upload required screenshots`,
       startDateTime: refundStart,
       endDateTime: refundEnd,
     });
   }
 
   return events;
-}
\ No newline at end of file
+}
+
+/**
+ * Subscribable feed of every open order's upcoming events. Events that ended
+ * more than a week ago drop out; the UIDs keep the rest stable between refreshes.
+ */
+export function generateCalendarFeed(
+  orders: Parameters<typeof createOrderCalendarEvents>[0][],
+  since: Date,
+  timeZone: string = DEFAULT_TIMEZONE
+): string {
+  const events = orders
+    .flatMap(order => createOrderCalendarEvents(order, timeZone))
+    .filter(event => event.endDateTime >= since);
+  return generateICSFile(events, { name: 'ReviewPilot Orders', timeZone });
+}
@@ -0,0 +1,52 @@
+import { randomBytes } from "crypto";
+import { subDays } from "date-fns";
+import { storage } from "./storage";
+import { generateCalendarFeed } from "./calendar-export";
+
+// Events that ended within this many days stay in the feed
+const FEED_HISTORY_DAYS = 7;
+
+const getBaseUrl = () => {
+  return process.env.BASE_URL || 'http://localhost:5000';
+};
+
+export interface CalendarFeedLinks {
+  url: string; // https link, for clients that ask for a URL
+  webcalUrl: string; // opens the subscribe dialog in Apple Calendar and Outlook
+}
+
+function feedLinks(token: string): CalendarFeedLinks {
+  const url = `${getBaseUrl()}/api/calendar/feed/${token}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:\/\//, "webcal://") };
+}
+
+export async function getCalendarFeedLinks(userId: string): Promise<CalendarFeedLinks | null> {
+  const settings = await storage.getUserSettings(userId);
+  return settings?.calendarFeedToken ? feedLinks(settings.calendarFeedToken) : null;
+}
+
+/**
+ * Issue a new secret feed URL. Any previous URL stops working.
+ */
+export async function rotateCalendarFeed(userId: string): Promise<CalendarFeedLinks> {
+  const token = randomBytes(24).toString("base64url");
+  await storage.upsertUserSettings(userId, { calendarFeedToken: token });
+  return feedLinks(token);
+}
+
+export async function revokeCalendarFeed(userId: string): Promise<void> {
+  await storage.upsertUserSettings(userId, { calendarFeedToken: null });
+}
+
+/**
+ * The ICS body for a feed token, or undefined when the token is unknown or revoked.
+ */
+export async function renderCalendarFeed(token: string): Promise<string | undefined> {
+  const settings = await storage.getUserSettingsByFeedToken(token);
+  if (!settings) {
+    return undefined;
+  }
+  const since = subDays(new Date(), FEED_HISTORY_DAYS);
+  const orders = await storage.getCalendarFeedOrders(settings.userId, since);
+  return generateCalendarFeed(orders, since, settings.timezone);
+}
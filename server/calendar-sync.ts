@@ -1,104 +1,101 @@
-import { googleCalendarService } from "./google-calendar";
+import { googleCalendarService, isEventGone, SyncTokenExpiredError, type CalendarClient, type CalendarEventChange } from "./google-calendar";
 import { storage } from "./storage";
-import { Order } from "@shared/schema";
+import { Order, type CalendarSyncAction, type CalendarSyncJob, type UserSettingsSelect } from "@shared/schema";
+import { addDays, differenceInCalendarDays, format, startOfDay } from "date-fns";
+import { calendarDayInTimezone, zonedTime } from "@shared/timezone";
 
 interface CalendarEventIds {
   delivery?: string;
   review?: string;
   refundForm?: string;
+  // Dates (yyyy-MM-dd) last written to the calendar, to tell which side changed
+  synced?: {
+    delivery?: string | null;
+    refundForm?: string | null;
+  };
 }
 
-export async function syncOrderToCalendar(
-  userId: string,
-  order: Order,
-  action: "create" | "update" | "delete"
-): Promise<void> {
-  try {
-    // Get user settings to check if calendar is enabled
-    const settings = await storage.getUserSettings(userId);
-    
-    if (!settings?.calendarEnabled || !settings.googleAccessToken) {
-      return; // Calendar not enabled or not connected
-    }
+type SyncedEventKind = "delivery" | "refundForm";
 
-    // Parse existing event IDs
-    const existingEventIds: CalendarEventIds = order.calendarEventIds 
-      ? JSON.parse(order.calendarEventIds) 
-      : {};
+const syncedDateFields: Record<SyncedEventKind, { key: "deliveryDate" | "refundFormDate"; label: string }> = {
+  delivery: { key: "deliveryDate", label: "Delivery Date" },
+  refundForm: { key: "refundFormDate", label: "Refund Form Date" },
+};
 
-    // Handle delete action
-    if (action === "delete") {
-      // Delete all calendar events for this order
-      if (existingEventIds.delivery) {
-        await googleCalendarService.deleteCalendarEvent(
-          settings.googleAccessToken,
-          settings.googleRefreshToken!,
-          existingEventIds.delivery,
-          settings.calendarId || 'primary'
-        );
-      }
-      if (existingEventIds.review) {
-        await googleCalendarService.deleteCalendarEvent(
-          settings.googleAccessToken,
-          settings.googleRefreshToken!,
-          existingEventIds.review,
-          settings.calendarId || 'primary'
-        );
-      }
-      if (existingEventIds.refundForm) {
-        await googleCalendarService.deleteCalendarEvent(
-          settings.googleAccessToken,
-          settings.googleRefreshToken!,
-          existingEventIds.refundForm,
-          settings.calendarId || 'primary'
-        );
-      }
+// Order dates and eventDay results are both the day's local midnight, so they format as they are
+const toDay = (date: Date | null | undefined) => (date ? format(date, "yyyy-MM-dd") : null);
 
-      // Log calendar event deletion
-      await storage.createActivityLog(userId, {
-        orderId: order.id,
-        activityType: "Calendar Event Deleted",
-        description: `Calendar events removed for ${order.productName}`,
-        triggeredBy: "System"
-      });
-      return;
+// The day an event starts on in the calendar owner's timezone - all-day events already carry just a date
+const eventDay = (event: CalendarEventChange, timeZone: string) =>
+  event.start && (event.allDay ? event.start : calendarDayInTimezone(event.start, timeZone));
+
+// Raised when a calendar job cannot complete; permanent failures are not retried
+export class CalendarSyncError extends Error {
+  constructor(message: string, readonly retryable = true) {
+    super(message);
+  }
+}
+
+type ConnectedCalendar = UserSettingsSelect & { googleAccessToken: string };
+
+async function getConnectedCalendar(calendarUserId: string): Promise<ConnectedCalendar | undefined> {
+  const settings = await storage.getUserSettings(calendarUserId);
+  if (!settings?.calendarEnabled || !settings.googleAccessToken) {
+    return undefined; // Calendar not enabled or not connected
+  }
+  return settings as ConnectedCalendar;
+}
+
+// An event the user already deleted in Google Calendar counts as deleted
+async function deleteEvent(settings: ConnectedCalendar, eventId: string, client: CalendarClient) {
+  try {
+    await client.deleteCalendarEvent(
+      settings.googleAccessToken,
+      settings.googleRefreshToken!,
+      eventId,
+      settings.calendarId || 'primary'
+    );
+  } catch (error) {
+    if (!isEventGone(error)) {
+      throw error;
     }
+  }
+}
+
+async function deleteEvents(settings: ConnectedCalendar, eventIds: CalendarEventIds, client: CalendarClient) {
+  for (const eventId of [eventIds.delivery, eventIds.review, eventIds.refundForm]) {
+    if (eventId) {
+      await deleteEvent(settings, eventId, client);
+    }
+  }
+}
 
-    const newEventIds: CalendarEventIds = {};
+// Write the order's events to the connected calendar - the workspace owner's
+async function syncOrderToCalendar(
+  settings: ConnectedCalendar,
+  order: Order,
+  action: "create" | "update",
+  client: CalendarClient
+): Promise<void> {
+  const calendarUserId = settings.userId;
 
+  // Parse existing event IDs
+  const existingEventIds: CalendarEventIds = order.calendarEventIds 
+    ? JSON.parse(order.calendarEventIds) 
+    : {};
+  const newEventIds: CalendarEventIds = {};
+
+  try {
     // If delivery date is cleared, delete all events and clear IDs
     if (!order.deliveryDate && action === "update") {
-      if (existingEventIds.delivery) {
-        await googleCalendarService.deleteCalendarEvent(
-          settings.googleAccessToken,
-          settings.googleRefreshToken!,
-          existingEventIds.delivery,
-          settings.calendarId || 'primary'
-        );
-      }
-      if (existingEventIds.review) {
-        await googleCalendarService.deleteCalendarEvent(
-          settings.googleAccessToken,
-          settings.googleRefreshToken!,
-          existingEventIds.review,
-          settings.calendarId || 'primary'
-        );
-      }
-      if (existingEventIds.refundForm) {
-        await googleCalendarService.deleteCalendarEvent(
-          settings.googleAccessToken,
-          settings.googleRefreshToken!,
-          existingEventIds.refundForm,
-          settings.calendarId || 'primary'
-        );
-      }
+      await deleteEvents(settings, existingEventIds, client);
 
       // Clear calendar event IDs
-      await storage.updateOrder(order.id, userId, {
+      await storage.updateOrder(order.id, order.workspaceId, {
         calendarEventIds: null
       });
 
-      await storage.createActivityLog(userId, {
+      await storage.createActivityLog(order.workspaceId, calendarUserId, {
         orderId: order.id,
         activityType: "Calendar Event Deleted",
         description: `Calendar events removed (delivery date cleared) for ${order.productName}`,
@@ -113,24 +110,26 @@ export async function syncOrderToCalendar(
     }
 
     const deliveryDate = new Date(order.deliveryDate);
-    
+    // Events are timed on the order's calendar day in the calendar owner's timezone
+    const timeZone = settings.timezone;
+    const at = (day: Date, hours: number) => zonedTime(startOfDay(day), hours, 0, timeZone);
+
     // 1. Delivery reminder event
-    const deliveryStart = new Date(deliveryDate);
-    deliveryStart.setHours(10, 0, 0, 0);
-    const deliveryEnd = new Date(deliveryStart);
-    deliveryEnd.setHours(11, 0, 0, 0);
+    const deliveryStart = at(deliveryDate, 10);
+    const deliveryEnd = at(deliveryDate, 11);
 
     const deliveryEventData = {
       title: `📦 Product Delivery: ${order.productName}`,
       description: `Product: ${order.productName}\nPlatform: ${order.platform}\nOrder ID: ${order.orderId}`,
       startDateTime: deliveryStart,
       endDateTime: deliveryEnd,
-      calendarId: settings.calendarId || 'primary'
+      calendarId: settings.calendarId || 'primary',
+      timeZone
     };
 
     if (existingEventIds.delivery && action === "update") {
       // Update existing event
-      await googleCalendarService.updateCalendarEvent(
+      await client.updateCalendarEvent(
         settings.googleAccessToken,
         settings.googleRefreshToken!,
         existingEventIds.delivery,
@@ -139,7 +138,7 @@ export async function syncOrderToCalendar(
       newEventIds.delivery = existingEventIds.delivery;
     } else {
       // Create new event
-      const event = await googleCalendarService.createCalendarEvent(
+      const event = await client.createCalendarEvent(
         settings.googleAccessToken,
         settings.googleRefreshToken!,
         deliveryEventData
@@ -148,22 +147,20 @@ export async function syncOrderToCalendar(
     }
 
     // 2. Review reminder event (2 days after delivery)
-    const reviewDate = new Date(deliveryDate);
-    reviewDate.setDate(reviewDate.getDate() + 2);
-    reviewDate.setHours(14, 0, 0, 0);
-    const reviewEnd = new Date(reviewDate);
-    reviewEnd.setHours(15, 0, 0, 0);
+    const reviewDate = at(addDays(deliveryDate, 2), 14);
+    const reviewEnd = at(addDays(deliveryDate, 2), 15);
 
     const reviewEventData = {
       title: `⭐ Complete Review & Rating: ${order.productName}`,
       description: `Product: ${order.productName}\nPlatform: ${order.platform}\nOrder ID: ${order.orderId}`,
       startDateTime: reviewDate,
       endDateTime: reviewEnd,
-      calendarId: settings.calendarId || 'primary'
+      calendarId: settings.calendarId || 'primary',
+      timeZone
     };
 
     if (existingEventIds.review && action === "update") {
-      await googleCalendarService.updateCalendarEvent(
+      await client.updateCalendarEvent(
         settings.googleAccessToken,
         settings.googleRefreshToken!,
         existingEventIds.review,
@@ -171,7 +168,7 @@ export async function syncOrderToCalendar(
       );
       newEventIds.review = existingEventIds.review;
     } else {
-      const event = await googleCalendarService.createCalendarEvent(
+      const event = await client.createCalendarEvent(
         settings.googleAccessToken,
         settings.googleRefreshToken!,
         reviewEventData
@@ -181,21 +178,20 @@ export async function syncOrderToCalendar(
 
     // 3. Refund form reminder if date is set
     if (order.refundFormDate) {
-      const refundDate = new Date(order.refundFormDate);
-      refundDate.setHours(15, 0, 0, 0);
-      const refundEnd = new Date(refundDate);
-      refundEnd.setHours(16, 0, 0, 0);
+      const refundDate = at(new Date(order.refundFormDate), 15);
+      const refundEnd = at(new Date(order.refundFormDate), 16);
 
       const refundEventData = {
         title: `💰 Submit Refund Form: ${order.productName}`,
         description: `Product: ${order.productName}\nPlatform: ${order.platform}\nOrder ID: ${order.orderId}${order.refundFormLink ? `\nForm Link: ${order.refundFormLink}` : ''}`,
         startDateTime: refundDate,
         endDateTime: refundEnd,
-        calendarId: settings.calendarId || 'primary'
+        calendarId: settings.calendarId || 'primary',
+        timeZone
       };
 
       if (existingEventIds.refundForm && action === "update") {
-        await googleCalendarService.updateCalendarEvent(
+        await client.updateCalendarEvent(
           settings.googleAccessToken,
           settings.googleRefreshToken!,
           existingEventIds.refundForm,
@@ -203,7 +199,7 @@ export async function syncOrderToCalendar(
         );
         newEventIds.refundForm = existingEventIds.refundForm;
       } else {
-        const event = await googleCalendarService.createCalendarEvent(
+        const event = await client.createCalendarEvent(
           settings.googleAccessToken,
           settings.googleRefreshToken!,
           refundEventData
@@ -212,22 +208,23 @@ export async function syncOrderToCalendar(
       }
     } else if (existingEventIds.refundForm && action === "update") {
       // Refund form date was cleared - delete the event
-      await googleCalendarService.deleteCalendarEvent(
-        settings.googleAccessToken,
-        settings.googleRefreshToken!,
-        existingEventIds.refundForm,
-        settings.calendarId || 'primary'
-      );
+      await deleteEvent(settings, existingEventIds.refundForm, client);
     }
 
     // Update order with calendar event IDs (or clear if none)
-    await storage.updateOrder(order.id, userId, {
+    if (Object.keys(newEventIds).length > 0) {
+      newEventIds.synced = {
+        delivery: toDay(order.deliveryDate),
+        refundForm: newEventIds.refundForm ? toDay(order.refundFormDate) : null,
+      };
+    }
+    await storage.updateOrder(order.id, order.workspaceId, {
       calendarEventIds: Object.keys(newEventIds).length > 0 ? JSON.stringify(newEventIds) : null
     });
 
     // Log calendar sync
     const activityType = action === "create" ? "Calendar Event Created" : "Calendar Event Updated";
-    await storage.createActivityLog(userId, {
+    await storage.createActivityLog(order.workspaceId, calendarUserId, {
       orderId: order.id,
       activityType,
       description: `Calendar events ${action === "create" ? "created" : "updated"} for ${order.productName}`,
@@ -235,7 +232,319 @@ export async function syncOrderToCalendar(
     });
 
   } catch (error) {
-    console.error("Error syncing order to calendar:", error);
-    // Don't throw - calendar sync should not block order operations
+    // Keep the ids of events created before the failure so the retry updates them instead of duplicating
+    if (Object.keys(newEventIds).length > 0) {
+      await storage.updateOrder(order.id, order.workspaceId, {
+        calendarEventIds: JSON.stringify({ ...existingEventIds, ...newEventIds })
+      });
+    }
+    throw error;
+  }
+}
+
+export const MAX_SYNC_ATTEMPTS = 8;
+
+// Doubling wait between attempts - 1m, 2m, 4m ... capped at 4 hours
+function nextAttemptAt(attempts: number): Date {
+  const minutes = Math.min(2 ** (attempts - 1), 240);
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+// Google answers 401 / invalid_grant once the user revoked access - retrying will not help
+function toSyncError(error: any): Error {
+  if (error instanceof CalendarSyncError) {
+    return error;
+  }
+  const status = error?.code ?? error?.response?.status;
+  if (status === 401 || error?.response?.data?.error === 'invalid_grant') {
+    return new CalendarSyncError("Google Calendar authorization expired - reconnect it in Settings", false);
+  }
+  if (status === 403 || status === 404) {
+    return new CalendarSyncError(error?.message || "Google Calendar rejected the request", false);
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+async function runCalendarSyncJob(job: CalendarSyncJob, client: CalendarClient): Promise<void> {
+  const settings = await getConnectedCalendar(job.userId);
+  if (!settings) {
+    throw new CalendarSyncError("Google Calendar is not connected", false);
+  }
+
+  if (job.action === "delete") {
+    await deleteEvents(settings, job.eventIds ? JSON.parse(job.eventIds) : {}, client);
+    return;
+  }
+
+  // Always push the order as it is now - edits made while the job waited are included
+  const order = job.orderId ? await storage.getOrder(job.orderId, job.workspaceId) : undefined;
+  if (!order) {
+    return; // Deleted since - its delete job removes the events
+  }
+  await syncOrderToCalendar(settings, order, order.calendarEventIds ? "update" : "create", client);
+}
+
+/**
+ * Attempt a calendar job. The job is claimed first so two workers never
+ * push the same order at the same time.
+ */
+export async function processCalendarSyncJob(
+  job: CalendarSyncJob,
+  client: CalendarClient = googleCalendarService
+): Promise<CalendarSyncJob> {
+  const claimed = await storage.claimCalendarSyncJob(job.id);
+  if (!claimed) {
+    return job;
+  }
+
+  const attempts = claimed.attempts + 1;
+  try {
+    await runCalendarSyncJob(claimed, client);
+    const synced = await storage.updateCalendarSyncJob(claimed.id, {
+      status: "synced",
+      attempts,
+      lastError: null,
+      nextAttemptAt: null,
+      syncedAt: new Date(),
+    });
+    return synced!;
+  } catch (error) {
+    const syncError = toSyncError(error);
+    const retryable = !(syncError instanceof CalendarSyncError) || syncError.retryable;
+    const willRetry = retryable && attempts < MAX_SYNC_ATTEMPTS;
+    console.error(`Calendar sync job ${claimed.id} attempt ${attempts} failed:`, syncError.message);
+
+    const failed = await storage.updateCalendarSyncJob(claimed.id, {
+      status: willRetry ? "pending" : "failed",
+      attempts,
+      lastError: syncError.message,
+      nextAttemptAt: willRetry ? nextAttemptAt(attempts) : null,
+    });
+    return failed!;
+  }
+}
+
+/**
+ * Record the calendar change for an order and try it straight away. Failed
+ * pushes stay queued and are retried by the cron job. Each order keeps one
+ * job row, which doubles as its sync state.
+ */
+export async function queueCalendarSync(
+  calendarUserId: string,
+  order: Order,
+  action: CalendarSyncAction,
+  client: CalendarClient = googleCalendarService
+): Promise<CalendarSyncJob | undefined> {
+  if (!(await getConnectedCalendar(calendarUserId))) {
+    return undefined;
+  }
+
+  let job: CalendarSyncJob;
+  if (action === "delete") {
+    // The order row is gone, so keep what is needed to find its events
+    if (!order.calendarEventIds) {
+      return undefined;
+    }
+    job = await storage.createCalendarSyncJob(order.workspaceId, calendarUserId, {
+      orderId: null,
+      action,
+      eventIds: order.calendarEventIds,
+      productName: order.productName,
+    });
+  } else {
+    const existing = await storage.getCalendarSyncJobForOrder(order.id);
+    if (existing && existing.status !== "syncing") {
+      job = (await storage.updateCalendarSyncJob(existing.id, {
+        action: existing.status === "pending" && existing.action === "create" ? "create" : action,
+        productName: order.productName,
+        status: "pending",
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: new Date(),
+      }))!;
+    } else {
+      job = await storage.createCalendarSyncJob(order.workspaceId, calendarUserId, {
+        orderId: order.id,
+        action,
+        productName: order.productName,
+      });
+    }
+  }
+
+  return await processCalendarSyncJob(job, client);
+}
+
+/**
+ * Put every failed job in the workspace back in the queue.
+ */
+export async function retryFailedCalendarSync(workspaceId: string): Promise<number> {
+  return await storage.retryFailedCalendarSyncJobs(workspaceId);
+}
+
+// Jobs left in "syncing" this long were interrupted by a restart
+const STALE_SYNCING_MINUTES = 10;
+
+/**
+ * Run every calendar job whose next attempt is due. Called by the cron job.
+ */
+export async function processCalendarSyncQueue(limit = 50): Promise<{ synced: number; retrying: number; failed: number }> {
+  await storage.releaseStaleCalendarSyncJobs(new Date(Date.now() - STALE_SYNCING_MINUTES * 60 * 1000));
+
+  const due = await storage.getDueCalendarSyncJobs(limit);
+  const summary = { synced: 0, retrying: 0, failed: 0 };
+  for (const job of due) {
+    const result = await processCalendarSyncJob(job);
+    if (result.status === "synced") summary.synced++;
+    else if (result.status === "failed") summary.failed++;
+    else summary.retrying++;
+  }
+  return summary;
+}
+
+export interface CalendarPullResult {
+  applied: number;
+  conflicts: number;
+  skipped: number;
+}
+
+/**
+ * Pull events changed in the user's Google Calendar since the last sync and
+ * carry moved or deleted delivery/refund form events back into the orders.
+ * When the order was also edited since the last push, the most recent edit
+ * wins and the conflict is logged on the order.
+ */
+export async function pullCalendarChanges(
+  calendarUserId: string,
+  client: CalendarClient = googleCalendarService
+): Promise<CalendarPullResult> {
+  const result: CalendarPullResult = { applied: 0, conflicts: 0, skipped: 0 };
+  const settings = await getConnectedCalendar(calendarUserId);
+  if (!settings) {
+    return result;
+  }
+
+  const calendarId = settings.calendarId || 'primary';
+  let changes: { events: CalendarEventChange[]; nextSyncToken: string };
+  try {
+    changes = await client.listEventChanges(settings.googleAccessToken, settings.googleRefreshToken!, {
+      calendarId,
+      syncToken: settings.calendarSyncToken,
+    });
+  } catch (error) {
+    if (!(error instanceof SyncTokenExpiredError)) {
+      throw error;
+    }
+    // Google dropped the token - start again from a full sync
+    changes = await client.listEventChanges(settings.googleAccessToken, settings.googleRefreshToken!, {
+      calendarId,
+      syncToken: null,
+    });
+  }
+
+  for (const event of changes.events) {
+    const outcome = await applyEventChange(calendarUserId, event, settings.timezone, client);
+    result[outcome]++;
+  }
+
+  await storage.upsertUserSettings(calendarUserId, {
+    calendarSyncToken: changes.nextSyncToken,
+    calendarLastSyncedAt: new Date(),
+  });
+  return result;
+}
+
+async function applyEventChange(
+  calendarUserId: string,
+  event: CalendarEventChange,
+  timeZone: string,
+  client: CalendarClient
+): Promise<keyof CalendarPullResult> {
+  const order = await storage.getOrderByCalendarEventId(calendarUserId, event.id);
+  if (!order?.calendarEventIds) {
+    return "skipped"; // Not one of our events, or the order is gone
+  }
+
+  const eventIds: CalendarEventIds = JSON.parse(order.calendarEventIds);
+  const kind = (Object.keys(syncedDateFields) as SyncedEventKind[]).find(key => eventIds[key] === event.id);
+
+  if (!kind) {
+    // The review event follows the delivery date - only forget it when deleted
+    if (eventIds.review === event.id && event.cancelled) {
+      delete eventIds.review;
+      await storage.updateOrder(order.id, order.workspaceId, { calendarEventIds: JSON.stringify(eventIds) });
+    }
+    return "skipped";
   }
+
+  const field = syncedDateFields[kind];
+  const startDay = eventDay(event, timeZone);
+  const local = toDay(order[field.key]);
+  const remote = event.cancelled ? null : toDay(startDay);
+  // Orders pushed before two-way sync have no synced dates - assume the order is unchanged
+  const base = eventIds.synced && kind in eventIds.synced ? eventIds.synced[kind] ?? null : local;
+
+  if (remote === base) {
+    return "skipped"; // Only the title or reminders changed, or our own push echoing back
+  }
+
+  if (remote === local) {
+    // Both sides already agree - just record it as synced
+    eventIds.synced = { ...eventIds.synced, [kind]: remote };
+    await storage.updateOrder(order.id, order.workspaceId, { calendarEventIds: JSON.stringify(eventIds) });
+    return "skipped";
+  }
+
+  const describe = (day: string | null) => day ?? "cleared";
+
+  if (local !== base) {
+    // The order changed too since the last push - keep whichever edit is newer
+    const calendarWins = !!event.updated && !!order.updatedAt && event.updated > order.updatedAt;
+    await storage.createActivityLog(order.workspaceId, calendarUserId, {
+      orderId: order.id,
+      activityType: "Calendar Sync Conflict",
+      description: calendarWins
+        ? `${field.label} changed in both the order and Google Calendar - kept the calendar's newer ${describe(remote)}`
+        : `${field.label} changed in both the order and Google Calendar - kept the order's newer ${describe(local)}`,
+      oldValue: describe(calendarWins ? local : remote),
+      newValue: describe(calendarWins ? remote : local),
+      triggeredBy: "System"
+    });
+
+    if (!calendarWins) {
+      await queueCalendarSync(calendarUserId, order, "update", client);
+      return "conflicts";
+    }
+  }
+
+  const current = order[field.key];
+  const newDate = event.cancelled || !startDay
+    ? null
+    : current
+      ? addDays(current, differenceInCalendarDays(startDay, current)) // keep the order's time of day
+      : startDay;
+
+  // The calendar already shows the new date, so it counts as synced
+  eventIds.synced = { ...eventIds.synced, [kind]: remote };
+  const updated = await storage.updateOrder(order.id, order.workspaceId, {
+    [field.key]: newDate,
+    calendarEventIds: JSON.stringify(eventIds),
+  });
+  if (!updated) {
+    return "skipped";
+  }
+
+  await storage.createActivityLog(order.workspaceId, calendarUserId, {
+    orderId: order.id,
+    activityType: "Dates Modified",
+    description: newDate
+      ? `${field.label} moved in Google Calendar`
+      : `${field.label} cleared - event deleted in Google Calendar`,
+    oldValue: current?.toString() || 'Not set',
+    newValue: newDate?.toString() || 'Not set',
+    triggeredBy: "System"
+  });
+
+  // Re-push so the review event follows the delivery date
+  await queueCalendarSync(calendarUserId, updated, "update", client);
+  return local !== base ? "conflicts" : "applied";
 }
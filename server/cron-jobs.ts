@@ -1,12 +1,59 @@
 import cron from 'node-cron';
 import { db } from './db';
-import { orders, notifications, activityLogs, users } from '@shared/schema';
-import { eq, and, lt, lte, or, isNull } from 'drizzle-orm';
-import { format, addDays, differenceInDays, startOfDay, endOfDay, subDays } from 'date-fns';
+import { orders, users } from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
+import { processOutbox } from './messaging';
+import { pullCalendarChanges, processCalendarSyncQueue } from './calendar-sync';
+import { storage } from './storage';
+import { pushCriticalNotifications, releaseHeldPushes, sendEscalation } from './notifications';
+import { sendDueDigests } from './digest';
+import { publishEvent } from './events';
+import { JOB_RUN_RETENTION_DAYS, runDuration, runJob, type JobCounts } from './job-runner';
+import { allowsNotification, notificationChannels, type NotificationChannel } from '@shared/notification-preferences';
+import { collectReminderMatches, planReminderNotifications } from '@shared/reminder-rules';
+import {
+  planStatusChanges,
+  statusAutomationNotices,
+  statusAutomationNotificationKey,
+  type StatusAutomationTarget
+} from '@shared/status-automations';
+import type { CronJobName } from '@shared/cron-jobs';
+import type { JobRun, JobRunTrigger, Notification, NotificationPreferences, NotificationType, ReminderCategory, ReminderRule, StatusAutomation } from '@shared/schema';
+import { setHours, setMinutes, startOfDay, startOfHour, startOfMinute, subDays } from 'date-fns';
+
+// Daily checks run at this hour of the server's timezone
+const DAILY_CHECK_HOUR = 9;
+
+/**
+ * The schedule slot a run at `now` covers - the latest time the job was due.
+ * Instances woken by the same tick, and HTTP calls made any time before the
+ * next one, agree on it, so each slot runs once.
+ */
+export function jobSlot(job: CronJobName, now: Date = new Date()): Date {
+  const everyMinutes = (minutes: number) =>
+    setMinutes(startOfHour(now), Math.floor(now.getMinutes() / minutes) * minutes);
+  switch (job) {
+    case 'hourly-checks':
+    case 'email-digests':
+      return startOfHour(now);
+    case 'daily-checks': {
+      const today = setHours(startOfDay(now), DAILY_CHECK_HOUR);
+      return today <= now ? today : subDays(today, 1);
+    }
+    case 'message-outbox':
+      return everyMinutes(5);
+    case 'calendar-sync':
+      return everyMinutes(15);
+    case 'calendar-sync-queue':
+      return startOfMinute(now);
+  }
+}
 
 /**
  * Cron Job Service for ReviewPilot
- * Runs scheduled tasks to check and update orders based on dates
+ * Runs scheduled tasks to check and update orders based on dates. Every run
+ * goes through runJob, so it is recorded in job_runs and only one instance
+ * runs each slot.
  */
 class CronJobService {
   private tasks: any[] = [];
@@ -25,26 +72,50 @@ class CronJobService {
 
     // Run every hour (at minute 0)
     const hourlyTask = cron.schedule('0 * * * *', () => {
-      this.runHourlyChecks();
+      this.runScheduled('hourly-checks');
     });
 
     // Run daily at 9:00 AM
-    const dailyTask = cron.schedule('0 9 * * *', () => {
-      this.runDailyChecks();
+    const dailyTask = cron.schedule(`0 ${DAILY_CHECK_HOUR} * * *`, () => {
+      this.runScheduled('daily-checks');
+    });
+
+    // Email digests every hour - each member gets theirs after 8:00 AM in their timezone, weekly ones on Mondays
+    const digestTask = cron.schedule('0 * * * *', () => {
+      this.runScheduled('email-digests');
     });
 
-    this.tasks.push(hourlyTask, dailyTask);
+    // Deliver queued and retrying messages, and pushes held by quiet hours, every 5 minutes
+    const outboxTask = cron.schedule('*/5 * * * *', () => {
+      this.runScheduled('message-outbox');
+    });
+
+    // Push queued order changes to Google Calendar every minute
+    const calendarQueueTask = cron.schedule('* * * * *', () => {
+      this.runScheduled('calendar-sync-queue');
+    });
+
+    // Pull event moves and deletions from Google Calendar every 15 minutes
+    const calendarTask = cron.schedule('*/15 * * * *', () => {
+      this.runScheduled('calendar-sync');
+    });
+
+    this.tasks.push(hourlyTask, dailyTask, digestTask, outboxTask, calendarQueueTask, calendarTask);
     this.isRunning = true;
 
     console.log('✅ Cron Job Service started successfully');
     console.log('📅 Scheduled tasks:');
     console.log('   - Hourly checks: Every hour at minute 0');
     console.log('   - Daily checks: Every day at 9:00 AM');
+    console.log('   - Email digests: Every hour (8:00 AM in each user\'s timezone, weekly on Mondays)');
+    console.log('   - Message outbox and held pushes: Every 5 minutes');
+    console.log('   - Calendar sync queue: Every minute');
+    console.log('   - Calendar sync: Every 15 minutes');
     console.log(`   - Timezone: ${process.env.TZ || 'Asia/Kolkata'}`);
 
-    // Run initial check on startup
+    // Catch up on runs missed while the server was down
     setTimeout(() => {
-      this.runInitialCheck();
+      this.catchUpMissedRuns();
     }, 5000); // Wait 5 seconds after server starts
   }
 
@@ -60,315 +131,296 @@ class CronJobService {
   }
 
   /**
-   * Run checks immediately after server starts
-   * Only processes urgent items (notifications, not status updates)
+   * Run the latest slot of the hourly, daily, digest and calendar pull jobs
+   * if no instance ran it - e.g. the server was down at 9:00 AM. The outbox
+   * and calendar queue run every few minutes, so their next tick catches up.
    */
-  private async runInitialCheck() {
-    console.log('🔍 Running initial checks on startup...');
-    try {
-      await this.checkAndCreateNotifications();
-      console.log('✅ Initial checks completed');
-    } catch (error) {
-      console.error('❌ Error in initial checks:', error);
-    }
+  private async catchUpMissedRuns() {
+    console.log('🔍 Catching up on missed runs...');
+    await this.runScheduled('hourly-checks', 'catch-up');
+    await this.runScheduled('daily-checks', 'catch-up');
+    await this.runScheduled('email-digests', 'catch-up');
+    await this.runScheduled('calendar-sync', 'catch-up');
+    console.log('✅ Catch-up completed');
   }
 
   /**
-   * Hourly checks - Create notifications for urgent items
+   * Run a job for the slot it is due in. Returns the recorded run, or null
+   * when another instance is running it or the slot has already been run.
+   * Used by the schedule here and by the HTTP cron endpoint.
    */
-  private async runHourlyChecks() {
-    console.log('⏰ Running hourly checks...');
-    const startTime = Date.now();
+  async execute(
+    job: CronJobName,
+    trigger: JobRunTrigger = 'schedule',
+    now: Date = new Date()
+  ): Promise<{ scheduledFor: Date; run: JobRun | null }> {
+    const scheduledFor = trigger === 'manual' ? now : jobSlot(job, now);
+    const run = await runJob(job, () => this.jobTasks[job](), { trigger, scheduledFor });
+    if (run) {
+      this.logRun(run);
+    }
+    return { scheduledFor, run };
+  }
+
+  private async runScheduled(job: CronJobName, trigger: JobRunTrigger = 'schedule') {
     try {
-      const notificationCount = await this.checkAndCreateNotifications();
-      const elapsed = Date.now() - startTime;
-      console.log(`✅ Hourly checks completed (${elapsed}ms) - ${notificationCount} notifications created`);
+      await this.execute(job, trigger);
     } catch (error) {
-      console.error('❌ Error in hourly checks:', error);
+      console.error(`❌ Error running ${job}:`, error);
+    }
+  }
+
+  // What each job does - the counts returned are stored with its run
+  private jobTasks: Record<CronJobName, () => Promise<JobCounts>> = {
+    // Hourly checks - Create notifications for urgent items
+    'hourly-checks': async () => ({
+      notifications: await this.checkAndCreateNotifications()
+    }),
+    // Daily checks - Update order statuses and check all dates
+    'daily-checks': async () => ({
+      notifications: await this.checkAndCreateNotifications(),
+      statusUpdates: await this.updateOrderStatuses(),
+      jobRunsPruned: await storage.deleteJobRunsBefore(subDays(new Date(), JOB_RUN_RETENTION_DAYS))
+    }),
+    // Email digests - each member's daily or weekly digest once their morning comes
+    'email-digests': () => sendDueDigests(),
+    // Outbox delivery - messages whose next attempt is due, then pushes whose quiet hours are over
+    'message-outbox': async () => ({
+      ...(await processOutbox()),
+      heldPushes: await releaseHeldPushes()
+    }),
+    // Calendar sync queue - retry order pushes to Google Calendar that are due
+    'calendar-sync-queue': () => processCalendarSyncQueue(),
+    // Calendar sync - carry changes made in Google Calendar back into orders
+    'calendar-sync': () => this.pullConnectedCalendars(),
+  };
+
+  private logRun(run: JobRun) {
+    if (run.status === 'failed') {
+      return; // runJob has logged the error
+    }
+    const counts = run.counts ?? {};
+    switch (run.job as CronJobName) {
+      case 'hourly-checks':
+        console.log(`✅ Hourly checks completed (${runDuration(run)}ms) - ${counts.notifications ?? 0} notifications created`);
+        break;
+      case 'daily-checks':
+        console.log(`✅ Daily checks completed (${runDuration(run)}ms)`);
+        console.log(`   - ${counts.notifications ?? 0} notifications created`);
+        console.log(`   - ${counts.statusUpdates ?? 0} order statuses updated`);
+        break;
+      case 'email-digests':
+        if (counts.users) {
+          console.log(`📬 Email digests: ${counts.digests} sent to ${counts.users} users`);
+        }
+        break;
+      case 'message-outbox': {
+        const { sent = 0, retrying = 0, failed = 0, heldPushes = 0 } = counts;
+        if (sent + retrying + failed > 0) {
+          console.log(`📨 Outbox delivery: ${sent} sent, ${retrying} retrying, ${failed} failed`);
+        }
+        if (heldPushes > 0) {
+          console.log(`📲 Sent ${heldPushes} pushes held by quiet hours`);
+        }
+        break;
+      }
+      case 'calendar-sync-queue': {
+        const { synced = 0, retrying = 0, failed = 0 } = counts;
+        if (synced + retrying + failed > 0) {
+          console.log(`📅 Calendar sync queue: ${synced} synced, ${retrying} retrying, ${failed} failed`);
+        }
+        break;
+      }
     }
   }
 
   /**
-   * Daily checks - Update order statuses and check all dates
+   * Pull changes from every connected Google Calendar - one failing calendar
+   * does not stop the rest
    */
-  private async runDailyChecks() {
-    console.log('📅 Running daily checks...');
-    const startTime = Date.now();
-    try {
-      const notificationCount = await this.checkAndCreateNotifications();
-      const statusUpdateCount = await this.updateOrderStatuses();
-      const elapsed = Date.now() - startTime;
-      console.log(`✅ Daily checks completed (${elapsed}ms)`);
-      console.log(`   - ${notificationCount} notifications created`);
-      console.log(`   - ${statusUpdateCount} order statuses updated`);
-    } catch (error) {
-      console.error('❌ Error in daily checks:', error);
+  private async pullConnectedCalendars(): Promise<JobCounts> {
+    const counts = { calendars: 0, applied: 0, conflicts: 0, failed: 0 };
+    const connected = await storage.getCalendarSyncSettings();
+    for (const settings of connected) {
+      counts.calendars++;
+      try {
+        const { applied, conflicts } = await pullCalendarChanges(settings.userId);
+        counts.applied += applied;
+        counts.conflicts += conflicts;
+        if (applied + conflicts > 0) {
+          console.log(`📅 Calendar sync for ${settings.userId}: ${applied} orders updated, ${conflicts} conflicts`);
+        }
+      } catch (error) {
+        counts.failed++;
+        console.error(`❌ Error syncing calendar for ${settings.userId}:`, error);
+      }
     }
+    return counts;
   }
 
   /**
-   * Check all orders and create notifications for date-based reminders
+   * Evaluate the workspace reminder rules against open orders and notify once
+   * per rule, order and occurrence. Set-based: the orders, the notifications
+   * they already have and the owners' settings are loaded in a few queries,
+   * the new notifications are worked out in memory and inserted in bulk.
+   * Pass workspace ids to check only those workspaces.
    */
-  private async checkAndCreateNotifications(): Promise<number> {
+  async checkAndCreateNotifications(workspaceIds?: string[]): Promise<number> {
     const now = new Date();
-    const today = startOfDay(now);
-    const in3Days = addDays(today, 3);
-    const todayEnd = endOfDay(now);
-    const yesterday = subDays(today, 1);
+    const rules = (await storage.getEnabledReminderRules())
+      .filter(rule => !workspaceIds || workspaceIds.includes(rule.workspaceId));
+    const rulesByWorkspace = new Map<string, ReminderRule[]>();
+    for (const rule of rules) {
+      rulesByWorkspace.set(rule.workspaceId, [...(rulesByWorkspace.get(rule.workspaceId) ?? []), rule]);
+    }
 
-    let notificationsCreated = 0;
+    const openOrders = await storage.getReminderOrders(Array.from(rulesByWorkspace.keys()));
+    const ownerIds = Array.from(new Set(openOrders.map(order => order.userId)));
+    const [preferences, timezones] = await Promise.all([
+      storage.getNotificationPreferencesForUsers(ownerIds),
+      storage.getUserTimezones(ownerIds)
+    ]);
 
-    try {
-      // Get all orders with delivery dates
-      const ordersWithDelivery = await db
-        .select()
-        .from(orders)
-        .where(
-          and(
-            isNull(orders.calendarEventIds), // Only process orders without calendar events
-            lt(orders.deliveryDate, in3Days), // Delivery within 3 days
-            lte(orders.deliveryDate, todayEnd) // Delivery today or before
-          )
-        );
-
-      // Get all orders with refund form dates
-      const ordersWithRefundDate = await db
-        .select()
-        .from(orders)
-        .where(
-          and(
-            isNull(orders.calendarEventIds),
-            lt(orders.refundFormDate, in3Days), // Refund form due within 3 days
-            lte(orders.refundFormDate, todayEnd)
-          )
-        );
-
-      // Process delivery reminders
-      for (const order of ordersWithDelivery) {
-        if (order.deliveryDate) {
-          const daysUntilDelivery = differenceInDays(new Date(order.deliveryDate), today);
-
-          // Only create notification if it doesn't already exist
-          const existingNotification = await db
-            .select()
-            .from(notifications)
-            .where(
-              and(
-                eq(notifications.orderId, order.id),
-                eq(notifications.type, 'Warning')
-              )
-            )
-            .limit(1);
-
-          if (existingNotification.length === 0) {
-            if (daysUntilDelivery <= 1) {
-              // Delivery expected within 1 day
-              await this.createNotification(order.userId, {
-                orderId: order.id,
-                type: 'Warning',
-                title: 'Delivery Expected Soon',
-                message: `Product "${order.productName}" (Order #${order.orderId}) is expected to be delivered within 24 hours.`
-              });
-              notificationsCreated++;
-            } else if (daysUntilDelivery <= 3) {
-              // Delivery expected within 3 days
-              await this.createNotification(order.userId, {
-                orderId: order.id,
-                type: 'Warning',
-                title: 'Delivery Coming Up',
-                message: `Product "${order.productName}" (Order #${order.orderId}) delivery expected in ${daysUntilDelivery} day(s).`
-              });
-              notificationsCreated++;
-            }
-          }
-        }
-      }
+    const matches = collectReminderMatches(openOrders, rulesByWorkspace, timezones, now);
+    const existing = await storage.getNotificationKeyStates(matches.map(({ key }) => key));
+    const { reminders, escalationKeys } = planReminderNotifications(matches, preferences, existing);
 
-      // Process refund form reminders
-      for (const order of ordersWithRefundDate) {
-        if (order.refundFormDate) {
-          const daysUntilRefund = differenceInDays(new Date(order.refundFormDate), today);
-          const existingNotification = await db
-            .select()
-            .from(notifications)
-            .where(
-              and(
-                eq(notifications.orderId, order.id),
-                eq(notifications.type, 'Warning')
-              )
-            )
-            .limit(1);
-
-          if (existingNotification.length === 0) {
-            if (daysUntilRefund <= 0) {
-              // Refund form due today or overdue
-              await this.createNotification(order.userId, {
-                orderId: order.id,
-                type: 'Critical',
-                title: 'Refund Form Deadline Passed',
-                message: `Refund form for "${order.productName}" (Order #${order.orderId}) was due on ${format(new Date(order.refundFormDate), 'MMM dd')}. Please submit immediately!`
-              });
-              notificationsCreated++;
-            } else if (daysUntilRefund <= 3) {
-              // Refund form due within 3 days
-              await this.createNotification(order.userId, {
-                orderId: order.id,
-                type: 'Warning',
-                title: 'Refund Form Due Soon',
-                message: `Refund form for "${order.productName}" (Order #${order.orderId}) is due in ${daysUntilRefund} day(s).`
-              });
-              notificationsCreated++;
-            }
-          }
-        }
-      }
+    // Inserts still skip keys on conflict, in case another run created them meanwhile
+    const created = await storage.createNotificationsOnce(reminders);
+    await pushCriticalNotifications(created, preferences);
 
-      // Check for products delivered but no review after 3 days
-      const deliveredOrders = await db
-        .select()
-        .from(orders)
-        .where(
-          and(
-            eq(orders.currentStatus, 'Delivered'),
-            lt(orders.deliveryDate, yesterday)
-          )
-        );
-
-      for (const order of deliveredOrders) {
-        if (order.deliveryDate) {
-          const daysSinceDelivery = differenceInDays(today, new Date(order.deliveryDate));
-
-          if (daysSinceDelivery >= 3) {
-            const existingNotification = await db
-              .select()
-              .from(notifications)
-              .where(
-                and(
-                  eq(notifications.orderId, order.id),
-                  eq(notifications.type, 'Critical')
-                )
-              )
-              .limit(1);
-
-            if (existingNotification.length === 0) {
-              await this.createNotification(order.userId, {
-                orderId: order.id,
-                type: 'Critical',
-                title: 'Review Overdue',
-                message: `Product "${order.productName}" was delivered ${daysSinceDelivery} days ago. Complete review & rating now!`
-              });
-              notificationsCreated++;
-            }
-          }
+    const escalated = await storage.escalateNotifications(escalationKeys);
+    await this.sendEscalations(escalated, rules, preferences);
+
+    return created.length;
+  }
+
+  /**
+   * Re-send escalated reminders on the rule's channels, or by email and push
+   * when the rule has none. Each member's channel preferences still apply.
+   */
+  private async sendEscalations(
+    escalated: Notification[],
+    rules: ReminderRule[],
+    preferences: Map<string, NotificationPreferences>
+  ): Promise<void> {
+    const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+    for (const notification of escalated) {
+      const ruleChannels = (rulesById.get(notification.reminderRuleId ?? '')?.channels ?? [])
+        .filter((channel): channel is NotificationChannel => (notificationChannels as readonly string[]).includes(channel));
+      const channels: NotificationChannel[] = ruleChannels.length > 0 ? ruleChannels : ['email', 'push'];
+      for (const channel of channels) {
+        if (!allowsNotification(preferences.get(notification.userId), notification, channel)) continue;
+        try {
+          await sendEscalation(notification, channel);
+        } catch (error) {
+          console.error(`Error sending escalation ${notification.id} by ${channel}:`, error);
         }
       }
-
-      return notificationsCreated;
-    } catch (error) {
-      console.error('Error checking and creating notifications:', error);
-      return 0;
+    }
+    if (escalated.length > 0) {
+      console.log(`🚨 Escalated ${escalated.length} reminder(s)`);
     }
   }
 
   /**
-   * Update order statuses based on dates
+   * Apply the workspaces' enabled status automations
    * This runs daily to automatically move orders through the lifecycle
    */
   private async updateOrderStatuses(): Promise<number> {
     const now = new Date();
-    const today = startOfDay(now);
-    const yesterday = subDays(today, 1);
+    const automationsByWorkspace = new Map<string, StatusAutomation[]>();
+    for (const automation of await storage.getEnabledStatusAutomations()) {
+      automationsByWorkspace.set(automation.workspaceId, [...(automationsByWorkspace.get(automation.workspaceId) ?? []), automation]);
+    }
+    const statuses = Array.from(new Set(Array.from(automationsByWorkspace.values()).flat().flatMap(automation => automation.statuses)));
 
-    let statusUpdates = 0;
+    const candidates = await storage.getStatusAutomationOrders(Array.from(automationsByWorkspace.keys()), statuses);
+    const ownerIds = Array.from(new Set(candidates.map(order => order.userId)));
+    const [preferences, timezones] = await Promise.all([
+      storage.getNotificationPreferencesForUsers(ownerIds),
+      storage.getUserTimezones(ownerIds)
+    ]);
 
-    try {
-      // Check for overdue refund forms
-      const overdueRefundForms = await db
-        .select()
-        .from(orders)
-        .where(
-          and(
-            or(
-              eq(orders.currentStatus, 'Delivered'),
-              eq(orders.currentStatus, 'Deliverables Done')
-            ),
-            lt(orders.refundFormDate, today),
-            isNull(orders.calendarEventIds)
-          )
-        );
-
-      for (const order of overdueRefundForms) {
-        if (order.refundFormDate) {
-          const daysOverdue = differenceInDays(today, new Date(order.refundFormDate));
-
-          if (daysOverdue > 0) {
-            // Update status to Overdue
-            await db
-              .update(orders)
-              .set({
-                currentStatus: 'Overdue Passed for Refund Form',
-                updatedAt: now
-              })
-              .where(eq(orders.id, order.id));
-
-            // Create activity log
-            await this.createActivityLog(order.userId, {
-              orderId: order.id,
-              activityType: 'Status Changed',
-              description: `Order status automatically updated to "Overdue Passed for Refund Form" - Refund form was due on ${format(new Date(order.refundFormDate), 'MMM dd, yyyy')}`,
-              oldValue: order.currentStatus,
-              newValue: 'Overdue Passed for Refund Form',
-              triggeredBy: 'System'
-            });
-
-            // Create notification
-            await this.createNotification(order.userId, {
-              orderId: order.id,
-              type: 'Critical',
-              title: 'Order Status Updated',
-              message: `"${order.productName}" (Order #${order.orderId}) marked as overdue. Refund form was due on ${format(new Date(order.refundFormDate), 'MMM dd')}.`
-            });
-
-            statusUpdates++;
-          }
-        }
+    let statusUpdates = 0;
+    for (const change of planStatusChanges(candidates, automationsByWorkspace, timezones, now)) {
+      const { automation, order } = change;
+      const toStatus = automation.toStatus as StatusAutomationTarget;
+
+      // Only move the order if nobody changed its status since it was loaded
+      const [updated] = await db
+        .update(orders)
+        .set({
+          currentStatus: toStatus,
+          statusChangedAt: now,
+          updatedAt: now
+        })
+        .where(and(eq(orders.id, order.id), eq(orders.currentStatus, order.currentStatus)))
+        .returning({ id: orders.id });
+      if (!updated) {
+        continue;
       }
+      publishEvent(order.workspaceId, { type: 'order-updated', orderId: order.id });
+
+      // Create activity log
+      await this.createActivityLog(order.workspaceId, order.userId, {
+        orderId: order.id,
+        activityType: 'Status Changed',
+        description: `Order status automatically updated to "${toStatus}" by the "${automation.name}" automation - ${change.reason}`,
+        oldValue: order.currentStatus,
+        newValue: toStatus,
+        triggeredBy: 'System'
+      });
 
-      return statusUpdates;
-    } catch (error) {
-      console.error('Error updating order statuses:', error);
-      return 0;
+      // Create notification
+      await this.createNotification(order.workspaceId, order.userId, preferences, {
+        orderId: order.id,
+        idempotencyKey: statusAutomationNotificationKey(change),
+        ...statusAutomationNotices[toStatus],
+        title: 'Order Status Updated',
+        message: `"${order.productName}" (Order #${order.orderId}) moved to "${toStatus}". ${change.reason}.`
+      });
+
+      statusUpdates++;
     }
+
+    return statusUpdates;
   }
 
   /**
-   * Helper: Create a notification
+   * Helper: Create a notification unless the user switched its category off
+   * or one with the same idempotency key exists. Returns whether it was created.
    */
-  private async createNotification(userId: string, notificationData: {
-    orderId: string;
-    type: 'Critical' | 'Warning' | 'Success' | 'Info';
-    title: string;
-    message: string;
-  }) {
+  private async createNotification(
+    workspaceId: string,
+    userId: string,
+    preferences: Map<string, NotificationPreferences>,
+    notificationData: {
+      orderId: string;
+      idempotencyKey: string;
+      type: NotificationType;
+      reminderCategory: ReminderCategory;
+      title: string;
+      message: string;
+    }
+  ): Promise<boolean> {
+    if (!allowsNotification(preferences.get(userId), notificationData)) {
+      return false;
+    }
     try {
-      await db.insert(notifications).values({
-        userId,
-        orderId: notificationData.orderId,
-        type: notificationData.type,
-        reminderCategory: 'General',
-        title: notificationData.title,
-        message: notificationData.message,
-        isRead: 0
-      });
+      const created = await storage.createNotificationsOnce([{ ...notificationData, workspaceId, userId }]);
+      await pushCriticalNotifications(created, preferences);
+      return created.length > 0;
     } catch (error) {
       console.error('Error creating notification:', error);
+      return false;
     }
   }
 
   /**
    * Helper: Create an activity log
    */
-  private async createActivityLog(userId: string, logData: {
+  private async createActivityLog(workspaceId: string, userId: string, logData: {
     orderId: string;
     activityType: string;
     description: string;
@@ -377,8 +429,7 @@ class CronJobService {
     triggeredBy?: string;
   }) {
     try {
-      await db.insert(activityLogs).values({
-        userId,
+      await storage.createActivityLog(workspaceId, userId, {
         orderId: logData.orderId,
         activityType: logData.activityType as any,
         description: logData.description,
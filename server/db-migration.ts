@@ -1,4 +1,7 @@
 import { neon } from '@neondatabase/serverless';
+import { encryptSecret, isEncryptedSecret } from './secret-box';
+import { defaultReminderRules } from '@shared/reminder-rules';
+import { defaultStatusAutomations } from '@shared/status-automations';
 
 const sql = neon(process.env.DATABASE_URL!);
 
@@ -34,7 +37,466 @@ export async function runStartupMigrations() {
       ALTER TABLE notifications 
       ADD COLUMN IF NOT EXISTS reminder_category reminder_category DEFAULT 'General'
     `;
-    
+
+    // Activity types for the payment ledger
+    await sql`ALTER TYPE activity_type ADD VALUE IF NOT EXISTS 'Payment Recorded'`;
+    await sql`ALTER TYPE activity_type ADD VALUE IF NOT EXISTS 'Payment Removed'`;
+    await sql`ALTER TYPE activity_type ADD VALUE IF NOT EXISTS 'Payment Requested'`;
+
+    // Payment ledger tables
+    await sql`
+      CREATE TABLE IF NOT EXISTS payments (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        mediator_id VARCHAR NOT NULL REFERENCES mediators(id),
+        bank_account_id VARCHAR REFERENCES bank_accounts(id),
+        amount INTEGER NOT NULL,
+        payment_date TIMESTAMP NOT NULL,
+        reference VARCHAR,
+        notes TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS payment_allocations (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        payment_id VARCHAR NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+        order_id VARCHAR NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        amount INTEGER NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_payment_allocations_order" ON payment_allocations (order_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_payment_allocations_payment" ON payment_allocations (payment_id)`;
+
+    // Bank statement reconciliation
+    await sql`ALTER TABLE bank_accounts ADD COLUMN IF NOT EXISTS statement_mapping TEXT`;
+    await sql`
+      CREATE TABLE IF NOT EXISTS bank_statement_lines (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        bank_account_id VARCHAR NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+        transaction_date TIMESTAMP NOT NULL,
+        narration TEXT NOT NULL,
+        reference VARCHAR,
+        amount INTEGER NOT NULL,
+        fingerprint VARCHAR NOT NULL,
+        payment_id VARCHAR REFERENCES payments(id) ON DELETE SET NULL,
+        ignored INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await sql`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_bank_statement_lines_fingerprint" ON bank_statement_lines (bank_account_id, fingerprint)`;
+
+    // Account password audit log
+    await sql`
+      CREATE TABLE IF NOT EXISTS account_audit_logs (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        account_id VARCHAR NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+        action VARCHAR NOT NULL,
+        ip_address VARCHAR,
+        user_agent TEXT,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_account_audit_logs_account" ON account_audit_logs (account_id)`;
+
+    // Encrypt account passwords that were stored in plaintext
+    const storedPasswords = await sql`SELECT id, password FROM accounts WHERE password IS NOT NULL AND password <> ''`;
+    const plaintextPasswords = storedPasswords.filter(row => !isEncryptedSecret(row.password));
+    for (const row of plaintextPasswords) {
+      await sql`UPDATE accounts SET password = ${encryptSecret(row.password)} WHERE id = ${row.id}`;
+    }
+    if (plaintextPasswords.length > 0) {
+      console.log(`Encrypted ${plaintextPasswords.length} stored account passwords`);
+    }
+
+    // Team workspaces
+    await sql`
+      DO $$ BEGIN
+        CREATE TYPE workspace_role AS ENUM ('owner', 'manager', 'operator', 'viewer');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `;
+    await sql`
+      CREATE TABLE IF NOT EXISTS workspaces (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR NOT NULL,
+        owner_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await sql`
+      CREATE TABLE IF NOT EXISTS workspace_members (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id VARCHAR NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        user_id VARCHAR REFERENCES users(id) ON DELETE CASCADE,
+        email VARCHAR NOT NULL,
+        role workspace_role NOT NULL DEFAULT 'operator',
+        invited_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await sql`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_workspace_members_email" ON workspace_members (workspace_id, email)`;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_workspace_members_user" ON workspace_members (user_id)`;
+
+    // Every existing user gets a personal workspace that takes over their data
+    await sql`
+      INSERT INTO workspaces (name, owner_id)
+      SELECT COALESCE(NULLIF(u.first_name, '') || '''s Workspace', 'My Workspace'), u.id
+      FROM users u
+      WHERE NOT EXISTS (SELECT 1 FROM workspaces w WHERE w.owner_id = u.id)
+    `;
+    await sql`
+      INSERT INTO workspace_members (workspace_id, user_id, email, role)
+      SELECT w.id, w.owner_id, LOWER(COALESCE(u.email, u.id)), 'owner'
+      FROM workspaces w
+      JOIN users u ON u.id = w.owner_id
+      WHERE NOT EXISTS (
+        SELECT 1 FROM workspace_members m WHERE m.workspace_id = w.id AND m.user_id = w.owner_id
+      )
+    `;
+
+    const workspaceTables = [
+      'mediators',
+      'accounts',
+      'bank_accounts',
+      'orders',
+      'payments',
+      'bank_statement_lines',
+      'notifications',
+      'activity_logs',
+    ];
+    for (const table of workspaceTables) {
+      await sql(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS workspace_id VARCHAR REFERENCES workspaces(id) ON DELETE CASCADE`);
+      await sql(`
+        UPDATE ${table} t SET workspace_id = (
+          SELECT w.id FROM workspaces w WHERE w.owner_id = t.user_id ORDER BY w.created_at LIMIT 1
+        )
+        WHERE t.workspace_id IS NULL
+      `);
+      await sql(`ALTER TABLE ${table} ALTER COLUMN workspace_id SET NOT NULL`);
+      await sql(`CREATE INDEX IF NOT EXISTS "IDX_${table}_workspace" ON ${table} (workspace_id)`);
+    }
+
+    // Messaging outbox
+    await sql`
+      DO $$ BEGIN
+        CREATE TYPE message_channel AS ENUM ('whatsapp', 'email');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `;
+    await sql`
+      DO $$ BEGIN
+        CREATE TYPE message_status AS ENUM ('pending', 'sending', 'sent', 'failed');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `;
+    await sql`
+      CREATE TABLE IF NOT EXISTS outbox_messages (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        workspace_id VARCHAR NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        mediator_id VARCHAR REFERENCES mediators(id) ON DELETE SET NULL,
+        order_id VARCHAR REFERENCES orders(id) ON DELETE SET NULL,
+        channel message_channel NOT NULL,
+        provider VARCHAR NOT NULL,
+        recipient VARCHAR NOT NULL,
+        subject VARCHAR,
+        body TEXT NOT NULL,
+        status message_status NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        provider_message_id VARCHAR,
+        next_attempt_at TIMESTAMP DEFAULT NOW(),
+        sent_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_outbox_messages_workspace" ON outbox_messages (workspace_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_outbox_messages_due" ON outbox_messages (status, next_attempt_at)`;
+
+    // Two-way calendar sync state
+    await sql`
+      ALTER TABLE user_settings
+      ADD COLUMN IF NOT EXISTS calendar_sync_token TEXT,
+      ADD COLUMN IF NOT EXISTS calendar_last_synced_at TIMESTAMP
+    `;
+    await sql`ALTER TYPE activity_type ADD VALUE IF NOT EXISTS 'Calendar Sync Conflict'`;
+
+    // Calendar sync queue
+    await sql`
+      DO $$ BEGIN
+        CREATE TYPE calendar_sync_action AS ENUM ('create', 'update', 'delete');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `;
+    await sql`
+      DO $$ BEGIN
+        CREATE TYPE calendar_sync_status AS ENUM ('pending', 'syncing', 'synced', 'failed');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `;
+    await sql`
+      CREATE TABLE IF NOT EXISTS calendar_sync_jobs (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        workspace_id VARCHAR NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        order_id VARCHAR REFERENCES orders(id) ON DELETE CASCADE,
+        action calendar_sync_action NOT NULL,
+        event_ids TEXT,
+        product_name VARCHAR NOT NULL,
+        status calendar_sync_status NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at TIMESTAMP DEFAULT NOW(),
+        synced_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_calendar_sync_jobs_workspace" ON calendar_sync_jobs (workspace_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_calendar_sync_jobs_order" ON calendar_sync_jobs (order_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_calendar_sync_jobs_due" ON calendar_sync_jobs (status, next_attempt_at)`;
+
+    // Subscribable ICS feed
+    await sql`ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS calendar_feed_token VARCHAR UNIQUE`;
+    await sql`ALTER TABLE orders ADD COLUMN IF NOT EXISTS calendar_sequence INTEGER NOT NULL DEFAULT 0`;
+
+    // Per-user notification preferences
+    await sql`
+      CREATE TABLE IF NOT EXISTS notification_preferences (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+        email_notifications INTEGER NOT NULL DEFAULT 1,
+        push_notifications INTEGER NOT NULL DEFAULT 1,
+        sms_notifications INTEGER NOT NULL DEFAULT 0,
+        order_delivered INTEGER NOT NULL DEFAULT 1,
+        refund_form_due INTEGER NOT NULL DEFAULT 1,
+        payment_received INTEGER NOT NULL DEFAULT 1,
+        order_delayed INTEGER NOT NULL DEFAULT 1,
+        weekly_reports INTEGER NOT NULL DEFAULT 1,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    // Reminder rules - workspaces that predate the table get the default rules once
+    const [{ exists: hadReminderRules }] = await sql`SELECT to_regclass('public.reminder_rules') IS NOT NULL AS exists`;
+    await sql`
+      DO $$ BEGIN
+        CREATE TYPE reminder_trigger AS ENUM ('date', 'status');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `;
+    await sql`
+      CREATE TABLE IF NOT EXISTS reminder_rules (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        workspace_id VARCHAR NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        name VARCHAR NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        trigger reminder_trigger NOT NULL,
+        date_field VARCHAR,
+        offset_days INTEGER NOT NULL DEFAULT 0,
+        statuses order_status[] NOT NULL DEFAULT '{}',
+        platform platform,
+        mediator_id VARCHAR REFERENCES mediators(id) ON DELETE CASCADE,
+        account_id VARCHAR REFERENCES accounts(id) ON DELETE CASCADE,
+        severity notification_type NOT NULL DEFAULT 'Warning',
+        reminder_category reminder_category NOT NULL DEFAULT 'General',
+        title VARCHAR NOT NULL,
+        message_template TEXT NOT NULL,
+        channels TEXT[] NOT NULL DEFAULT '{}',
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_reminder_rules_workspace" ON reminder_rules (workspace_id)`;
+    if (!hadReminderRules) {
+      for (const rule of defaultReminderRules) {
+        await sql`
+          INSERT INTO reminder_rules (
+            user_id, workspace_id, name, enabled, trigger, date_field, offset_days, statuses,
+            severity, reminder_category, title, message_template, channels
+          )
+          SELECT owner_id, id, ${rule.name}, ${rule.enabled}, ${rule.trigger}, ${rule.dateField}, ${rule.offsetDays},
+            ${rule.statuses}::order_status[], ${rule.severity}, ${rule.reminderCategory}, ${rule.title},
+            ${rule.messageTemplate}, ${rule.channels}::text[]
+          FROM workspaces
+        `;
+      }
+    }
+    await sql`ALTER TABLE notifications ADD COLUMN IF NOT EXISTS reminder_rule_id VARCHAR REFERENCES reminder_rules(id) ON DELETE SET NULL`;
+
+    // Status rules count days from the last status change - backfilled from the activity log
+    await sql`ALTER TABLE orders ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP`;
+    await sql`
+      UPDATE orders o SET status_changed_at = COALESCE((
+        SELECT MAX(a.created_at) FROM activity_logs a
+        WHERE a.order_id = o.id AND a.activity_type = 'Status Changed'
+      ), o.created_at)
+      WHERE o.status_changed_at IS NULL
+    `;
+    await sql`ALTER TABLE orders ALTER COLUMN status_changed_at SET DEFAULT NOW()`;
+
+    // Generated notifications carry an idempotency key so each reminder fires once
+    await sql`ALTER TABLE notifications ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR`;
+    await sql`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_notifications_idempotency_key" ON notifications (idempotency_key)`;
+
+    // Snooze, dismiss and escalation for notifications
+    await sql`ALTER TABLE notifications ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMP`;
+    await sql`ALTER TABLE notifications ADD COLUMN IF NOT EXISTS snoozed_while_status order_status`;
+    await sql`ALTER TABLE notifications ADD COLUMN IF NOT EXISTS dismissed_at TIMESTAMP`;
+    await sql`ALTER TABLE notifications ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP`;
+    const [{ exists: hadEscalation }] = await sql`
+      SELECT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'reminder_rules' AND column_name = 'escalation_offset_days'
+      ) AS exists
+    `;
+    await sql`ALTER TABLE reminder_rules ADD COLUMN IF NOT EXISTS escalation_offset_days INTEGER`;
+    if (!hadEscalation) {
+      // Untouched default refund form reminders escalate the day before the deadline
+      await sql`
+        UPDATE reminder_rules SET escalation_offset_days = -1
+        WHERE name = 'Refund form due soon' AND trigger = 'date' AND date_field = 'refundFormDate' AND offset_days = -3
+      `;
+    }
+
+    // Web Push - browser subscriptions and the generated VAPID key pair
+    await sql`
+      CREATE TABLE IF NOT EXISTS push_subscriptions (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        endpoint TEXT NOT NULL UNIQUE,
+        p256dh VARCHAR NOT NULL,
+        auth VARCHAR NOT NULL,
+        user_agent TEXT,
+        last_success_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_push_subscriptions_user" ON push_subscriptions (user_id)`;
+    await sql`
+      CREATE TABLE IF NOT EXISTS vapid_keys (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        public_key TEXT NOT NULL,
+        private_key TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+
+    // Email digest - how often it is sent, when it last went out, and HTML email bodies
+    await sql`
+      DO $$ BEGIN
+        CREATE TYPE digest_frequency AS ENUM ('daily', 'weekly');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `;
+    await sql`ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS digest_frequency digest_frequency NOT NULL DEFAULT 'weekly'`;
+    await sql`ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS last_digest_sent_at TIMESTAMP`;
+    await sql`ALTER TABLE outbox_messages ADD COLUMN IF NOT EXISTS html TEXT`;
+
+    // Per-user timezone, quiet hours, and pushes held back until quiet hours end
+    await sql`ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS timezone VARCHAR NOT NULL DEFAULT 'Asia/Kolkata'`;
+    await sql`ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS quiet_hours_start VARCHAR`;
+    await sql`ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS quiet_hours_end VARCHAR`;
+    await sql`ALTER TABLE notifications ADD COLUMN IF NOT EXISTS push_held_until TIMESTAMP`;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_notifications_push_held" ON notifications (push_held_until)`;
+
+    // Cron job run history
+    await sql`
+      DO $$ BEGIN
+        CREATE TYPE job_run_status AS ENUM ('running', 'succeeded', 'failed');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `;
+    await sql`
+      DO $$ BEGIN
+        CREATE TYPE job_run_trigger AS ENUM ('schedule', 'catch-up', 'manual');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `;
+    await sql`
+      CREATE TABLE IF NOT EXISTS job_runs (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        job VARCHAR NOT NULL,
+        trigger job_run_trigger NOT NULL DEFAULT 'schedule',
+        status job_run_status NOT NULL DEFAULT 'running',
+        scheduled_for TIMESTAMP NOT NULL,
+        instance VARCHAR NOT NULL,
+        counts JSONB,
+        error TEXT,
+        started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        finished_at TIMESTAMP
+      )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_job_runs_job_slot" ON job_runs (job, scheduled_for)`;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_job_runs_started" ON job_runs (started_at)`;
+
+    // Status automations - workspaces that predate the table get the defaults once, with only the overdue check on as before
+    const [{ exists: hadStatusAutomations }] = await sql`SELECT to_regclass('public.status_automations') IS NOT NULL AS exists`;
+    await sql`
+      CREATE TABLE IF NOT EXISTS status_automations (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        workspace_id VARCHAR NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        name VARCHAR NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 0,
+        trigger reminder_trigger NOT NULL,
+        date_field VARCHAR,
+        offset_days INTEGER NOT NULL DEFAULT 0,
+        statuses order_status[] NOT NULL,
+        to_status order_status NOT NULL,
+        missing_date_field VARCHAR,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS "IDX_status_automations_workspace" ON status_automations (workspace_id)`;
+    if (!hadStatusAutomations) {
+      for (const automation of defaultStatusAutomations) {
+        await sql`
+          INSERT INTO status_automations (
+            user_id, workspace_id, name, enabled, trigger, date_field, offset_days, statuses, to_status, missing_date_field
+          )
+          SELECT owner_id, id, ${automation.name}, ${automation.enabled}, ${automation.trigger}, ${automation.dateField},
+            ${automation.offsetDays}, ${automation.statuses}::order_status[], ${automation.toStatus}, ${automation.missingDateField}
+          FROM workspaces
+        `;
+      }
+    }
+
+    // Saved column mappings for order imports
+    await sql`
+      CREATE TABLE IF NOT EXISTS order_import_mappings (
+        id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        workspace_id VARCHAR NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        name VARCHAR NOT NULL,
+        mapping JSONB NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `;
+    await sql`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_order_import_mappings_name" ON order_import_mappings (workspace_id, name)`;
+
     console.log('Startup migrations completed successfully');
   } catch (error) {
     console.error('Error running startup migrations:', error);
@@ -0,0 +1,359 @@
+import { addDays, endOfDay, format, subDays } from "date-fns";
+import { storage } from "./storage";
+import { queueMessage } from "./messaging";
+import type { DigestFrequency, DigestRecipient, OrderWithRelations, OutboxMessage, User } from "@shared/schema";
+import { quietHoursEndAt } from "@shared/notification-preferences";
+import { DEFAULT_TIMEZONE, calendarDayInTimezone, getZonedParts, zonedTime } from "@shared/timezone";
+
+/**
+ * Email digest of upcoming deadlines and pending money, sent to every member
+ * of a workspace who has the digest switched on. Each digest covers the days
+ * ahead for deadlines and the period just ended for earnings, counted in the
+ * member's own timezone.
+ */
+
+const formatRupees = (paise: number) => `₹${(paise / 100).toFixed(2)}`;
+
+const getBaseUrl = () => {
+  return process.env.BASE_URL || "http://localhost:5000";
+};
+
+// Digests go out from this hour of the member's day - weekly ones on Mondays
+export const DIGEST_HOUR = 8;
+
+// Days of deadlines ahead and of earnings behind each digest covers
+const PERIOD_DAYS: Record<DigestFrequency, number> = {
+  daily: 1,
+  weekly: 7,
+};
+
+export interface DigestOrder {
+  orderId: string; // the marketplace order number
+  productName: string;
+  mediatorName: string;
+  date: Date | null;
+  note?: string;
+}
+
+export interface Digest {
+  frequency: DigestFrequency;
+  workspaceName: string;
+  periodStart: Date; // the period just ended, for earnings
+  periodEnd: Date;
+  upcomingUntil: Date; // deadlines up to this day are listed
+  deliveries: DigestOrder[];
+  reviews: DigestOrder[];
+  refundForms: DigestOrder[];
+  overdue: DigestOrder[];
+  pendingByMediator: { mediatorName: string; pendingAmount: number; orderCount: number }[];
+  pendingByBankAccount: { accountName: string; accountNumber: string; pendingAmount: number; orderCount: number }[];
+  earnings: number;
+  ordersPlaced: number;
+}
+
+function toDigestOrder(order: OrderWithRelations, date: Date | null, note?: string): DigestOrder {
+  return { orderId: order.orderId, productName: order.productName, mediatorName: order.mediator?.name ?? "Unknown", date, note };
+}
+
+const byDate = (a: DigestOrder, b: DigestOrder) => (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0);
+
+/**
+ * Collect one workspace's digest. Open orders are sorted into exactly one
+ * list each: overdue first, then reviews, refund forms and deliveries due
+ * before upcomingUntil.
+ */
+export async function buildDigest(
+  workspace: { id: string; name: string },
+  frequency: DigestFrequency,
+  now = new Date(),
+  timeZone = DEFAULT_TIMEZONE
+): Promise<Digest> {
+  const days = PERIOD_DAYS[frequency];
+  const today = calendarDayInTimezone(now, timeZone);
+  const upcomingUntil = endOfDay(addDays(today, days));
+  const periodStart = subDays(today, days);
+  const periodEnd = endOfDay(subDays(today, 1));
+
+  const digest: Digest = {
+    frequency,
+    workspaceName: workspace.name,
+    periodStart,
+    periodEnd,
+    upcomingUntil,
+    deliveries: [],
+    reviews: [],
+    refundForms: [],
+    overdue: [],
+    pendingByMediator: [],
+    pendingByBankAccount: [],
+    earnings: 0,
+    ordersPlaced: 0,
+  };
+
+  const openOrders = await storage.getReminderOrders([workspace.id]);
+  for (const order of openOrders) {
+    const deliveryDate = order.deliveryDate ? new Date(order.deliveryDate) : null;
+    const refundFormDate = order.refundFormDate ? new Date(order.refundFormDate) : null;
+    const awaitingRefundForm = order.currentStatus === "Delivered" || order.currentStatus === "Deliverables Done";
+
+    if (order.currentStatus === "Overdue Passed for Refund Form") {
+      digest.overdue.push(toDigestOrder(order, refundFormDate, "Refund form deadline passed"));
+    } else if (awaitingRefundForm && refundFormDate && refundFormDate < today) {
+      digest.overdue.push(toDigestOrder(order, refundFormDate, "Refund form deadline passed"));
+    } else if (order.currentStatus === "Ordered" && deliveryDate && deliveryDate < today) {
+      digest.overdue.push(toDigestOrder(order, deliveryDate, "Delivery is late"));
+    } else if (order.currentStatus === "Delivered") {
+      digest.reviews.push(toDigestOrder(order, deliveryDate));
+    } else if (awaitingRefundForm && refundFormDate && refundFormDate <= upcomingUntil) {
+      digest.refundForms.push(toDigestOrder(order, refundFormDate));
+    } else if (order.currentStatus === "Ordered" && deliveryDate && deliveryDate <= upcomingUntil) {
+      digest.deliveries.push(toDigestOrder(order, deliveryDate));
+    }
+  }
+  [digest.deliveries, digest.reviews, digest.refundForms, digest.overdue].forEach(list => list.sort(byDate));
+
+  // Money still owed by each mediator - refund amounts less the payments recorded against them
+  const received = await storage.getReceivedAmounts(workspace.id, openOrders.map(order => order.id));
+  const pendingByMediator = new Map<string, Digest["pendingByMediator"][number]>();
+  for (const order of openOrders) {
+    const outstanding = order.refundAmount - (received[order.id] ?? 0);
+    if (outstanding <= 0) continue;
+    const entry = pendingByMediator.get(order.mediatorId) ?? { mediatorName: order.mediator?.name ?? "Unknown", pendingAmount: 0, orderCount: 0 };
+    entry.pendingAmount += outstanding;
+    entry.orderCount++;
+    pendingByMediator.set(order.mediatorId, entry);
+  }
+  digest.pendingByMediator = Array.from(pendingByMediator.values()).sort((a, b) => b.pendingAmount - a.pendingAmount);
+
+  const { pendingByBankAccount } = await storage.getDashboardStats(workspace.id);
+  digest.pendingByBankAccount = pendingByBankAccount
+    .map(account => ({ ...account, pendingAmount: Number(account.pendingAmount), orderCount: Number(account.orderCount) }))
+    .sort((a, b) => b.pendingAmount - a.pendingAmount);
+
+  const lastPeriod = await storage.getDashboardStats(workspace.id, format(periodStart, "yyyy-MM-dd"), format(periodEnd, "yyyy-MM-dd"));
+  digest.earnings = Number(lastPeriod.monthlyEarnings);
+  digest.ordersPlaced = Number(lastPeriod.monthlyOrders);
+
+  return digest;
+}
+
+export function isDigestEmpty(digest: Digest): boolean {
+  return digest.deliveries.length + digest.reviews.length + digest.refundForms.length + digest.overdue.length === 0
+    && digest.pendingByMediator.length === 0
+    && digest.pendingByBankAccount.length === 0
+    && digest.earnings === 0
+    && digest.ordersPlaced === 0;
+}
+
+interface DigestSection {
+  title: string;
+  empty: string;
+  orders: DigestOrder[];
+  dateLabel: string;
+}
+
+function orderSections(digest: Digest): DigestSection[] {
+  return [
+    { title: "Overdue", empty: "Nothing overdue", orders: digest.overdue, dateLabel: "Due" },
+    { title: "Reviews to do", empty: "No reviews waiting", orders: digest.reviews, dateLabel: "Delivered" },
+    { title: "Refund forms due", empty: "No refund forms due", orders: digest.refundForms, dateLabel: "Due" },
+    { title: "Deliveries due", empty: "No deliveries expected", orders: digest.deliveries, dateLabel: "Expected" },
+  ];
+}
+
+const formatDay = (date: Date | null) => (date ? format(date, "dd MMM yyyy") : "No date");
+
+export function digestSubject(digest: Digest): string {
+  const label = digest.frequency === "daily" ? "Daily" : "Weekly";
+  const urgent = digest.overdue.length > 0 ? ` - ${digest.overdue.length} overdue` : "";
+  return `ReviewPilot ${label} Digest for ${digest.workspaceName}${urgent}`;
+}
+
+function periodLabel(digest: Digest): string {
+  return digest.frequency === "daily"
+    ? format(digest.periodStart, "dd MMM yyyy")
+    : `${format(digest.periodStart, "dd MMM")} - ${format(digest.periodEnd, "dd MMM yyyy")}`;
+}
+
+export function renderDigestText(digest: Digest): string {
+  const lines = [
+    digestSubject(digest),
+    `Deadlines up to ${formatDay(digest.upcomingUntil)}`,
+    "",
+  ];
+
+  for (const section of orderSections(digest)) {
+    lines.push(`${section.title} (${section.orders.length})`);
+    if (section.orders.length === 0) {
+      lines.push(`  ${section.empty}`);
+    }
+    for (const order of section.orders) {
+      const note = order.note ? ` - ${order.note}` : "";
+      lines.push(`  - ${order.productName} (#${order.orderId}, ${order.mediatorName}) ${section.dateLabel.toLowerCase()} ${formatDay(order.date)}${note}`);
+    }
+    lines.push("");
+  }
+
+  lines.push("Pending by mediator");
+  if (digest.pendingByMediator.length === 0) lines.push("  Nothing pending");
+  for (const entry of digest.pendingByMediator) {
+    lines.push(`  - ${entry.mediatorName}: ${formatRupees(entry.pendingAmount)} across ${entry.orderCount} order(s)`);
+  }
+  lines.push("", "Pending by bank account");
+  if (digest.pendingByBankAccount.length === 0) lines.push("  Nothing pending");
+  for (const account of digest.pendingByBankAccount) {
+    lines.push(`  - ${account.accountName} (${account.accountNumber}): ${formatRupees(account.pendingAmount)} across ${account.orderCount} order(s)`);
+  }
+
+  lines.push(
+    "",
+    `Last period (${periodLabel(digest)})`,
+    `  Earnings: ${formatRupees(digest.earnings)}`,
+    `  Orders placed: ${digest.ordersPlaced}`,
+    "",
+    `Open ReviewPilot: ${getBaseUrl()}/`,
+    `Switch the digest off or change how often it comes under Settings > Notification Preferences.`,
+  );
+  return lines.join("\n");
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const cell = 'style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:left"';
+const amountCell = 'style="padding:6px 8px;border-bottom:1px solid #e5e7eb;text-align:right;white-space:nowrap"';
+const heading = 'style="font-size:16px;margin:24px 0 8px;color:#111827"';
+const muted = 'style="color:#6b7280;margin:0"';
+
+function htmlTable(headers: string[], rows: string[][], amountColumns: number[] = []): string {
+  const th = headers.map((header, index) => `<th ${amountColumns.includes(index) ? amountCell : cell}>${escapeHtml(header)}</th>`).join("");
+  const body = rows
+    .map(row => `<tr>${row.map((value, index) => `<td ${amountColumns.includes(index) ? amountCell : cell}>${escapeHtml(value)}</td>`).join("")}</tr>`)
+    .join("");
+  return `<table style="border-collapse:collapse;width:100%;font-size:14px"><thead><tr>${th}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+export function renderDigestHtml(digest: Digest): string {
+  const parts = [
+    `<h1 style="font-size:20px;margin:0 0 4px;color:#111827">${escapeHtml(digestSubject(digest))}</h1>`,
+    `<p ${muted}>Deadlines up to ${escapeHtml(formatDay(digest.upcomingUntil))}</p>`,
+  ];
+
+  for (const section of orderSections(digest)) {
+    const color = section.title === "Overdue" && section.orders.length > 0 ? "#dc2626" : "#111827";
+    parts.push(`<h2 ${heading.replace("#111827", color)}>${escapeHtml(section.title)} (${section.orders.length})</h2>`);
+    parts.push(section.orders.length === 0
+      ? `<p ${muted}>${escapeHtml(section.empty)}</p>`
+      : htmlTable(
+          ["Product", "Order", "Mediator", section.dateLabel, ...(section.title === "Overdue" ? ["Reason"] : [])],
+          section.orders.map(order => [
+            order.productName,
+            `#${order.orderId}`,
+            order.mediatorName,
+            formatDay(order.date),
+            ...(section.title === "Overdue" ? [order.note ?? ""] : []),
+          ])
+        ));
+  }
+
+  parts.push(`<h2 ${heading}>Pending by mediator</h2>`);
+  parts.push(digest.pendingByMediator.length === 0
+    ? `<p ${muted}>Nothing pending</p>`
+    : htmlTable(
+        ["Mediator", "Orders", "Pending"],
+        digest.pendingByMediator.map(entry => [entry.mediatorName, String(entry.orderCount), formatRupees(entry.pendingAmount)]),
+        [1, 2]
+      ));
+  parts.push(`<h2 ${heading}>Pending by bank account</h2>`);
+  parts.push(digest.pendingByBankAccount.length === 0
+    ? `<p ${muted}>Nothing pending</p>`
+    : htmlTable(
+        ["Bank account", "Orders", "Pending"],
+        digest.pendingByBankAccount.map(account => [
+          `${account.accountName} (${account.accountNumber})`,
+          String(account.orderCount),
+          formatRupees(account.pendingAmount),
+        ]),
+        [1, 2]
+      ));
+
+  parts.push(`<h2 ${heading}>Last period (${escapeHtml(periodLabel(digest))})</h2>`);
+  parts.push(htmlTable(
+    ["", ""],
+    [["Earnings", formatRupees(digest.earnings)], ["Orders placed", String(digest.ordersPlaced)]],
+    [1]
+  ));
+
+  parts.push(
+    `<p style="margin:24px 0 8px"><a href="${escapeHtml(getBaseUrl())}/" style="color:#6366f1">Open ReviewPilot</a></p>`,
+    `<p style="color:#6b7280;font-size:12px;margin:0">Switch the digest off or change how often it comes under Settings &gt; Notification Preferences.</p>`,
+  );
+
+  return `<!DOCTYPE html><html><body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif">`
+    + `<div style="max-width:640px;margin:0 auto;background:#ffffff;padding:24px;border-radius:8px">${parts.join("")}</div>`
+    + `</body></html>`;
+}
+
+/**
+ * Render and queue one workspace's digest for one user, held until notBefore
+ * when given.
+ */
+export async function queueDigest(
+  user: Pick<User, "id"> & { email: string },
+  workspace: { id: string; name: string },
+  digest: Digest,
+  notBefore?: Date | null
+): Promise<OutboxMessage> {
+  return await queueMessage({ workspaceId: workspace.id, userId: user.id }, {
+    channel: "email",
+    recipient: user.email,
+    subject: digestSubject(digest),
+    body: renderDigestText(digest),
+    html: renderDigestHtml(digest),
+    notBefore,
+  });
+}
+
+/**
+ * Send one user their digest for every workspace they belong to. Returns the
+ * number of digests queued; workspaces with nothing to report are skipped.
+ * During the user's quiet hours the emails wait in the outbox until they end.
+ */
+export async function sendDigest(recipient: DigestRecipient, timeZone: string, now = new Date()): Promise<number> {
+  const notBefore = quietHoursEndAt(recipient, timeZone, now);
+  let queued = 0;
+  for (const workspace of await storage.getWorkspacesForUser(recipient.id)) {
+    const digest = await buildDigest(workspace, recipient.digestFrequency, now, timeZone);
+    if (isDigestEmpty(digest)) continue;
+    await queueDigest(recipient, workspace, digest, notBefore);
+    queued++;
+  }
+  return queued;
+}
+
+/**
+ * Send the digests that are due - members past DIGEST_HOUR in their own
+ * timezone, on Mondays for weekly digests. Each member is claimed for their
+ * day first, so later runs and other server instances do not send twice.
+ */
+export async function sendDueDigests(now = new Date()): Promise<{ users: number; digests: number }> {
+  const summary = { users: 0, digests: 0 };
+  const recipients = await storage.getDigestRecipients();
+  const timezones = await storage.getUserTimezones(recipients.map(recipient => recipient.id));
+
+  for (const recipient of recipients) {
+    const timeZone = timezones.get(recipient.id) ?? DEFAULT_TIMEZONE;
+    const { hour, weekday } = getZonedParts(now, timeZone);
+    if (hour < DIGEST_HOUR || (recipient.digestFrequency === "weekly" && weekday !== 1)) continue;
+
+    const startOfToday = zonedTime(calendarDayInTimezone(now, timeZone), 0, 0, timeZone);
+    if (!(await storage.claimDigest(recipient.id, startOfToday))) continue;
+    try {
+      summary.digests += await sendDigest(recipient, timeZone, now);
+      summary.users++;
+    } catch (error) {
+      console.error(`Error sending ${recipient.digestFrequency} digest to ${recipient.id}:`, error);
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,26 @@
+import { EventEmitter } from "events";
+
+// Changes pushed to the workspace's open /api/events streams. The client
+// refetches the matching queries, so events only carry ids.
+export type WorkspaceEvent =
+  | { type: "notification-created"; notificationIds: string[] }
+  | { type: "notification-updated"; notificationIds: string[] }
+  | { type: "order-updated"; orderId: string }
+  | { type: "orders-imported"; orderIds: string[] }
+  | { type: "activity-log-created"; activityLogId: string; orderId: string | null };
+
+// In-process only - with several server instances each stream sees the changes made by its own instance
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishEvent(workspaceId: string, event: WorkspaceEvent): void {
+  emitter.emit(workspaceId, event);
+}
+
+// Returns the unsubscribe function
+export function subscribeToWorkspace(workspaceId: string, listener: (event: WorkspaceEvent) => void): () => void {
+  emitter.on(workspaceId, listener);
+  return () => {
+    emitter.off(workspaceId, listener);
+  };
+}
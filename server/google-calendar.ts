@@ -1,5 +1,6 @@
 import { OAuth2Client } from 'google-auth-library';
 import { google } from 'googleapis';
+import { parseISO } from 'date-fns';
 
 const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
 const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
@@ -9,6 +10,31 @@ const getBaseUrl = () => {
   return process.env.BASE_URL || 'http://localhost:5000';
 };
 
+// One changed event from an incremental list - cancelled events only carry their id
+export interface CalendarEventChange {
+  id: string;
+  cancelled: boolean;
+  start: Date | null;
+  // All-day events carry only a date, parsed as local midnight
+  allDay: boolean;
+  updated: Date | null;
+}
+
+// Google no longer accepts the stored sync token - a full sync is needed
+export class SyncTokenExpiredError extends Error {}
+
+// Google answers 404, or 410 for events it keeps as cancelled, when the event is already gone
+export function isEventGone(error: any): boolean {
+  const status = error?.code ?? error?.response?.status;
+  return status === 404 || status === 410;
+}
+
+// The calls calendar sync makes, so a fake client can stand in for Google
+export type CalendarClient = Pick<
+  GoogleCalendarService,
+  'createCalendarEvent' | 'updateCalendarEvent' | 'deleteCalendarEvent' | 'listEventChanges'
+>;
+
 export class GoogleCalendarService {
   private oauth2Client: OAuth2Client;
 
@@ -61,6 +87,7 @@ export class GoogleCalendarService {
       startDateTime: Date;
       endDateTime: Date;
       calendarId?: string;
+      timeZone?: string; // IANA zone the event is shown in, Asia/Kolkata by default
     }
   ) {
     try {
@@ -77,11 +104,11 @@ export class GoogleCalendarService {
         description: eventData.description,
         start: {
           dateTime: eventData.startDateTime.toISOString(),
-          timeZone: 'Asia/Kolkata', // Indian timezone
+          timeZone: eventData.timeZone ?? 'Asia/Kolkata',
         },
         end: {
           dateTime: eventData.endDateTime.toISOString(),
-          timeZone: 'Asia/Kolkata',
+          timeZone: eventData.timeZone ?? 'Asia/Kolkata',
         },
         reminders: {
           useDefault: false,
@@ -114,6 +141,7 @@ export class GoogleCalendarService {
       startDateTime: Date;
       endDateTime: Date;
       calendarId?: string;
+      timeZone?: string; // IANA zone the event is shown in, Asia/Kolkata by default
     }
   ) {
     try {
@@ -129,11 +157,11 @@ export class GoogleCalendarService {
         description: eventData.description,
         start: {
           dateTime: eventData.startDateTime.toISOString(),
-          timeZone: 'Asia/Kolkata',
+          timeZone: eventData.timeZone ?? 'Asia/Kolkata',
         },
         end: {
           dateTime: eventData.endDateTime.toISOString(),
-          timeZone: 'Asia/Kolkata',
+          timeZone: eventData.timeZone ?? 'Asia/Kolkata',
         },
         reminders: {
           useDefault: false,
@@ -177,10 +205,74 @@ export class GoogleCalendarService {
       });
 
       return true;
-    } catch (error) {
+    } catch (error: any) {
+      // Already deleted, e.g. by the user in Google Calendar - nothing left to do
+      if (isEventGone(error)) {
+        return false;
+      }
       console.error('Error deleting calendar event:', error);
-      // Don't throw - if event doesn't exist, that's okay
-      return false;
+      throw error;
+    }
+  }
+
+  /**
+   * List events changed since the sync token, or every event when there is
+   * no token yet. Returns the token to pass on the next call.
+   */
+  async listEventChanges(
+    accessToken: string,
+    refreshToken: string,
+    options: { calendarId?: string; syncToken?: string | null }
+  ): Promise<{ events: CalendarEventChange[]; nextSyncToken: string }> {
+    // googleapis bundles its own google-auth-library, so build the client from it
+    const auth = new google.auth.OAuth2(
+      GOOGLE_CLIENT_ID,
+      GOOGLE_CLIENT_SECRET,
+      `${getBaseUrl()}/api/auth/google/callback`
+    );
+    auth.setCredentials({
+      access_token: accessToken,
+      refresh_token: refreshToken
+    });
+
+    const calendar = google.calendar({ version: 'v3', auth });
+    const events: CalendarEventChange[] = [];
+    let pageToken: string | undefined;
+
+    try {
+      while (true) {
+        const response = await calendar.events.list({
+          calendarId: options.calendarId || 'primary',
+          syncToken: options.syncToken || undefined,
+          pageToken,
+          showDeleted: true,
+          maxResults: 250,
+        });
+
+        for (const event of response.data.items ?? []) {
+          if (!event.id) continue;
+          const start = event.start?.dateTime ?? event.start?.date;
+          events.push({
+            id: event.id,
+            cancelled: event.status === 'cancelled',
+            start: start ? parseISO(start) : null,
+            allDay: !event.start?.dateTime,
+            updated: event.updated ? new Date(event.updated) : null,
+          });
+        }
+
+        if (response.data.nextPageToken) {
+          pageToken = response.data.nextPageToken;
+          continue;
+        }
+        return { events, nextSyncToken: response.data.nextSyncToken! };
+      }
+    } catch (error: any) {
+      if (error?.code === 410 || error?.response?.status === 410) {
+        throw new SyncTokenExpiredError('Calendar sync token expired');
+      }
+      console.error('Error listing calendar events:', error);
+      throw error;
     }
   }
 
@@ -3,10 +3,12 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { runStartupMigrations } from "./db-migration";
+import { assertSecretBoxKey } from "./secret-box";
 import { cronJobService } from "./cron-jobs";
 
 const app = express();
-app.use(express.json());
+// Bank statement CSVs are uploaded as JSON, so allow larger bodies than the default 100kb
+app.use(express.json({ limit: "5mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -24,7 +26,8 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      // Never write revealed secrets to the log
+      if (capturedJsonResponse && !path.endsWith("/reveal-password")) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -40,6 +43,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Stored account passwords cannot be read or written without the encryption key
+  assertSecretBoxKey();
+
   // Run database migrations first
   await runStartupMigrations();
   
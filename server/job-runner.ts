@@ -0,0 +1,71 @@
+import { hostname } from 'os';
+import { pool } from './db';
+import { storage } from './storage';
+import type { CronJobName } from '@shared/cron-jobs';
+import type { JobRun, JobRunTrigger } from '@shared/schema';
+
+/**
+ * Runs cron jobs so each schedule slot is handled once across all server
+ * instances. A Postgres advisory lock stops two instances running the same
+ * job at once, and the job_runs history tells an instance that wakes up for
+ * a slot another one already handled to leave it alone.
+ */
+
+export type JobCounts = Record<string, number>;
+
+// How long run history is kept
+export const JOB_RUN_RETENTION_DAYS = 14;
+
+// Identifies this process in the run history
+const instance = `${hostname()}:${process.pid}`;
+
+/**
+ * Run a job for a schedule slot and record it in job_runs. Returns null when
+ * another instance holds the job's lock or the slot has already been run -
+ * manual runs skip that check. A failing job is recorded, not thrown.
+ */
+export async function runJob(
+  job: CronJobName,
+  task: () => Promise<JobCounts>,
+  options: { trigger?: JobRunTrigger; scheduledFor?: Date } = {}
+): Promise<JobRun | null> {
+  const trigger = options.trigger ?? 'schedule';
+  const scheduledFor = options.scheduledFor ?? new Date();
+  const lockKey = `cron:${job}`;
+
+  // Session advisory locks belong to a connection, so hold one for the whole run
+  const client = await pool.connect();
+  try {
+    const { rows } = await client.query('SELECT pg_try_advisory_lock(hashtext($1)) AS locked', [lockKey]);
+    if (!rows[0]?.locked) {
+      return null; // Another instance is running this job
+    }
+
+    try {
+      // Holding the lock means nothing else is running it - "running" rows are left from a crash
+      await storage.failInterruptedJobRuns(job);
+      if (trigger !== 'manual' && await storage.hasJobRunSince(job, scheduledFor)) {
+        return null;
+      }
+
+      const run = await storage.createJobRun({ job, trigger, scheduledFor, instance });
+      try {
+        const counts = await task();
+        return (await storage.finishJobRun(run.id, { status: 'succeeded', counts, error: null })) ?? run;
+      } catch (error) {
+        console.error(`❌ Job ${job} failed:`, error);
+        const message = error instanceof Error ? error.message : String(error);
+        return (await storage.finishJobRun(run.id, { status: 'failed', error: message })) ?? run;
+      }
+    } finally {
+      await client.query('SELECT pg_advisory_unlock(hashtext($1))', [lockKey]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+// How long a finished run took, for the console logs
+export function runDuration(run: JobRun): number {
+  return run.finishedAt ? run.finishedAt.getTime() - run.startedAt.getTime() : 0;
+}
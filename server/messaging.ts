@@ -0,0 +1,316 @@
+import { appendFile } from "fs/promises";
+import nodemailer, { type Transporter } from "nodemailer";
+import { storage } from "./storage";
+import type { WorkspaceContext } from "./workspaces";
+import type { MessageChannel, OutboxMessage, SendMediatorMessage } from "@shared/schema";
+import { parseMessageTemplateSettings, renderMessageTemplate } from "@shared/message-templates";
+
+// Raised when a message cannot be queued - surfaced to the client as a 400
+export class MessagingError extends Error {}
+
+// Raised by providers when a send failed; permanent failures are not retried
+export class DeliveryError extends Error {
+  constructor(message: string, readonly retryable = true) {
+    super(message);
+  }
+}
+
+export interface OutboundMessage {
+  channel: MessageChannel;
+  recipient: string;
+  subject?: string | null;
+  body: string;
+  html?: string | null; // email only
+}
+
+export interface MessagingProvider {
+  name: string;
+  send(message: OutboundMessage): Promise<{ providerMessageId?: string }>;
+}
+
+// A stuck provider call must not hold up the rest of the outbox
+const PROVIDER_TIMEOUT = 30_000;
+
+// WhatsApp Business Cloud API. Free-form text is only delivered inside the
+// 24 hour customer service window - outside it Meta rejects the message.
+class WhatsAppCloudProvider implements MessagingProvider {
+  name = "whatsapp-cloud";
+
+  constructor(private accessToken: string, private phoneNumberId: string, private apiVersion: string) {}
+
+  async send(message: OutboundMessage) {
+    let response: Response;
+    try {
+      response = await fetch(`https://graph.facebook.com/${this.apiVersion}/${this.phoneNumberId}/messages`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          messaging_product: "whatsapp",
+          to: message.recipient.replace(/\D/g, ""),
+          type: "text",
+          text: { body: message.body, preview_url: false },
+        }),
+        signal: AbortSignal.timeout(PROVIDER_TIMEOUT),
+      });
+    } catch (error) {
+      if ((error as Error).name === "TimeoutError") {
+        throw new DeliveryError(`WhatsApp API did not answer within ${PROVIDER_TIMEOUT / 1000}s`);
+      }
+      throw error;
+    }
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const reason = result?.error?.message || response.statusText;
+      // Rate limits and server errors are worth another try, bad requests are not
+      const retryable = response.status === 429 || response.status >= 500;
+      throw new DeliveryError(`WhatsApp API ${response.status}: ${reason}`, retryable);
+    }
+    return { providerMessageId: result?.messages?.[0]?.id };
+  }
+}
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (port 465); otherwise STARTTLS
+  allowPlaintext: boolean; // send without TLS when the server offers no STARTTLS
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+// nodemailer error codes that another attempt cannot fix: rejected login, or no TLS on offer
+const PERMANENT_SMTP_ERRORS = new Set(["EAUTH", "ETLS"]);
+
+class SmtpEmailProvider implements MessagingProvider {
+  name = "smtp";
+  private transport: Transporter;
+
+  constructor(private config: SmtpConfig) {
+    this.transport = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      // Credentials only ever go over TLS unless plaintext was explicitly allowed
+      requireTLS: !config.secure && !config.allowPlaintext,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+      connectionTimeout: PROVIDER_TIMEOUT,
+      greetingTimeout: PROVIDER_TIMEOUT,
+      socketTimeout: PROVIDER_TIMEOUT,
+    });
+  }
+
+  async send(message: OutboundMessage) {
+    try {
+      const info = await this.transport.sendMail({
+        from: this.config.from,
+        to: message.recipient,
+        subject: message.subject || "ReviewPilot",
+        text: message.body,
+        html: message.html ?? undefined,
+      });
+      return { providerMessageId: info.messageId };
+    } catch (error) {
+      const { message: reason, code, responseCode } = error as Error & { code?: string; responseCode?: number };
+      // 5xx replies are permanent rejections (bad address, auth failure)
+      const permanent = (responseCode !== undefined && responseCode >= 500) || (code !== undefined && PERMANENT_SMTP_ERRORS.has(code));
+      throw new DeliveryError(responseCode ? `SMTP ${responseCode}: ${reason}` : reason, !permanent);
+    }
+  }
+}
+
+// Development stand-in - logs every message and optionally appends it to a file
+class LocalProvider implements MessagingProvider {
+  name = "local";
+
+  constructor(private filePath?: string) {}
+
+  async send(message: OutboundMessage) {
+    console.log(`📨 [local ${message.channel}] to ${message.recipient}:`, message.subject ? `${message.subject} - ` : "", message.body);
+    if (this.filePath) {
+      await appendFile(this.filePath, JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + "\n");
+    }
+    return {};
+  }
+}
+
+let providers: Record<MessageChannel, MessagingProvider> | undefined;
+
+/**
+ * Providers are chosen from the environment: WhatsApp Cloud when
+ * WHATSAPP_ACCESS_TOKEN and WHATSAPP_PHONE_NUMBER_ID are set, SMTP when
+ * SMTP_HOST is set, and the local stand-in otherwise or when
+ * MESSAGING_PROVIDER=local.
+ */
+export function getMessagingProviders(): Record<MessageChannel, MessagingProvider> {
+  if (providers) return providers;
+
+  const env = process.env;
+  const local = new LocalProvider(env.MESSAGING_LOCAL_FILE);
+  const forceLocal = env.MESSAGING_PROVIDER === "local";
+
+  const whatsapp = !forceLocal && env.WHATSAPP_ACCESS_TOKEN && env.WHATSAPP_PHONE_NUMBER_ID
+    ? new WhatsAppCloudProvider(env.WHATSAPP_ACCESS_TOKEN, env.WHATSAPP_PHONE_NUMBER_ID, env.WHATSAPP_API_VERSION || "v19.0")
+    : local;
+
+  const email = !forceLocal && env.SMTP_HOST
+    ? new SmtpEmailProvider({
+        host: env.SMTP_HOST,
+        port: parseInt(env.SMTP_PORT || "587", 10),
+        secure: env.SMTP_SECURE === "true",
+        allowPlaintext: env.SMTP_ALLOW_PLAINTEXT === "true",
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+        from: env.SMTP_FROM || env.SMTP_USER || "ReviewPilot <no-reply@localhost>",
+      })
+    : local;
+
+  providers = { whatsapp, email };
+  return providers;
+}
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+// Minutes to wait before each retry - 1m, 5m, 15m, 1h
+const RETRY_DELAYS = [1, 5, 15, 60];
+
+function nextAttemptAt(attempts: number): Date {
+  const minutes = RETRY_DELAYS[Math.min(attempts - 1, RETRY_DELAYS.length - 1)];
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+/**
+ * Attempt delivery of an outbox message. The message is claimed first so a
+ * message is never handed to a provider twice at the same time.
+ */
+export async function deliverOutboxMessage(message: OutboxMessage): Promise<OutboxMessage> {
+  const claimed = await storage.claimOutboxMessage(message.id);
+  if (!claimed) {
+    return message;
+  }
+
+  const provider = getMessagingProviders()[claimed.channel];
+  const attempts = claimed.attempts + 1;
+
+  try {
+    const result = await provider.send(claimed);
+    const sent = await storage.updateOutboxMessage(claimed.id, {
+      status: "sent",
+      provider: provider.name,
+      attempts,
+      lastError: null,
+      providerMessageId: result.providerMessageId ?? null,
+      sentAt: new Date(),
+    });
+    return sent!;
+  } catch (error) {
+    const retryable = !(error instanceof DeliveryError) || error.retryable;
+    const willRetry = retryable && attempts < MAX_DELIVERY_ATTEMPTS;
+    console.error(`Message ${claimed.id} delivery attempt ${attempts} failed:`, (error as Error).message);
+
+    const failed = await storage.updateOutboxMessage(claimed.id, {
+      status: willRetry ? "pending" : "failed",
+      provider: provider.name,
+      attempts,
+      lastError: (error as Error).message,
+      nextAttemptAt: willRetry ? nextAttemptAt(attempts) : null,
+    });
+    return failed!;
+  }
+}
+
+/**
+ * Record a message in the outbox and try to send it straight away. Failed
+ * sends stay in the outbox and are retried by the cron job. A message with
+ * notBefore in the future (held by quiet hours) waits for the cron job too.
+ */
+export async function queueMessage(
+  workspace: Pick<WorkspaceContext, "workspaceId" | "userId">,
+  message: OutboundMessage & { mediatorId?: string | null; orderId?: string | null; notBefore?: Date | null }
+): Promise<OutboxMessage> {
+  const { notBefore, ...outbound } = message;
+  const held = !!notBefore && notBefore > new Date();
+  const queued = await storage.createOutboxMessage(workspace.workspaceId, workspace.userId, {
+    ...outbound,
+    provider: getMessagingProviders()[message.channel].name,
+    ...(held ? { nextAttemptAt: notBefore } : {}),
+  });
+  return held ? queued : await deliverOutboxMessage(queued);
+}
+
+/**
+ * Send a WhatsApp message to one of the workspace's mediators. With a
+ * templateKey the body is the sender's template rendered against the order.
+ */
+export async function sendMediatorMessage(workspace: WorkspaceContext, data: SendMediatorMessage): Promise<OutboxMessage> {
+  const settings = await storage.getUserSettings(workspace.userId);
+  if (settings && !settings.messagingEnabled) {
+    throw new MessagingError("Messaging is turned off in Settings");
+  }
+
+  const mediator = await storage.getMediator(data.mediatorId);
+  if (!mediator || mediator.workspaceId !== workspace.workspaceId) {
+    throw new MessagingError("Mediator not found");
+  }
+  const order = data.orderId ? await storage.getOrder(data.orderId, workspace.workspaceId) : undefined;
+  if (data.orderId && (!order || order.mediatorId !== mediator.id)) {
+    throw new MessagingError("Order not found for this mediator");
+  }
+
+  let body = data.body;
+  if (!body && data.templateKey && order) {
+    const templates = parseMessageTemplateSettings(settings?.messageTemplates);
+    body = renderMessageTemplate(templates.templates[data.templateKey], order);
+  }
+  if (!body) {
+    throw new MessagingError("Provide a message, or a template and an order");
+  }
+
+  return await queueMessage(workspace, {
+    channel: "whatsapp",
+    recipient: mediator.whatsappNumber,
+    body,
+    mediatorId: mediator.id,
+    orderId: data.orderId ?? null,
+  });
+}
+
+/**
+ * Manually retry a message that ran out of attempts.
+ */
+export async function retryOutboxMessage(workspace: WorkspaceContext, id: string): Promise<OutboxMessage> {
+  const message = await storage.getOutboxMessage(id, workspace.workspaceId);
+  if (!message) {
+    throw new MessagingError("Message not found");
+  }
+  if (message.status !== "failed") {
+    throw new MessagingError("Only failed messages can be retried");
+  }
+
+  const reset = await storage.updateOutboxMessage(id, { status: "pending", attempts: 0, nextAttemptAt: new Date() });
+  return await deliverOutboxMessage(reset!);
+}
+
+// Messages left in "sending" this long were interrupted by a restart
+const STALE_SENDING_MINUTES = 10;
+
+/**
+ * Deliver every message whose next attempt is due. Called by the cron job.
+ */
+export async function processOutbox(limit = 50): Promise<{ sent: number; retrying: number; failed: number }> {
+  await storage.releaseStaleOutboxMessages(new Date(Date.now() - STALE_SENDING_MINUTES * 60 * 1000));
+
+  const due = await storage.getDueOutboxMessages(limit);
+  const summary = { sent: 0, retrying: 0, failed: 0 };
+  for (const message of due) {
+    const result = await deliverOutboxMessage(message);
+    if (result.status === "sent") summary.sent++;
+    else if (result.status === "failed") summary.failed++;
+    else summary.retrying++;
+  }
+  return summary;
+}
@@ -0,0 +1,165 @@
+import { storage } from "./storage";
+import { queueMessage } from "./messaging";
+import { pushToUsers, type PushPayload } from "./web-push";
+import type { WorkspaceContext } from "./workspaces";
+import type { Notification, NotificationPreferences, SnoozeNotification } from "@shared/schema";
+import { allowsNotification, quietHoursEndAt, type NotificationChannel } from "@shared/notification-preferences";
+import { DEFAULT_TIMEZONE } from "@shared/timezone";
+
+// Raised when a notification cannot be snoozed - surfaced to the client as a 400
+export class NotificationError extends Error {}
+
+export async function snoozeNotification(
+  workspace: WorkspaceContext,
+  id: string,
+  snooze: SnoozeNotification
+): Promise<Notification | undefined> {
+  const notification = await storage.getNotification(id, workspace.workspaceId);
+  if (!notification) {
+    return undefined;
+  }
+
+  if ("until" in snooze) {
+    if (snooze.until <= new Date()) {
+      throw new NotificationError("Snooze until a time in the future");
+    }
+    return await storage.snoozeNotification(id, workspace.workspaceId, { snoozedUntil: snooze.until, snoozedWhileStatus: null });
+  }
+
+  const order = notification.orderId ? await storage.getOrder(notification.orderId, workspace.workspaceId) : undefined;
+  if (!order) {
+    throw new NotificationError("Only order notifications can be snoozed until the status changes");
+  }
+  return await storage.snoozeNotification(id, workspace.workspaceId, { snoozedUntil: null, snoozedWhileStatus: order.currentStatus });
+}
+
+function toPushPayload(notification: Notification, title = notification.title): PushPayload {
+  return { title, body: notification.message, url: "/notifications", tag: notification.id };
+}
+
+/**
+ * When quiet hours end for each of the users currently inside them. Users
+ * missing from the map can be reached now.
+ */
+async function quietHoursHolds(
+  userIds: string[],
+  preferences: Map<string, NotificationPreferences>,
+  now = new Date()
+): Promise<Map<string, Date>> {
+  const holds = new Map<string, Date>();
+  const withQuietHours = userIds.filter(userId => preferences.get(userId)?.quietHoursStart && preferences.get(userId)?.quietHoursEnd);
+  if (withQuietHours.length === 0) {
+    return holds;
+  }
+  const timezones = await storage.getUserTimezones(withQuietHours);
+  for (const userId of withQuietHours) {
+    const until = quietHoursEndAt(preferences.get(userId), timezones.get(userId) ?? DEFAULT_TIMEZONE, now);
+    if (until) holds.set(userId, until);
+  }
+  return holds;
+}
+
+/**
+ * Send new Critical notifications to their members' subscribed browsers,
+ * unless a member switched push notifications off. Members in their quiet
+ * hours get them once the quiet hours end.
+ */
+export async function pushCriticalNotifications(
+  created: Notification[],
+  preferences: Map<string, NotificationPreferences>
+): Promise<void> {
+  const critical = created.filter(notification =>
+    notification.type === "Critical" && allowsNotification(preferences.get(notification.userId), notification, "push")
+  );
+  if (critical.length === 0) {
+    return;
+  }
+  try {
+    const holds = await quietHoursHolds(Array.from(new Set(critical.map(notification => notification.userId))), preferences);
+    const payloadsByUser = new Map<string, PushPayload[]>();
+    const heldByUser = new Map<string, string[]>();
+    // Appended in place - a large run can bring one member thousands of notifications
+    for (const notification of critical) {
+      if (holds.has(notification.userId)) {
+        const held = heldByUser.get(notification.userId) ?? [];
+        heldByUser.set(notification.userId, held);
+        held.push(notification.id);
+      } else {
+        const payloads = payloadsByUser.get(notification.userId) ?? [];
+        payloadsByUser.set(notification.userId, payloads);
+        payloads.push(toPushPayload(notification));
+      }
+    }
+    for (const [userId, ids] of Array.from(heldByUser)) {
+      await storage.holdNotificationPushes(ids, holds.get(userId)!);
+    }
+    if (payloadsByUser.size > 0) {
+      await pushToUsers(payloadsByUser, { urgency: "high" });
+    }
+  } catch (error) {
+    // The notifications exist either way - a failed push must not undo them
+    console.error("Error pushing critical notifications:", error);
+  }
+}
+
+/**
+ * Push the notifications whose quiet-hours hold has run out. Dismissed ones
+ * and members who switched push off since are skipped. Returns pushes sent.
+ */
+export async function releaseHeldPushes(now = new Date()): Promise<number> {
+  const released = (await storage.releaseHeldNotificationPushes(now)).filter(notification => !notification.dismissedAt);
+  if (released.length === 0) {
+    return 0;
+  }
+  const preferences = await storage.getNotificationPreferencesForUsers(Array.from(new Set(released.map(notification => notification.userId))));
+  const payloadsByUser = new Map<string, PushPayload[]>();
+  for (const notification of released) {
+    if (!allowsNotification(preferences.get(notification.userId), notification, "push")) continue;
+    const title = notification.escalatedAt ? `Escalated: ${notification.title}` : notification.title;
+    payloadsByUser.set(notification.userId, [...(payloadsByUser.get(notification.userId) ?? []), toPushPayload(notification, title)]);
+  }
+  const { sent } = await pushToUsers(payloadsByUser, { urgency: "high" });
+  return sent;
+}
+
+/**
+ * Re-send an escalated notification outside the app. Email goes to the
+ * member's login address through the outbox, push to their subscribed
+ * browsers; channels without a provider are skipped. During the member's
+ * quiet hours both are held until the quiet hours end.
+ */
+export async function sendEscalation(notification: Notification, channel: NotificationChannel): Promise<boolean> {
+  if (channel !== "email" && channel !== "push") {
+    console.log(`No ${channel} provider - escalation ${notification.id} not sent on ${channel}`);
+    return false;
+  }
+
+  const preferences = await storage.getNotificationPreferencesForUsers([notification.userId]);
+  const heldUntil = (await quietHoursHolds([notification.userId], preferences)).get(notification.userId);
+
+  if (channel === "push") {
+    if (heldUntil) {
+      await storage.holdNotificationPushes([notification.id], heldUntil);
+      return true;
+    }
+    const { sent } = await pushToUsers(
+      new Map([[notification.userId, [toPushPayload(notification, `Escalated: ${notification.title}`)]]]),
+      { urgency: "high" }
+    );
+    return sent > 0;
+  }
+
+  const user = await storage.getUser(notification.userId);
+  if (!user?.email) {
+    return false;
+  }
+  await queueMessage(notification, {
+    channel: "email",
+    recipient: user.email,
+    subject: `Escalated: ${notification.title}`,
+    body: notification.message,
+    orderId: notification.orderId,
+    notBefore: heldUntil,
+  });
+  return true;
+}
@@ -0,0 +1,309 @@
+import { format } from "date-fns";
+import { storage } from "./storage";
+import type { WorkspaceContext } from "./workspaces";
+import { insertOrderSchema, type InsertOrder } from "@shared/schema";
+import { orderPlatforms } from "@shared/order-query";
+import { orderStatusTransitions, validateInitialStatus, type OrderStatus } from "@shared/order-status";
+import { calendarDayInTimezone, DEFAULT_TIMEZONE } from "@shared/timezone";
+import {
+  normalizeImportHeader,
+  orderImportFieldLabels,
+  orderImportFields,
+  parseImportAmount,
+  parseImportDate,
+  type OrderImport,
+  type OrderImportField,
+  type OrderImportPreview,
+  type OrderImportResult,
+  type OrderImportRow,
+} from "@shared/order-import";
+
+// Raised when the file as a whole cannot be imported, e.g. a mapped column is missing
+export class OrderImportError extends Error {}
+
+const orderStatuses = Object.keys(orderStatusTransitions) as OrderStatus[];
+
+// Names are matched ignoring case and repeated spaces
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+const formatRupees = (paise: number) => `₹${(paise / 100).toFixed(2)}`;
+
+interface ValidatedRow extends OrderImportRow {
+  data?: InsertOrder; // set on valid rows
+}
+
+/**
+ * Find a workspace record by name. An exact match wins; otherwise a single
+ * match ignoring case and spacing is used with a warning.
+ */
+function matchByName<T>(
+  records: T[],
+  nameOf: (record: T) => string,
+  value: string,
+  label: string,
+  hint: string,
+  errors: string[],
+  warnings: string[]
+): T | undefined {
+  const exact = records.find(record => nameOf(record) === value);
+  if (exact) return exact;
+
+  const matches = records.filter(record => normalizeName(nameOf(record)) === normalizeName(value));
+  if (matches.length === 1) {
+    warnings.push(`${label} "${value}" matched "${nameOf(matches[0])}"`);
+    return matches[0];
+  }
+  errors.push(matches.length > 1
+    ? `${label} "${value}" matches several ${label.toLowerCase()}s - use the exact name`
+    : `${label} "${value}" not found - ${hint}`);
+  return undefined;
+}
+
+/**
+ * Validate every row of an import without writing anything. Rows are checked
+ * against the workspace's accounts, mediators, bank accounts and existing
+ * orders, and against each other for repeated order IDs.
+ */
+async function validateOrderImport(workspace: WorkspaceContext, data: OrderImport): Promise<ValidatedRow[]> {
+  const [headerRow, ...dataRows] = data.rows;
+  const headers = headerRow.map(normalizeImportHeader);
+
+  const columns: Partial<Record<OrderImportField, number>> = {};
+  for (const field of orderImportFields) {
+    const header = data.mapping[field];
+    if (!header) continue;
+    const index = headers.indexOf(normalizeImportHeader(header));
+    if (index === -1) {
+      throw new OrderImportError(`Column "${header}" (${orderImportFieldLabels[field]}) was not found in the file`);
+    }
+    columns[field] = index;
+  }
+
+  const [accounts, mediators, bankAccounts, existingOrders, settings] = await Promise.all([
+    storage.getAccounts(workspace.workspaceId),
+    storage.getMediators(workspace.workspaceId),
+    storage.getBankAccounts(workspace.workspaceId),
+    storage.getOrderNumbers(workspace.workspaceId),
+    storage.getUserSettings(workspace.userId),
+  ]);
+
+  const orderKey = (platform: string, orderId: string) => `${platform}:${orderId.trim().toLowerCase()}`;
+  const existingKeys = new Set(existingOrders.map(order => orderKey(order.platform, order.orderId)));
+  const rowsByKey = new Map<string, number>();
+  // Rows without an order date get today's date in the importing user's timezone
+  const today = format(calendarDayInTimezone(new Date(), settings?.timezone ?? DEFAULT_TIMEZONE), "yyyy-MM-dd");
+
+  return dataRows.map((cells, index): ValidatedRow => {
+    const row = index + 2;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const value = (field: OrderImportField) => {
+      const column = columns[field];
+      return column === undefined ? "" : (cells[column] ?? "").trim();
+    };
+    const required = (field: OrderImportField) => {
+      const text = value(field);
+      if (!text) errors.push(`${orderImportFieldLabels[field]} is required`);
+      return text;
+    };
+    const date = (field: OrderImportField) => {
+      const text = value(field);
+      if (!text) return null;
+      const parsed = parseImportDate(text);
+      if (!parsed) {
+        errors.push(`${orderImportFieldLabels[field]} "${text}" is not a date - use YYYY-MM-DD or DD/MM/YYYY`);
+        return null;
+      }
+      return parsed;
+    };
+
+    const productName = required("productName");
+    const orderId = required("orderId");
+
+    const accountName = required("accountName");
+    const account = accountName
+      ? matchByName(accounts, account => account.name, accountName, "Account", "create it on the Accounts page first", errors, warnings)
+      : undefined;
+
+    const mediatorName = required("mediatorName");
+    const mediator = mediatorName
+      ? matchByName(mediators, mediator => mediator.name, mediatorName, "Mediator", "create it on the Mediators page first", errors, warnings)
+      : undefined;
+
+    const bankAccountName = value("bankAccountName");
+    const bankAccount = bankAccountName
+      ? matchByName(bankAccounts, bankAccount => bankAccount.accountName, bankAccountName, "Bank account", "create it first or leave it blank", errors, warnings)
+      : undefined;
+
+    // Without a platform column the account's platform is used
+    const platformText = value("platform");
+    let platform = account?.platform ?? "Amazon";
+    if (platformText) {
+      const matched = orderPlatforms.find(candidate => normalizeName(candidate) === normalizeName(platformText));
+      if (!matched) {
+        errors.push(`Platform "${platformText}" is not supported - use one of ${orderPlatforms.join(", ")}`);
+      } else {
+        platform = matched;
+        if (account && account.platform !== matched) {
+          warnings.push(`Account "${account.name}" is a ${account.platform} account, but the order is on ${matched}`);
+        }
+      }
+    }
+
+    const orderAmountText = required("orderAmount");
+    const orderAmount = orderAmountText ? parseImportAmount(orderAmountText) : null;
+    if (orderAmountText && (orderAmount === null || orderAmount <= 0)) {
+      errors.push(`Invalid order amount: ${orderAmountText}`);
+    }
+    const refundAmountText = required("refundAmount");
+    const refundAmount = refundAmountText ? parseImportAmount(refundAmountText) : null;
+    if (refundAmountText && (refundAmount === null || refundAmount < 0)) {
+      errors.push(`Invalid refund amount: ${refundAmountText}`);
+    }
+    if (orderAmount && refundAmount && refundAmount > orderAmount) {
+      warnings.push(`Refund amount ${formatRupees(refundAmount)} is more than the order amount ${formatRupees(orderAmount)}`);
+    }
+
+    const orderDate = date("orderDate");
+    if (!value("orderDate")) {
+      warnings.push("No order date - today's date is used");
+    }
+    const deliveryDate = date("deliveryDate");
+    const refundFormDate = date("refundFormDate");
+    const remindRefundDate = date("remindRefundDate");
+    if (orderDate && deliveryDate && deliveryDate < orderDate) {
+      warnings.push("Delivery date is before the order date");
+    }
+    if (deliveryDate && refundFormDate && refundFormDate < deliveryDate) {
+      warnings.push("Refund form date is before the delivery date");
+    }
+
+    const statusText = value("currentStatus");
+    let currentStatus: OrderStatus | null = "Ordered";
+    if (statusText) {
+      currentStatus = orderStatuses.find(status => normalizeName(status) === normalizeName(statusText)) ?? null;
+      if (!currentStatus) {
+        errors.push(`Status "${statusText}" is not an order status - use one of ${orderStatuses.join(", ")}`);
+      }
+    }
+    if (currentStatus) {
+      // Same rules as creating an order by hand - the file has no refund form link column
+      const initial = validateInitialStatus(currentStatus, { deliveryDate, refundFormDate, refundFormLink: null });
+      if (!initial.allowed) {
+        errors.push(initial.missingFields.some(field => field.field === "refundFormLink")
+          ? `${initial.reason} - import it as an earlier status and move it on once the link is added`
+          : initial.reason);
+      }
+    }
+
+    if (orderId) {
+      const key = orderKey(platform, orderId);
+      if (existingKeys.has(key)) {
+        errors.push(`Order ${orderId} on ${platform} already exists`);
+      } else if (rowsByKey.has(key)) {
+        errors.push(`Order ${orderId} on ${platform} is already on row ${rowsByKey.get(key)}`);
+      } else {
+        rowsByKey.set(key, row);
+      }
+    }
+
+    const productLink = value("productLink");
+    if (productLink && !/^https?:\/\//i.test(productLink)) {
+      warnings.push("Product link does not start with http:// or https://");
+    }
+
+    let data: InsertOrder | undefined;
+    if (errors.length === 0) {
+      const parsed = insertOrderSchema.safeParse({
+        productName,
+        platform,
+        accountId: account!.id,
+        orderId,
+        orderAmount,
+        refundAmount,
+        productLink: productLink || undefined,
+        mediatorId: mediator!.id,
+        bankAccountId: bankAccount?.id,
+        orderDate: orderDate ? format(orderDate, "yyyy-MM-dd") : today,
+        deliveryDate: deliveryDate ? format(deliveryDate, "yyyy-MM-dd") : undefined,
+        refundFormDate: refundFormDate ? format(refundFormDate, "yyyy-MM-dd") : undefined,
+        remindRefundDate: remindRefundDate ? format(remindRefundDate, "yyyy-MM-dd") : undefined,
+        currentStatus,
+      });
+      if (parsed.success) {
+        data = parsed.data;
+      } else {
+        errors.push(...parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`));
+      }
+    }
+
+    return {
+      row,
+      status: data ? "valid" : "invalid",
+      errors,
+      warnings,
+      data,
+      order: {
+        productName,
+        platform,
+        orderId,
+        accountName: account?.name ?? (accountName || null),
+        mediatorName: mediator?.name ?? (mediatorName || null),
+        orderAmount,
+        refundAmount,
+        orderDate: orderDate ? format(orderDate, "yyyy-MM-dd") : null,
+        currentStatus,
+      },
+    };
+  });
+}
+
+// Dry run - what importing the file with this mapping would do, row by row
+export async function previewOrderImport(workspace: WorkspaceContext, data: OrderImport): Promise<OrderImportPreview> {
+  const rows = (await validateOrderImport(workspace, data)).map(({ data: _order, ...row }) => row);
+  const valid = rows.filter(row => row.status === "valid").length;
+  return {
+    total: rows.length,
+    valid,
+    invalid: rows.length - valid,
+    withWarnings: rows.filter(row => row.warnings.length > 0).length,
+    rows,
+  };
+}
+
+/**
+ * Import the valid rows in one transaction and report the rows skipped. The
+ * rows are validated again, so a stale preview cannot import bad data.
+ */
+export async function commitOrderImport(workspace: WorkspaceContext, data: OrderImport): Promise<OrderImportResult> {
+  const rows = await validateOrderImport(workspace, data);
+  const source = data.fileName ? ` from ${data.fileName}` : "";
+
+  const created = await storage.createOrdersWithLogs(
+    workspace.workspaceId,
+    workspace.userId,
+    rows.flatMap(({ data: order, row }) => order
+      ? [{
+          order,
+          log: {
+            activityType: "Order Created" as const,
+            description: `Order imported for ${order.productName} on ${order.platform}${source} (row ${row})`,
+            newValue: JSON.stringify({
+              status: order.currentStatus,
+              orderAmount: order.orderAmount,
+              refundAmount: order.refundAmount,
+            }),
+            triggeredBy: workspace.memberName,
+          },
+        }]
+      : [])
+  );
+
+  const invalid = rows.filter(row => row.status === "invalid");
+  return {
+    success: true,
+    imported: created.length,
+    errors: invalid.length,
+    errorDetails: invalid.map(row => ({ row: row.row, error: row.errors.join("; ") })),
+  };
+}
@@ -0,0 +1,195 @@
+import { storage } from "./storage";
+import type { WorkspaceContext } from "./workspaces";
+import { pushCriticalNotifications } from "./notifications";
+import type { InsertNotification, InsertPayment, Order, OrderWithRelations, Payment } from "@shared/schema";
+import { canTransition } from "@shared/order-status";
+import { allowsNotification } from "@shared/notification-preferences";
+
+// Raised when a payment cannot be recorded against the requested orders
+export class PaymentLedgerError extends Error {
+  constructor(message: string, readonly statusCode = 400) {
+    super(message);
+  }
+}
+
+const formatRupees = (paise: number) => `₹${(paise / 100).toFixed(2)}`;
+
+/**
+ * Move an order to "Refunded" once the ledger covers its refund amount.
+ * Returns true when the order status was changed.
+ */
+export async function settleOrderIfPaid(workspace: WorkspaceContext, order: Order, receivedAmount: number): Promise<boolean> {
+  if (order.currentStatus === "Refunded" || receivedAmount < order.refundAmount) {
+    return false;
+  }
+  if (!canTransition(order.currentStatus, "Refunded")) {
+    return false;
+  }
+
+  const updated = await storage.updateOrder(order.id, workspace.workspaceId, { currentStatus: "Refunded" });
+  await storage.createActivityLog(workspace.workspaceId, workspace.userId, {
+    orderId: order.id,
+    activityType: "Status Changed",
+    description: `Order status automatically updated to "Refunded" - ${formatRupees(receivedAmount)} received against ${formatRupees(order.refundAmount)} expected`,
+    oldValue: order.currentStatus,
+    newValue: "Refunded",
+    triggeredBy: "System"
+  });
+
+  // Keyed like the status-change notification, so the same change never notifies twice
+  const preferences = await storage.getNotificationPreferences(workspace.userId);
+  const notification: InsertNotification = {
+    orderId: order.id,
+    type: "Success",
+    reminderCategory: "Mediator_Payment",
+    title: "Refund Received",
+    message: `Refund for ${order.productName} has been received in full (${formatRupees(receivedAmount)})`
+  };
+  if (allowsNotification(preferences, notification)) {
+    const created = await storage.createNotificationsOnce([{
+      ...notification,
+      workspaceId: workspace.workspaceId,
+      userId: workspace.userId,
+      idempotencyKey: `status:${order.id}:Refunded:${updated?.statusChangedAt?.toISOString()}`,
+    }]);
+    await pushCriticalNotifications(created, new Map(preferences ? [[workspace.userId, preferences]] : []));
+  }
+  return true;
+}
+
+/**
+ * Record a mediator payment split across one or more orders, then settle
+ * every order the payment completes. A statement line passed in is claimed
+ * by the payment in the same transaction.
+ */
+export async function recordPayment(
+  workspace: WorkspaceContext,
+  data: InsertPayment,
+  options: { statementLineId?: string } = {}
+): Promise<Payment> {
+  const { allocations, ...paymentData } = data;
+
+  const mediator = await storage.getMediator(paymentData.mediatorId);
+  if (!mediator || mediator.workspaceId !== workspace.workspaceId) {
+    throw new PaymentLedgerError("Mediator not found");
+  }
+
+  if (paymentData.bankAccountId) {
+    const bankAccounts = await storage.getBankAccounts(workspace.workspaceId);
+    if (!bankAccounts.some(account => account.id === paymentData.bankAccountId)) {
+      throw new PaymentLedgerError("Bank account not found");
+    }
+  }
+
+  const orderIds = allocations.map(allocation => allocation.orderId);
+  if (new Set(orderIds).size !== orderIds.length) {
+    throw new PaymentLedgerError("Each order can only appear once in a payment");
+  }
+
+  const allocatedTotal = allocations.reduce((total, allocation) => total + allocation.amount, 0);
+  if (allocatedTotal !== paymentData.amount) {
+    throw new PaymentLedgerError(
+      `Allocated total ${formatRupees(allocatedTotal)} does not match the payment amount ${formatRupees(paymentData.amount)}`
+    );
+  }
+
+  const ordersById = new Map<string, OrderWithRelations>();
+  for (const allocation of allocations) {
+    const order = await storage.getOrder(allocation.orderId, workspace.workspaceId);
+    if (!order) {
+      throw new PaymentLedgerError(`Order ${allocation.orderId} not found`);
+    }
+    if (order.mediatorId !== paymentData.mediatorId) {
+      throw new PaymentLedgerError(`Order #${order.orderId} belongs to a different mediator`);
+    }
+    if (order.currentStatus === "Cancelled") {
+      throw new PaymentLedgerError(`Order #${order.orderId} is cancelled`);
+    }
+    const outstanding = order.refundAmount - (order.receivedAmount ?? 0);
+    if (allocation.amount > outstanding) {
+      throw new PaymentLedgerError(
+        `${formatRupees(allocation.amount)} exceeds the ${formatRupees(Math.max(outstanding, 0))} outstanding on order #${order.orderId}`
+      );
+    }
+    ordersById.set(order.id, order);
+  }
+
+  // The outstanding amounts are checked again with the orders locked - another payment may have landed since
+  const result = await storage.createPayment(workspace.workspaceId, workspace.userId, paymentData, allocations, options.statementLineId);
+  if ("statementLineClaimed" in result) {
+    throw new PaymentLedgerError("This statement line has already been reconciled", 409);
+  }
+  if ("overAllocated" in result) {
+    const order = ordersById.get(result.overAllocated.orderId)!;
+    throw new PaymentLedgerError(
+      `Order #${order.orderId} only has ${formatRupees(result.overAllocated.outstanding)} outstanding now - another payment was recorded against it`
+    );
+  }
+  const { payment, receivedAmounts } = result;
+
+  for (const allocation of allocations) {
+    const order = ordersById.get(allocation.orderId)!;
+    const receivedAmount = receivedAmounts[order.id] ?? allocation.amount;
+
+    await storage.createActivityLog(workspace.workspaceId, workspace.userId, {
+      orderId: order.id,
+      activityType: "Payment Recorded",
+      description: `Payment of ${formatRupees(allocation.amount)} received from ${mediator.name}${payment.reference ? ` (Ref: ${payment.reference})` : ""}`,
+      oldValue: String(receivedAmount - allocation.amount),
+      newValue: String(receivedAmount),
+      triggeredBy: workspace.memberName
+    });
+
+    await settleOrderIfPaid(workspace, order, receivedAmount);
+  }
+
+  return payment;
+}
+
+/**
+ * Delete a payment and re-open any refunded order it no longer covers.
+ * Returns false when the payment does not exist.
+ */
+export async function removePayment(workspace: WorkspaceContext, paymentId: string): Promise<boolean> {
+  const payment = await storage.getPayment(paymentId, workspace.workspaceId);
+  if (!payment) {
+    return false;
+  }
+
+  await storage.deletePayment(paymentId, workspace.workspaceId);
+
+  const receivedAmounts = await storage.getReceivedAmounts(
+    workspace.workspaceId,
+    payment.allocations.map(allocation => allocation.orderId)
+  );
+
+  for (const allocation of payment.allocations) {
+    const order = await storage.getOrder(allocation.orderId, workspace.workspaceId);
+    if (!order) continue;
+
+    const receivedAmount = receivedAmounts[order.id] ?? 0;
+
+    await storage.createActivityLog(workspace.workspaceId, workspace.userId, {
+      orderId: order.id,
+      activityType: "Payment Removed",
+      description: `Payment of ${formatRupees(allocation.amount)} removed from the ledger${payment.reference ? ` (Ref: ${payment.reference})` : ""}`,
+      oldValue: String(receivedAmount + allocation.amount),
+      newValue: String(receivedAmount),
+      triggeredBy: workspace.memberName
+    });
+
+    if (order.currentStatus === "Refunded" && receivedAmount < order.refundAmount) {
+      await storage.updateOrder(order.id, workspace.workspaceId, { currentStatus: "Refund Form Done" });
+      await storage.createActivityLog(workspace.workspaceId, workspace.userId, {
+        orderId: order.id,
+        activityType: "Status Changed",
+        description: `Order status automatically reverted to "Refund Form Done" - only ${formatRupees(receivedAmount)} of ${formatRupees(order.refundAmount)} received`,
+        oldValue: "Refunded",
+        newValue: "Refund Form Done",
+        triggeredBy: "System"
+      });
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,66 @@
+import { storage } from "./storage";
+import { MessagingError, sendMediatorMessage } from "./messaging";
+import type { WorkspaceContext } from "./workspaces";
+import type { Mediator, OutboxMessage } from "@shared/schema";
+import { buildPaymentRequest, paymentRequestStatuses, type PaymentRequest } from "@shared/payment-request";
+
+const formatRupees = (paise: number) => `₹${(paise / 100).toFixed(2)}`;
+
+async function getWorkspaceMediator(workspace: WorkspaceContext, mediatorId: string): Promise<Mediator> {
+  const mediator = await storage.getMediator(mediatorId);
+  if (!mediator || mediator.workspaceId !== workspace.workspaceId) {
+    throw new MessagingError("Mediator not found");
+  }
+  return mediator;
+}
+
+/**
+ * Build the consolidated payment request for a mediator without sending it.
+ */
+export async function getPaymentRequest(workspace: WorkspaceContext, mediatorId: string): Promise<PaymentRequest> {
+  const mediator = await getWorkspaceMediator(workspace, mediatorId);
+  const orders = (
+    await Promise.all(
+      paymentRequestStatuses.map(status => storage.getOrders(workspace.workspaceId, { mediatorId, status }))
+    )
+  ).flat();
+  return buildPaymentRequest(mediator, orders);
+}
+
+/**
+ * Send one payment request covering every order the mediator owes for and
+ * log it on each order. With "whatsapp-link" the message was sent by hand
+ * from the client, so only the activity is recorded.
+ */
+export async function sendPaymentRequest(
+  workspace: WorkspaceContext,
+  mediatorId: string,
+  delivery: "server" | "whatsapp-link"
+): Promise<{ request: PaymentRequest; outboxMessage?: OutboxMessage }> {
+  const mediator = await getWorkspaceMediator(workspace, mediatorId);
+  const request = await getPaymentRequest(workspace, mediatorId);
+  if (request.orderCount === 0) {
+    throw new MessagingError(`No orders are awaiting payment from ${mediator.name}`);
+  }
+
+  const outboxMessage = delivery === "server"
+    ? await sendMediatorMessage(workspace, { mediatorId, body: request.message })
+    : undefined;
+
+  const via = delivery === "server" ? "message" : "WhatsApp";
+  for (const group of request.groups) {
+    for (const line of group.lines) {
+      await storage.createActivityLog(workspace.workspaceId, workspace.userId, {
+        orderId: line.orderId,
+        activityType: "Payment Requested",
+        description: request.orderCount > 1
+          ? `Payment of ${formatRupees(line.amount)} requested from ${mediator.name} by ${via}, together with ${request.orderCount - 1} other orders (total ${formatRupees(request.total)})`
+          : `Payment of ${formatRupees(line.amount)} requested from ${mediator.name} by ${via}`,
+        newValue: formatRupees(line.amount),
+        triggeredBy: workspace.memberName,
+      });
+    }
+  }
+
+  return { request, outboxMessage };
+}
@@ -0,0 +1,183 @@
+import { appendFile } from "fs/promises";
+import type { IncomingMessage } from "http";
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, randomUUID, verify } from "crypto";
+import type { InsertPushSubscription } from "@shared/schema";
+
+/**
+ * Development stand-in for a browser push service. It hands out subscriptions
+ * whose endpoint is this server, then checks the VAPID signature of every push
+ * it receives, decrypts it like a browser would and logs it - optionally
+ * appending it to WEB_PUSH_LOCAL_FILE. Keys live in memory, so after a
+ * restart its endpoints answer 410 and the subscriptions get cleaned up.
+ * Endpoints are on BASE_URL, the one plain-http address pushes may go to.
+ */
+
+// Raised when a push would be rejected by a real push service
+export class PushStandInError extends Error {
+  constructor(message: string, readonly statusCode: number) {
+    super(message);
+  }
+}
+
+interface StandInKeys {
+  privateKey: Buffer;
+  publicKey: Buffer;
+  auth: Buffer;
+}
+
+const standInKeys = new Map<string, StandInKeys>();
+
+// Push services reject bodies over 4096 bytes
+const MAX_PUSH_BODY_BYTES = 4096;
+
+const STAND_IN_PATH = "/api/push/stand-in/";
+
+const getBaseUrl = () => {
+  return process.env.BASE_URL || "http://localhost:5000";
+};
+
+const encodeBase64Url = (data: Buffer): string => data.toString("base64url");
+const decodeBase64Url = (data: string): Buffer => Buffer.from(data, "base64url");
+
+// Available in development, or anywhere with WEB_PUSH_STAND_IN=true
+export function isPushStandInEnabled(): boolean {
+  return process.env.NODE_ENV !== "production" || process.env.WEB_PUSH_STAND_IN === "true";
+}
+
+export function createStandInSubscription(): InsertPushSubscription {
+  const ecdh = createECDH("prime256v1");
+  const publicKey = ecdh.generateKeys();
+  const keys = { privateKey: ecdh.getPrivateKey(), publicKey, auth: randomBytes(16) };
+  const id = randomUUID();
+  standInKeys.set(id, keys);
+
+  return {
+    endpoint: `${getBaseUrl()}${STAND_IN_PATH}${id}`,
+    keys: { p256dh: encodeBase64Url(keys.publicKey), auth: encodeBase64Url(keys.auth) },
+  };
+}
+
+// Whether an endpoint is one this stand-in handed out - sendWebPush lets only these through over http
+export function isStandInEndpoint(endpoint: string): boolean {
+  if (!isPushStandInEnabled() || !endpoint.startsWith(`${getBaseUrl()}${STAND_IN_PATH}`)) {
+    return false;
+  }
+  return standInKeys.has(endpoint.slice(getBaseUrl().length + STAND_IN_PATH.length));
+}
+
+function checkVapidAuthorization(authorization: string | undefined, applicationServerKey: string): void {
+  const match = /^vapid t=([\w-]+)\.([\w-]+)\.([\w-]+),\s*k=([\w-]+)$/.exec(authorization ?? "");
+  if (!match) {
+    throw new PushStandInError("Missing or malformed VAPID authorization", 401);
+  }
+  const [, header, claims, signature, key] = match;
+
+  // Only pushes signed by this server's application server key are accepted
+  if (key !== applicationServerKey) {
+    throw new PushStandInError("VAPID key does not match the subscription", 403);
+  }
+  const point = decodeBase64Url(key);
+  const publicKey = createPublicKey({
+    key: { kty: "EC", crv: "P-256", x: encodeBase64Url(point.subarray(1, 33)), y: encodeBase64Url(point.subarray(33, 65)) },
+    format: "jwk",
+  });
+  const signed = verify("sha256", Buffer.from(`${header}.${claims}`), { key: publicKey, dsaEncoding: "ieee-p1363" }, decodeBase64Url(signature));
+  if (!signed) {
+    throw new PushStandInError("Invalid VAPID signature", 403);
+  }
+
+  const { aud, exp } = JSON.parse(decodeBase64Url(claims).toString("utf8"));
+  const endpointOrigin = new URL(getBaseUrl()).origin;
+  if (aud !== endpointOrigin) {
+    throw new PushStandInError(`VAPID audience ${aud} does not match ${endpointOrigin}`, 403);
+  }
+  if (typeof exp !== "number" || exp * 1000 < Date.now()) {
+    throw new PushStandInError("VAPID token has expired", 403);
+  }
+}
+
+// Content encryption key and nonce for an aes128gcm body (RFC 8291 section 3.4)
+function deriveContentKeys(ecdhSecret: Buffer, authSecret: Buffer, userAgentKey: Buffer, serverKey: Buffer, salt: Buffer) {
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userAgentKey, serverKey]);
+  const ikm = Buffer.from(hkdfSync("sha256", ecdhSecret, authSecret, keyInfo, 32));
+  return {
+    key: Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16)),
+    nonce: Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12)),
+  };
+}
+
+// Decrypt a single-record body with the subscription's private key, as the browser would
+function decryptPayload(body: Buffer, userAgent: StandInKeys): Buffer {
+  const salt = body.subarray(0, 16);
+  const keyLength = body.readUInt8(20);
+  const serverKey = body.subarray(21, 21 + keyLength);
+  const encrypted = body.subarray(21 + keyLength);
+
+  const ecdh = createECDH("prime256v1");
+  ecdh.setPrivateKey(userAgent.privateKey);
+  const { key, nonce } = deriveContentKeys(ecdh.computeSecret(serverKey), userAgent.auth, userAgent.publicKey, serverKey, salt);
+
+  const decipher = createDecipheriv("aes-128-gcm", key, nonce);
+  decipher.setAuthTag(encrypted.subarray(encrypted.length - 16));
+  const padded = Buffer.concat([decipher.update(encrypted.subarray(0, encrypted.length - 16)), decipher.final()]);
+  const delimiter = padded.lastIndexOf(0x02);
+  if (delimiter === -1) {
+    throw new Error("Push payload has no record delimiter");
+  }
+  return padded.subarray(0, delimiter);
+}
+
+/**
+ * Read an encrypted push body. express.raw cannot be used - body-parser
+ * rejects the aes128gcm Content-Encoding as an unknown compression.
+ */
+export function readPushBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_PUSH_BODY_BYTES) {
+        reject(new PushStandInError("Push body is too large", 413));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Accept one push sent to a stand-in endpoint, signed with this server's
+ * VAPID public key. Returns the decrypted payload.
+ */
+export async function receiveStandInPush(
+  id: string,
+  applicationServerKey: string,
+  headers: { authorization?: string; contentEncoding?: string },
+  body: Buffer
+): Promise<unknown> {
+  const keys = standInKeys.get(id);
+  if (!keys) {
+    throw new PushStandInError("Subscription has expired", 410);
+  }
+  checkVapidAuthorization(headers.authorization, applicationServerKey);
+  if (headers.contentEncoding !== "aes128gcm") {
+    throw new PushStandInError("Content-Encoding must be aes128gcm", 415);
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(decryptPayload(body, keys).toString("utf8"));
+  } catch (error) {
+    throw new PushStandInError(`Could not decrypt push: ${(error as Error).message}`, 400);
+  }
+
+  console.log(`📲 [local push] to ${id}:`, payload);
+  if (process.env.WEB_PUSH_LOCAL_FILE) {
+    await appendFile(process.env.WEB_PUSH_LOCAL_FILE, JSON.stringify({ subscription: id, payload, receivedAt: new Date().toISOString() }) + "\n");
+  }
+  return payload;
+}
@@ -0,0 +1,36 @@
+import { storage } from "./storage";
+import type { WorkspaceContext } from "./workspaces";
+import type { ReminderRule } from "@shared/schema";
+import type { ReminderRuleInput } from "@shared/reminder-rules";
+
+// Raised when a reminder rule refers to something outside the workspace
+export class ReminderRuleError extends Error {}
+
+async function checkRuleFilters(workspace: WorkspaceContext, rule: ReminderRuleInput): Promise<void> {
+  if (rule.mediatorId) {
+    const mediator = await storage.getMediator(rule.mediatorId);
+    if (!mediator || mediator.workspaceId !== workspace.workspaceId) {
+      throw new ReminderRuleError("Mediator not found");
+    }
+  }
+  if (rule.accountId) {
+    const accounts = await storage.getAccounts(workspace.workspaceId);
+    if (!accounts.some(account => account.id === rule.accountId)) {
+      throw new ReminderRuleError("Account not found");
+    }
+  }
+}
+
+export async function createReminderRule(workspace: WorkspaceContext, rule: ReminderRuleInput): Promise<ReminderRule> {
+  await checkRuleFilters(workspace, rule);
+  return await storage.createReminderRule(workspace.workspaceId, workspace.userId, rule);
+}
+
+export async function updateReminderRule(
+  workspace: WorkspaceContext,
+  id: string,
+  rule: ReminderRuleInput
+): Promise<ReminderRule | undefined> {
+  await checkRuleFilters(workspace, rule);
+  return await storage.updateReminderRule(id, workspace.workspaceId, rule);
+}
@@ -1,7 +1,7 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./auth";
+import { setupAuth, isAuthenticated, requireRole, requireAdmin, requireCronSecret } from "./auth";
 import path from "path";
 import {
   insertMediatorSchema,
@@ -9,21 +9,91 @@ import {
   insertBankAccountSchema,
   insertOrderSchema,
   insertNotificationSchema,
-  insertUserSettingsSchema
+  snoozeNotificationSchema,
+  insertPushSubscriptionSchema,
+  insertUserSettingsSchema,
+  insertNotificationPreferencesSchema,
+  insertPaymentSchema,
+  confirmStatementMatchSchema,
+  insertWorkspaceSchema,
+  insertWorkspaceMemberSchema,
+  updateWorkspaceMemberSchema,
+  sendMediatorMessageSchema,
+  type JobRun
 } from "@shared/schema";
 import { googleCalendarService } from "./google-calendar";
 import { generateICSFile, createOrderCalendarEvents } from "./calendar-export";
-import { syncOrderToCalendar } from "./calendar-sync";
+import { queueCalendarSync, pullCalendarChanges, retryFailedCalendarSync } from "./calendar-sync";
+import { getCalendarFeedLinks, rotateCalendarFeed, revokeCalendarFeed, renderCalendarFeed } from "./calendar-feed";
 import { cronJobService } from "./cron-jobs";
 import { z } from "zod";
-import type { Order } from "@shared/schema";
+import type { InsertNotification, Order } from "@shared/schema";
+import { validateInitialStatus, validateStatusTransition } from "@shared/order-status";
+import { recordPayment, removePayment, settleOrderIfPaid, PaymentLedgerError } from "./payment-ledger";
+import { importBankStatementSchema } from "@shared/bank-statement";
+import { parseOrderQuery, isPaginatedOrderRequest } from "@shared/order-query";
+import { messageTemplateSettingsSchema, parseMessageTemplateSettings } from "@shared/message-templates";
+import { allowsNotification, defaultNotificationPreferences } from "@shared/notification-preferences";
+import { DEFAULT_TIMEZONE } from "@shared/timezone";
+import { cronJobNames, isCronJobName, type CronJobName } from "@shared/cron-jobs";
+import { reminderRuleSchema } from "@shared/reminder-rules";
+import { statusAutomationSchema } from "@shared/status-automations";
+import { orderImportFieldLabels, orderImportFields, orderImportSchema, saveOrderImportMappingSchema } from "@shared/order-import";
+import {
+  importBankStatement,
+  getReconciliation,
+  confirmStatementMatch,
+  BankReconciliationError,
+  DEFAULT_MATCH_WINDOW_DAYS
+} from "./bank-reconciliation";
+import {
+  resolveWorkspace,
+  inviteMember,
+  changeMemberRole,
+  removeMember,
+  WorkspaceError,
+  type WorkspaceContext
+} from "./workspaces";
+import {
+  getMessagingProviders,
+  sendMediatorMessage,
+  retryOutboxMessage,
+  MessagingError
+} from "./messaging";
+import { getPaymentRequest, sendPaymentRequest } from "./payment-request";
+import { createReminderRule, updateReminderRule, ReminderRuleError } from "./reminder-rules";
+import { previewStatusAutomation } from "./status-automations";
+import { commitOrderImport, previewOrderImport, OrderImportError } from "./order-import";
+import { snoozeNotification, pushCriticalNotifications, NotificationError } from "./notifications";
+import { buildDigest, queueDigest } from "./digest";
+import { assertPushEndpoint, getVapidKeys, pushToUsers, PushEndpointError } from "./web-push";
+import { createStandInSubscription, isPushStandInEnabled, readPushBody, receiveStandInPush, PushStandInError } from "./push-stand-in";
+import { subscribeToWorkspace } from "./events";
+
+// Interval between keep-alive comments on /api/events streams
+const SSE_HEARTBEAT_MS = 25 * 1000;
 
 // Helper function to create notifications based on order events
-async function createOrderNotifications(userId: string, order: Order, event: 'created' | 'status_changed', oldStatus?: string) {
+async function createOrderNotifications(workspace: WorkspaceContext, order: Order, event: 'created' | 'status_changed', oldStatus?: string) {
   try {
+    // Skip anything the user has switched off in their notification preferences
+    const preferences = await storage.getNotificationPreferences(workspace.userId);
+    // Each event raises at most one notification - a retried request must not raise it twice
+    const idempotencyKey = event === 'created'
+      ? `order:${order.id}:created`
+      : `status:${order.id}:${order.currentStatus}:${order.statusChangedAt?.toISOString()}`;
+    const notify = async (notification: InsertNotification) => {
+      if (allowsNotification(preferences, notification)) {
+        const created = await storage.createNotificationsOnce([
+          { ...notification, workspaceId: workspace.workspaceId, userId: workspace.userId, idempotencyKey },
+        ]);
+        await pushCriticalNotifications(created, new Map(preferences ? [[workspace.userId, preferences]] : []));
+      }
+    };
+
     // Order created notification
     if (event === 'created') {
-      await storage.createNotification(userId, {
+      await notify({
         orderId: order.id,
         type: "Info",
         reminderCategory: "General",
@@ -39,7 +109,7 @@ async function createOrderNotifications(userId: string, order: Order, event: 'cr
 
       // Critical: Overdue refund form
       if (status === "Overdue Passed for Refund Form") {
-        await storage.createNotification(userId, {
+        await notify({
           orderId: order.id,
           type: "Critical",
           reminderCategory: "Refund_Form",
@@ -50,7 +120,7 @@ async function createOrderNotifications(userId: string, order: Order, event: 'cr
 
       // Critical: Delivered (waiting for review)
       if (status === "Delivered") {
-        await storage.createNotification(userId, {
+        await notify({
           orderId: order.id,
           type: "Warning",
           reminderCategory: "Review_Rating",
@@ -61,7 +131,7 @@ async function createOrderNotifications(userId: string, order: Order, event: 'cr
 
       // Info: Remind mediator for payment
       if (status === "Remind Mediator for Payment") {
-        await storage.createNotification(userId, {
+        await notify({
           orderId: order.id,
           type: "Info",
           reminderCategory: "Mediator_Payment",
@@ -72,7 +142,7 @@ async function createOrderNotifications(userId: string, order: Order, event: 'cr
 
       // Success: Refunded
       if (status === "Refunded") {
-        await storage.createNotification(userId, {
+        await notify({
           orderId: order.id,
           type: "Success",
           reminderCategory: "Mediator_Payment",
@@ -93,11 +163,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       // Check if user is authenticated to generate personalized template
       if (req.isAuthenticated && req.isAuthenticated() && req.user) {
-        const userId = (req.user as any).claims.sub;
+        const { workspaceId } = await resolveWorkspace(req);
         
-        // Get user's accounts and mediators
-        const userAccounts = await storage.getAccounts(userId);
-        const userMediators = await storage.getMediators(userId);
+        // Get the workspace's accounts and mediators
+        const userAccounts = await storage.getAccounts(workspaceId);
+        const userMediators = await storage.getMediators(workspaceId);
         
         if (userAccounts.length > 0 && userMediators.length > 0) {
           // Generate personalized template with actual IDs
@@ -148,6 +218,131 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Workspace routes
+  app.get("/api/workspaces", isAuthenticated, async (req: any, res) => {
+    try {
+      const { workspaceId, userId } = req.workspace;
+      const workspaces = await storage.getWorkspacesForUser(userId);
+      res.json(workspaces.map(workspace => ({ ...workspace, isActive: workspace.id === workspaceId })));
+    } catch (error) {
+      console.error("Error fetching workspaces:", error);
+      res.status(500).json({ message: "Failed to fetch workspaces" });
+    }
+  });
+
+  app.post("/api/workspaces", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceData = insertWorkspaceSchema.parse(req.body);
+      const workspace = await storage.createWorkspace(
+        { id: req.user.claims.sub, email: req.user.claims.email },
+        workspaceData
+      );
+      // Switch to the new workspace straight away
+      req.session.workspaceId = workspace.id;
+      res.status(201).json(workspace);
+    } catch (error) {
+      console.error("Error creating workspace:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid workspace data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create workspace" });
+    }
+  });
+
+  app.put("/api/workspaces/active", isAuthenticated, async (req: any, res) => {
+    try {
+      const { userId } = req.workspace;
+      const { workspaceId } = z.object({ workspaceId: z.string().min(1) }).parse(req.body);
+      const membership = await storage.getWorkspaceMembership(workspaceId, userId);
+      if (!membership) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      req.session.workspaceId = workspaceId;
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error switching workspace:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid workspace data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to switch workspace" });
+    }
+  });
+
+  app.put("/api/workspaces/current", isAuthenticated, requireRole("owner"), async (req: any, res) => {
+    try {
+      const { workspaceId } = req.workspace;
+      const workspaceData = insertWorkspaceSchema.parse(req.body);
+      const workspace = await storage.updateWorkspace(workspaceId, workspaceData);
+      res.json(workspace);
+    } catch (error) {
+      console.error("Error updating workspace:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid workspace data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update workspace" });
+    }
+  });
+
+  app.get("/api/workspaces/current/members", isAuthenticated, async (req: any, res) => {
+    try {
+      const { workspaceId } = req.workspace;
+      const members = await storage.getWorkspaceMembers(workspaceId);
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching workspace members:", error);
+      res.status(500).json({ message: "Failed to fetch workspace members" });
+    }
+  });
+
+  app.post("/api/workspaces/current/members", isAuthenticated, requireRole("owner"), async (req: any, res) => {
+    try {
+      const memberData = insertWorkspaceMemberSchema.parse(req.body);
+      const member = await inviteMember(req.workspace, memberData);
+      res.status(201).json(member);
+    } catch (error) {
+      console.error("Error inviting workspace member:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid member data", errors: error.errors });
+      }
+      if (error instanceof WorkspaceError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to invite workspace member" });
+    }
+  });
+
+  app.put("/api/workspaces/current/members/:id", isAuthenticated, requireRole("owner"), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { role } = updateWorkspaceMemberSchema.parse(req.body);
+      const member = await changeMemberRole(req.workspace, id, role);
+      res.json(member);
+    } catch (error) {
+      console.error("Error updating workspace member:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid member data", errors: error.errors });
+      }
+      if (error instanceof WorkspaceError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update workspace member" });
+    }
+  });
+
+  app.delete("/api/workspaces/current/members/:id", isAuthenticated, requireRole("owner"), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      await removeMember(req.workspace, id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing workspace member:", error);
+      if (error instanceof WorkspaceError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to remove workspace member" });
+    }
+  });
+
   // Google Calendar OAuth routes
   app.get('/api/calendar/auth', isAuthenticated, async (req: any, res) => {
     try {
@@ -176,6 +371,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         googleAccessToken: tokens.access_token!,
         googleRefreshToken: tokens.refresh_token || null,
         googleTokenExpiry: tokens.expiry_date ? new Date(tokens.expiry_date) : null,
+        calendarSyncToken: null,
         calendarEnabled: 1
       });
 
@@ -275,20 +471,119 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Pull changes made in Google Calendar back into orders now
+  app.post('/api/calendar/sync', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const settings = await storage.getUserSettings(userId);
+      if (!settings?.googleAccessToken) {
+        return res.status(400).json({ message: 'Google Calendar not connected' });
+      }
+
+      const result = await pullCalendarChanges(userId);
+      res.json(result);
+    } catch (error) {
+      console.error('Error syncing calendar:', error);
+      res.status(500).json({ message: 'Failed to sync calendar' });
+    }
+  });
+
+  // Calendar sync queue - per-order sync state for the workspace
+  app.get('/api/calendar/sync-jobs', isAuthenticated, async (req: any, res) => {
+    try {
+      const { workspaceId } = req.workspace;
+      const filters = z.object({
+        status: z.enum(["pending", "syncing", "synced", "failed"]).optional(),
+        limit: z.coerce.number().int().min(1).max(500).optional(),
+      }).parse(req.query);
+      const [jobs, counts] = await Promise.all([
+        storage.getCalendarSyncJobs(workspaceId, { limit: 50, ...filters }),
+        storage.getCalendarSyncCounts(workspaceId),
+      ]);
+      res.json({ jobs, counts });
+    } catch (error) {
+      console.error('Error fetching calendar sync jobs:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid calendar sync filters', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to fetch calendar sync jobs' });
+    }
+  });
+
+  app.post('/api/calendar/sync-jobs/retry', isAuthenticated, requireRole("operator"), async (req: any, res) => {
+    try {
+      const retried = await retryFailedCalendarSync(req.workspace.workspaceId);
+      res.json({ retried });
+    } catch (error) {
+      console.error('Error retrying calendar sync jobs:', error);
+      res.status(500).json({ message: 'Failed to retry calendar sync jobs' });
+    }
+  });
+
+  // Subscribable ICS feed - the secret URL is the only credential, so no session is needed
+  app.get('/api/calendar/feed/:file', async (req, res) => {
+    try {
+      const token = req.params.file.replace(/\.ics$/, '');
+      const icsContent = await renderCalendarFeed(token);
+      if (!icsContent) {
+        return res.status(404).send('Calendar feed not found');
+      }
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      res.send(icsContent);
+    } catch (error) {
+      console.error('Error generating calendar feed:', error);
+      res.status(500).send('Failed to generate calendar feed');
+    }
+  });
+
+  app.get('/api/calendar/feed', isAuthenticated, async (req: any, res) => {
+    try {
+      const links = await getCalendarFeedLinks(req.user.claims.sub);
+      res.json(links);
+    } catch (error) {
+      console.error('Error fetching calendar feed:', error);
+      res.status(500).json({ message: 'Failed to fetch calendar feed' });
+    }
+  });
+
+  // Create the feed URL, or replace it so the old one stops working
+  app.post('/api/calendar/feed', isAuthenticated, async (req: any, res) => {
+    try {
+      const links = await rotateCalendarFeed(req.user.claims.sub);
+      res.status(201).json(links);
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      res.status(500).json({ message: 'Failed to create calendar feed' });
+    }
+  });
+
+  app.delete('/api/calendar/feed', isAuthenticated, async (req: any, res) => {
+    try {
+      await revokeCalendarFeed(req.user.claims.sub);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error revoking calendar feed:', error);
+      res.status(500).json({ message: 'Failed to revoke calendar feed' });
+    }
+  });
+
   // Download calendar events as ICS file
   app.get('/api/calendar/export/:orderId', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const { orderId } = req.params;
       
       // Get the order
-      const order = await storage.getOrder(orderId, userId);
+      const order = await storage.getOrder(orderId, workspaceId);
       if (!order) {
         return res.status(404).json({ message: 'Order not found' });
       }
 
-      // Create calendar events for this order
-      const events = createOrderCalendarEvents(order);
+      // Create calendar events for this order, timed in the user's timezone
+      const settings = await storage.getUserSettings(req.user.claims.sub);
+      const events = createOrderCalendarEvents(order, settings?.timezone ?? DEFAULT_TIMEZONE);
       
       if (events.length === 0) {
         return res.status(400).json({ message: 'No calendar events available for this order (missing delivery or refund dates)' });
@@ -310,18 +605,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Dashboard routes
   app.get("/api/dashboard/stats", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const startDate = req.query.start as string;
       const endDate = req.query.end as string;
 
       // If no dates provided, show stats for all time
       if (!startDate || !endDate) {
-        const stats = await storage.getDashboardStats(userId, '1970-01-01', '2099-12-31');
+        const stats = await storage.getDashboardStats(workspaceId, '1970-01-01', '2099-12-31');
         res.json(stats);
         return;
       }
 
-      const stats = await storage.getDashboardStats(userId, startDate, endDate);
+      const stats = await storage.getDashboardStats(workspaceId, startDate, endDate);
       res.json(stats);
     } catch (error) {
       console.error("Error fetching dashboard stats:", error);
@@ -331,11 +626,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/dashboard/stats/date-wise", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const year = parseInt(req.query.year as string) || new Date().getFullYear();
       const month = parseInt(req.query.month as string) || new Date().getMonth() + 1;
 
-      const stats = await storage.getDateWiseStats(userId, year, month);
+      const stats = await storage.getDateWiseStats(workspaceId, year, month);
       res.json(stats);
     } catch (error) {
       console.error("Error fetching date-wise stats:", error);
@@ -345,10 +640,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/dashboard/stats/month-wise", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const year = parseInt(req.query.year as string) || new Date().getFullYear();
 
-      const stats = await storage.getMonthWiseStats(userId, year);
+      const stats = await storage.getMonthWiseStats(workspaceId, year);
       res.json(stats);
     } catch (error) {
       console.error("Error fetching month-wise stats:", error);
@@ -359,8 +654,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Mediator routes
   app.get("/api/mediators", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const mediators = await storage.getMediators(userId);
+      const { workspaceId } = req.workspace;
+      const mediators = await storage.getMediators(workspaceId);
       res.json(mediators);
     } catch (error) {
       console.error("Error fetching mediators:", error);
@@ -368,11 +663,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/mediators", isAuthenticated, async (req: any, res) => {
+  app.post("/api/mediators", isAuthenticated, requireRole("manager"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId, userId } = req.workspace;
       const mediatorData = insertMediatorSchema.parse(req.body);
-      const mediator = await storage.createMediator(userId, mediatorData);
+      const mediator = await storage.createMediator(workspaceId, userId, mediatorData);
       res.status(201).json(mediator);
     } catch (error) {
       console.error("Error creating mediator:", error);
@@ -383,12 +678,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/mediators/:id", isAuthenticated, async (req: any, res) => {
+  app.put("/api/mediators/:id", isAuthenticated, requireRole("manager"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const { id } = req.params;
       const mediatorData = insertMediatorSchema.partial().parse(req.body);
-      const mediator = await storage.updateMediator(id, userId, mediatorData);
+      const mediator = await storage.updateMediator(id, workspaceId, mediatorData);
       if (!mediator) {
         return res.status(404).json({ message: "Mediator not found" });
       }
@@ -402,11 +697,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/mediators/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/mediators/:id", isAuthenticated, requireRole("manager"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const { id } = req.params;
-      const deleted = await storage.deleteMediator(id, userId);
+      const deleted = await storage.deleteMediator(id, workspaceId);
       if (!deleted) {
         return res.status(404).json({ message: "Mediator not found" });
       }
@@ -417,10 +712,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Consolidated payment request for every order a mediator still owes for
+  app.get("/api/mediators/:id/payment-request", isAuthenticated, async (req: any, res) => {
+    try {
+      const request = await getPaymentRequest(req.workspace, req.params.id);
+      res.json(request);
+    } catch (error) {
+      console.error("Error building payment request:", error);
+      if (error instanceof MessagingError) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to build payment request" });
+    }
+  });
+
+  app.post("/api/mediators/:id/payment-request", isAuthenticated, requireRole("operator"), async (req: any, res) => {
+    try {
+      const { delivery } = z.object({
+        delivery: z.enum(["server", "whatsapp-link"]).default("server"),
+      }).parse(req.body);
+      const result = await sendPaymentRequest(req.workspace, req.params.id, delivery);
+      res.status(201).json(result);
+    } catch (error) {
+      console.error("Error sending payment request:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid payment request data", errors: error.errors });
+      }
+      if (error instanceof MessagingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to send payment request" });
+    }
+  });
+
   // Account routes
   app.get("/api/accounts", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const { platform } = req.query;
       
       let accounts;
@@ -430,9 +758,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (!validPlatforms.includes(platform as string)) {
           return res.status(400).json({ message: "Invalid platform parameter" });
         }
-        accounts = await storage.getAccountsByPlatform(userId, platform as any);
+        accounts = await storage.getAccountsByPlatform(workspaceId, platform as any);
       } else {
-        accounts = await storage.getAccounts(userId);
+        accounts = await storage.getAccounts(workspaceId);
       }
       
       res.json(accounts);
@@ -442,11 +770,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/accounts", isAuthenticated, async (req: any, res) => {
+  app.post("/api/accounts", isAuthenticated, requireRole("manager"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId, userId } = req.workspace;
       const accountData = insertAccountSchema.parse(req.body);
-      const account = await storage.createAccount(userId, accountData);
+      const account = await storage.createAccount(workspaceId, userId, accountData);
       res.status(201).json(account);
     } catch (error) {
       console.error("Error creating account:", error);
@@ -457,12 +785,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/accounts/:id", isAuthenticated, async (req: any, res) => {
+  app.put("/api/accounts/:id", isAuthenticated, requireRole("manager"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const { id } = req.params;
       const accountData = insertAccountSchema.partial().parse(req.body);
-      const account = await storage.updateAccount(id, userId, accountData);
+      const account = await storage.updateAccount(id, workspaceId, accountData);
       if (!account) {
         return res.status(404).json({ message: "Account not found" });
       }
@@ -476,11 +804,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/accounts/:id", isAuthenticated, async (req: any, res) => {
+  app.post("/api/accounts/:id/reveal-password", isAuthenticated, requireRole("operator"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId, userId } = req.workspace;
+      const { id } = req.params;
+      const password = await storage.getAccountPassword(id, workspaceId);
+      if (password === undefined) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      await storage.createAccountAuditLog(userId, {
+        accountId: id,
+        action: "Password Revealed",
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent") || null,
+      });
+
+      res.setHeader("Cache-Control", "no-store");
+      res.json({ password });
+    } catch (error) {
+      console.error("Error revealing account password:", error);
+      res.status(500).json({ message: "Failed to reveal account password" });
+    }
+  });
+
+  app.get("/api/accounts/:id/audit-log", isAuthenticated, async (req: any, res) => {
+    try {
+      const { workspaceId } = req.workspace;
+      const { id } = req.params;
+      const logs = await storage.getAccountAuditLogs(id, workspaceId);
+      res.json(logs);
+    } catch (error) {
+      console.error("Error fetching account audit log:", error);
+      res.status(500).json({ message: "Failed to fetch account audit log" });
+    }
+  });
+
+  app.delete("/api/accounts/:id", isAuthenticated, requireRole("manager"), async (req: any, res) => {
+    try {
+      const { workspaceId } = req.workspace;
       const { id } = req.params;
-      const deleted = await storage.deleteAccount(id, userId);
+      const deleted = await storage.deleteAccount(id, workspaceId);
       if (!deleted) {
         return res.status(404).json({ message: "Account not found" });
       }
@@ -494,14 +858,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Bank Accounts Routes
   app.get("/api/bank-accounts", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const { active } = req.query;
 
       let bankAccounts;
       if (active === 'true') {
-        bankAccounts = await storage.getActiveBankAccounts(userId);
+        bankAccounts = await storage.getActiveBankAccounts(workspaceId);
       } else {
-        bankAccounts = await storage.getBankAccounts(userId);
+        bankAccounts = await storage.getBankAccounts(workspaceId);
       }
 
       res.json(bankAccounts);
@@ -511,11 +875,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/bank-accounts", isAuthenticated, async (req: any, res) => {
+  app.post("/api/bank-accounts", isAuthenticated, requireRole("manager"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId, userId } = req.workspace;
       const bankAccountData = insertBankAccountSchema.parse(req.body);
-      const bankAccount = await storage.createBankAccount(userId, bankAccountData);
+      const bankAccount = await storage.createBankAccount(workspaceId, userId, bankAccountData);
       res.status(201).json(bankAccount);
     } catch (error) {
       console.error("Error creating bank account:", error);
@@ -526,12 +890,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/bank-accounts/:id", isAuthenticated, async (req: any, res) => {
+  app.put("/api/bank-accounts/:id", isAuthenticated, requireRole("manager"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const { id } = req.params;
       const bankAccountData = insertBankAccountSchema.partial().parse(req.body);
-      const bankAccount = await storage.updateBankAccount(id, userId, bankAccountData);
+      const bankAccount = await storage.updateBankAccount(id, workspaceId, bankAccountData);
       if (!bankAccount) {
         return res.status(404).json({ message: "Bank account not found" });
       }
@@ -545,11 +909,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/bank-accounts/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/bank-accounts/:id", isAuthenticated, requireRole("manager"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const { id } = req.params;
-      const deleted = await storage.deleteBankAccount(id, userId);
+      const deleted = await storage.deleteBankAccount(id, workspaceId);
       if (!deleted) {
         return res.status(404).json({ message: "Bank account not found" });
       }
@@ -563,7 +927,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Order routes
   app.get("/api/orders", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
+
+      // Paged requests are filtered, sorted and paginated in SQL
+      if (isPaginatedOrderRequest(req.query)) {
+        const query = parseOrderQuery(req.query);
+        const page = await storage.queryOrders(workspaceId, query);
+        return res.json(page);
+      }
+
       const { status, mediatorId, platform, accountId } = req.query;
       
       const filters: any = {};
@@ -572,19 +944,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (platform) filters.platform = platform;
       if (accountId) filters.accountId = accountId;
       
-      const orders = await storage.getOrders(userId, filters);
+      const orders = await storage.getOrders(workspaceId, filters);
       res.json(orders);
     } catch (error) {
       console.error("Error fetching orders:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid order query", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch orders" });
     }
   });
 
   app.get("/api/orders/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const { id } = req.params;
-      const order = await storage.getOrder(id, userId);
+      const order = await storage.getOrder(id, workspaceId);
       if (!order) {
         return res.status(404).json({ message: "Order not found" });
       }
@@ -595,14 +970,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/orders", isAuthenticated, async (req: any, res) => {
+  app.post("/api/orders", isAuthenticated, requireRole("operator"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId, userId } = req.workspace;
       const orderData = insertOrderSchema.parse(req.body);
-      const order = await storage.createOrder(userId, orderData);
+
+      // New orders go through the same status rules as status changes
+      if (orderData.currentStatus) {
+        const initialStatus = validateInitialStatus(orderData.currentStatus, orderData);
+        if (!initialStatus.allowed) {
+          return res.status(409).json({
+            message: initialStatus.reason,
+            requestedStatus: orderData.currentStatus,
+            allowedStatuses: initialStatus.allowedStatuses,
+            missingFields: initialStatus.missingFields,
+          });
+        }
+      }
+
+      const order = await storage.createOrder(workspaceId, userId, orderData);
       
       // Log order creation
-      await storage.createActivityLog(userId, {
+      await storage.createActivityLog(workspaceId, userId, {
         orderId: order.id,
         activityType: "Order Created",
         description: `Order created for ${order.productName} on ${order.platform}`,
@@ -611,14 +1000,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           orderAmount: order.orderAmount,
           refundAmount: order.refundAmount
         }),
-        triggeredBy: "User"
+        triggeredBy: req.workspace.memberName
       });
       
       // Create notification for new order
-      await createOrderNotifications(userId, order, 'created');
+      await createOrderNotifications(req.workspace, order, 'created');
       
       // Sync to Google Calendar if enabled
-      await syncOrderToCalendar(userId, order, "create");
+      await queueCalendarSync(req.workspace.ownerId, order, "create");
       
       res.status(201).json(order);
     } catch (error) {
@@ -630,19 +1019,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/orders/:id", isAuthenticated, async (req: any, res) => {
+  app.put("/api/orders/:id", isAuthenticated, requireRole("operator"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId, userId } = req.workspace;
       const { id } = req.params;
       const orderData = insertOrderSchema.partial().parse(req.body);
       
       // Get existing order to compare changes
-      const existingOrder = await storage.getOrder(id, userId);
+      const existingOrder = await storage.getOrder(id, workspaceId);
       if (!existingOrder) {
         return res.status(404).json({ message: "Order not found" });
       }
-      
-      const order = await storage.updateOrder(id, userId, orderData);
+
+      // Enforce the order status state machine, and the resulting status's required fields on every update
+      const resultingStatus = orderData.currentStatus ?? existingOrder.currentStatus;
+      const transition = validateStatusTransition(
+        existingOrder.currentStatus,
+        resultingStatus,
+        { ...existingOrder, ...orderData }
+      );
+      if (!transition.allowed) {
+        return res.status(409).json({
+          message: transition.reason,
+          currentStatus: existingOrder.currentStatus,
+          requestedStatus: resultingStatus,
+          allowedStatuses: transition.allowedStatuses,
+          missingFields: transition.missingFields,
+        });
+      }
+
+      const order = await storage.updateOrder(id, workspaceId, orderData);
       if (!order) {
         return res.status(404).json({ message: "Order not found" });
       }
@@ -652,17 +1058,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Check for status change
       if (orderData.currentStatus && orderData.currentStatus !== existingOrder.currentStatus) {
-        await storage.createActivityLog(userId, {
+        await storage.createActivityLog(workspaceId, userId, {
           orderId: order.id,
           activityType: "Status Changed",
           description: `Order status changed from "${existingOrder.currentStatus}" to "${orderData.currentStatus}"`,
           oldValue: existingOrder.currentStatus,
           newValue: orderData.currentStatus,
-          triggeredBy: "User"
+          triggeredBy: req.workspace.memberName
         });
         
         // Create notification for status change
-        await createOrderNotifications(userId, order, 'status_changed', existingOrder.currentStatus);
+        await createOrderNotifications(req.workspace, order, 'status_changed', existingOrder.currentStatus);
+
+        // Payments may already cover the refund once the order reaches a payable status
+        await settleOrderIfPaid(req.workspace, order, existingOrder.receivedAmount ?? 0);
         
         changes.push('status');
       }
@@ -676,13 +1085,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       for (const field of dateFields) {
         if ((orderData as any)[field.key] && (orderData as any)[field.key] !== (existingOrder as any)[field.key]) {
-          await storage.createActivityLog(userId, {
+          await storage.createActivityLog(workspaceId, userId, {
             orderId: order.id,
             activityType: "Dates Modified",
             description: `${field.label} updated`,
             oldValue: (existingOrder as any)[field.key]?.toString() || 'Not set',
             newValue: (orderData as any)[field.key].toString(),
-            triggeredBy: "User"
+            triggeredBy: req.workspace.memberName
           });
           changes.push(field.key);
         }
@@ -694,19 +1103,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       if (otherChanges.length > 0 && changes.length === 0) {
-        await storage.createActivityLog(userId, {
+        await storage.createActivityLog(workspaceId, userId, {
           orderId: order.id,
           activityType: "Order Updated",
           description: `Order details updated: ${otherChanges.join(', ')}`,
           oldValue: JSON.stringify(Object.fromEntries(otherChanges.map(k => [k, (existingOrder as any)[k]]))),
           newValue: JSON.stringify(Object.fromEntries(otherChanges.map(k => [k, (orderData as any)[k]]))),
-          triggeredBy: "User"
+          triggeredBy: req.workspace.memberName
         });
       }
       
       // Sync to Google Calendar if delivery/refund dates changed
       if (orderData.deliveryDate || orderData.refundFormDate) {
-        await syncOrderToCalendar(userId, order, "update");
+        await queueCalendarSync(req.workspace.ownerId, order, "update");
       }
       
       res.json(order);
@@ -719,22 +1128,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/orders/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/orders/:id", isAuthenticated, requireRole("manager"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const { id } = req.params;
       
       // Get order before deleting for calendar cleanup
-      const order = await storage.getOrder(id, userId);
+      const order = await storage.getOrder(id, workspaceId);
       
-      const deleted = await storage.deleteOrder(id, userId);
+      const deleted = await storage.deleteOrder(id, workspaceId);
       if (!deleted) {
         return res.status(404).json({ message: "Order not found" });
       }
       
       // Remove calendar events if order existed
       if (order) {
-        await syncOrderToCalendar(userId, order, "delete");
+        await queueCalendarSync(req.workspace.ownerId, order, "delete");
       }
       
       res.status(204).send();
@@ -744,125 +1153,506 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Notification routes
-  app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
+  // Payment ledger routes
+  app.get("/api/payments", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const notifications = await storage.getNotifications(userId);
-      res.json(notifications);
+      const { workspaceId } = req.workspace;
+      const { mediatorId, orderId } = req.query;
+
+      const filters: any = {};
+      if (mediatorId) filters.mediatorId = mediatorId;
+      if (orderId) filters.orderId = orderId;
+
+      const payments = await storage.getPayments(workspaceId, filters);
+      res.json(payments);
     } catch (error) {
-      console.error("Error fetching notifications:", error);
-      res.status(500).json({ message: "Failed to fetch notifications" });
+      console.error("Error fetching payments:", error);
+      res.status(500).json({ message: "Failed to fetch payments" });
     }
   });
 
-  app.post("/api/notifications", isAuthenticated, async (req: any, res) => {
+  app.get("/api/orders/:id/payments", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const notificationData = insertNotificationSchema.parse(req.body);
-      const notification = await storage.createNotification(userId, notificationData);
-      res.status(201).json(notification);
+      const { workspaceId } = req.workspace;
+      const { id } = req.params;
+      const payments = await storage.getPayments(workspaceId, { orderId: id });
+      res.json(payments);
     } catch (error) {
-      console.error("Error creating notification:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid notification data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Failed to create notification" });
+      console.error("Error fetching order payments:", error);
+      res.status(500).json({ message: "Failed to fetch order payments" });
     }
   });
 
-  // Manual trigger for cron jobs (for testing/debugging)
-  app.post("/api/cron/trigger", isAuthenticated, async (req: any, res) => {
+  app.post("/api/payments", isAuthenticated, requireRole("operator"), async (req: any, res) => {
     try {
-      const { type } = req.body; // 'hourly' | 'daily' | 'all'
-
-      if (type === 'hourly' || type === 'all') {
-        // This would trigger hourly checks - implement as needed
-        return res.json({
-          success: true,
-          message: "Hourly checks triggered (manual)",
-          timestamp: new Date().toISOString()
-        });
+      const paymentData = insertPaymentSchema.parse(req.body);
+      const payment = await recordPayment(req.workspace, paymentData);
+      res.status(201).json(payment);
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
       }
-
-      if (type === 'daily' || type === 'all') {
-        // This would trigger daily checks - implement as needed
-        return res.json({
-          success: true,
-          message: "Daily checks triggered (manual)",
-          timestamp: new Date().toISOString()
-        });
+      if (error instanceof PaymentLedgerError) {
+        return res.status(400).json({ message: error.message });
       }
-
-      return res.json({
-        success: true,
-        message: "Cron job service is running automatically",
-        schedule: {
-          hourly: "Every hour at minute 0",
-          daily: "Every day at 9:00 AM",
-          timezone: process.env.TZ || "Asia/Kolkata"
-        }
-      });
-    } catch (error) {
-      console.error("Error triggering cron job:", error);
-      res.status(500).json({ message: "Failed to trigger cron job" });
+      res.status(500).json({ message: "Failed to record payment" });
     }
   });
 
-  app.put("/api/notifications/:id/read", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/payments/:id", isAuthenticated, requireRole("manager"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
       const { id } = req.params;
-      const marked = await storage.markNotificationRead(id, userId);
-      if (!marked) {
-        return res.status(404).json({ message: "Notification not found" });
+      const deleted = await removePayment(req.workspace, id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Payment not found" });
       }
       res.status(204).send();
     } catch (error) {
-      console.error("Error marking notification as read:", error);
-      res.status(500).json({ message: "Failed to mark notification as read" });
+      console.error("Error deleting payment:", error);
+      res.status(500).json({ message: "Failed to delete payment" });
     }
   });
 
-  app.put("/api/notifications/read-all", isAuthenticated, async (req: any, res) => {
+  // Bank statement reconciliation routes
+  app.post("/api/bank-accounts/:id/statements", isAuthenticated, requireRole("manager"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      await storage.markAllNotificationsRead(userId);
-      res.status(204).send();
+      const { id } = req.params;
+      const statementData = importBankStatementSchema.parse(req.body);
+      const summary = await importBankStatement(req.workspace, id, statementData);
+      res.status(201).json(summary);
     } catch (error) {
-      console.error("Error marking all notifications as read:", error);
-      res.status(500).json({ message: "Failed to mark all notifications as read" });
+      console.error("Error importing bank statement:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bank statement data", errors: error.errors });
+      }
+      if (error instanceof BankReconciliationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to import bank statement" });
     }
   });
 
-  // User Settings routes
-  app.get("/api/user-settings", isAuthenticated, async (req: any, res) => {
+  app.get("/api/bank-accounts/:id/statement-lines", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const settings = await storage.getUserSettings(userId);
-      if (!settings) {
-        // Return default settings if none exist
-        return res.json({
-          calendarEnabled: 1,
-          calendarApiKey: null,
-          calendarId: null,
-          messagingEnabled: 1,
-          messageTemplates: null,
-        });
-      }
-      res.json(settings);
+      const { workspaceId } = req.workspace;
+      const { id } = req.params;
+      const windowDays = parseInt(req.query.windowDays as string) || DEFAULT_MATCH_WINDOW_DAYS;
+      const lines = await getReconciliation(workspaceId, id, windowDays);
+      res.json(lines);
     } catch (error) {
-      console.error("Error fetching user settings:", error);
-      res.status(500).json({ message: "Failed to fetch user settings" });
+      console.error("Error fetching bank statement lines:", error);
+      if (error instanceof BankReconciliationError) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch bank statement lines" });
     }
   });
 
-  app.put("/api/user-settings", isAuthenticated, async (req: any, res) => {
+  app.post("/api/statement-lines/:id/confirm", isAuthenticated, requireRole("operator"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const settingsData = insertUserSettingsSchema.partial().parse(req.body);
-      const updatedSettings = await storage.upsertUserSettings(userId, settingsData);
-      res.json(updatedSettings);
+      const { id } = req.params;
+      const matchData = confirmStatementMatchSchema.parse(req.body);
+      const result = await confirmStatementMatch(req.workspace, id, matchData);
+      res.json(result);
+    } catch (error) {
+      console.error("Error confirming statement match:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid match data", errors: error.errors });
+      }
+      // 409 when the line was reconciled by a concurrent confirm
+      if (error instanceof BankReconciliationError || error instanceof PaymentLedgerError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to confirm statement match" });
+    }
+  });
+
+  app.put("/api/statement-lines/:id", isAuthenticated, requireRole("operator"), async (req: any, res) => {
+    try {
+      const { workspaceId } = req.workspace;
+      const { id } = req.params;
+      const { ignored } = z.object({ ignored: z.boolean() }).parse(req.body);
+      const line = await storage.updateStatementLine(id, workspaceId, { ignored: ignored ? 1 : 0 });
+      if (!line) {
+        return res.status(404).json({ message: "Statement line not found" });
+      }
+      res.json(line);
+    } catch (error) {
+      console.error("Error updating statement line:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid statement line data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update statement line" });
+    }
+  });
+
+  // Reminder rule routes
+  app.get("/api/reminder-rules", isAuthenticated, async (req: any, res) => {
+    try {
+      const rules = await storage.getReminderRules(req.workspace.workspaceId);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching reminder rules:", error);
+      res.status(500).json({ message: "Failed to fetch reminder rules" });
+    }
+  });
+
+  app.post("/api/reminder-rules", isAuthenticated, requireRole("manager"), async (req: any, res) => {
+    try {
+      const ruleData = reminderRuleSchema.parse(req.body);
+      const rule = await createReminderRule(req.workspace, ruleData);
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error("Error creating reminder rule:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid reminder rule", errors: error.errors });
+      }
+      if (error instanceof ReminderRuleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create reminder rule" });
+    }
+  });
+
+  app.put("/api/reminder-rules/:id", isAuthenticated, requireRole("manager"), async (req: any, res) => {
+    try {
+      const ruleData = reminderRuleSchema.parse(req.body);
+      const rule = await updateReminderRule(req.workspace, req.params.id, ruleData);
+      if (!rule) {
+        return res.status(404).json({ message: "Reminder rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating reminder rule:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid reminder rule", errors: error.errors });
+      }
+      if (error instanceof ReminderRuleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update reminder rule" });
+    }
+  });
+
+  app.delete("/api/reminder-rules/:id", isAuthenticated, requireRole("manager"), async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteReminderRule(req.params.id, req.workspace.workspaceId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Reminder rule not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting reminder rule:", error);
+      res.status(500).json({ message: "Failed to delete reminder rule" });
+    }
+  });
+
+  // Status automation routes
+  app.get("/api/status-automations", isAuthenticated, async (req: any, res) => {
+    try {
+      const automations = await storage.getStatusAutomations(req.workspace.workspaceId);
+      res.json(automations);
+    } catch (error) {
+      console.error("Error fetching status automations:", error);
+      res.status(500).json({ message: "Failed to fetch status automations" });
+    }
+  });
+
+  app.post("/api/status-automations", isAuthenticated, requireRole("manager"), async (req: any, res) => {
+    try {
+      const automationData = statusAutomationSchema.parse(req.body);
+      const automation = await storage.createStatusAutomation(req.workspace.workspaceId, req.workspace.userId, automationData);
+      res.status(201).json(automation);
+    } catch (error) {
+      console.error("Error creating status automation:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid status automation", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create status automation" });
+    }
+  });
+
+  // Dry run - the orders an automation, saved or not, would move right now
+  app.post("/api/status-automations/preview", isAuthenticated, async (req: any, res) => {
+    try {
+      const automationData = statusAutomationSchema.parse(req.body);
+      const preview = await previewStatusAutomation(req.workspace.workspaceId, automationData);
+      res.json(preview);
+    } catch (error) {
+      console.error("Error previewing status automation:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid status automation", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to preview status automation" });
+    }
+  });
+
+  app.put("/api/status-automations/:id", isAuthenticated, requireRole("manager"), async (req: any, res) => {
+    try {
+      const automationData = statusAutomationSchema.parse(req.body);
+      const automation = await storage.updateStatusAutomation(req.params.id, req.workspace.workspaceId, automationData);
+      if (!automation) {
+        return res.status(404).json({ message: "Status automation not found" });
+      }
+      res.json(automation);
+    } catch (error) {
+      console.error("Error updating status automation:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid status automation", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update status automation" });
+    }
+  });
+
+  app.delete("/api/status-automations/:id", isAuthenticated, requireRole("manager"), async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteStatusAutomation(req.params.id, req.workspace.workspaceId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Status automation not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting status automation:", error);
+      res.status(500).json({ message: "Failed to delete status automation" });
+    }
+  });
+
+  // Live updates - a Server-Sent Events stream of changes in the active workspace
+  app.get("/api/events", isAuthenticated, (req: any, res) => {
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // stop proxies from buffering the stream
+    });
+    res.flushHeaders();
+    res.write("retry: 5000\n\n");
+
+    const unsubscribe = subscribeToWorkspace(req.workspace.workspaceId, (event) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+    // Comment lines keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // Notification routes
+  app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
+    try {
+      const { workspaceId } = req.workspace;
+      const notifications = await storage.getNotifications(workspaceId);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.get("/api/notifications/unread-count", isAuthenticated, async (req: any, res) => {
+    try {
+      const { workspaceId } = req.workspace;
+      const unread = await storage.countUnreadNotifications(workspaceId);
+      res.json({ unread });
+    } catch (error) {
+      console.error("Error counting unread notifications:", error);
+      res.status(500).json({ message: "Failed to count unread notifications" });
+    }
+  });
+
+  app.post("/api/notifications", isAuthenticated, requireRole("operator"), async (req: any, res) => {
+    try {
+      const { workspaceId, userId } = req.workspace;
+      const notificationData = insertNotificationSchema.parse(req.body);
+      const notification = await storage.createNotification(workspaceId, userId, notificationData);
+      res.status(201).json(notification);
+    } catch (error) {
+      console.error("Error creating notification:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid notification data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create notification" });
+    }
+  });
+
+  // Cron job run history from every server instance - administrators only
+  app.get("/api/cron/runs", isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const job = typeof req.query.job === "string" && isCronJobName(req.query.job) ? req.query.job : undefined;
+      const [runs, latest] = await Promise.all([
+        storage.getJobRuns({ job, limit: 100 }),
+        storage.getLatestJobRuns(),
+      ]);
+      res.json({ runs, latest });
+    } catch (error) {
+      console.error("Error fetching cron job runs:", error);
+      res.status(500).json({ message: "Failed to fetch cron job runs" });
+    }
+  });
+
+  const sendJobRun = (res: any, job: CronJobName, scheduledFor: Date, run: JobRun | null) => {
+    if (!run) {
+      return res.json({
+        job,
+        status: "skipped",
+        scheduledFor,
+        message: "This slot has already run or is running on another instance",
+      });
+    }
+    res.status(run.status === "failed" ? 500 : 200).json({
+      job,
+      status: run.status,
+      scheduledFor,
+      runId: run.id,
+      instance: run.instance,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+      durationMs: run.finishedAt ? run.finishedAt.getTime() - run.startedAt.getTime() : null,
+      counts: run.counts ?? {},
+      error: run.error,
+    });
+  };
+
+  // Run a cron job from an external scheduler - each schedule slot runs once, so repeated calls are safe
+  const runCronJob = async (req: any, res: any) => {
+    const { job } = req.params;
+    if (!isCronJobName(job)) {
+      return res.status(404).json({ message: `Unknown cron job. Available jobs: ${cronJobNames.join(", ")}` });
+    }
+    try {
+      const { scheduledFor, run } = await cronJobService.execute(job);
+      sendJobRun(res, job, scheduledFor, run);
+    } catch (error) {
+      console.error(`Error running cron job ${job}:`, error);
+      res.status(500).json({ message: "Failed to run cron job" });
+    }
+  };
+
+  // Run a job now, outside its schedule - administrators only, as jobs cover every workspace
+  app.post("/api/cron/trigger", isAuthenticated, requireAdmin, async (req: any, res) => {
+    const { job } = req.body ?? {};
+    if (typeof job !== "string" || !isCronJobName(job)) {
+      return res.status(400).json({ message: `Unknown cron job. Available jobs: ${cronJobNames.join(", ")}` });
+    }
+    try {
+      const { scheduledFor, run } = await cronJobService.execute(job, "manual");
+      sendJobRun(res, job, scheduledFor, run);
+    } catch (error) {
+      console.error(`Error triggering cron job ${job}:`, error);
+      res.status(500).json({ message: "Failed to trigger cron job" });
+    }
+  });
+
+  app.post("/api/cron/:job", requireCronSecret, runCronJob);
+  // Vercel Cron calls its paths with GET
+  app.get("/api/cron/:job", requireCronSecret, runCronJob);
+
+  app.put("/api/notifications/:id/read", isAuthenticated, requireRole("operator"), async (req: any, res) => {
+    try {
+      const { workspaceId } = req.workspace;
+      const { id } = req.params;
+      const marked = await storage.markNotificationRead(id, workspaceId);
+      if (!marked) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
+  app.put("/api/notifications/:id/snooze", isAuthenticated, requireRole("operator"), async (req: any, res) => {
+    try {
+      const snooze = snoozeNotificationSchema.parse(req.body);
+      const notification = await snoozeNotification(req.workspace, req.params.id, snooze);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      console.error("Error snoozing notification:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Choose a time or the next status change", errors: error.errors });
+      }
+      if (error instanceof NotificationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to snooze notification" });
+    }
+  });
+
+  app.put("/api/notifications/:id/dismiss", isAuthenticated, requireRole("operator"), async (req: any, res) => {
+    try {
+      const { workspaceId } = req.workspace;
+      const dismissed = await storage.dismissNotification(req.params.id, workspaceId);
+      if (!dismissed) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error dismissing notification:", error);
+      res.status(500).json({ message: "Failed to dismiss notification" });
+    }
+  });
+
+  app.put("/api/notifications/read-all", isAuthenticated, requireRole("operator"), async (req: any, res) => {
+    try {
+      const { workspaceId } = req.workspace;
+      await storage.markAllNotificationsRead(workspaceId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error marking all notifications as read:", error);
+      res.status(500).json({ message: "Failed to mark all notifications as read" });
+    }
+  });
+
+  // User Settings routes
+  app.get("/api/user-settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const settings = await storage.getUserSettings(userId);
+      if (!settings) {
+        // Return default settings if none exist
+        return res.json({
+          calendarEnabled: 1,
+          calendarApiKey: null,
+          calendarId: null,
+          messagingEnabled: 1,
+          messageTemplates: null,
+          timezone: DEFAULT_TIMEZONE,
+        });
+      }
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching user settings:", error);
+      res.status(500).json({ message: "Failed to fetch user settings" });
+    }
+  });
+
+  app.put("/api/user-settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const settingsData = insertUserSettingsSchema.partial().parse(req.body);
+      // Templates are saved through /api/message-templates so they are always validated
+      delete settingsData.messageTemplates;
+      // Sync state is owned by the calendar sync - a different calendar starts a fresh sync
+      delete settingsData.calendarSyncToken;
+      delete settingsData.calendarLastSyncedAt;
+      // The feed token is only issued through /api/calendar/feed
+      delete settingsData.calendarFeedToken;
+      if (settingsData.calendarId !== undefined) {
+        const current = await storage.getUserSettings(userId);
+        if ((current?.calendarId ?? null) !== settingsData.calendarId) {
+          settingsData.calendarSyncToken = null;
+        }
+      }
+      const updatedSettings = await storage.upsertUserSettings(userId, settingsData);
+      res.json(updatedSettings);
     } catch (error) {
       console.error("Error updating user settings:", error);
       if (error instanceof z.ZodError) {
@@ -872,63 +1662,299 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Test messaging endpoint
-  app.post("/api/messaging/test", isAuthenticated, async (req: any, res) => {
+  // Notification preference routes
+  app.get("/api/notification-preferences", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { messageType, template, mediatorId } = req.body;
+      const preferences = await storage.getNotificationPreferences(userId);
+      res.json(preferences ?? defaultNotificationPreferences);
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
 
-      console.log('Test message requested:', {
-        userId,
-        messageType,
-        template,
-        mediatorId
-      });
+  app.put("/api/notification-preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const preferenceData = insertNotificationPreferencesSchema.partial().parse(req.body);
+      const preferences = await storage.upsertNotificationPreferences(userId, preferenceData);
+      res.json(preferences);
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid notification preferences", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
 
-      // Get mediator details
-      const mediator = await storage.getMediator(mediatorId);
-      if (!mediator) {
-        return res.status(404).json({ message: 'Mediator not found' });
+  // Web Push routes
+  app.get("/api/push/vapid-public-key", isAuthenticated, async (req: any, res) => {
+    try {
+      const { publicKey } = await getVapidKeys();
+      res.json({ publicKey });
+    } catch (error) {
+      console.error("Error loading VAPID keys:", error);
+      res.status(500).json({ message: "Failed to load push settings" });
+    }
+  });
+
+  app.post("/api/push/subscriptions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const subscriptionData = insertPushSubscriptionSchema.parse(req.body);
+      await assertPushEndpoint(subscriptionData.endpoint);
+      const subscription = await storage.savePushSubscription(userId, subscriptionData, req.get("user-agent"));
+      res.status(201).json({ id: subscription.id, endpoint: subscription.endpoint });
+    } catch (error) {
+      console.error("Error saving push subscription:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid push subscription", errors: error.errors });
       }
+      if (error instanceof PushEndpointError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to save push subscription" });
+    }
+  });
 
-      // Format the test message
-      const testMessage = `Test Message: This is a test from ReviewPilot using the "${template}" template. Mediator: ${mediator.name}`;
+  app.delete("/api/push/subscriptions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const endpoint = z.string().min(1).parse(req.query.endpoint);
+      await storage.deletePushSubscription(endpoint, userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting push subscription:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Endpoint is required", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to delete push subscription" });
+    }
+  });
 
-      console.log('Test message formatted:', testMessage);
+  // Send the signed-in user this workspace's digest now, even when it has nothing to report
+  app.post("/api/digest/test", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user?.email) {
+        return res.status(400).json({ message: "Your account has no email address" });
+      }
+      const workspace = await storage.getWorkspace(req.workspace.workspaceId);
+      if (!workspace) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      const preferences = await storage.getNotificationPreferences(userId);
+      const settings = await storage.getUserSettings(userId);
+      const digest = await buildDigest(
+        workspace,
+        preferences?.digestFrequency ?? defaultNotificationPreferences.digestFrequency,
+        new Date(),
+        settings?.timezone ?? DEFAULT_TIMEZONE
+      );
+      const message = await queueDigest({ id: user.id, email: user.email }, workspace, digest);
+      res.json({ status: message.status, recipient: message.recipient });
+    } catch (error) {
+      console.error("Error sending test digest:", error);
+      res.status(500).json({ message: "Failed to send test digest" });
+    }
+  });
 
-      // TODO: Integrate with actual WhatsApp/Messaging service
-      // For now, just log it and pretend it worked
-      console.log('🎯 TEST MESSAGE SENT (MOCK):', {
-        to: mediator.whatsappNumber || mediator.whatsappNumber,
-        message: testMessage,
-        template: template,
-        from: 'ReviewPilot Testing',
-      });
+  app.post("/api/push/test", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const result = await pushToUsers(new Map([[userId, [{
+        title: "Test notification",
+        body: "Push notifications are working on this device.",
+        url: "/settings",
+        tag: "push-test",
+      }]]]));
+      if (result.sent === 0 && result.failed === 0) {
+        return res.status(400).json({ message: "No browser is subscribed to push notifications" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error sending test push:", error);
+      res.status(500).json({ message: "Failed to send test push" });
+    }
+  });
+
+  // Local push service stand-in (development) - subscribes the user with an endpoint on this server
+  app.post("/api/push/stand-in", isAuthenticated, async (req: any, res) => {
+    if (!isPushStandInEnabled()) {
+      return res.status(404).json({ message: "Push stand-in is disabled" });
+    }
+    try {
+      const userId = req.user.claims.sub;
+      const subscriptionData = createStandInSubscription();
+      const subscription = await storage.savePushSubscription(userId, subscriptionData, "Local push stand-in");
+      res.status(201).json({ id: subscription.id, endpoint: subscription.endpoint });
+    } catch (error) {
+      console.error("Error creating stand-in push subscription:", error);
+      res.status(500).json({ message: "Failed to create stand-in push subscription" });
+    }
+  });
+
+  // Called by sendWebPush like a real push service would be - no session, the VAPID signature is checked instead
+  app.post("/api/push/stand-in/:id", async (req, res) => {
+    if (!isPushStandInEnabled()) {
+      return res.status(404).json({ message: "Push stand-in is disabled" });
+    }
+    try {
+      await receiveStandInPush(
+        req.params.id,
+        (await getVapidKeys()).publicKey,
+        { authorization: req.get("authorization"), contentEncoding: req.get("content-encoding") },
+        await readPushBody(req)
+      );
+      res.status(201).send();
+    } catch (error) {
+      if (error instanceof PushStandInError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error receiving stand-in push:", error);
+      res.status(500).json({ message: "Failed to receive push" });
+    }
+  });
+
+  // Message template routes
+  app.get("/api/message-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const settings = await storage.getUserSettings(userId);
+      res.json(parseMessageTemplateSettings(settings?.messageTemplates));
+    } catch (error) {
+      console.error("Error fetching message templates:", error);
+      res.status(500).json({ message: "Failed to fetch message templates" });
+    }
+  });
+
+  app.put("/api/message-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const templateData = messageTemplateSettingsSchema.parse(req.body);
+      const settings = await storage.upsertUserSettings(userId, { messageTemplates: JSON.stringify(templateData) });
+      res.json(parseMessageTemplateSettings(settings.messageTemplates));
+    } catch (error) {
+      console.error("Error updating message templates:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid message templates", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update message templates" });
+    }
+  });
+
+  // Messaging routes
+  app.get("/api/messaging/providers", isAuthenticated, async (req: any, res) => {
+    const providers = getMessagingProviders();
+    res.json({ whatsapp: providers.whatsapp.name, email: providers.email.name });
+  });
+
+  app.get("/api/messages", isAuthenticated, async (req: any, res) => {
+    try {
+      const { workspaceId } = req.workspace;
+      const filters = z.object({
+        status: z.enum(["pending", "sending", "sent", "failed"]).optional(),
+        mediatorId: z.string().optional(),
+        limit: z.coerce.number().int().min(1).max(500).optional(),
+      }).parse(req.query);
+      const messages = await storage.getOutboxMessages(workspaceId, filters);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid message filters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  app.post("/api/messages", isAuthenticated, requireRole("operator"), async (req: any, res) => {
+    try {
+      const messageData = sendMediatorMessageSchema.parse(req.body);
+      const message = await sendMediatorMessage(req.workspace, messageData);
+      res.status(201).json(message);
+    } catch (error) {
+      console.error("Error sending message:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid message data", errors: error.errors });
+      }
+      if (error instanceof MessagingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  app.post("/api/messages/:id/retry", isAuthenticated, requireRole("operator"), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const message = await retryOutboxMessage(req.workspace, id);
+      res.json(message);
+    } catch (error) {
+      console.error("Error retrying message:", error);
+      if (error instanceof MessagingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to retry message" });
+    }
+  });
+
+  // Test messaging endpoint - sends a real message through the configured WhatsApp provider
+  app.post("/api/messaging/test", isAuthenticated, requireRole("operator"), async (req: any, res) => {
+    try {
+      const { template, mediatorId } = z.object({
+        template: z.string().default("default"),
+        mediatorId: z.string({
+          required_error: "Add a mediator first to test messaging",
+          invalid_type_error: "Add a mediator first to test messaging",
+        }).min(1),
+      }).parse(req.body);
+
+      const mediator = await storage.getMediator(mediatorId);
+      if (!mediator || mediator.workspaceId !== req.workspace.workspaceId) {
+        return res.status(404).json({ message: "Mediator not found" });
+      }
+
+      const testMessage = `Test Message: This is a test from ReviewPilot using the "${template}" template. Mediator: ${mediator.name}`;
+      const message = await sendMediatorMessage(req.workspace, { mediatorId, body: testMessage });
 
-      // Simulate a short delay
-      await new Promise(resolve => setTimeout(resolve, 500));
+      if (message.status === "failed") {
+        return res.status(502).json({ message: `Test message could not be delivered: ${message.lastError}`, outboxMessage: message });
+      }
 
       res.json({
-        success: true,
-        message: 'Test message sent successfully!',
+        success: message.status === "sent",
+        message: message.status === "sent"
+          ? "Test message sent successfully!"
+          : `Test message queued for retry: ${message.lastError}`,
         details: {
           mediatorName: mediator.name,
           templateUsed: template,
           messagePreview: testMessage.substring(0, 100) + '...',
-          sentVia: 'WhatsApp (simulated)'
-        }
+          sentVia: message.provider
+        },
+        outboxMessage: message
       });
     } catch (error) {
-      console.error('Error sending test message:', error);
-      res.status(500).json({ message: 'Failed to send test message' });
+      console.error("Error sending test message:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid test message data", errors: error.errors });
+      }
+      if (error instanceof MessagingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to send test message" });
     }
   });
 
   // Export routes
   app.get("/api/export/orders", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const orders = await storage.getOrders(userId);
+      const { workspaceId } = req.workspace;
+      const orders = await storage.getOrders(workspaceId);
       
       // Generate CSV content
       const csvHeaders = [
@@ -966,8 +1992,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/export/mediators", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const mediators = await storage.getMediators(userId);
+      const { workspaceId } = req.workspace;
+      const mediators = await storage.getMediators(workspaceId);
       
       const csvHeaders = ['Name', 'Phone', 'WhatsApp', 'Platform', 'Created Date'].join(',');
       const csvRows = mediators.map((mediator: any) => [
@@ -991,8 +2017,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/export/accounts", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const accounts = await storage.getAccounts(userId);
+      const { workspaceId } = req.workspace;
+      const accounts = await storage.getAccounts(workspaceId);
       
       const csvHeaders = ['Name', 'Platform', 'Username', 'Email', 'Phone', 'Created Date'].join(',');
       const csvRows = accounts.map((account: any) => [
@@ -1017,8 +2043,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/export/bank-accounts", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const bankAccounts = await storage.getBankAccounts(userId);
+      const { workspaceId } = req.workspace;
+      const bankAccounts = await storage.getBankAccounts(workspaceId);
 
       // Calculate pending amounts for each bank account
       const { db } = await import('./db');
@@ -1034,7 +2060,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(orders)
         .where(
           and(
-            eq(orders.userId, userId),
+            eq(orders.workspaceId, workspaceId),
             isNotNull(orders.bankAccountId),
             sql`${orders.currentStatus} NOT IN ('Refunded', 'Cancelled')`
           )
@@ -1073,211 +2099,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Import routes
-  app.post("/api/import/orders", isAuthenticated, async (req: any, res) => {
+  // Import routes - preview validates the file without writing, the import itself creates the valid rows
+  const parseOrderImport = (body: any) => orderImportSchema.parse(
+    Array.isArray(body?.csvData)
+      // Older clients send the template's 14 columns positionally, without the header row
+      ? {
+          rows: [orderImportFields.map(field => orderImportFieldLabels[field]), ...body.csvData],
+          mapping: Object.fromEntries(orderImportFields.map(field => [field, orderImportFieldLabels[field]])),
+        }
+      : body
+  );
+
+  app.post("/api/import/orders/preview", isAuthenticated, requireRole("manager"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const { csvData } = req.body;
-      
-      console.log("CSV Import request received:", {
-        userId,
-        dataLength: csvData?.length,
-        sampleRow: csvData?.[0]
-      });
-      
-      if (!csvData || !Array.isArray(csvData)) {
-        return res.status(400).json({ 
-          message: "Invalid CSV data",
-          success: false,
-          imported: 0,
-          errors: 1,
-          errorDetails: [{ row: 0, error: "CSV data is missing or invalid format" }]
-        });
+      const importData = parseOrderImport(req.body);
+      const preview = await previewOrderImport(req.workspace, importData);
+      res.json(preview);
+    } catch (error) {
+      console.error("Error previewing order import:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid import data", errors: error.errors });
       }
-      
-      if (csvData.length === 0) {
-        return res.status(400).json({ 
-          message: "No data rows found",
-          success: false,
-          imported: 0,
-          errors: 1,
-          errorDetails: [{ row: 0, error: "CSV file contains no data rows" }]
-        });
+      if (error instanceof OrderImportError) {
+        return res.status(400).json({ message: error.message });
       }
-      
-      const importedOrders = [];
-      const errors = [];
-
-      // Get user's accounts, mediators, and bank accounts for validation
-      const userAccounts = await storage.getAccounts(userId);
-      const userMediators = await storage.getMediators(userId);
-      const userBankAccounts = await storage.getBankAccounts(userId);
-
-      console.log("User data:", {
-        accountsCount: userAccounts.length,
-        mediatorsCount: userMediators.length,
-        bankAccountsCount: userBankAccounts.length,
-        accountIds: userAccounts.map(a => a.id),
-        mediatorIds: userMediators.map(m => m.id),
-        bankAccountIds: userBankAccounts.map(b => b.id)
-      });
+      res.status(500).json({ message: "Failed to preview order import" });
+    }
+  });
 
-      for (let i = 0; i < csvData.length; i++) {
-        const row = csvData[i];
-
-        console.log(`Processing row ${i + 1}:`, row);
-
-        try {
-          // Check if row has enough columns (now 14 with bank account name)
-          if (!row || row.length < 14) {
-            errors.push({
-              row: i + 1,
-              error: `Row has ${row?.length || 0} columns, expected 14. Missing: ${14 - (row?.length || 0)} columns.`
-            });
-            continue;
-          }
-
-          // Validate Account Name exists
-          const accountName = row[2]?.trim();
-          if (!accountName) {
-            errors.push({ row: i + 1, error: "Account Name is required" });
-            continue;
-          }
-
-          const accountExists = userAccounts.find(acc => acc.name === accountName);
-          if (!accountExists) {
-            errors.push({
-              row: i + 1,
-              error: `Account '${accountName}' not found. Please create this account first in the Accounts page.`
-            });
-            continue;
-          }
-
-          // Validate Mediator Name exists
-          const mediatorName = row[7]?.trim();
-          if (!mediatorName) {
-            errors.push({ row: i + 1, error: "Mediator Name is required" });
-            continue;
-          }
-
-          const mediatorExists = userMediators.find(med => med.name === mediatorName);
-          if (!mediatorExists) {
-            errors.push({
-              row: i + 1,
-              error: `Mediator '${mediatorName}' not found. Please create this mediator first in the Mediators page.`
-            });
-            continue;
-          }
-
-          // Validate Bank Account Name exists (optional)
-          const bankAccountName = row[8]?.trim();
-          let bankAccountId: string | undefined = undefined;
-
-          if (bankAccountName) {
-            const bankAccountExists = userBankAccounts.find(ba => ba.accountName === bankAccountName);
-            if (!bankAccountExists) {
-              errors.push({
-                row: i + 1,
-                error: `Bank Account '${bankAccountName}' not found. Please create this bank account first or leave blank.`
-              });
-              continue;
-            }
-            bankAccountId = bankAccountExists.id;
-          }
-
-          // Parse and validate amounts
-          const orderAmount = parseFloat(row[4]);
-          const refundAmount = parseFloat(row[5]);
-
-          if (isNaN(orderAmount) || orderAmount <= 0) {
-            errors.push({ row: i + 1, error: `Invalid order amount: ${row[4]}` });
-            continue;
-          }
-
-          if (isNaN(refundAmount) || refundAmount < 0) {
-            errors.push({ row: i + 1, error: `Invalid refund amount: ${row[5]}` });
-            continue;
-          }
-
-          // Parse the CSV row data - use IDs from validated names
-          const orderData = {
-            productName: row[0]?.trim() || '',
-            platform: row[1]?.trim() || 'Amazon',
-            accountId: accountExists.id, // Use actual ID from found account
-            orderId: row[3]?.trim() || '',
-            orderAmount: Math.round(orderAmount * 100), // Convert to paise
-            refundAmount: Math.round(refundAmount * 100),
-            productLink: row[6]?.trim() || undefined,
-            mediatorId: mediatorExists.id, // Use actual ID from found mediator
-            bankAccountId: bankAccountId, // Use actual ID from found bank account (optional)
-            orderDate: row[9]?.trim() || new Date().toISOString(),
-            deliveryDate: row[10]?.trim() || undefined,
-            refundFormDate: row[11]?.trim() || undefined,
-            remindRefundDate: row[12]?.trim() || undefined,
-            currentStatus: row[13]?.trim() || "Ordered"
-          };
-          
-          console.log(`Parsed order data for row ${i + 1}:`, orderData);
-          
-          const validatedData = insertOrderSchema.parse(orderData);
-          const order = await storage.createOrder(userId, validatedData);
-          importedOrders.push(order);
-          
-          console.log(`Successfully imported order for row ${i + 1}:`, order.id);
-          
-        } catch (error: any) {
-          console.error(`Error processing row ${i + 1}:`, error);
-          
-          let errorMessage = 'Unknown validation error';
-          
-          if (error.message) {
-            errorMessage = error.message;
-          }
-          
-          // Handle Zod validation errors specifically
-          if (error.issues && Array.isArray(error.issues)) {
-            const zodErrors = error.issues.map((issue: any) => {
-              const path = issue.path.join('.');
-              return `${path}: ${issue.message}`;
-            }).join('; ');
-            errorMessage = `Validation failed - ${zodErrors}`;
-          }
-          
-          errors.push({ 
-            row: i + 1, 
-            error: errorMessage,
-            data: row // Include the row data for debugging
-          });
-        }
-      }
-      
-      const result = {
-        success: true,
-        imported: importedOrders.length,
-        errors: errors.length,
-        errorDetails: errors
-      };
-
-      console.log("Import completed:", result);
-      console.log("Sending response:", JSON.stringify(result));
-      
+  app.post("/api/import/orders", isAuthenticated, requireRole("manager"), async (req: any, res) => {
+    try {
+      const importData = parseOrderImport(req.body);
+      const result = await commitOrderImport(req.workspace, importData);
       res.json(result);
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error importing orders:", error);
-      res.status(500).json({ 
-        message: "Failed to import orders",
-        success: false,
-        imported: 0,
-        errors: 1,
-        errorDetails: [{ row: 0, error: error.message || "Internal server error" }]
-      });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid import data", errors: error.errors });
+      }
+      if (error instanceof OrderImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to import orders" });
+    }
+  });
+
+  app.get("/api/import/mappings", isAuthenticated, async (req: any, res) => {
+    try {
+      const mappings = await storage.getOrderImportMappings(req.workspace.workspaceId);
+      res.json(mappings);
+    } catch (error) {
+      console.error("Error fetching import mappings:", error);
+      res.status(500).json({ message: "Failed to fetch import mappings" });
+    }
+  });
+
+  app.post("/api/import/mappings", isAuthenticated, requireRole("manager"), async (req: any, res) => {
+    try {
+      const mappingData = saveOrderImportMappingSchema.parse(req.body);
+      const mapping = await storage.saveOrderImportMapping(req.workspace.workspaceId, req.workspace.userId, mappingData);
+      res.json(mapping);
+    } catch (error) {
+      console.error("Error saving import mapping:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid import mapping", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save import mapping" });
+    }
+  });
+
+  app.delete("/api/import/mappings/:id", isAuthenticated, requireRole("manager"), async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteOrderImportMapping(req.params.id, req.workspace.workspaceId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Import mapping not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting import mapping:", error);
+      res.status(500).json({ message: "Failed to delete import mapping" });
     }
   });
 
   // Activity Log routes
   app.get("/api/activity-logs", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const { orderId, activityType, limit } = req.query;
       
       const filters: any = {};
@@ -1285,7 +2192,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (activityType) filters.activityType = activityType;
       if (limit) filters.limit = parseInt(limit as string, 10);
       
-      const logs = await storage.getAllActivityLogs(userId, filters);
+      const logs = await storage.getAllActivityLogs(workspaceId, filters);
       res.json(logs);
     } catch (error) {
       console.error("Error fetching activity logs:", error);
@@ -1295,9 +2202,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/orders/:id/logs", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const { workspaceId } = req.workspace;
       const { id } = req.params;
-      const logs = await storage.getOrderActivityLogs(id, userId);
+      const logs = await storage.getOrderActivityLogs(id, workspaceId);
       res.json(logs);
     } catch (error) {
       console.error("Error fetching order activity logs:", error);
@@ -0,0 +1,94 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+
+/**
+ * Envelope encryption for secrets stored in the database.
+ *
+ * Every value is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is stored alongside it wrapped by a key-encryption key derived from
+ * ACCOUNT_ENCRYPTION_KEY. Stored format: "v1.<wrapped data key>.<ciphertext>",
+ * each part being base64 of iv | auth tag | encrypted bytes.
+ *
+ * The key is deliberately separate from SESSION_SECRET, so rotating the
+ * session secret never makes stored secrets unreadable.
+ */
+
+const ENVELOPE_VERSION = "v1";
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const DATA_KEY_LENGTH = 32;
+const MIN_SECRET_LENGTH = 16;
+
+let keyEncryptionKey: Buffer | undefined;
+
+function getKeyEncryptionKey(): Buffer {
+  if (!keyEncryptionKey) {
+    const secret = process.env.ACCOUNT_ENCRYPTION_KEY;
+    if (!secret || secret.length < MIN_SECRET_LENGTH) {
+      throw new Error(
+        `ACCOUNT_ENCRYPTION_KEY must be set to at least ${MIN_SECRET_LENGTH} characters. Generate one with: openssl rand -base64 32`,
+      );
+    }
+    keyEncryptionKey = scryptSync(secret, "order-tracker-account-secrets", 32);
+  }
+  return keyEncryptionKey;
+}
+
+// Called at startup so a missing key stops the server before anything is stored
+export function assertSecretBoxKey(): void {
+  getKeyEncryptionKey();
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+// Decoded bytes of a sealed part, or null when it is not canonical base64 of at least `minLength` bytes
+function decodeSealed(part: string, minLength: number): Buffer | null {
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(part)) {
+    return null;
+  }
+  const data = Buffer.from(part, "base64");
+  return data.length >= minLength && data.toString("base64") === part ? data : null;
+}
+
+/**
+ * Whether a stored value is an envelope this module wrote. The prefix alone
+ * is not enough - a plaintext password can look like "v1.x.y" - so the parts
+ * must decode to a wrapped data key and a ciphertext of the right sizes.
+ */
+export function isEncryptedSecret(value: string): boolean {
+  const parts = value.split(".");
+  if (parts.length !== 3 || parts[0] !== ENVELOPE_VERSION) {
+    return false;
+  }
+  const wrappedKey = decodeSealed(parts[1], IV_LENGTH + TAG_LENGTH + DATA_KEY_LENGTH);
+  return wrappedKey?.length === IV_LENGTH + TAG_LENGTH + DATA_KEY_LENGTH && decodeSealed(parts[2], IV_LENGTH + TAG_LENGTH) !== null;
+}
+
+export function encryptSecret(plaintext: string): string {
+  const dataKey = randomBytes(DATA_KEY_LENGTH);
+  const wrappedKey = seal(getKeyEncryptionKey(), dataKey);
+  const ciphertext = seal(dataKey, Buffer.from(plaintext, "utf8"));
+  return [ENVELOPE_VERSION, wrappedKey, ciphertext].join(".");
+}
+
+export function decryptSecret(value: string): string {
+  // Rows written before encryption was introduced are migrated at startup
+  if (!isEncryptedSecret(value)) {
+    return value;
+  }
+  const [, wrappedKey, ciphertext] = value.split(".");
+  const dataKey = open(getKeyEncryptionKey(), wrappedKey);
+  return open(dataKey, ciphertext).toString("utf8");
+}
@@ -0,0 +1,40 @@
+import { storage } from "./storage";
+import {
+  planStatusChanges,
+  type StatusAutomationInput,
+  type StatusAutomationPreview,
+} from "@shared/status-automations";
+
+// How many of the orders a dry run would move are listed
+export const STATUS_AUTOMATION_PREVIEW_LIMIT = 50;
+
+/**
+ * Dry run of an automation - saved or not - against the workspace's orders
+ * right now. Nothing is changed; the daily job applies the same checks.
+ */
+export async function previewStatusAutomation(
+  workspaceId: string,
+  automation: StatusAutomationInput,
+  now: Date = new Date()
+): Promise<StatusAutomationPreview> {
+  const candidates = await storage.getStatusAutomationOrders([workspaceId], automation.statuses);
+  const timezones = await storage.getUserTimezones(Array.from(new Set(candidates.map(order => order.userId))));
+  const changes = planStatusChanges(
+    candidates,
+    new Map([[workspaceId, [{ ...automation, id: "preview" }]]]),
+    timezones,
+    now
+  );
+
+  return {
+    total: changes.length,
+    changes: changes.slice(0, STATUS_AUTOMATION_PREVIEW_LIMIT).map(({ order, automation, reason }) => ({
+      id: order.id,
+      orderId: order.orderId,
+      productName: order.productName,
+      fromStatus: order.currentStatus,
+      toStatus: automation.toStatus,
+      reason,
+    })),
+  };
+}
@@ -1,75 +1,420 @@
 import {
   users,
+  workspaces,
+  workspaceMembers,
   mediators,
   accounts,
   orders,
   notifications,
   userSettings,
+  notificationPreferences,
   activityLogs,
   bankAccounts,
+  payments,
+  paymentAllocations,
+  bankStatementLines,
+  accountAuditLogs,
+  outboxMessages,
+  calendarSyncJobs,
+  jobRuns,
+  reminderRules,
+  statusAutomations,
+  orderImportMappings,
+  pushSubscriptions,
+  vapidKeys,
   type User,
   type UpsertUser,
+  type Workspace,
+  type InsertWorkspace,
+  type WorkspaceMember,
+  type WorkspaceMemberWithUser,
+  type WorkspaceRole,
   type Mediator,
   type InsertMediator,
   type Account,
   type InsertAccount,
+  type AccountSummary,
+  type AccountAuditLog,
+  type InsertAccountAuditLog,
   type Order,
   type InsertOrder,
   type OrderWithRelations,
   type Notification,
   type InsertNotification,
   type NotificationWithOrder,
+  type KeyedNotification,
+  type NotificationKeyState,
   type UserSettingsSelect,
   type InsertUserSettings,
+  type NotificationPreferences,
+  type InsertNotificationPreferences,
+  type DigestRecipient,
+  type InsertPushSubscription,
+  type WebPushSubscription,
+  type VapidKeys,
   type ActivityLog,
   type InsertActivityLog,
   type ActivityLogWithOrder,
   type BankAccount,
   type InsertBankAccount,
+  type Payment,
+  type InsertPayment,
+  type InsertPaymentAllocation,
+  type PaymentWithRelations,
+  type BankStatementLine,
+  type InsertBankStatementLine,
+  type OutboxMessage,
+  type InsertOutboxMessage,
+  type MessageStatus,
+  type CalendarSyncJob,
+  type CalendarSyncJobWithOrder,
+  type InsertCalendarSyncJob,
+  type CalendarSyncStatus,
+  type JobRun,
+  type InsertJobRun,
+  type ReminderRule,
+  type InsertReminderRule,
+  type StatusAutomation,
+  type InsertStatusAutomation,
+  type SavedOrderImportMapping,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, asc, sql, count, sum, isNotNull } from "drizzle-orm";
+import { encryptSecret, decryptSecret } from "./secret-box";
+import { publishEvent, type WorkspaceEvent } from "./events";
+import { eq, and, or, ne, desc, asc, sql, count, sum, isNotNull, isNull, inArray, ilike, like, gte, lte, TransactionRollbackError, type SQL } from "drizzle-orm";
+import { z } from "zod";
+import {
+  orderDateFields,
+  serializeOrderSort,
+  type OrderPage,
+  type OrderQuery,
+  type OrderSort,
+  type OrderSortField,
+} from "@shared/order-query";
+import { defaultReminderRules } from "@shared/reminder-rules";
+import { defaultStatusAutomations } from "@shared/status-automations";
+import type { SaveOrderImportMapping } from "@shared/order-import";
+import { DEFAULT_TIMEZONE } from "@shared/timezone";
+
+// Order fields that appear in calendar events
+const calendarEventFields = ["deliveryDate", "refundFormDate", "productName", "platform", "orderId", "refundFormLink"];
+
+// Rows per statement when creating or escalating reminder notifications in bulk
+const NOTIFICATION_INSERT_BATCH = 500;
+// Idempotency keys per statement when looking up existing notifications
+const NOTIFICATION_KEY_BATCH = 5000;
+// Rows per statement when importing orders
+const ORDER_INSERT_BATCH = 500;
+
+// Notifications the workspace sees - not dismissed and not snoozed. Reads orders.currentStatus, so join orders.
+function visibleNotifications(workspaceId: string): SQL | undefined {
+  return and(
+    eq(notifications.workspaceId, workspaceId),
+    isNull(notifications.dismissedAt),
+    // Snoozed notifications come back once the time passes or the order changes status
+    or(isNull(notifications.snoozedUntil), lte(notifications.snoozedUntil, new Date())),
+    or(isNull(notifications.snoozedWhileStatus), sql`${orders.currentStatus} IS DISTINCT FROM ${notifications.snoozedWhileStatus}`)
+  );
+}
+
+// Publish one event per workspace for notifications created or changed together
+function publishNotificationEvents(
+  type: Extract<WorkspaceEvent["type"], `notification-${string}`>,
+  changed: Pick<Notification, "id" | "workspaceId">[]
+): void {
+  const idsByWorkspace = new Map<string, string[]>();
+  for (const notification of changed) {
+    idsByWorkspace.set(notification.workspaceId, [...(idsByWorkspace.get(notification.workspaceId) ?? []), notification.id]);
+  }
+  idsByWorkspace.forEach((notificationIds, workspaceId) => publishEvent(workspaceId, { type, notificationIds }));
+}
+
+// Account columns safe to send to the client - the password is replaced by a flag
+const accountSummaryColumns = {
+  id: accounts.id,
+  userId: accounts.userId,
+  workspaceId: accounts.workspaceId,
+  name: accounts.name,
+  platform: accounts.platform,
+  email: accounts.email,
+  phone: accounts.phone,
+  hasPassword: sql<boolean>`(${accounts.password} IS NOT NULL AND ${accounts.password} <> '')`,
+  comments: accounts.comments,
+  createdAt: accounts.createdAt,
+  updatedAt: accounts.updatedAt,
+};
+
+function toAccountSummary({ password, ...account }: Account): AccountSummary {
+  return { ...account, hasPassword: !!password };
+}
+
+// Total received against an order through the payment ledger (in paise)
+const orderReceivedAmount = sql<number>`COALESCE((
+  SELECT SUM(${paymentAllocations.amount}) FROM ${paymentAllocations}
+  WHERE ${paymentAllocations.orderId} = ${orders.id}
+), 0)`.mapWith(Number);
+
+// Columns selected for an order together with its mediator, account and bank account
+const orderWithRelationsColumns = {
+  id: orders.id,
+  userId: orders.userId,
+  workspaceId: orders.workspaceId,
+  mediatorId: orders.mediatorId,
+  accountId: orders.accountId,
+  bankAccountId: orders.bankAccountId,
+  productName: orders.productName,
+  platform: orders.platform,
+  orderId: orders.orderId,
+  orderAmount: orders.orderAmount,
+  refundAmount: orders.refundAmount,
+  productLink: orders.productLink,
+  orderDate: orders.orderDate,
+  deliveryDate: orders.deliveryDate,
+  refundFormDate: orders.refundFormDate,
+  remindRefundDate: orders.remindRefundDate,
+  refundFormLink: orders.refundFormLink,
+  comments: orders.comments,
+  currentStatus: orders.currentStatus,
+  calendarEventIds: orders.calendarEventIds,
+  calendarSequence: orders.calendarSequence,
+  statusChangedAt: orders.statusChangedAt,
+  createdAt: orders.createdAt,
+  updatedAt: orders.updatedAt,
+  receivedAmount: orderReceivedAmount,
+  mediator: {
+    id: mediators.id,
+    userId: mediators.userId,
+    workspaceId: mediators.workspaceId,
+    name: mediators.name,
+    whatsappNumber: mediators.whatsappNumber,
+    createdAt: mediators.createdAt,
+    updatedAt: mediators.updatedAt,
+  },
+  account: accountSummaryColumns,
+  bankAccount: {
+    id: bankAccounts.id,
+    userId: bankAccounts.userId,
+    workspaceId: bankAccounts.workspaceId,
+    accountName: bankAccounts.accountName,
+    accountNumber: bankAccounts.accountNumber,
+    createdAt: bankAccounts.createdAt,
+    updatedAt: bankAccounts.updatedAt,
+  },
+};
+
+// Sort expression used for both ORDER BY and keyset comparisons. Timestamps are
+// truncated to milliseconds so cursor values survive a round trip through
+// JavaScript, and missing dates always sort last.
+function orderSortExpression({ field, direction }: OrderSort): SQL {
+  const column = orders[field];
+  if ((orderDateFields as readonly string[]).includes(field)) {
+    const missing = sql.raw(direction === "asc" ? "'infinity'" : "'-infinity'");
+    return sql`COALESCE(date_trunc('milliseconds', ${column}), ${missing}::timestamp)`;
+  }
+  if (field === "currentStatus" || field === "platform") {
+    return sql`${column}::text`;
+  }
+  return sql`${column}`;
+}
+
+function orderCursorValue(field: OrderSortField, value: unknown): SQL {
+  if ((orderDateFields as readonly string[]).includes(field)) {
+    return sql`${String(value)}::timestamp`;
+  }
+  return field === "orderAmount" || field === "refundAmount" ? sql`${Number(value)}` : sql`${String(value)}`;
+}
+
+type OrderCursor = { sort: string; values: unknown[]; id: string };
+
+function encodeOrderCursor(cursor: OrderCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// Whether a cursor value has the type json_build_array gives for the sort column -
+// timestamps come back as ISO text without a zone, or ±infinity for missing dates
+function isOrderCursorValue(field: OrderSortField, value: unknown): boolean {
+  if ((orderDateFields as readonly string[]).includes(field)) {
+    if (value === "infinity" || value === "-infinity") return true;
+    return typeof value === "string"
+      && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?$/.test(value)
+      && !Number.isNaN(Date.parse(value));
+  }
+  if (field === "orderAmount" || field === "refundAmount") {
+    return Number.isSafeInteger(value);
+  }
+  return typeof value === "string";
+}
+
+function decodeOrderCursor(value: string, sort: OrderSort[]): OrderCursor {
+  const invalid = () => new z.ZodError([{ code: "custom", path: ["cursor"], message: "Invalid cursor" }]);
+  let cursor: OrderCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    throw invalid();
+  }
+  if (typeof cursor !== "object" || cursor === null) {
+    throw invalid();
+  }
+  if (cursor.sort !== serializeOrderSort(sort) || !Array.isArray(cursor.values) || cursor.values.length !== sort.length) {
+    throw new z.ZodError([{ code: "custom", path: ["cursor"], message: "Cursor does not match the requested sort" }]);
+  }
+  if (typeof cursor.id !== "string" || !sort.every(({ field }, i) => isOrderCursorValue(field, cursor.values[i]))) {
+    throw invalid();
+  }
+  return cursor;
+}
+
+// Rows strictly after the cursor in (sort..., id) order
+function orderCursorCondition(sort: OrderSort[], cursor: OrderCursor): SQL {
+  const expressions = sort.map(orderSortExpression);
+  const clauses: SQL[] = [];
+
+  for (let i = 0; i <= sort.length; i++) {
+    const equalities = expressions
+      .slice(0, i)
+      .map((expression, j) => sql`${expression} = ${orderCursorValue(sort[j].field, cursor.values[j])}`);
+    const step = i < sort.length
+      ? sort[i].direction === "asc"
+        ? sql`${expressions[i]} > ${orderCursorValue(sort[i].field, cursor.values[i])}`
+        : sql`${expressions[i]} < ${orderCursorValue(sort[i].field, cursor.values[i])}`
+      : sql`${orders.id} > ${cursor.id}`;
+    clauses.push(and(...equalities, step)!);
+  }
+
+  return or(...clauses)!;
+}
+
+function orderQueryConditions(workspaceId: string, query: OrderQuery): SQL[] {
+  const conditions: SQL[] = [eq(orders.workspaceId, workspaceId)];
+
+  if (query.status?.length) {
+    conditions.push(inArray(orders.currentStatus, query.status));
+  }
+  if (query.platform?.length) {
+    conditions.push(inArray(orders.platform, query.platform));
+  }
+  if (query.mediatorId) {
+    conditions.push(eq(orders.mediatorId, query.mediatorId));
+  }
+  if (query.accountId) {
+    conditions.push(eq(orders.accountId, query.accountId));
+  }
+  if (query.bankAccountId) {
+    conditions.push(query.bankAccountId === "none" ? isNull(orders.bankAccountId) : eq(orders.bankAccountId, query.bankAccountId));
+  }
+
+  for (const [field, range] of Object.entries(query.dateRanges)) {
+    const column = orders[field as keyof typeof query.dateRanges];
+    if (range.from) conditions.push(gte(column, range.from));
+    if (range.to) conditions.push(lte(column, range.to));
+  }
+  for (const [field, range] of Object.entries(query.amountRanges)) {
+    const column = orders[field as keyof typeof query.amountRanges];
+    if (range.min !== undefined) conditions.push(gte(column, range.min));
+    if (range.max !== undefined) conditions.push(lte(column, range.max));
+  }
+
+  if (query.search) {
+    const pattern = `%${query.search.replace(/[\\%_]/g, "\\$&")}%`;
+    conditions.push(or(
+      ilike(orders.productName, pattern),
+      ilike(orders.orderId, pattern),
+      ilike(orders.comments, pattern),
+      ilike(mediators.name, pattern),
+      ilike(accounts.name, pattern),
+    )!);
+  }
+
+  return conditions;
+}
+
+// A recorded payment with each order's received total including it, the
+// first allocation that is more than its order still has outstanding, or a
+// statement line another payment has already claimed
+export type CreatePaymentResult =
+  | { payment: Payment; receivedAmounts: Record<string, number> }
+  | { overAllocated: { orderId: string; outstanding: number } }
+  | { statementLineClaimed: true };
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+
+  // Workspace operations
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  getWorkspacesForUser(userId: string): Promise<(Workspace & { role: WorkspaceRole })[]>;
+  getWorkspaceMembership(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined>;
+  createWorkspace(user: Pick<User, "id" | "email">, workspace: InsertWorkspace): Promise<Workspace>;
+  updateWorkspace(id: string, workspace: Partial<InsertWorkspace>): Promise<Workspace | undefined>;
+  getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]>;
+  getWorkspaceMember(id: string, workspaceId: string): Promise<WorkspaceMember | undefined>;
+  createWorkspaceMember(workspaceId: string, member: Pick<WorkspaceMember, "email" | "role" | "userId" | "invitedBy">): Promise<WorkspaceMember>;
+  updateWorkspaceMember(id: string, workspaceId: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined>;
+  deleteWorkspaceMember(id: string, workspaceId: string): Promise<boolean>;
+  claimWorkspaceInvites(userId: string, email: string): Promise<number>;
 
   // Mediator operations
-  getMediators(userId: string): Promise<Mediator[]>;
+  getMediators(workspaceId: string): Promise<Mediator[]>;
   getMediator(id: string): Promise<Mediator | undefined>;
-  createMediator(userId: string, mediator: InsertMediator): Promise<Mediator>;
-  updateMediator(id: string, userId: string, mediator: Partial<InsertMediator>): Promise<Mediator | undefined>;
-  deleteMediator(id: string, userId: string): Promise<boolean>;
+  createMediator(workspaceId: string, userId: string, mediator: InsertMediator): Promise<Mediator>;
+  updateMediator(id: string, workspaceId: string, mediator: Partial<InsertMediator>): Promise<Mediator | undefined>;
+  deleteMediator(id: string, workspaceId: string): Promise<boolean>;
 
   // Account operations
-  getAccounts(userId: string): Promise<Account[]>;
-  getAccountsByPlatform(userId: string, platform: Account['platform']): Promise<Account[]>;
-  createAccount(userId: string, account: InsertAccount): Promise<Account>;
-  updateAccount(id: string, userId: string, account: Partial<InsertAccount>): Promise<Account | undefined>;
-  deleteAccount(id: string, userId: string): Promise<boolean>;
+  getAccounts(workspaceId: string): Promise<AccountSummary[]>;
+  getAccountsByPlatform(workspaceId: string, platform: Account['platform']): Promise<AccountSummary[]>;
+  createAccount(workspaceId: string, userId: string, account: InsertAccount): Promise<AccountSummary>;
+  updateAccount(id: string, workspaceId: string, account: Partial<InsertAccount>): Promise<AccountSummary | undefined>;
+  deleteAccount(id: string, workspaceId: string): Promise<boolean>;
+  getAccountPassword(id: string, workspaceId: string): Promise<string | null | undefined>;
+  createAccountAuditLog(userId: string, log: InsertAccountAuditLog): Promise<AccountAuditLog>;
+  getAccountAuditLogs(accountId: string, workspaceId: string): Promise<AccountAuditLog[]>;
 
   // Bank Account operations
-  getBankAccounts(userId: string): Promise<BankAccount[]>;
-  getActiveBankAccounts(userId: string): Promise<BankAccount[]>;
-  createBankAccount(userId: string, bankAccount: InsertBankAccount): Promise<BankAccount>;
-  updateBankAccount(id: string, userId: string, bankAccount: Partial<InsertBankAccount>): Promise<BankAccount | undefined>;
-  deleteBankAccount(id: string, userId: string): Promise<boolean>;
+  getBankAccounts(workspaceId: string): Promise<BankAccount[]>;
+  getActiveBankAccounts(workspaceId: string): Promise<BankAccount[]>;
+  createBankAccount(workspaceId: string, userId: string, bankAccount: InsertBankAccount): Promise<BankAccount>;
+  updateBankAccount(id: string, workspaceId: string, bankAccount: Partial<InsertBankAccount>): Promise<BankAccount | undefined>;
+  deleteBankAccount(id: string, workspaceId: string): Promise<boolean>;
 
   // Order operations
-  getOrders(userId: string, filters?: {
+  getOrders(workspaceId: string, filters?: {
     status?: Order['currentStatus'];
     mediatorId?: string;
     platform?: Order['platform'];
     accountId?: string;
   }): Promise<OrderWithRelations[]>;
-  getOrder(id: string, userId: string): Promise<OrderWithRelations | undefined>;
-  createOrder(userId: string, order: InsertOrder): Promise<Order>;
-  updateOrder(id: string, userId: string, order: Partial<InsertOrder>): Promise<Order | undefined>;
-  deleteOrder(id: string, userId: string): Promise<boolean>;
+  queryOrders(workspaceId: string, query: OrderQuery): Promise<OrderPage>;
+  getOrder(id: string, workspaceId: string): Promise<OrderWithRelations | undefined>;
+  createOrder(workspaceId: string, userId: string, order: InsertOrder): Promise<Order>;
+  createOrdersWithLogs(workspaceId: string, userId: string, entries: { order: InsertOrder; log: Omit<InsertActivityLog, "orderId"> }[]): Promise<Order[]>;
+  getOrderNumbers(workspaceId: string): Promise<Pick<Order, "platform" | "orderId">[]>;
+  updateOrder(id: string, workspaceId: string, order: Partial<InsertOrder>): Promise<Order | undefined>;
+  deleteOrder(id: string, workspaceId: string): Promise<boolean>;
+  getOrderByCalendarEventId(ownerId: string, eventId: string): Promise<Order | undefined>;
+  getCalendarFeedOrders(userId: string, since: Date): Promise<Order[]>;
+
+  // Payment ledger operations
+  getPayments(workspaceId: string, filters?: {
+    mediatorId?: string;
+    orderId?: string;
+  }): Promise<PaymentWithRelations[]>;
+  getPayment(id: string, workspaceId: string): Promise<PaymentWithRelations | undefined>;
+  createPayment(workspaceId: string, userId: string, payment: Omit<InsertPayment, "allocations">, allocations: InsertPaymentAllocation[], statementLineId?: string): Promise<CreatePaymentResult>;
+  deletePayment(id: string, workspaceId: string): Promise<boolean>;
+  getReceivedAmounts(workspaceId: string, orderIds: string[]): Promise<Record<string, number>>;
+
+  // Bank statement operations
+  getStatementLines(workspaceId: string, bankAccountId: string): Promise<BankStatementLine[]>;
+  getStatementLine(id: string, workspaceId: string): Promise<BankStatementLine | undefined>;
+  createStatementLines(workspaceId: string, userId: string, lines: InsertBankStatementLine[]): Promise<BankStatementLine[]>;
+  updateStatementLine(id: string, workspaceId: string, line: Partial<Pick<InsertBankStatementLine, "paymentId" | "ignored">>): Promise<BankStatementLine | undefined>;
 
   // Dashboard statistics
-  getDashboardStats(userId: string, startDate?: string, endDate?: string): Promise<{
+  getDashboardStats(workspaceId: string, startDate?: string, endDate?: string): Promise<{
     monthlyEarnings: number;
     monthlyOrders: number;
     completedReviews: number;
@@ -87,23 +432,111 @@ export interface IStorage {
   }>;
 
   // Notification operations
-  getNotifications(userId: string): Promise<NotificationWithOrder[]>;
-  createNotification(userId: string, notification: InsertNotification): Promise<Notification>;
-  markNotificationRead(id: string, userId: string): Promise<boolean>;
-  markAllNotificationsRead(userId: string): Promise<boolean>;
+  getNotifications(workspaceId: string): Promise<NotificationWithOrder[]>;
+  createNotification(workspaceId: string, userId: string, notification: InsertNotification): Promise<Notification>;
+  createNotificationsOnce(notifications: KeyedNotification[]): Promise<Notification[]>;
+  getNotificationKeyStates(idempotencyKeys: string[]): Promise<Map<string, NotificationKeyState>>;
+  getNotification(id: string, workspaceId: string): Promise<Notification | undefined>;
+  countUnreadNotifications(workspaceId: string): Promise<number>;
+  markNotificationRead(id: string, workspaceId: string): Promise<boolean>;
+  snoozeNotification(
+    id: string,
+    workspaceId: string,
+    snooze: Pick<Notification, "snoozedUntil" | "snoozedWhileStatus">
+  ): Promise<Notification | undefined>;
+  dismissNotification(id: string, workspaceId: string): Promise<boolean>;
+  escalateNotifications(idempotencyKeys: string[]): Promise<Notification[]>;
+  holdNotificationPushes(ids: string[], until: Date): Promise<void>;
+  releaseHeldNotificationPushes(now: Date): Promise<Notification[]>;
+  markAllNotificationsRead(workspaceId: string): Promise<boolean>;
 
   // User Settings operations
   getUserSettings(userId: string): Promise<UserSettingsSelect | undefined>;
   upsertUserSettings(userId: string, settings: Partial<InsertUserSettings>): Promise<UserSettingsSelect>;
+  getUserTimezones(userIds: string[]): Promise<Map<string, string>>;
+  getCalendarSyncSettings(): Promise<UserSettingsSelect[]>;
+  getUserSettingsByFeedToken(token: string): Promise<UserSettingsSelect | undefined>;
+
+  // Reminder rule operations
+  getReminderRules(workspaceId: string): Promise<ReminderRule[]>;
+  getEnabledReminderRules(): Promise<ReminderRule[]>;
+  createReminderRule(workspaceId: string, userId: string, rule: InsertReminderRule): Promise<ReminderRule>;
+  updateReminderRule(id: string, workspaceId: string, rule: Partial<InsertReminderRule>): Promise<ReminderRule | undefined>;
+  deleteReminderRule(id: string, workspaceId: string): Promise<boolean>;
+  getReminderOrders(workspaceIds: string[]): Promise<OrderWithRelations[]>;
+
+  // Status automation operations
+  getStatusAutomations(workspaceId: string): Promise<StatusAutomation[]>;
+  getEnabledStatusAutomations(): Promise<StatusAutomation[]>;
+  createStatusAutomation(workspaceId: string, userId: string, automation: InsertStatusAutomation): Promise<StatusAutomation>;
+  updateStatusAutomation(id: string, workspaceId: string, automation: Partial<InsertStatusAutomation>): Promise<StatusAutomation | undefined>;
+  deleteStatusAutomation(id: string, workspaceId: string): Promise<boolean>;
+  getStatusAutomationOrders(workspaceIds: string[], statuses: Order["currentStatus"][]): Promise<Order[]>;
+
+  // Order import mapping operations
+  getOrderImportMappings(workspaceId: string): Promise<SavedOrderImportMapping[]>;
+  saveOrderImportMapping(workspaceId: string, userId: string, data: SaveOrderImportMapping): Promise<SavedOrderImportMapping>;
+  deleteOrderImportMapping(id: string, workspaceId: string): Promise<boolean>;
+
+  // Notification preference operations
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined>;
+  getNotificationPreferencesForUsers(userIds: string[]): Promise<Map<string, NotificationPreferences>>;
+  upsertNotificationPreferences(userId: string, preferences: Partial<InsertNotificationPreferences>): Promise<NotificationPreferences>;
+  getDigestRecipients(): Promise<DigestRecipient[]>;
+  claimDigest(userId: string, periodStart: Date): Promise<boolean>;
+
+  // Web Push operations
+  getPushSubscriptions(userIds: string[]): Promise<WebPushSubscription[]>;
+  savePushSubscription(userId: string, subscription: InsertPushSubscription, userAgent?: string): Promise<WebPushSubscription>;
+  deletePushSubscription(endpoint: string, userId?: string): Promise<boolean>;
+  markPushSubscriptionUsed(id: string): Promise<void>;
+  getVapidKeys(): Promise<VapidKeys | undefined>;
+  createVapidKeys(keys: Pick<VapidKeys, "publicKey" | "privateKey">): Promise<VapidKeys>;
 
   // Activity Log operations
-  createActivityLog(userId: string, log: InsertActivityLog): Promise<ActivityLog>;
-  getOrderActivityLogs(orderId: string, userId: string): Promise<ActivityLogWithOrder[]>;
-  getAllActivityLogs(userId: string, filters?: {
+  createActivityLog(workspaceId: string, userId: string, log: InsertActivityLog): Promise<ActivityLog>;
+  getOrderActivityLogs(orderId: string, workspaceId: string): Promise<ActivityLogWithOrder[]>;
+  getAllActivityLogs(workspaceId: string, filters?: {
     orderId?: string;
     activityType?: ActivityLog['activityType'];
     limit?: number;
   }): Promise<ActivityLogWithOrder[]>;
+
+  // Messaging outbox operations
+  getOutboxMessages(workspaceId: string, filters?: {
+    status?: MessageStatus;
+    mediatorId?: string;
+    limit?: number;
+  }): Promise<OutboxMessage[]>;
+  getOutboxMessage(id: string, workspaceId: string): Promise<OutboxMessage | undefined>;
+  createOutboxMessage(workspaceId: string, userId: string, message: Omit<InsertOutboxMessage, "workspaceId" | "userId">): Promise<OutboxMessage>;
+  getDueOutboxMessages(limit: number): Promise<OutboxMessage[]>;
+  claimOutboxMessage(id: string): Promise<OutboxMessage | undefined>;
+  releaseStaleOutboxMessages(before: Date): Promise<number>;
+  updateOutboxMessage(id: string, message: Partial<InsertOutboxMessage>): Promise<OutboxMessage | undefined>;
+
+  // Calendar sync queue operations
+  getCalendarSyncJobs(workspaceId: string, filters?: {
+    status?: CalendarSyncStatus;
+    limit?: number;
+  }): Promise<CalendarSyncJobWithOrder[]>;
+  getCalendarSyncCounts(workspaceId: string): Promise<Record<CalendarSyncStatus, number>>;
+  getCalendarSyncJobForOrder(orderId: string): Promise<CalendarSyncJob | undefined>;
+  createCalendarSyncJob(workspaceId: string, userId: string, job: Omit<InsertCalendarSyncJob, "workspaceId" | "userId">): Promise<CalendarSyncJob>;
+  getDueCalendarSyncJobs(limit: number): Promise<CalendarSyncJob[]>;
+  claimCalendarSyncJob(id: string): Promise<CalendarSyncJob | undefined>;
+  releaseStaleCalendarSyncJobs(before: Date): Promise<number>;
+  updateCalendarSyncJob(id: string, job: Partial<InsertCalendarSyncJob>): Promise<CalendarSyncJob | undefined>;
+  retryFailedCalendarSyncJobs(workspaceId: string): Promise<number>;
+
+  // Cron job run history - shared by every server instance
+  getJobRuns(filters?: { job?: string; limit?: number }): Promise<JobRun[]>;
+  getLatestJobRuns(): Promise<JobRun[]>;
+  hasJobRunSince(job: string, scheduledFor: Date): Promise<boolean>;
+  createJobRun(run: InsertJobRun): Promise<JobRun>;
+  finishJobRun(id: string, run: Pick<InsertJobRun, "status" | "counts" | "error">): Promise<JobRun | undefined>;
+  failInterruptedJobRuns(job: string): Promise<number>;
+  deleteJobRunsBefore(before: Date): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -128,12 +561,141 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user;
+  }
+
+  // Workspace operations
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace;
+  }
+
+  async getWorkspacesForUser(userId: string): Promise<(Workspace & { role: WorkspaceRole })[]> {
+    const rows = await db
+      .select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(asc(workspaces.createdAt));
+    return rows.map(row => ({ ...row.workspace, role: row.role }));
+  }
+
+  async getWorkspaceMembership(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member;
+  }
+
+  async createWorkspace(user: Pick<User, "id" | "email">, workspace: InsertWorkspace): Promise<Workspace> {
+    return await db.transaction(async (tx) => {
+      const [newWorkspace] = await tx
+        .insert(workspaces)
+        .values({ ...workspace, ownerId: user.id })
+        .returning();
+
+      await tx.insert(workspaceMembers).values({
+        workspaceId: newWorkspace.id,
+        userId: user.id,
+        email: (user.email || user.id).toLowerCase(),
+        role: "owner",
+      });
+
+      await tx.insert(reminderRules).values(
+        defaultReminderRules.map(rule => ({ ...rule, workspaceId: newWorkspace.id, userId: user.id }))
+      );
+
+      await tx.insert(statusAutomations).values(
+        defaultStatusAutomations.map(automation => ({ ...automation, workspaceId: newWorkspace.id, userId: user.id }))
+      );
+
+      return newWorkspace;
+    });
+  }
+
+  async updateWorkspace(id: string, workspace: Partial<InsertWorkspace>): Promise<Workspace | undefined> {
+    const [updatedWorkspace] = await db
+      .update(workspaces)
+      .set({ ...workspace, updatedAt: new Date() })
+      .where(eq(workspaces.id, id))
+      .returning();
+    return updatedWorkspace;
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]> {
+    const rows = await db
+      .select({
+        member: workspaceMembers,
+        user: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl,
+        },
+      })
+      .from(workspaceMembers)
+      .leftJoin(users, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMembers.createdAt));
+    return rows.map(row => ({ ...row.member, user: row.user || undefined }));
+  }
+
+  async getWorkspaceMember(id: string, workspaceId: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.id, id), eq(workspaceMembers.workspaceId, workspaceId)));
+    return member;
+  }
+
+  async createWorkspaceMember(
+    workspaceId: string,
+    member: Pick<WorkspaceMember, "email" | "role" | "userId" | "invitedBy">
+  ): Promise<WorkspaceMember> {
+    const [newMember] = await db
+      .insert(workspaceMembers)
+      .values({ ...member, workspaceId })
+      .returning();
+    return newMember;
+  }
+
+  async updateWorkspaceMember(id: string, workspaceId: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined> {
+    const [updatedMember] = await db
+      .update(workspaceMembers)
+      .set({ role, updatedAt: new Date() })
+      .where(and(eq(workspaceMembers.id, id), eq(workspaceMembers.workspaceId, workspaceId)))
+      .returning();
+    return updatedMember;
+  }
+
+  async deleteWorkspaceMember(id: string, workspaceId: string): Promise<boolean> {
+    const result = await db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.id, id), eq(workspaceMembers.workspaceId, workspaceId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Link pending invites sent to this email address to the user
+  async claimWorkspaceInvites(userId: string, email: string): Promise<number> {
+    const result = await db
+      .update(workspaceMembers)
+      .set({ userId, updatedAt: new Date() })
+      .where(and(isNull(workspaceMembers.userId), eq(workspaceMembers.email, email.toLowerCase())));
+    return result.rowCount ?? 0;
+  }
+
   // Mediator operations
-  async getMediators(userId: string): Promise<Mediator[]> {
+  async getMediators(workspaceId: string): Promise<Mediator[]> {
     return await db
       .select()
       .from(mediators)
-      .where(eq(mediators.userId, userId))
+      .where(eq(mediators.workspaceId, workspaceId))
       .orderBy(asc(mediators.name));
   }
 
@@ -146,177 +708,164 @@ export class DatabaseStorage implements IStorage {
     return mediator;
   }
 
-  async createMediator(userId: string, mediator: InsertMediator): Promise<Mediator> {
+  async createMediator(workspaceId: string, userId: string, mediator: InsertMediator): Promise<Mediator> {
     const [newMediator] = await db
       .insert(mediators)
-      .values({ ...mediator, userId })
+      .values({ ...mediator, workspaceId, userId })
       .returning();
     return newMediator;
   }
 
-  async updateMediator(id: string, userId: string, mediator: Partial<InsertMediator>): Promise<Mediator | undefined> {
+  async updateMediator(id: string, workspaceId: string, mediator: Partial<InsertMediator>): Promise<Mediator | undefined> {
     const [updatedMediator] = await db
       .update(mediators)
       .set({ ...mediator, updatedAt: new Date() })
-      .where(and(eq(mediators.id, id), eq(mediators.userId, userId)))
+      .where(and(eq(mediators.id, id), eq(mediators.workspaceId, workspaceId)))
       .returning();
     return updatedMediator;
   }
 
-  async deleteMediator(id: string, userId: string): Promise<boolean> {
+  async deleteMediator(id: string, workspaceId: string): Promise<boolean> {
     const result = await db
       .delete(mediators)
-      .where(and(eq(mediators.id, id), eq(mediators.userId, userId)));
+      .where(and(eq(mediators.id, id), eq(mediators.workspaceId, workspaceId)));
     return (result.rowCount ?? 0) > 0;
   }
 
   // Account operations
-  async getAccounts(userId: string): Promise<Account[]> {
+  async getAccounts(workspaceId: string): Promise<AccountSummary[]> {
     return await db
-      .select()
+      .select(accountSummaryColumns)
       .from(accounts)
-      .where(eq(accounts.userId, userId))
+      .where(eq(accounts.workspaceId, workspaceId))
       .orderBy(asc(accounts.platform), asc(accounts.name));
   }
 
-  async getAccountsByPlatform(userId: string, platform: Account['platform']): Promise<Account[]> {
+  async getAccountsByPlatform(workspaceId: string, platform: Account['platform']): Promise<AccountSummary[]> {
     return await db
-      .select()
+      .select(accountSummaryColumns)
       .from(accounts)
-      .where(and(eq(accounts.userId, userId), eq(accounts.platform, platform)))
+      .where(and(eq(accounts.workspaceId, workspaceId), eq(accounts.platform, platform)))
       .orderBy(asc(accounts.name));
   }
 
-  async createAccount(userId: string, account: InsertAccount): Promise<Account> {
+  async createAccount(workspaceId: string, userId: string, account: InsertAccount): Promise<AccountSummary> {
     const [newAccount] = await db
       .insert(accounts)
-      .values({ ...account, userId })
+      .values({
+        ...account,
+        password: account.password ? encryptSecret(account.password) : null,
+        workspaceId,
+        userId,
+      })
       .returning();
-    return newAccount;
+    return toAccountSummary(newAccount);
   }
 
-  async updateAccount(id: string, userId: string, account: Partial<InsertAccount>): Promise<Account | undefined> {
+  async updateAccount(id: string, workspaceId: string, account: Partial<InsertAccount>): Promise<AccountSummary | undefined> {
+    const { password, ...accountData } = account;
     const [updatedAccount] = await db
       .update(accounts)
-      .set({ ...account, updatedAt: new Date() })
-      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)))
+      .set({
+        ...accountData,
+        ...(password !== undefined && { password: password ? encryptSecret(password) : null }),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(accounts.id, id), eq(accounts.workspaceId, workspaceId)))
       .returning();
-    return updatedAccount;
+    return updatedAccount ? toAccountSummary(updatedAccount) : undefined;
   }
 
-  async deleteAccount(id: string, userId: string): Promise<boolean> {
+  async deleteAccount(id: string, workspaceId: string): Promise<boolean> {
     const result = await db
       .delete(accounts)
-      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)));
+      .where(and(eq(accounts.id, id), eq(accounts.workspaceId, workspaceId)));
     return (result.rowCount ?? 0) > 0;
   }
 
+  async getAccountPassword(id: string, workspaceId: string): Promise<string | null | undefined> {
+    const [account] = await db
+      .select({ password: accounts.password })
+      .from(accounts)
+      .where(and(eq(accounts.id, id), eq(accounts.workspaceId, workspaceId)));
+    if (!account) return undefined;
+    return account.password ? decryptSecret(account.password) : null;
+  }
+
+  async createAccountAuditLog(userId: string, log: InsertAccountAuditLog): Promise<AccountAuditLog> {
+    const [newLog] = await db
+      .insert(accountAuditLogs)
+      .values({ ...log, userId })
+      .returning();
+    return newLog;
+  }
+
+  async getAccountAuditLogs(accountId: string, workspaceId: string): Promise<AccountAuditLog[]> {
+    const rows = await db
+      .select({ log: accountAuditLogs })
+      .from(accountAuditLogs)
+      .innerJoin(accounts, eq(accountAuditLogs.accountId, accounts.id))
+      .where(and(eq(accountAuditLogs.accountId, accountId), eq(accounts.workspaceId, workspaceId)))
+      .orderBy(desc(accountAuditLogs.createdAt));
+    return rows.map(row => row.log);
+  }
+
   // Bank Account operations
-  async getBankAccounts(userId: string): Promise<BankAccount[]> {
+  async getBankAccounts(workspaceId: string): Promise<BankAccount[]> {
     return await db
       .select()
       .from(bankAccounts)
-      .where(eq(bankAccounts.userId, userId))
+      .where(eq(bankAccounts.workspaceId, workspaceId))
       .orderBy(asc(bankAccounts.accountName));
   }
 
-  async getActiveBankAccounts(userId: string): Promise<BankAccount[]> {
+  async getActiveBankAccounts(workspaceId: string): Promise<BankAccount[]> {
     return await db
       .select()
       .from(bankAccounts)
-      .where(eq(bankAccounts.userId, userId))
+      .where(eq(bankAccounts.workspaceId, workspaceId))
       .orderBy(asc(bankAccounts.accountName));
   }
 
-  async createBankAccount(userId: string, bankAccount: InsertBankAccount): Promise<BankAccount> {
+  async createBankAccount(workspaceId: string, userId: string, bankAccount: InsertBankAccount): Promise<BankAccount> {
     const [newBankAccount] = await db
       .insert(bankAccounts)
-      .values({ ...bankAccount, userId })
+      .values({ ...bankAccount, workspaceId, userId })
       .returning();
     return newBankAccount;
   }
 
-  async updateBankAccount(id: string, userId: string, bankAccount: Partial<InsertBankAccount>): Promise<BankAccount | undefined> {
+  async updateBankAccount(id: string, workspaceId: string, bankAccount: Partial<InsertBankAccount>): Promise<BankAccount | undefined> {
     const [updatedBankAccount] = await db
       .update(bankAccounts)
       .set({ ...bankAccount, updatedAt: new Date() })
-      .where(and(eq(bankAccounts.id, id), eq(bankAccounts.userId, userId)))
+      .where(and(eq(bankAccounts.id, id), eq(bankAccounts.workspaceId, workspaceId)))
       .returning();
     return updatedBankAccount;
   }
 
-  async deleteBankAccount(id: string, userId: string): Promise<boolean> {
+  async deleteBankAccount(id: string, workspaceId: string): Promise<boolean> {
     const result = await db
       .delete(bankAccounts)
-      .where(and(eq(bankAccounts.id, id), eq(bankAccounts.userId, userId)));
+      .where(and(eq(bankAccounts.id, id), eq(bankAccounts.workspaceId, workspaceId)));
     return (result.rowCount ?? 0) > 0;
   }
 
   // Order operations
-  async getOrders(userId: string, filters?: {
+  async getOrders(workspaceId: string, filters?: {
     status?: Order['currentStatus'];
     mediatorId?: string;
     platform?: Order['platform'];
     accountId?: string;
   }): Promise<OrderWithRelations[]> {
     let query = db
-      .select({
-        id: orders.id,
-        userId: orders.userId,
-        mediatorId: orders.mediatorId,
-        accountId: orders.accountId,
-        bankAccountId: orders.bankAccountId,
-        productName: orders.productName,
-        platform: orders.platform,
-        orderId: orders.orderId,
-        orderAmount: orders.orderAmount,
-        refundAmount: orders.refundAmount,
-        productLink: orders.productLink,
-        orderDate: orders.orderDate,
-        deliveryDate: orders.deliveryDate,
-        refundFormDate: orders.refundFormDate,
-        remindRefundDate: orders.remindRefundDate,
-        refundFormLink: orders.refundFormLink,
-        comments: orders.comments,
-        currentStatus: orders.currentStatus,
-        calendarEventIds: orders.calendarEventIds,
-        createdAt: orders.createdAt,
-        updatedAt: orders.updatedAt,
-        mediator: {
-          id: mediators.id,
-          userId: mediators.userId,
-          name: mediators.name,
-          whatsappNumber: mediators.whatsappNumber,
-          createdAt: mediators.createdAt,
-          updatedAt: mediators.updatedAt,
-        },
-        account: {
-          id: accounts.id,
-          userId: accounts.userId,
-          name: accounts.name,
-          platform: accounts.platform,
-          email: accounts.email,
-          phone: accounts.phone,
-          password: accounts.password,
-          comments: accounts.comments,
-          createdAt: accounts.createdAt,
-          updatedAt: accounts.updatedAt,
-        },
-        bankAccount: {
-          id: bankAccounts.id,
-          userId: bankAccounts.userId,
-          accountName: bankAccounts.accountName,
-          accountNumber: bankAccounts.accountNumber,
-          createdAt: bankAccounts.createdAt,
-          updatedAt: bankAccounts.updatedAt,
-        },
-      })
+      .select(orderWithRelationsColumns)
       .from(orders)
       .leftJoin(mediators, eq(orders.mediatorId, mediators.id))
       .leftJoin(accounts, eq(orders.accountId, accounts.id))
       .leftJoin(bankAccounts, eq(orders.bankAccountId, bankAccounts.id));
 
-    const conditions = [eq(orders.userId, userId)];
+    const conditions = [eq(orders.workspaceId, workspaceId)];
 
     if (filters?.status) {
       conditions.push(eq(orders.currentStatus, filters.status));
@@ -342,11 +891,69 @@ export class DatabaseStorage implements IStorage {
     })) as any;
   }
 
-  async getOrder(id: string, userId: string): Promise<OrderWithRelations | undefined> {
+  // Filtered, sorted page of orders - keyset pagination when a cursor is given, offset otherwise
+  async queryOrders(workspaceId: string, query: OrderQuery): Promise<OrderPage> {
+    const conditions = orderQueryConditions(workspaceId, query);
+    const sortExpressions = query.sort.map(orderSortExpression);
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(orders)
+      .leftJoin(mediators, eq(orders.mediatorId, mediators.id))
+      .leftJoin(accounts, eq(orders.accountId, accounts.id))
+      .where(and(...conditions));
+
+    const pageConditions = query.cursor
+      ? [...conditions, orderCursorCondition(query.sort, decodeOrderCursor(query.cursor, query.sort))]
+      : conditions;
+    const offset = !query.cursor && query.page ? (query.page - 1) * query.limit : 0;
+
+    const rows = await db
+      .select({
+        ...orderWithRelationsColumns,
+        sortKey: sql<unknown[]>`json_build_array(${sql.join(sortExpressions, sql`, `)})`,
+      })
+      .from(orders)
+      .leftJoin(mediators, eq(orders.mediatorId, mediators.id))
+      .leftJoin(accounts, eq(orders.accountId, accounts.id))
+      .leftJoin(bankAccounts, eq(orders.bankAccountId, bankAccounts.id))
+      .where(and(...pageConditions))
+      .orderBy(
+        ...sortExpressions.map((expression, i) => query.sort[i].direction === "asc" ? asc(expression) : desc(expression)),
+        asc(orders.id)
+      )
+      .limit(query.limit + 1)
+      .offset(offset);
+
+    const hasMore = rows.length > query.limit;
+    const pageRows = rows.slice(0, query.limit);
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+      items: pageRows.map(({ sortKey, ...row }) => ({
+        ...row,
+        mediator: row.mediator!,
+        account: row.account!,
+        bankAccount: row.bankAccount || undefined,
+      })) as OrderWithRelations[],
+      total,
+      limit: query.limit,
+      nextCursor: hasMore && last
+        ? encodeOrderCursor({ sort: serializeOrderSort(query.sort), values: last.sortKey, id: last.id })
+        : null,
+      ...(!query.cursor && {
+        page: query.page ?? 1,
+        totalPages: Math.max(Math.ceil(total / query.limit), 1),
+      }),
+    };
+  }
+
+  async getOrder(id: string, workspaceId: string): Promise<OrderWithRelations | undefined> {
     const [result] = await db
       .select({
         id: orders.id,
         userId: orders.userId,
+        workspaceId: orders.workspaceId,
         mediatorId: orders.mediatorId,
         accountId: orders.accountId,
         productName: orders.productName,
@@ -363,33 +970,26 @@ export class DatabaseStorage implements IStorage {
         comments: orders.comments,
         currentStatus: orders.currentStatus,
         calendarEventIds: orders.calendarEventIds,
+        calendarSequence: orders.calendarSequence,
+        statusChangedAt: orders.statusChangedAt,
         createdAt: orders.createdAt,
         updatedAt: orders.updatedAt,
+        receivedAmount: orderReceivedAmount,
         mediator: {
           id: mediators.id,
           userId: mediators.userId,
+          workspaceId: mediators.workspaceId,
           name: mediators.name,
           whatsappNumber: mediators.whatsappNumber,
           createdAt: mediators.createdAt,
           updatedAt: mediators.updatedAt,
         },
-        account: {
-          id: accounts.id,
-          userId: accounts.userId,
-          name: accounts.name,
-          platform: accounts.platform,
-          email: accounts.email,
-          phone: accounts.phone,
-          password: accounts.password,
-          comments: accounts.comments,
-          createdAt: accounts.createdAt,
-          updatedAt: accounts.updatedAt,
-        },
+        account: accountSummaryColumns,
       })
       .from(orders)
       .leftJoin(mediators, eq(orders.mediatorId, mediators.id))
       .leftJoin(accounts, eq(orders.accountId, accounts.id))
-      .where(and(eq(orders.id, id), eq(orders.userId, userId)));
+      .where(and(eq(orders.id, id), eq(orders.workspaceId, workspaceId)));
 
     if (!result) return undefined;
 
@@ -400,32 +1000,339 @@ export class DatabaseStorage implements IStorage {
     } as any;
   }
 
-  async createOrder(userId: string, order: InsertOrder): Promise<Order> {
+  async createOrder(workspaceId: string, userId: string, order: InsertOrder): Promise<Order> {
     const [newOrder] = await db
       .insert(orders)
-      .values({ ...order, userId })
+      .values({ ...order, workspaceId, userId })
       .returning();
+    publishEvent(workspaceId, { type: "order-updated", orderId: newOrder.id });
     return newOrder;
   }
 
-  async updateOrder(id: string, userId: string, order: Partial<InsertOrder>): Promise<Order | undefined> {
+  /**
+   * Create orders with their activity logs in one transaction - either all
+   * of them are created or none is. Listeners get one event for the batch.
+   */
+  async createOrdersWithLogs(
+    workspaceId: string,
+    userId: string,
+    entries: { order: InsertOrder; log: Omit<InsertActivityLog, "orderId"> }[]
+  ): Promise<Order[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+    const created = await db.transaction(async (tx) => {
+      const newOrders: Order[] = [];
+      for (let i = 0; i < entries.length; i += ORDER_INSERT_BATCH) {
+        const batch = entries.slice(i, i + ORDER_INSERT_BATCH);
+        const inserted = await tx
+          .insert(orders)
+          .values(batch.map(({ order }) => ({ ...order, workspaceId, userId })))
+          .returning();
+        await tx
+          .insert(activityLogs)
+          .values(batch.map(({ log }, index) => ({ ...log, orderId: inserted[index].id, workspaceId, userId })));
+        newOrders.push(...inserted);
+      }
+      return newOrders;
+    });
+    publishEvent(workspaceId, { type: "orders-imported", orderIds: created.map(order => order.id) });
+    return created;
+  }
+
+  // Platform and order number of every order, for spotting duplicates
+  async getOrderNumbers(workspaceId: string): Promise<Pick<Order, "platform" | "orderId">[]> {
+    return await db
+      .select({ platform: orders.platform, orderId: orders.orderId })
+      .from(orders)
+      .where(eq(orders.workspaceId, workspaceId));
+  }
+
+  async updateOrder(id: string, workspaceId: string, order: Partial<InsertOrder>): Promise<Order | undefined> {
+    // Calendar clients only pick up changed events when the SEQUENCE goes up
+    const changesEvents = calendarEventFields.some(field => field in order);
     const [updatedOrder] = await db
       .update(orders)
-      .set({ ...order, updatedAt: new Date() })
-      .where(and(eq(orders.id, id), eq(orders.userId, userId)))
+      .set({
+        ...order,
+        ...(changesEvents ? { calendarSequence: sql`${orders.calendarSequence} + 1` } : {}),
+        ...(order.currentStatus
+          ? { statusChangedAt: sql`CASE WHEN ${orders.currentStatus} = ${order.currentStatus} THEN ${orders.statusChangedAt} ELSE now() END` }
+          : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(orders.id, id), eq(orders.workspaceId, workspaceId)))
       .returning();
+    if (updatedOrder) {
+      publishEvent(workspaceId, { type: "order-updated", orderId: id });
+    }
     return updatedOrder;
   }
 
-  async deleteOrder(id: string, userId: string): Promise<boolean> {
+  async deleteOrder(id: string, workspaceId: string): Promise<boolean> {
     const result = await db
       .delete(orders)
-      .where(and(eq(orders.id, id), eq(orders.userId, userId)));
+      .where(and(eq(orders.id, id), eq(orders.workspaceId, workspaceId)));
+    if ((result.rowCount ?? 0) === 0) {
+      return false;
+    }
+    publishEvent(workspaceId, { type: "order-updated", orderId: id });
+    return true;
+  }
+
+  // Orders whose calendar events live in the owner's calendar - event ids are stored in calendarEventIds
+  async getOrderByCalendarEventId(ownerId: string, eventId: string): Promise<Order | undefined> {
+    const [row] = await db
+      .select({ order: orders })
+      .from(orders)
+      .innerJoin(workspaces, eq(orders.workspaceId, workspaces.id))
+      .where(and(eq(workspaces.ownerId, ownerId), like(orders.calendarEventIds, `%"${eventId}"%`)))
+      .limit(1);
+    return row?.order;
+  }
+
+  // Open orders with a delivery or refund form date from `since` on, across the user's workspaces
+  async getCalendarFeedOrders(userId: string, since: Date): Promise<Order[]> {
+    const rows = await db
+      .select({ order: orders })
+      .from(orders)
+      .innerJoin(workspaceMembers, eq(orders.workspaceId, workspaceMembers.workspaceId))
+      .where(and(
+        eq(workspaceMembers.userId, userId),
+        sql`${orders.currentStatus} not in ('Refunded', 'Cancelled')`,
+        or(gte(orders.deliveryDate, since), gte(orders.refundFormDate, since))
+      ))
+      .orderBy(asc(orders.deliveryDate));
+    return rows.map(row => row.order);
+  }
+
+  // Payment ledger operations
+  async getPayments(workspaceId: string, filters?: {
+    mediatorId?: string;
+    orderId?: string;
+  }): Promise<PaymentWithRelations[]> {
+    const conditions = [eq(payments.workspaceId, workspaceId)];
+
+    if (filters?.mediatorId) {
+      conditions.push(eq(payments.mediatorId, filters.mediatorId));
+    }
+    if (filters?.orderId) {
+      conditions.push(
+        inArray(
+          payments.id,
+          db.select({ id: paymentAllocations.paymentId })
+            .from(paymentAllocations)
+            .where(eq(paymentAllocations.orderId, filters.orderId))
+        )
+      );
+    }
+
+    return await this.queryPayments(and(...conditions)!);
+  }
+
+  async getPayment(id: string, workspaceId: string): Promise<PaymentWithRelations | undefined> {
+    const [payment] = await this.queryPayments(and(eq(payments.id, id), eq(payments.workspaceId, workspaceId))!);
+    return payment;
+  }
+
+  private async queryPayments(where: SQL): Promise<PaymentWithRelations[]> {
+    const rows = await db
+      .select({
+        payment: payments,
+        mediator: mediators,
+        bankAccount: bankAccounts,
+      })
+      .from(payments)
+      .leftJoin(mediators, eq(payments.mediatorId, mediators.id))
+      .leftJoin(bankAccounts, eq(payments.bankAccountId, bankAccounts.id))
+      .where(where)
+      .orderBy(desc(payments.paymentDate), desc(payments.createdAt));
+
+    if (rows.length === 0) return [];
+
+    const allocationRows = await db
+      .select({
+        allocation: paymentAllocations,
+        order: {
+          id: orders.id,
+          orderId: orders.orderId,
+          productName: orders.productName,
+          refundAmount: orders.refundAmount,
+        },
+      })
+      .from(paymentAllocations)
+      .leftJoin(orders, eq(paymentAllocations.orderId, orders.id))
+      .where(inArray(paymentAllocations.paymentId, rows.map(row => row.payment.id)));
+
+    return rows.map(row => ({
+      ...row.payment,
+      mediator: row.mediator || undefined,
+      bankAccount: row.bankAccount || undefined,
+      allocations: allocationRows
+        .filter(a => a.allocation.paymentId === row.payment.id)
+        .map(a => ({ ...a.allocation, order: a.order || undefined })),
+    }));
+  }
+
+  async createPayment(
+    workspaceId: string,
+    userId: string,
+    payment: Omit<InsertPayment, "allocations">,
+    allocations: InsertPaymentAllocation[],
+    statementLineId?: string
+  ): Promise<CreatePaymentResult> {
+    let statementLineClaimed = false;
+    try {
+      return await db.transaction(async (tx): Promise<CreatePaymentResult> => {
+        const orderIds = allocations.map(allocation => allocation.orderId);
+
+        // A second confirm of the same bank credit waits here, then finds it taken
+        if (statementLineId) {
+          const [openLine] = await tx
+            .select({ id: bankStatementLines.id })
+            .from(bankStatementLines)
+            .where(and(
+              eq(bankStatementLines.id, statementLineId),
+              eq(bankStatementLines.workspaceId, workspaceId),
+              isNull(bankStatementLines.paymentId)
+            ))
+            .for("update");
+          if (!openLine) {
+            return { statementLineClaimed: true };
+          }
+        }
+
+        // Lock the orders so concurrent payments against them wait for this one
+        const lockedOrders = await tx
+          .select({ id: orders.id, refundAmount: orders.refundAmount })
+          .from(orders)
+          .where(and(eq(orders.workspaceId, workspaceId), inArray(orders.id, orderIds)))
+          .orderBy(orders.id)
+          .for("update");
+        const received = await tx
+          .select({
+            orderId: paymentAllocations.orderId,
+            received: sql<number>`COALESCE(SUM(${paymentAllocations.amount}), 0)`.mapWith(Number),
+          })
+          .from(paymentAllocations)
+          .where(inArray(paymentAllocations.orderId, orderIds))
+          .groupBy(paymentAllocations.orderId);
+        const receivedAmounts: Record<string, number> = Object.fromEntries(received.map(row => [row.orderId, row.received]));
+
+        for (const allocation of allocations) {
+          const order = lockedOrders.find(candidate => candidate.id === allocation.orderId);
+          const outstanding = order ? order.refundAmount - (receivedAmounts[order.id] ?? 0) : 0;
+          if (allocation.amount > outstanding) {
+            return { overAllocated: { orderId: allocation.orderId, outstanding: Math.max(outstanding, 0) } };
+          }
+        }
+
+        const [newPayment] = await tx
+          .insert(payments)
+          .values({ ...payment, workspaceId, userId })
+          .returning();
+
+        await tx
+          .insert(paymentAllocations)
+          .values(allocations.map(allocation => ({ ...allocation, paymentId: newPayment.id })));
+
+        for (const allocation of allocations) {
+          receivedAmounts[allocation.orderId] = (receivedAmounts[allocation.orderId] ?? 0) + allocation.amount;
+        }
+
+        // The bank credit becomes this payment - unless a concurrent confirm got it first
+        if (statementLineId) {
+          const claimed = await tx
+            .update(bankStatementLines)
+            .set({ paymentId: newPayment.id, ignored: 0 })
+            .where(and(
+              eq(bankStatementLines.id, statementLineId),
+              eq(bankStatementLines.workspaceId, workspaceId),
+              isNull(bankStatementLines.paymentId)
+            ))
+            .returning({ id: bankStatementLines.id });
+          if (claimed.length === 0) {
+            statementLineClaimed = true;
+            tx.rollback();
+          }
+        }
+
+        return { payment: newPayment, receivedAmounts };
+      });
+    } catch (error) {
+      if (statementLineClaimed && error instanceof TransactionRollbackError) {
+        return { statementLineClaimed: true };
+      }
+      throw error;
+    }
+  }
+
+  async deletePayment(id: string, workspaceId: string): Promise<boolean> {
+    const result = await db
+      .delete(payments)
+      .where(and(eq(payments.id, id), eq(payments.workspaceId, workspaceId)));
     return (result.rowCount ?? 0) > 0;
   }
 
+  async getReceivedAmounts(workspaceId: string, orderIds: string[]): Promise<Record<string, number>> {
+    if (orderIds.length === 0) return {};
+
+    const result = await db
+      .select({
+        orderId: paymentAllocations.orderId,
+        received: sql<number>`COALESCE(SUM(${paymentAllocations.amount}), 0)`.mapWith(Number),
+      })
+      .from(paymentAllocations)
+      .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+      .where(and(eq(payments.workspaceId, workspaceId), inArray(paymentAllocations.orderId, orderIds)))
+      .groupBy(paymentAllocations.orderId);
+
+    return Object.fromEntries(result.map(row => [row.orderId, row.received]));
+  }
+
+  // Bank statement operations
+  async getStatementLines(workspaceId: string, bankAccountId: string): Promise<BankStatementLine[]> {
+    return await db
+      .select()
+      .from(bankStatementLines)
+      .where(and(eq(bankStatementLines.workspaceId, workspaceId), eq(bankStatementLines.bankAccountId, bankAccountId)))
+      .orderBy(desc(bankStatementLines.transactionDate), desc(bankStatementLines.createdAt));
+  }
+
+  async getStatementLine(id: string, workspaceId: string): Promise<BankStatementLine | undefined> {
+    const [line] = await db
+      .select()
+      .from(bankStatementLines)
+      .where(and(eq(bankStatementLines.id, id), eq(bankStatementLines.workspaceId, workspaceId)));
+    return line;
+  }
+
+  async createStatementLines(workspaceId: string, userId: string, lines: InsertBankStatementLine[]): Promise<BankStatementLine[]> {
+    if (lines.length === 0) return [];
+
+    // Lines already imported from an earlier statement are skipped
+    return await db
+      .insert(bankStatementLines)
+      .values(lines.map(line => ({ ...line, workspaceId, userId })))
+      .onConflictDoNothing({ target: [bankStatementLines.bankAccountId, bankStatementLines.fingerprint] })
+      .returning();
+  }
+
+  async updateStatementLine(
+    id: string,
+    workspaceId: string,
+    line: Partial<Pick<InsertBankStatementLine, "paymentId" | "ignored">>
+  ): Promise<BankStatementLine | undefined> {
+    const [updatedLine] = await db
+      .update(bankStatementLines)
+      .set(line)
+      .where(and(eq(bankStatementLines.id, id), eq(bankStatementLines.workspaceId, workspaceId)))
+      .returning();
+    return updatedLine;
+  }
+
   // Dashboard statistics
-  async getDashboardStats(userId: string, startDate?: string, endDate?: string): Promise<{
+  async getDashboardStats(workspaceId: string, startDate?: string, endDate?: string): Promise<{
     monthlyEarnings: number;
     monthlyOrders: number;
     completedReviews: number;
@@ -457,7 +1364,7 @@ export class DatabaseStorage implements IStorage {
       .from(orders)
       .where(
         and(
-          eq(orders.userId, userId),
+          eq(orders.workspaceId, workspaceId),
           eq(orders.currentStatus, "Refunded"),
           sql`${orders.createdAt} >= ${start}`,
           sql`${orders.createdAt} <= ${end}`
@@ -470,7 +1377,7 @@ export class DatabaseStorage implements IStorage {
       .from(orders)
       .where(
         and(
-          eq(orders.userId, userId),
+          eq(orders.workspaceId, workspaceId),
           sql`${orders.createdAt} >= ${start}`,
           sql`${orders.createdAt} <= ${end}`
         )
@@ -482,7 +1389,7 @@ export class DatabaseStorage implements IStorage {
       .from(orders)
       .where(
         and(
-          eq(orders.userId, userId),
+          eq(orders.workspaceId, workspaceId),
           sql`${orders.currentStatus} IN ('Refund Form Done', 'Refunded')`,
           sql`${orders.createdAt} >= ${start}`,
           sql`${orders.createdAt} <= ${end}`
@@ -497,7 +1404,7 @@ export class DatabaseStorage implements IStorage {
       .from(orders)
       .where(
         and(
-          eq(orders.userId, userId),
+          eq(orders.workspaceId, workspaceId),
           sql`${orders.currentStatus} NOT IN ('Refunded', 'Cancelled')`,
           sql`${orders.createdAt} >= ${start}`,
           sql`${orders.createdAt} <= ${end}`
@@ -512,7 +1419,7 @@ export class DatabaseStorage implements IStorage {
       .from(orders)
       .where(
         and(
-          eq(orders.userId, userId),
+          eq(orders.workspaceId, workspaceId),
           sql`${orders.createdAt} >= ${start}`,
           sql`${orders.createdAt} <= ${end}`
         )
@@ -524,7 +1431,7 @@ export class DatabaseStorage implements IStorage {
       .from(orders)
       .where(
         and(
-          eq(orders.userId, userId),
+          eq(orders.workspaceId, workspaceId),
           sql`${orders.createdAt} >= ${start}`,
           sql`${orders.createdAt} <= ${end}`
         )
@@ -543,7 +1450,7 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(bankAccounts, eq(orders.bankAccountId, bankAccounts.id))
       .where(
         and(
-          eq(orders.userId, userId),
+          eq(orders.workspaceId, workspaceId),
           isNotNull(orders.bankAccountId),
           sql`${orders.currentStatus} NOT IN ('Refunded', 'Cancelled')`,
           sql`${orders.createdAt} >= ${start}`,
@@ -565,7 +1472,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Get date-wise stats for a given month
-  async getDateWiseStats(userId: string, year: number, month: number): Promise<{
+  async getDateWiseStats(workspaceId: string, year: number, month: number): Promise<{
     date: string;
     orderCount: number;
     refundedCount: number;
@@ -586,7 +1493,7 @@ export class DatabaseStorage implements IStorage {
       .from(orders)
       .where(
         and(
-          eq(orders.userId, userId),
+          eq(orders.workspaceId, workspaceId),
           sql`${orders.createdAt} >= ${startDate}`,
           sql`${orders.createdAt} <= ${endDate}`
         )
@@ -604,7 +1511,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Get month-wise stats for a given year
-  async getMonthWiseStats(userId: string, year: number): Promise<{
+  async getMonthWiseStats(workspaceId: string, year: number): Promise<{
     month: number;
     monthName: string;
     orderCount: number;
@@ -626,7 +1533,7 @@ export class DatabaseStorage implements IStorage {
       .from(orders)
       .where(
         and(
-          eq(orders.userId, userId),
+          eq(orders.workspaceId, workspaceId),
           sql`${orders.createdAt} >= ${startDate}`,
           sql`${orders.createdAt} <= ${endDate}`
         )
@@ -650,20 +1557,25 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Notification operations
-  async getNotifications(userId: string): Promise<NotificationWithOrder[]> {
+  async getNotifications(workspaceId: string): Promise<NotificationWithOrder[]> {
     const result = await db
       .select({
         id: notifications.id,
         userId: notifications.userId,
+        workspaceId: notifications.workspaceId,
         orderId: notifications.orderId,
         type: notifications.type,
         title: notifications.title,
         message: notifications.message,
         isRead: notifications.isRead,
+        snoozedUntil: notifications.snoozedUntil,
+        snoozedWhileStatus: notifications.snoozedWhileStatus,
+        escalatedAt: notifications.escalatedAt,
         createdAt: notifications.createdAt,
         order: {
           id: orders.id,
           userId: orders.userId,
+          workspaceId: orders.workspaceId,
           mediatorId: orders.mediatorId,
           accountId: orders.accountId,
           productName: orders.productName,
@@ -685,6 +1597,7 @@ export class DatabaseStorage implements IStorage {
         mediator: {
           id: mediators.id,
           userId: mediators.userId,
+          workspaceId: mediators.workspaceId,
           name: mediators.name,
           whatsappNumber: mediators.whatsappNumber,
           createdAt: mediators.createdAt,
@@ -693,6 +1606,7 @@ export class DatabaseStorage implements IStorage {
         account: {
           id: accounts.id,
           userId: accounts.userId,
+          workspaceId: accounts.workspaceId,
           platform: accounts.platform,
           name: accounts.name,
           email: accounts.email,
@@ -704,7 +1618,7 @@ export class DatabaseStorage implements IStorage {
       .leftJoin(orders, eq(notifications.orderId, orders.id))
       .leftJoin(mediators, eq(orders.mediatorId, mediators.id))
       .leftJoin(accounts, eq(orders.accountId, accounts.id))
-      .where(eq(notifications.userId, userId))
+      .where(visibleNotifications(workspaceId))
       .orderBy(desc(notifications.createdAt));
 
     return result.map(row => ({
@@ -717,28 +1631,143 @@ export class DatabaseStorage implements IStorage {
     })) as any;
   }
 
-  async createNotification(userId: string, notification: InsertNotification): Promise<Notification> {
+  async createNotification(workspaceId: string, userId: string, notification: InsertNotification): Promise<Notification> {
     const [newNotification] = await db
       .insert(notifications)
-      .values({ ...notification, userId })
+      .values({ ...notification, workspaceId, userId })
       .returning();
+    publishNotificationEvents("notification-created", [newNotification]);
     return newNotification;
   }
 
-  async markNotificationRead(id: string, userId: string): Promise<boolean> {
-    const result = await db
+  // Notifications whose idempotency key already exists are skipped - returns the ones created
+  async createNotificationsOnce(keyedNotifications: KeyedNotification[]): Promise<Notification[]> {
+    const created: Notification[] = [];
+    for (let i = 0; i < keyedNotifications.length; i += NOTIFICATION_INSERT_BATCH) {
+      const rows = await db
+        .insert(notifications)
+        .values(keyedNotifications.slice(i, i + NOTIFICATION_INSERT_BATCH))
+        .onConflictDoNothing({ target: notifications.idempotencyKey })
+        .returning();
+      created.push(...rows);
+    }
+    publishNotificationEvents("notification-created", created);
+    return created;
+  }
+
+  // The notifications already created for these keys - keys without one are missing from the map
+  async getNotificationKeyStates(idempotencyKeys: string[]): Promise<Map<string, NotificationKeyState>> {
+    const states = new Map<string, NotificationKeyState>();
+    for (let i = 0; i < idempotencyKeys.length; i += NOTIFICATION_KEY_BATCH) {
+      const rows = await db
+        .select({
+          idempotencyKey: notifications.idempotencyKey,
+          escalatedAt: notifications.escalatedAt,
+          dismissedAt: notifications.dismissedAt,
+        })
+        .from(notifications)
+        .where(inArray(notifications.idempotencyKey, idempotencyKeys.slice(i, i + NOTIFICATION_KEY_BATCH)));
+      for (const { idempotencyKey, ...state } of rows) {
+        states.set(idempotencyKey!, state);
+      }
+    }
+    return states;
+  }
+
+  async getNotification(id: string, workspaceId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.id, id), eq(notifications.workspaceId, workspaceId)));
+    return notification;
+  }
+
+  async countUnreadNotifications(workspaceId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(notifications)
+      .leftJoin(orders, eq(notifications.orderId, orders.id))
+      .where(and(visibleNotifications(workspaceId), eq(notifications.isRead, 0)));
+    return result?.count ?? 0;
+  }
+
+  async markNotificationRead(id: string, workspaceId: string): Promise<boolean> {
+    const marked = await db
       .update(notifications)
       .set({ isRead: 1 })
-      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)));
-    return (result.rowCount ?? 0) > 0;
+      .where(and(eq(notifications.id, id), eq(notifications.workspaceId, workspaceId)))
+      .returning({ id: notifications.id, workspaceId: notifications.workspaceId });
+    publishNotificationEvents("notification-updated", marked);
+    return marked.length > 0;
   }
 
-  async markAllNotificationsRead(userId: string): Promise<boolean> {
-    const result = await db
+  async snoozeNotification(
+    id: string,
+    workspaceId: string,
+    snooze: Pick<Notification, "snoozedUntil" | "snoozedWhileStatus">
+  ): Promise<Notification | undefined> {
+    const [snoozed] = await db
+      .update(notifications)
+      .set(snooze)
+      .where(and(eq(notifications.id, id), eq(notifications.workspaceId, workspaceId)))
+      .returning();
+    if (snoozed) {
+      publishNotificationEvents("notification-updated", [snoozed]);
+    }
+    return snoozed;
+  }
+
+  async dismissNotification(id: string, workspaceId: string): Promise<boolean> {
+    const dismissed = await db
+      .update(notifications)
+      .set({ dismissedAt: new Date(), isRead: 1 })
+      .where(and(eq(notifications.id, id), eq(notifications.workspaceId, workspaceId)))
+      .returning({ id: notifications.id, workspaceId: notifications.workspaceId });
+    publishNotificationEvents("notification-updated", dismissed);
+    return dismissed.length > 0;
+  }
+
+  // Turns the keyed notifications Critical, unread and unsnoozed - returns only the ones escalated by this call
+  async escalateNotifications(idempotencyKeys: string[]): Promise<Notification[]> {
+    const escalated: Notification[] = [];
+    for (let i = 0; i < idempotencyKeys.length; i += NOTIFICATION_INSERT_BATCH) {
+      const rows = await db
+        .update(notifications)
+        .set({ type: "Critical", isRead: 0, snoozedUntil: null, snoozedWhileStatus: null, escalatedAt: new Date() })
+        .where(and(
+          inArray(notifications.idempotencyKey, idempotencyKeys.slice(i, i + NOTIFICATION_INSERT_BATCH)),
+          isNull(notifications.dismissedAt),
+          isNull(notifications.escalatedAt)
+        ))
+        .returning();
+      escalated.push(...rows);
+    }
+    publishNotificationEvents("notification-updated", escalated);
+    return escalated;
+  }
+
+  async holdNotificationPushes(ids: string[], until: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(notifications).set({ pushHeldUntil: until }).where(inArray(notifications.id, ids));
+  }
+
+  // Clears every hold that has run out and returns those notifications - dismissed ones included
+  async releaseHeldNotificationPushes(now: Date): Promise<Notification[]> {
+    return await db
+      .update(notifications)
+      .set({ pushHeldUntil: null })
+      .where(lte(notifications.pushHeldUntil, now))
+      .returning();
+  }
+
+  async markAllNotificationsRead(workspaceId: string): Promise<boolean> {
+    const marked = await db
       .update(notifications)
       .set({ isRead: 1 })
-      .where(eq(notifications.userId, userId));
-    return (result.rowCount ?? 0) > 0;
+      .where(and(eq(notifications.workspaceId, workspaceId), eq(notifications.isRead, 0)))
+      .returning({ id: notifications.id, workspaceId: notifications.workspaceId });
+    publishNotificationEvents("notification-updated", marked);
+    return marked.length > 0;
   }
 
   // User Settings operations
@@ -772,26 +1801,340 @@ export class DatabaseStorage implements IStorage {
           calendarId: settings.calendarId ?? null,
           messagingEnabled: settings.messagingEnabled ?? 1,
           messageTemplates: settings.messageTemplates ?? null,
+          calendarFeedToken: settings.calendarFeedToken ?? null,
+          timezone: settings.timezone ?? DEFAULT_TIMEZONE,
         })
         .returning();
       return newSettings;
     }
   }
 
+  // Users without settings are missing from the map and use the default timezone
+  async getUserTimezones(userIds: string[]): Promise<Map<string, string>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+    const rows = await db
+      .select({ userId: userSettings.userId, timezone: userSettings.timezone })
+      .from(userSettings)
+      .where(inArray(userSettings.userId, userIds));
+    return new Map(rows.map(row => [row.userId, row.timezone]));
+  }
+
+  // Users with a connected calendar to pull changes from
+  async getCalendarSyncSettings(): Promise<UserSettingsSelect[]> {
+    return await db
+      .select()
+      .from(userSettings)
+      .where(and(eq(userSettings.calendarEnabled, 1), isNotNull(userSettings.googleAccessToken)));
+  }
+
+  async getUserSettingsByFeedToken(token: string): Promise<UserSettingsSelect | undefined> {
+    const [settings] = await db
+      .select()
+      .from(userSettings)
+      .where(eq(userSettings.calendarFeedToken, token));
+    return settings;
+  }
+
+  // Reminder rule operations
+  async getReminderRules(workspaceId: string): Promise<ReminderRule[]> {
+    return await db
+      .select()
+      .from(reminderRules)
+      .where(eq(reminderRules.workspaceId, workspaceId))
+      .orderBy(asc(reminderRules.createdAt));
+  }
+
+  async getEnabledReminderRules(): Promise<ReminderRule[]> {
+    return await db
+      .select()
+      .from(reminderRules)
+      .where(eq(reminderRules.enabled, 1));
+  }
+
+  async createReminderRule(workspaceId: string, userId: string, rule: InsertReminderRule): Promise<ReminderRule> {
+    const [newRule] = await db
+      .insert(reminderRules)
+      .values({ ...rule, workspaceId, userId })
+      .returning();
+    return newRule;
+  }
+
+  async updateReminderRule(id: string, workspaceId: string, rule: Partial<InsertReminderRule>): Promise<ReminderRule | undefined> {
+    const [updatedRule] = await db
+      .update(reminderRules)
+      .set({ ...rule, updatedAt: new Date() })
+      .where(and(eq(reminderRules.id, id), eq(reminderRules.workspaceId, workspaceId)))
+      .returning();
+    return updatedRule;
+  }
+
+  async deleteReminderRule(id: string, workspaceId: string): Promise<boolean> {
+    const result = await db
+      .delete(reminderRules)
+      .where(and(eq(reminderRules.id, id), eq(reminderRules.workspaceId, workspaceId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Open orders across workspaces, for evaluating reminder rules
+  async getReminderOrders(workspaceIds: string[]): Promise<OrderWithRelations[]> {
+    if (workspaceIds.length === 0) {
+      return [];
+    }
+    const rows = await db
+      .select(orderWithRelationsColumns)
+      .from(orders)
+      .leftJoin(mediators, eq(orders.mediatorId, mediators.id))
+      .leftJoin(accounts, eq(orders.accountId, accounts.id))
+      .leftJoin(bankAccounts, eq(orders.bankAccountId, bankAccounts.id))
+      .where(and(
+        inArray(orders.workspaceId, workspaceIds),
+        sql`${orders.currentStatus} not in ('Refunded', 'Cancelled')`
+      ));
+    return rows.map(row => ({
+      ...row,
+      mediator: row.mediator!,
+      account: row.account!,
+      bankAccount: row.bankAccount || undefined,
+    })) as OrderWithRelations[];
+  }
+
+  // Status automation operations
+  async getStatusAutomations(workspaceId: string): Promise<StatusAutomation[]> {
+    return await db
+      .select()
+      .from(statusAutomations)
+      .where(eq(statusAutomations.workspaceId, workspaceId))
+      .orderBy(asc(statusAutomations.createdAt), asc(statusAutomations.id));
+  }
+
+  // In creation order - the first automation that applies to an order wins
+  async getEnabledStatusAutomations(): Promise<StatusAutomation[]> {
+    return await db
+      .select()
+      .from(statusAutomations)
+      .where(eq(statusAutomations.enabled, 1))
+      .orderBy(asc(statusAutomations.createdAt), asc(statusAutomations.id));
+  }
+
+  async createStatusAutomation(workspaceId: string, userId: string, automation: InsertStatusAutomation): Promise<StatusAutomation> {
+    const [newAutomation] = await db
+      .insert(statusAutomations)
+      .values({ ...automation, workspaceId, userId })
+      .returning();
+    return newAutomation;
+  }
+
+  async updateStatusAutomation(id: string, workspaceId: string, automation: Partial<InsertStatusAutomation>): Promise<StatusAutomation | undefined> {
+    const [updatedAutomation] = await db
+      .update(statusAutomations)
+      .set({ ...automation, updatedAt: new Date() })
+      .where(and(eq(statusAutomations.id, id), eq(statusAutomations.workspaceId, workspaceId)))
+      .returning();
+    return updatedAutomation;
+  }
+
+  async deleteStatusAutomation(id: string, workspaceId: string): Promise<boolean> {
+    const result = await db
+      .delete(statusAutomations)
+      .where(and(eq(statusAutomations.id, id), eq(statusAutomations.workspaceId, workspaceId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Orders in the given statuses that automations may move. Orders the
+   * calendar covers are left out - unless their push is still pending or
+   * failed, so the events may be out of date.
+   */
+  async getStatusAutomationOrders(workspaceIds: string[], statuses: Order["currentStatus"][]): Promise<Order[]> {
+    if (workspaceIds.length === 0 || statuses.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(orders)
+      .where(and(
+        inArray(orders.workspaceId, workspaceIds),
+        inArray(orders.currentStatus, statuses),
+        or(
+          isNull(orders.calendarEventIds),
+          inArray(
+            orders.id,
+            db.select({ orderId: calendarSyncJobs.orderId }).from(calendarSyncJobs).where(ne(calendarSyncJobs.status, "synced"))
+          )
+        )
+      ));
+  }
+
+  // Order import mapping operations
+  async getOrderImportMappings(workspaceId: string): Promise<SavedOrderImportMapping[]> {
+    return await db
+      .select()
+      .from(orderImportMappings)
+      .where(eq(orderImportMappings.workspaceId, workspaceId))
+      .orderBy(asc(orderImportMappings.name));
+  }
+
+  // Saving under an existing name replaces that mapping
+  async saveOrderImportMapping(workspaceId: string, userId: string, data: SaveOrderImportMapping): Promise<SavedOrderImportMapping> {
+    const [saved] = await db
+      .insert(orderImportMappings)
+      .values({ ...data, workspaceId, userId })
+      .onConflictDoUpdate({
+        target: [orderImportMappings.workspaceId, orderImportMappings.name],
+        set: { mapping: data.mapping, userId, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteOrderImportMapping(id: string, workspaceId: string): Promise<boolean> {
+    const result = await db
+      .delete(orderImportMappings)
+      .where(and(eq(orderImportMappings.id, id), eq(orderImportMappings.workspaceId, workspaceId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Notification preference operations
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return preferences;
+  }
+
+  // Users without a row are missing from the map and get the defaults
+  async getNotificationPreferencesForUsers(userIds: string[]): Promise<Map<string, NotificationPreferences>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+    const rows = await db
+      .select()
+      .from(notificationPreferences)
+      .where(inArray(notificationPreferences.userId, userIds));
+    return new Map(rows.map(row => [row.userId, row]));
+  }
+
+  async upsertNotificationPreferences(userId: string, preferences: Partial<InsertNotificationPreferences>): Promise<NotificationPreferences> {
+    const [saved] = await db
+      .insert(notificationPreferences)
+      .values({ ...preferences, userId })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...preferences, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Users with the email digest switched on - users without preferences get the defaults
+  async getDigestRecipients(): Promise<DigestRecipient[]> {
+    const rows = await db
+      .select({
+        id: users.id,
+        email: users.email,
+        digestFrequency: notificationPreferences.digestFrequency,
+        quietHoursStart: notificationPreferences.quietHoursStart,
+        quietHoursEnd: notificationPreferences.quietHoursEnd,
+      })
+      .from(users)
+      .leftJoin(notificationPreferences, eq(notificationPreferences.userId, users.id))
+      .where(and(isNotNull(users.email), sql`COALESCE(${notificationPreferences.weeklyReports}, 1) = 1`));
+    return rows.map(row => ({ ...row, email: row.email!, digestFrequency: row.digestFrequency ?? "weekly" }));
+  }
+
+  // Claim a user's digest for the day starting at periodStart - false when it was already sent
+  async claimDigest(userId: string, periodStart: Date): Promise<boolean> {
+    const now = new Date();
+    const claimed = await db
+      .insert(notificationPreferences)
+      .values({ userId, lastDigestSentAt: now })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { lastDigestSentAt: now },
+        where: or(isNull(notificationPreferences.lastDigestSentAt), sql`${notificationPreferences.lastDigestSentAt} < ${periodStart}`),
+      })
+      .returning({ id: notificationPreferences.id });
+    return claimed.length > 0;
+  }
+
+  // Web Push operations
+  async getPushSubscriptions(userIds: string[]): Promise<WebPushSubscription[]> {
+    if (userIds.length === 0) return [];
+    return await db
+      .select()
+      .from(pushSubscriptions)
+      .where(inArray(pushSubscriptions.userId, userIds));
+  }
+
+  // A browser keeps its endpoint across sign-ins, so the endpoint moves to whoever subscribed last
+  async savePushSubscription(userId: string, subscription: InsertPushSubscription, userAgent?: string): Promise<WebPushSubscription> {
+    const values = {
+      userId,
+      p256dh: subscription.keys.p256dh,
+      auth: subscription.keys.auth,
+      userAgent: userAgent ?? null,
+    };
+    const [saved] = await db
+      .insert(pushSubscriptions)
+      .values({ ...values, endpoint: subscription.endpoint })
+      .onConflictDoUpdate({ target: pushSubscriptions.endpoint, set: values })
+      .returning();
+    return saved;
+  }
+
+  async deletePushSubscription(endpoint: string, userId?: string): Promise<boolean> {
+    const result = await db
+      .delete(pushSubscriptions)
+      .where(and(
+        eq(pushSubscriptions.endpoint, endpoint),
+        userId ? eq(pushSubscriptions.userId, userId) : undefined
+      ));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async markPushSubscriptionUsed(id: string): Promise<void> {
+    await db
+      .update(pushSubscriptions)
+      .set({ lastSuccessAt: new Date() })
+      .where(eq(pushSubscriptions.id, id));
+  }
+
+  async getVapidKeys(): Promise<VapidKeys | undefined> {
+    const [keys] = await db
+      .select()
+      .from(vapidKeys)
+      .orderBy(asc(vapidKeys.createdAt))
+      .limit(1);
+    return keys;
+  }
+
+  async createVapidKeys(keys: Pick<VapidKeys, "publicKey" | "privateKey">): Promise<VapidKeys> {
+    const [created] = await db
+      .insert(vapidKeys)
+      .values(keys)
+      .returning();
+    return created;
+  }
+
   // Activity Log operations
-  async createActivityLog(userId: string, log: InsertActivityLog): Promise<ActivityLog> {
+  async createActivityLog(workspaceId: string, userId: string, log: InsertActivityLog): Promise<ActivityLog> {
     const [newLog] = await db
       .insert(activityLogs)
-      .values({ ...log, userId })
+      .values({ ...log, workspaceId, userId })
       .returning();
+    publishEvent(workspaceId, { type: "activity-log-created", activityLogId: newLog.id, orderId: newLog.orderId });
     return newLog;
   }
 
-  async getOrderActivityLogs(orderId: string, userId: string): Promise<ActivityLogWithOrder[]> {
+  async getOrderActivityLogs(orderId: string, workspaceId: string): Promise<ActivityLogWithOrder[]> {
     const result = await db
       .select({
         id: activityLogs.id,
         userId: activityLogs.userId,
+        workspaceId: activityLogs.workspaceId,
         orderId: activityLogs.orderId,
         activityType: activityLogs.activityType,
         description: activityLogs.description,
@@ -802,6 +2145,7 @@ export class DatabaseStorage implements IStorage {
         order: {
           id: orders.id,
           userId: orders.userId,
+          workspaceId: orders.workspaceId,
           mediatorId: orders.mediatorId,
           accountId: orders.accountId,
           productName: orders.productName,
@@ -823,7 +2167,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(activityLogs)
       .leftJoin(orders, eq(activityLogs.orderId, orders.id))
-      .where(and(eq(activityLogs.orderId, orderId), eq(activityLogs.userId, userId)))
+      .where(and(eq(activityLogs.orderId, orderId), eq(activityLogs.workspaceId, workspaceId)))
       .orderBy(desc(activityLogs.createdAt));
 
     return result.map(row => ({
@@ -832,7 +2176,7 @@ export class DatabaseStorage implements IStorage {
     })) as any;
   }
 
-  async getAllActivityLogs(userId: string, filters?: {
+  async getAllActivityLogs(workspaceId: string, filters?: {
     orderId?: string;
     activityType?: ActivityLog['activityType'];
     limit?: number;
@@ -841,6 +2185,7 @@ export class DatabaseStorage implements IStorage {
       .select({
         id: activityLogs.id,
         userId: activityLogs.userId,
+        workspaceId: activityLogs.workspaceId,
         orderId: activityLogs.orderId,
         activityType: activityLogs.activityType,
         description: activityLogs.description,
@@ -851,6 +2196,7 @@ export class DatabaseStorage implements IStorage {
         order: {
           id: orders.id,
           userId: orders.userId,
+          workspaceId: orders.workspaceId,
           mediatorId: orders.mediatorId,
           accountId: orders.accountId,
           productName: orders.productName,
@@ -873,7 +2219,7 @@ export class DatabaseStorage implements IStorage {
       .from(activityLogs)
       .leftJoin(orders, eq(activityLogs.orderId, orders.id));
 
-    const conditions = [eq(activityLogs.userId, userId)];
+    const conditions = [eq(activityLogs.workspaceId, workspaceId)];
     
     if (filters?.orderId) {
       conditions.push(eq(activityLogs.orderId, filters.orderId));
@@ -896,6 +2242,257 @@ export class DatabaseStorage implements IStorage {
       order: row.order || undefined,
     })) as any;
   }
+
+  // Messaging outbox operations
+  async getOutboxMessages(workspaceId: string, filters?: {
+    status?: MessageStatus;
+    mediatorId?: string;
+    limit?: number;
+  }): Promise<OutboxMessage[]> {
+    const conditions = [eq(outboxMessages.workspaceId, workspaceId)];
+    if (filters?.status) {
+      conditions.push(eq(outboxMessages.status, filters.status));
+    }
+    if (filters?.mediatorId) {
+      conditions.push(eq(outboxMessages.mediatorId, filters.mediatorId));
+    }
+
+    return await db
+      .select()
+      .from(outboxMessages)
+      .where(and(...conditions))
+      .orderBy(desc(outboxMessages.createdAt))
+      .limit(filters?.limit ?? 100);
+  }
+
+  async getOutboxMessage(id: string, workspaceId: string): Promise<OutboxMessage | undefined> {
+    const [message] = await db
+      .select()
+      .from(outboxMessages)
+      .where(and(eq(outboxMessages.id, id), eq(outboxMessages.workspaceId, workspaceId)));
+    return message;
+  }
+
+  async createOutboxMessage(
+    workspaceId: string,
+    userId: string,
+    message: Omit<InsertOutboxMessage, "workspaceId" | "userId">
+  ): Promise<OutboxMessage> {
+    const [newMessage] = await db
+      .insert(outboxMessages)
+      .values({ ...message, workspaceId, userId })
+      .returning();
+    return newMessage;
+  }
+
+  // Pending messages whose next attempt is due, oldest first - across all workspaces
+  async getDueOutboxMessages(limit: number): Promise<OutboxMessage[]> {
+    return await db
+      .select()
+      .from(outboxMessages)
+      .where(and(eq(outboxMessages.status, "pending"), lte(outboxMessages.nextAttemptAt, new Date())))
+      .orderBy(asc(outboxMessages.nextAttemptAt))
+      .limit(limit);
+  }
+
+  // Move a pending message to sending - returns undefined if another worker got it first
+  async claimOutboxMessage(id: string): Promise<OutboxMessage | undefined> {
+    const [claimed] = await db
+      .update(outboxMessages)
+      .set({ status: "sending", updatedAt: new Date() })
+      .where(and(eq(outboxMessages.id, id), eq(outboxMessages.status, "pending")))
+      .returning();
+    return claimed;
+  }
+
+  // Return messages stuck in sending (e.g. the server restarted mid-send) to the queue
+  async releaseStaleOutboxMessages(before: Date): Promise<number> {
+    const result = await db
+      .update(outboxMessages)
+      .set({ status: "pending", nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(outboxMessages.status, "sending"), lte(outboxMessages.updatedAt, before)));
+    return result.rowCount ?? 0;
+  }
+
+  async updateOutboxMessage(id: string, message: Partial<InsertOutboxMessage>): Promise<OutboxMessage | undefined> {
+    const [updated] = await db
+      .update(outboxMessages)
+      .set({ ...message, updatedAt: new Date() })
+      .where(eq(outboxMessages.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Calendar sync queue operations
+  async getCalendarSyncJobs(workspaceId: string, filters?: {
+    status?: CalendarSyncStatus;
+    limit?: number;
+  }): Promise<CalendarSyncJobWithOrder[]> {
+    const conditions = [eq(calendarSyncJobs.workspaceId, workspaceId)];
+    if (filters?.status) {
+      conditions.push(eq(calendarSyncJobs.status, filters.status));
+    }
+
+    const result = await db
+      .select({
+        job: calendarSyncJobs,
+        order: {
+          id: orders.id,
+          orderId: orders.orderId,
+          productName: orders.productName,
+        },
+      })
+      .from(calendarSyncJobs)
+      .leftJoin(orders, eq(calendarSyncJobs.orderId, orders.id))
+      .where(and(...conditions))
+      .orderBy(desc(calendarSyncJobs.updatedAt))
+      .limit(filters?.limit ?? 100);
+
+    return result.map(row => ({ ...row.job, order: row.order }));
+  }
+
+  async getCalendarSyncCounts(workspaceId: string): Promise<Record<CalendarSyncStatus, number>> {
+    const rows = await db
+      .select({ status: calendarSyncJobs.status, count: count() })
+      .from(calendarSyncJobs)
+      .where(eq(calendarSyncJobs.workspaceId, workspaceId))
+      .groupBy(calendarSyncJobs.status);
+
+    const counts: Record<CalendarSyncStatus, number> = { pending: 0, syncing: 0, synced: 0, failed: 0 };
+    for (const row of rows) {
+      counts[row.status] = Number(row.count);
+    }
+    return counts;
+  }
+
+  async getCalendarSyncJobForOrder(orderId: string): Promise<CalendarSyncJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(calendarSyncJobs)
+      .where(eq(calendarSyncJobs.orderId, orderId))
+      .orderBy(desc(calendarSyncJobs.createdAt))
+      .limit(1);
+    return job;
+  }
+
+  async createCalendarSyncJob(
+    workspaceId: string,
+    userId: string,
+    job: Omit<InsertCalendarSyncJob, "workspaceId" | "userId">
+  ): Promise<CalendarSyncJob> {
+    const [newJob] = await db
+      .insert(calendarSyncJobs)
+      .values({ ...job, workspaceId, userId })
+      .returning();
+    return newJob;
+  }
+
+  // Pending jobs whose next attempt is due, oldest first - across all workspaces
+  async getDueCalendarSyncJobs(limit: number): Promise<CalendarSyncJob[]> {
+    return await db
+      .select()
+      .from(calendarSyncJobs)
+      .where(and(eq(calendarSyncJobs.status, "pending"), lte(calendarSyncJobs.nextAttemptAt, new Date())))
+      .orderBy(asc(calendarSyncJobs.nextAttemptAt))
+      .limit(limit);
+  }
+
+  // Move a pending job to syncing - returns undefined if another worker got it first
+  async claimCalendarSyncJob(id: string): Promise<CalendarSyncJob | undefined> {
+    const [claimed] = await db
+      .update(calendarSyncJobs)
+      .set({ status: "syncing", updatedAt: new Date() })
+      .where(and(eq(calendarSyncJobs.id, id), eq(calendarSyncJobs.status, "pending")))
+      .returning();
+    return claimed;
+  }
+
+  // Return jobs stuck in syncing (e.g. the server restarted mid-sync) to the queue
+  async releaseStaleCalendarSyncJobs(before: Date): Promise<number> {
+    const result = await db
+      .update(calendarSyncJobs)
+      .set({ status: "pending", nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(calendarSyncJobs.status, "syncing"), lte(calendarSyncJobs.updatedAt, before)));
+    return result.rowCount ?? 0;
+  }
+
+  async updateCalendarSyncJob(id: string, job: Partial<InsertCalendarSyncJob>): Promise<CalendarSyncJob | undefined> {
+    const [updated] = await db
+      .update(calendarSyncJobs)
+      .set({ ...job, updatedAt: new Date() })
+      .where(eq(calendarSyncJobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  async retryFailedCalendarSyncJobs(workspaceId: string): Promise<number> {
+    const result = await db
+      .update(calendarSyncJobs)
+      .set({ status: "pending", attempts: 0, lastError: null, nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(calendarSyncJobs.workspaceId, workspaceId), eq(calendarSyncJobs.status, "failed")));
+    return result.rowCount ?? 0;
+  }
+
+  async getJobRuns(filters?: { job?: string; limit?: number }): Promise<JobRun[]> {
+    return await db
+      .select()
+      .from(jobRuns)
+      .where(filters?.job ? eq(jobRuns.job, filters.job) : undefined)
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(filters?.limit ?? 100);
+  }
+
+  // The most recent run of each job
+  async getLatestJobRuns(): Promise<JobRun[]> {
+    return await db
+      .selectDistinctOn([jobRuns.job])
+      .from(jobRuns)
+      .orderBy(jobRuns.job, desc(jobRuns.startedAt));
+  }
+
+  // Whether a run covering this schedule slot (or a later one) is running or succeeded.
+  // Manual runs are stamped with the time they were triggered and never cover a slot.
+  async hasJobRunSince(job: string, scheduledFor: Date): Promise<boolean> {
+    const [run] = await db
+      .select({ id: jobRuns.id })
+      .from(jobRuns)
+      .where(and(
+        eq(jobRuns.job, job),
+        ne(jobRuns.trigger, "manual"),
+        gte(jobRuns.scheduledFor, scheduledFor),
+        inArray(jobRuns.status, ["running", "succeeded"])
+      ))
+      .limit(1);
+    return !!run;
+  }
+
+  async createJobRun(run: InsertJobRun): Promise<JobRun> {
+    const [created] = await db.insert(jobRuns).values(run).returning();
+    return created;
+  }
+
+  async finishJobRun(id: string, run: Pick<InsertJobRun, "status" | "counts" | "error">): Promise<JobRun | undefined> {
+    const [finished] = await db
+      .update(jobRuns)
+      .set({ ...run, finishedAt: new Date() })
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return finished;
+  }
+
+  // Runs left "running" by an instance that stopped mid-run - only call while holding the job's lock
+  async failInterruptedJobRuns(job: string): Promise<number> {
+    const result = await db
+      .update(jobRuns)
+      .set({ status: "failed", error: "Interrupted before finishing", finishedAt: new Date() })
+      .where(and(eq(jobRuns.job, job), eq(jobRuns.status, "running")));
+    return result.rowCount ?? 0;
+  }
+
+  async deleteJobRunsBefore(before: Date): Promise<number> {
+    const result = await db.delete(jobRuns).where(lte(jobRuns.startedAt, before));
+    return result.rowCount ?? 0;
+  }
 }
 
 export const storage = new DatabaseStorage();
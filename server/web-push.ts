@@ -0,0 +1,223 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import webpush from "web-push";
+import { storage } from "./storage";
+import { encryptSecret, decryptSecret } from "./secret-box";
+import { isStandInEndpoint } from "./push-stand-in";
+import type { WebPushSubscription } from "@shared/schema";
+
+/**
+ * Web Push sender - the web-push package signs (VAPID) and encrypts each
+ * message, and it is posted here so endpoints can be checked and timed out.
+ */
+
+// Raised when a push service rejects a message; 404 and 410 mean the subscription is gone
+export class WebPushError extends Error {
+  constructor(message: string, readonly statusCode?: number) {
+    super(message);
+  }
+
+  get subscriptionGone(): boolean {
+    return this.statusCode === 404 || this.statusCode === 410;
+  }
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url?: string; // opened when the notification is clicked
+  tag?: string; // a newer notification with the same tag replaces the older one
+}
+
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+// Push services accept 4096 bytes of encrypted body - keep well below with the record overhead
+const MAX_BODY_LENGTH = 1000;
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+// How long a push service gets to answer before the push counts as failed
+const PUSH_TIMEOUT = 30_000;
+
+// Raised when an endpoint is not a public https address - the server would be posting into its own network
+export class PushEndpointError extends Error {}
+
+// Loopback, private, link-local, shared and reserved ranges
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses reach the IPv4 host
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return blockedAddresses.check(mapped, "ipv4");
+  return blockedAddresses.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Check a push endpoint before storing it and before every send: it must be
+ * https and every address its host resolves to must be public.
+ */
+export async function assertPushEndpoint(endpoint: string): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    throw new PushEndpointError("Invalid push endpoint");
+  }
+  if (url.protocol !== "https:") {
+    throw new PushEndpointError("Push endpoints must use https");
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host)
+    ? [host]
+    : await lookup(host, { all: true }).then(
+        (results) => results.map((result) => result.address),
+        () => { throw new PushEndpointError(`Push endpoint host ${host} could not be resolved`); }
+      );
+  if (addresses.some(isBlockedAddress)) {
+    throw new PushEndpointError("Push endpoints must be on a public address");
+  }
+}
+
+interface VapidKeyPair {
+  publicKey: string; // uncompressed P-256 point, base64url
+  privateKey: string; // private scalar, base64url
+}
+
+export function generateVapidKeys(): VapidKeyPair {
+  return webpush.generateVAPIDKeys();
+}
+
+let vapidKeys: Promise<VapidKeyPair> | undefined;
+
+/**
+ * VAPID keys come from VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY when set.
+ * Otherwise a key pair is generated once and kept in the database, so browser
+ * subscriptions survive restarts.
+ */
+export function getVapidKeys(): Promise<VapidKeyPair> {
+  vapidKeys ??= loadVapidKeys().catch((error) => {
+    vapidKeys = undefined;
+    throw error;
+  });
+  return vapidKeys;
+}
+
+async function loadVapidKeys(): Promise<VapidKeyPair> {
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY } = process.env;
+  if (VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY) {
+    return { publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY };
+  }
+
+  let stored = await storage.getVapidKeys();
+  if (!stored) {
+    const generated = generateVapidKeys();
+    await storage.createVapidKeys({ publicKey: generated.publicKey, privateKey: encryptSecret(generated.privateKey) });
+    // Another instance may have generated keys at the same time - everyone uses the oldest pair
+    stored = (await storage.getVapidKeys())!;
+    console.log("🔑 Generated VAPID keys for Web Push");
+  }
+  return { publicKey: stored.publicKey, privateKey: decryptSecret(stored.privateKey) };
+}
+
+/**
+ * Send one push message to one browser subscription.
+ */
+export async function sendWebPush(
+  target: PushTarget,
+  payload: PushPayload,
+  options: { urgency?: "low" | "normal" | "high" } = {}
+): Promise<void> {
+  if (!isStandInEndpoint(target.endpoint)) {
+    await assertPushEndpoint(target.endpoint);
+  }
+  const keys = await getVapidKeys();
+  const body = payload.body.length > MAX_BODY_LENGTH ? `${payload.body.slice(0, MAX_BODY_LENGTH - 1)}…` : payload.body;
+
+  const request = webpush.generateRequestDetails(
+    { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+    JSON.stringify({ ...payload, body }),
+    {
+      vapidDetails: {
+        subject: process.env.VAPID_SUBJECT || "mailto:no-reply@localhost",
+        publicKey: keys.publicKey,
+        privateKey: keys.privateKey,
+      },
+      TTL: PUSH_TTL_SECONDS,
+      urgency: options.urgency ?? "normal",
+    }
+  );
+
+  let response: Response;
+  try {
+    response = await fetch(request.endpoint, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      // Redirects could lead to an address the endpoint check never saw
+      redirect: "manual",
+      signal: AbortSignal.timeout(PUSH_TIMEOUT),
+    });
+  } catch (error) {
+    if ((error as Error).name === "TimeoutError") {
+      throw new WebPushError(`Push service did not answer within ${PUSH_TIMEOUT / 1000}s`);
+    }
+    throw error;
+  }
+
+  if (!response.ok) {
+    const reason = (await response.text().catch(() => "")) || response.statusText;
+    throw new WebPushError(`Push service ${response.status}: ${reason}`, response.status);
+  }
+}
+
+/**
+ * Push to every browser subscription of the given users. Subscriptions the
+ * push service reports as gone are deleted; returns how many pushes went out.
+ */
+export async function pushToUsers(
+  payloadsByUser: Map<string, PushPayload[]>,
+  options: { urgency?: "low" | "normal" | "high" } = {}
+): Promise<{ sent: number; failed: number }> {
+  const subscriptions = await storage.getPushSubscriptions(Array.from(payloadsByUser.keys()));
+  const summary = { sent: 0, failed: 0 };
+
+  for (const subscription of subscriptions) {
+    for (const payload of payloadsByUser.get(subscription.userId) ?? []) {
+      const result = await pushToSubscription(subscription, payload, options);
+      summary[result === "sent" ? "sent" : "failed"]++;
+      if (result === "gone") break;
+    }
+  }
+  return summary;
+}
+
+async function pushToSubscription(
+  subscription: WebPushSubscription,
+  payload: PushPayload,
+  options: { urgency?: "low" | "normal" | "high" }
+): Promise<"sent" | "failed" | "gone"> {
+  try {
+    await sendWebPush(subscription, payload, options);
+    await storage.markPushSubscriptionUsed(subscription.id);
+    return "sent";
+  } catch (error) {
+    if (error instanceof WebPushError && error.subscriptionGone) {
+      await storage.deletePushSubscription(subscription.endpoint);
+      console.log(`Removed expired push subscription ${subscription.id}`);
+      return "gone";
+    }
+    console.error(`Push to subscription ${subscription.id} failed:`, (error as Error).message);
+    return "failed";
+  }
+}
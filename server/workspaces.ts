@@ -0,0 +1,123 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { InsertWorkspaceMember, Workspace, WorkspaceMember, WorkspaceRole } from "@shared/schema";
+
+// Raised when a workspace or membership change is not allowed
+export class WorkspaceError extends Error {}
+
+// The signed-in member and the workspace every request is scoped to
+export interface WorkspaceContext {
+  workspaceId: string;
+  ownerId: string;
+  userId: string;
+  role: WorkspaceRole;
+  memberName: string; // recorded as triggeredBy on activity logs
+}
+
+type SessionUser = {
+  claims: {
+    sub: string;
+    email?: string | null;
+    first_name?: string | null;
+    last_name?: string | null;
+  };
+};
+
+function memberName(user: SessionUser): string {
+  const { first_name, last_name, email } = user.claims;
+  return [first_name, last_name].filter(Boolean).join(" ").trim() || email || "Member";
+}
+
+// Every user gets a workspace of their own the first time they sign in
+async function ensurePersonalWorkspace(user: SessionUser): Promise<Workspace & { role: WorkspaceRole }> {
+  const workspace = await storage.createWorkspace(
+    { id: user.claims.sub, email: user.claims.email ?? null },
+    { name: user.claims.first_name ? `${user.claims.first_name}'s Workspace` : "My Workspace" }
+  );
+  return { ...workspace, role: "owner" };
+}
+
+/**
+ * Resolve the workspace the request acts on - the one selected in the
+ * session if the user is still a member of it, otherwise the first
+ * workspace they own or belong to.
+ */
+export async function resolveWorkspace(req: Request): Promise<WorkspaceContext> {
+  const user = req.user as SessionUser;
+  const userId = user.claims.sub;
+  const session = req.session as typeof req.session & { workspaceId?: string };
+
+  let workspace: (Workspace & { role: WorkspaceRole }) | undefined;
+
+  if (session.workspaceId) {
+    const [selected, membership] = await Promise.all([
+      storage.getWorkspace(session.workspaceId),
+      storage.getWorkspaceMembership(session.workspaceId, userId),
+    ]);
+    if (selected && membership) {
+      workspace = { ...selected, role: membership.role };
+    }
+  }
+
+  if (!workspace) {
+    const memberships = await storage.getWorkspacesForUser(userId);
+    workspace = memberships.find(w => w.ownerId === userId) ?? memberships[0] ?? await ensurePersonalWorkspace(user);
+    session.workspaceId = workspace.id;
+  }
+
+  return {
+    workspaceId: workspace.id,
+    ownerId: workspace.ownerId,
+    userId,
+    role: workspace.role,
+    memberName: memberName(user),
+  };
+}
+
+/**
+ * Add a member to the workspace by email. Users who have not signed in yet
+ * are linked to the membership on their first login.
+ */
+export async function inviteMember(
+  workspace: WorkspaceContext,
+  data: InsertWorkspaceMember
+): Promise<WorkspaceMember> {
+  const members = await storage.getWorkspaceMembers(workspace.workspaceId);
+  if (members.some(member => member.email === data.email)) {
+    throw new WorkspaceError(`${data.email} is already a member of this workspace`);
+  }
+
+  const user = await storage.getUserByEmail(data.email);
+  return await storage.createWorkspaceMember(workspace.workspaceId, {
+    email: data.email,
+    role: data.role,
+    userId: user?.id ?? null,
+    invitedBy: workspace.userId,
+  });
+}
+
+async function getChangeableMember(workspace: WorkspaceContext, memberId: string): Promise<WorkspaceMember> {
+  const member = await storage.getWorkspaceMember(memberId, workspace.workspaceId);
+  if (!member) {
+    throw new WorkspaceError("Member not found");
+  }
+  if (member.role === "owner") {
+    throw new WorkspaceError("The workspace owner cannot be changed or removed");
+  }
+  return member;
+}
+
+export async function changeMemberRole(
+  workspace: WorkspaceContext,
+  memberId: string,
+  role: Exclude<WorkspaceRole, "owner">
+): Promise<WorkspaceMember> {
+  await getChangeableMember(workspace, memberId);
+  const updated = await storage.updateWorkspaceMember(memberId, workspace.workspaceId, role);
+  return updated!;
+}
+
+export async function removeMember(workspace: WorkspaceContext, memberId: string): Promise<void> {
+  await getChangeableMember(workspace, memberId);
+  await storage.deleteWorkspaceMember(memberId, workspace.workspaceId);
+}
@@ -0,0 +1,215 @@
+import { isValid, parse } from "date-fns";
+import { z } from "zod";
+
+export const statementLayoutValues = ["HDFC", "ICICI", "SBI", "Custom"] as const;
+export type StatementLayout = typeof statementLayoutValues[number];
+
+// Which CSV columns hold each field of a statement line
+export const statementColumnMappingSchema = z.object({
+  dateColumn: z.string().min(1, "Date column is required"),
+  dateFormat: z.string().min(1, "Date format is required"), // date-fns format string
+  narrationColumn: z.string().min(1, "Narration column is required"),
+  referenceColumn: z.string().optional(),
+  creditColumn: z.string().min(1, "Credit column is required"),
+  debitColumn: z.string().optional(),
+});
+
+export type StatementColumnMapping = z.infer<typeof statementColumnMappingSchema>;
+
+// Column layouts of the CSV statements downloaded from net banking
+export const statementLayouts: Record<Exclude<StatementLayout, "Custom">, StatementColumnMapping> = {
+  HDFC: {
+    dateColumn: "Date",
+    dateFormat: "dd/MM/yy",
+    narrationColumn: "Narration",
+    referenceColumn: "Chq./Ref.No.",
+    creditColumn: "Deposit Amt.",
+    debitColumn: "Withdrawal Amt.",
+  },
+  ICICI: {
+    dateColumn: "Transaction Date",
+    dateFormat: "dd/MM/yyyy",
+    narrationColumn: "Transaction Remarks",
+    referenceColumn: "Cheque Number",
+    creditColumn: "Deposit Amount (INR )",
+    debitColumn: "Withdrawal Amount (INR )",
+  },
+  SBI: {
+    dateColumn: "Txn Date",
+    dateFormat: "d MMM yyyy",
+    narrationColumn: "Description",
+    referenceColumn: "Ref No./Cheque No.",
+    creditColumn: "Credit",
+    debitColumn: "Debit",
+  },
+};
+
+export const importBankStatementSchema = z.object({
+  fileName: z.string().optional(),
+  csv: z.string().min(1, "Statement file is empty"),
+  layout: z.enum(statementLayoutValues),
+  mapping: statementColumnMappingSchema,
+});
+
+export type ImportBankStatement = z.infer<typeof importBankStatementSchema>;
+
+export interface ParsedStatementLine {
+  transactionDate: Date;
+  narration: string;
+  reference: string | null;
+  amount: number; // credit in paise
+}
+
+export interface ParsedStatement {
+  lines: ParsedStatementLine[];
+  debitCount: number; // rows skipped because they are withdrawals
+  invalidRows: number[]; // 1-based CSV row numbers that could not be read
+}
+
+// Fallback formats tried when a date does not match the configured format
+const fallbackDateFormats = ["dd/MM/yyyy", "dd/MM/yy", "dd-MM-yyyy", "dd-MM-yy", "d MMM yyyy", "dd-MMM-yyyy", "dd MMM yy", "yyyy-MM-dd"];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Split CSV text into rows, honouring quoted fields with embedded commas,
+ * escaped quotes and line breaks.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map(cells => cells.map(cell => cell.trim()))
+    .filter(cells => cells.some(cell => cell !== ""));
+}
+
+export function parseStatementAmount(value: string | undefined): number | null {
+  if (!value) return null;
+  const cleaned = value.replace(/[₹,\s]/g, "").replace(/(cr|dr)\.?$/i, "");
+  if (cleaned === "" || cleaned === "-") return null;
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) ? Math.round(amount * 100) : null;
+}
+
+export function parseStatementDate(value: string, dateFormat: string): Date | null {
+  for (const candidate of [dateFormat, ...fallbackDateFormats]) {
+    const date = parse(value, candidate, new Date());
+    if (isValid(date)) return date;
+  }
+  return null;
+}
+
+/**
+ * Bank statements carry account details above the transaction table, so the
+ * header row is the first row that contains both the date and credit columns.
+ */
+export function findStatementHeader(rows: string[][], mapping: StatementColumnMapping): number {
+  const dateColumn = normalizeHeader(mapping.dateColumn);
+  const creditColumn = normalizeHeader(mapping.creditColumn);
+  return rows.findIndex(row => {
+    const headers = row.map(normalizeHeader);
+    return headers.includes(dateColumn) && headers.includes(creditColumn);
+  });
+}
+
+// Guess the bank from the header row of an uploaded statement
+export function detectStatementLayout(text: string): StatementLayout {
+  const rows = parseCsv(text).slice(0, 40);
+  for (const [layout, mapping] of Object.entries(statementLayouts)) {
+    if (findStatementHeader(rows, mapping) !== -1) {
+      return layout as StatementLayout;
+    }
+  }
+  return "Custom";
+}
+
+export function parseBankStatement(text: string, mapping: StatementColumnMapping): ParsedStatement {
+  const rows = parseCsv(text);
+  const headerIndex = findStatementHeader(rows, mapping);
+  if (headerIndex === -1) {
+    throw new Error(`Could not find a header row with "${mapping.dateColumn}" and "${mapping.creditColumn}" columns`);
+  }
+
+  const headers = rows[headerIndex].map(normalizeHeader);
+  const columnIndex = (column?: string) => (column ? headers.indexOf(normalizeHeader(column)) : -1);
+
+  const dateIndex = columnIndex(mapping.dateColumn);
+  const narrationIndex = columnIndex(mapping.narrationColumn);
+  const referenceIndex = columnIndex(mapping.referenceColumn);
+  const creditIndex = columnIndex(mapping.creditColumn);
+  const debitIndex = columnIndex(mapping.debitColumn);
+
+  if (narrationIndex === -1) {
+    throw new Error(`Column "${mapping.narrationColumn}" was not found in the statement`);
+  }
+
+  const result: ParsedStatement = { lines: [], debitCount: 0, invalidRows: [] };
+
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    const rawDate = row[dateIndex] ?? "";
+    const credit = parseStatementAmount(row[creditIndex]);
+    const debit = debitIndex === -1 ? null : parseStatementAmount(row[debitIndex]);
+
+    // Footer rows (totals, "End of statement") have no date
+    if (!rawDate || /^[*\-\s]+$/.test(rawDate)) return;
+
+    const transactionDate = parseStatementDate(rawDate, mapping.dateFormat);
+    if (!transactionDate) {
+      result.invalidRows.push(headerIndex + offset + 2);
+      return;
+    }
+
+    if (!credit || credit <= 0) {
+      if (debit && debit > 0) result.debitCount++;
+      return;
+    }
+
+    const narration = row[narrationIndex] ?? "";
+    const reference = referenceIndex === -1 ? "" : (row[referenceIndex] ?? "").replace(/^0+$/, "");
+    result.lines.push({
+      transactionDate,
+      narration,
+      // UPI and IMPS credits carry the 12 digit UTR in the narration instead
+      reference: reference || narration.match(/\b\d{12}\b/)?.[0] || null,
+      amount: credit,
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,38 @@
+import type { JobRunStatus, JobRunTrigger } from "./schema";
+
+// Every scheduled job the cron service runs - job_runs.job is one of these
+export const cronJobNames = [
+  "hourly-checks",
+  "daily-checks",
+  "email-digests",
+  "message-outbox",
+  "calendar-sync-queue",
+  "calendar-sync",
+] as const;
+
+export type CronJobName = (typeof cronJobNames)[number];
+
+export const cronJobLabels: Record<CronJobName, { title: string; schedule: string }> = {
+  "hourly-checks": { title: "Reminder checks", schedule: "Every hour" },
+  "daily-checks": { title: "Daily checks", schedule: "Every day at 9:00 AM" },
+  "email-digests": { title: "Email digests", schedule: "Every hour" },
+  "message-outbox": { title: "Message outbox", schedule: "Every 5 minutes" },
+  "calendar-sync-queue": { title: "Calendar sync queue", schedule: "Every minute" },
+  "calendar-sync": { title: "Calendar sync", schedule: "Every 15 minutes" },
+};
+
+export const jobRunStatusLabels: Record<JobRunStatus, string> = {
+  running: "Running",
+  succeeded: "Succeeded",
+  failed: "Failed",
+};
+
+export const jobRunTriggerLabels: Record<JobRunTrigger, string> = {
+  schedule: "Scheduled",
+  "catch-up": "Catch-up",
+  manual: "Manual",
+};
+
+export function isCronJobName(value: string): value is CronJobName {
+  return (cronJobNames as readonly string[]).includes(value);
+}
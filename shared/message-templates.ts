@@ -0,0 +1,216 @@
+import { z } from "zod";
+import { format } from "date-fns";
+import type { AccountSummary, Mediator, OrderWithRelations } from "./schema";
+import { orderStatusTransitions, type OrderStatus } from "./order-status";
+
+export const messageTemplateKeys = [
+  "orderConfirmation",
+  "deliveryReminder",
+  "refundFormReminder",
+  "paymentRequest",
+  "statusUpdate",
+] as const;
+export type MessageTemplateKey = typeof messageTemplateKeys[number];
+
+export const messageTemplateLabels: Record<MessageTemplateKey, string> = {
+  orderConfirmation: "Order Confirmation",
+  deliveryReminder: "Delivery Reminder",
+  refundFormReminder: "Refund Form Reminder",
+  paymentRequest: "Payment Request",
+  statusUpdate: "Status Update",
+};
+
+export const messageTemplateStyles = ["default", "friendly", "professional"] as const;
+export type MessageTemplateStyle = typeof messageTemplateStyles[number];
+
+export const messageTemplateStyleLabels: Record<MessageTemplateStyle, string> = {
+  default: "Default - Simple and clear",
+  friendly: "Friendly - Casual with emojis",
+  professional: "Professional - Formal business tone",
+};
+
+// Starting points for each style - users edit their own copy in Settings
+export const messageTemplatePresets: Record<MessageTemplateStyle, Record<MessageTemplateKey, string>> = {
+  default: {
+    orderConfirmation: "Hi {{mediator.name}}, Order #{{order.orderId}} has been placed for {{order.productName}} on {{order.platform}}. Amount: {{orderAmount}}",
+    deliveryReminder: "Hi {{mediator.name}}, Please check delivery status for Order #{{order.orderId}}. Expected delivery: {{deliveryDate}}",
+    refundFormReminder: "Hi {{mediator.name}}, Refund form needs to be submitted for Order #{{order.orderId}} by {{refundFormDate}}",
+    paymentRequest: "Hi {{mediator.name}}, Please process payment for Order #{{order.orderId}}. Refund amount: {{refundAmount}}",
+    statusUpdate: "Hi {{mediator.name}}, regarding Order #{{order.orderId}} - {{order.productName}}. Current status: {{order.status}}",
+  },
+  friendly: {
+    orderConfirmation: "Hello {{mediator.name}}! 😊 New order #{{order.orderId}} is ready - {{order.productName}} from {{order.platform}}. Total: {{orderAmount}}",
+    deliveryReminder: "Hey {{mediator.name}}! 📦 Could you please check on order #{{order.orderId}}? Expected delivery: {{deliveryDate}}",
+    refundFormReminder: "Hi {{mediator.name}}! ⏰ Don't forget the refund form for order #{{order.orderId}} - due by {{refundFormDate}}",
+    paymentRequest: "Hello {{mediator.name}}! 💰 Ready to process payment for order #{{order.orderId}}? Amount: {{refundAmount}}",
+    statusUpdate: "Hello {{mediator.name}}! 😊 Quick check on Order #{{order.orderId}} - {{order.productName}}. Current status: {{order.status}}",
+  },
+  professional: {
+    orderConfirmation: "Dear {{mediator.name}}, Order #{{order.orderId}} has been successfully placed. Product: {{order.productName}}, Platform: {{order.platform}}, Amount: {{orderAmount}}",
+    deliveryReminder: "Dear {{mediator.name}}, This is a reminder to verify delivery status for Order #{{order.orderId}}. Scheduled delivery: {{deliveryDate}}",
+    refundFormReminder: "Dear {{mediator.name}}, Please ensure refund form submission for Order #{{order.orderId}} before {{refundFormDate}}",
+    paymentRequest: "Dear {{mediator.name}}, Please proceed with payment processing for Order #{{order.orderId}}. Amount due: {{refundAmount}}",
+    statusUpdate: "Dear {{mediator.name}}, Regarding Order #{{order.orderId}} ({{order.productName}}). Current status: {{order.status}}. Please update if needed.",
+  },
+};
+
+// Template suggested for an order in each status
+export const defaultStatusTemplates: Record<OrderStatus, MessageTemplateKey> = {
+  "Ordered": "orderConfirmation",
+  "Delivered": "deliveryReminder",
+  "Deliverables Done": "refundFormReminder",
+  "Overdue Passed for Refund Form": "refundFormReminder",
+  "Refund Form Done": "paymentRequest",
+  "Remind Mediator for Payment": "paymentRequest",
+  "Refunded": "statusUpdate",
+  "Cancelled": "statusUpdate",
+};
+
+// The order fields templates can read - dates arrive as strings over JSON
+export type TemplateOrder = Pick<
+  OrderWithRelations,
+  "orderId" | "productName" | "platform" | "currentStatus" | "orderAmount" | "refundAmount" | "productLink" | "refundFormLink"
+> & {
+  orderDate: Date | string | null;
+  deliveryDate: Date | string | null;
+  refundFormDate: Date | string | null;
+  receivedAmount?: number;
+  mediator: Pick<Mediator, "name" | "whatsappNumber">;
+  account?: Pick<AccountSummary, "name"> | null;
+};
+
+export const formatMessageAmount = (paise: number) =>
+  new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(paise / 100);
+
+export const formatMessageDate = (value: Date | string | null) => (value ? format(new Date(value), "d MMM yyyy") : "N/A");
+
+export const templateVariables: Record<string, { description: string; resolve: (order: TemplateOrder) => string }> = {
+  "mediator.name": { description: "Mediator name", resolve: order => order.mediator.name },
+  "mediator.whatsappNumber": { description: "Mediator WhatsApp number", resolve: order => order.mediator.whatsappNumber },
+  "order.orderId": { description: "Platform order ID", resolve: order => order.orderId },
+  "order.productName": { description: "Product name", resolve: order => order.productName },
+  "order.platform": { description: "Platform", resolve: order => order.platform },
+  "order.status": { description: "Current order status", resolve: order => order.currentStatus },
+  "order.productLink": { description: "Product link", resolve: order => order.productLink || "N/A" },
+  "order.refundFormLink": { description: "Refund form link", resolve: order => order.refundFormLink || "N/A" },
+  "account.name": { description: "E-commerce account", resolve: order => order.account?.name || "N/A" },
+  orderAmount: { description: "Order amount", resolve: order => formatMessageAmount(order.orderAmount) },
+  refundAmount: { description: "Refund amount", resolve: order => formatMessageAmount(order.refundAmount) },
+  outstandingAmount: {
+    description: "Refund still to be paid",
+    resolve: order => formatMessageAmount(Math.max(order.refundAmount - (order.receivedAmount ?? 0), 0)),
+  },
+  orderDate: { description: "Order date", resolve: order => formatMessageDate(order.orderDate) },
+  deliveryDate: { description: "Delivery date", resolve: order => formatMessageDate(order.deliveryDate) },
+  refundFormDate: { description: "Refund form due date", resolve: order => formatMessageDate(order.refundFormDate) },
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// `extraVariables` are values only some callers provide, e.g. reminder day counts
+export function findUnknownVariables(template: string, extraVariables: readonly string[] = []): string[] {
+  const unknown = new Set<string>();
+  for (const [, name] of Array.from(template.matchAll(VARIABLE_PATTERN))) {
+    if (!(name in templateVariables) && !extraVariables.includes(name)) {
+      unknown.add(name);
+    }
+  }
+  return Array.from(unknown);
+}
+
+export function renderMessageTemplate(
+  template: string,
+  order: TemplateOrder,
+  extraVariables: Record<string, string> = {}
+): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (name in extraVariables) {
+      return extraVariables[name];
+    }
+    return name in templateVariables ? templateVariables[name].resolve(order) : placeholder;
+  });
+}
+
+const templateBodySchema = z.string().trim()
+  .min(1, "Template cannot be empty")
+  .max(1000, "Template must be at most 1000 characters")
+  .superRefine((template, ctx) => {
+    for (const name of findUnknownVariables(template)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown variable {{${name}}}` });
+    }
+  });
+
+const orderStatuses = Object.keys(orderStatusTransitions) as [OrderStatus, ...OrderStatus[]];
+
+export const messageTemplateSettingsSchema = z.object({
+  style: z.enum(messageTemplateStyles),
+  templates: z.object(
+    Object.fromEntries(messageTemplateKeys.map(key => [key, templateBodySchema])) as Record<MessageTemplateKey, typeof templateBodySchema>
+  ),
+  statusDefaults: z.record(z.enum(orderStatuses), z.enum(messageTemplateKeys)),
+});
+
+export type MessageTemplateSettings = {
+  style: MessageTemplateStyle;
+  templates: Record<MessageTemplateKey, string>;
+  statusDefaults: Record<OrderStatus, MessageTemplateKey>;
+};
+
+/**
+ * Read the templates stored in userSettings.messageTemplates, filling gaps
+ * from the style preset. Older rows only stored `{ selectedTemplate }`.
+ */
+export function parseMessageTemplateSettings(value: string | null | undefined): MessageTemplateSettings {
+  let stored: any = {};
+  try {
+    stored = value ? JSON.parse(value) : {};
+  } catch {
+    stored = {};
+  }
+
+  const requestedStyle = stored.style ?? stored.selectedTemplate;
+  const style: MessageTemplateStyle = messageTemplateStyles.includes(requestedStyle) ? requestedStyle : "default";
+
+  const templates = { ...messageTemplatePresets[style] };
+  for (const key of messageTemplateKeys) {
+    if (typeof stored.templates?.[key] === "string" && stored.templates[key].trim()) {
+      templates[key] = stored.templates[key];
+    }
+  }
+
+  const statusDefaults = { ...defaultStatusTemplates };
+  for (const status of orderStatuses) {
+    if (messageTemplateKeys.includes(stored.statusDefaults?.[status])) {
+      statusDefaults[status] = stored.statusDefaults[status];
+    }
+  }
+
+  return { style, templates, statusDefaults };
+}
+
+export function templateKeyForStatus(settings: MessageTemplateSettings, status: OrderStatus): MessageTemplateKey {
+  return settings.statusDefaults[status] ?? defaultStatusTemplates[status] ?? "statusUpdate";
+}
+
+// Used for the live preview before the workspace has any orders
+export const sampleTemplateOrder: TemplateOrder = {
+  orderId: "402-1234567-8901234",
+  productName: "Wireless Earbuds",
+  platform: "Amazon",
+  currentStatus: "Delivered",
+  orderAmount: 149900,
+  refundAmount: 159900,
+  productLink: "https://www.amazon.in/dp/B0EXAMPLE",
+  refundFormLink: null,
+  orderDate: new Date(),
+  deliveryDate: new Date(),
+  refundFormDate: null,
+  receivedAmount: 0,
+  mediator: { name: "Rahul", whatsappNumber: "+919876543210" },
+  account: { name: "Primary Amazon" },
+};
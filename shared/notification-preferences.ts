@@ -0,0 +1,115 @@
+import { addDays } from "date-fns";
+import type { DigestFrequency, NotificationPreferences, NotificationType, ReminderCategory } from "./schema";
+import { calendarDayInTimezone, getZonedParts, zonedTime } from "./timezone";
+
+export const notificationChannels = ["email", "push", "sms"] as const;
+export type NotificationChannel = typeof notificationChannels[number];
+
+export const notificationTopics = [
+  "orderDelivered",
+  "refundFormDue",
+  "paymentReceived",
+  "orderDelayed",
+  "weeklyReports",
+] as const;
+export type NotificationTopic = typeof notificationTopics[number];
+
+export type NotificationPreferenceKey = NotificationTopic | `${NotificationChannel}Notifications`;
+export type NotificationPreferenceSettings = Pick<
+  NotificationPreferences,
+  NotificationPreferenceKey | "digestFrequency" | "quietHoursStart" | "quietHoursEnd"
+>;
+
+export const defaultNotificationPreferences: NotificationPreferenceSettings = {
+  emailNotifications: 1,
+  pushNotifications: 1,
+  smsNotifications: 0,
+  orderDelivered: 1,
+  refundFormDue: 1,
+  paymentReceived: 1,
+  orderDelayed: 1,
+  weeklyReports: 1,
+  digestFrequency: "weekly",
+  quietHoursStart: null,
+  quietHoursEnd: null,
+};
+
+export const notificationPreferenceLabels: Record<NotificationPreferenceKey, { title: string; description: string }> = {
+  emailNotifications: { title: "Email Notifications", description: "Receive order updates via email" },
+  pushNotifications: { title: "Push Notifications", description: "Receive critical alerts as browser notifications" },
+  smsNotifications: { title: "SMS Notifications", description: "Receive SMS notifications" },
+  orderDelivered: { title: "Order Delivered", description: "Get notified about upcoming deliveries and pending reviews" },
+  refundFormDue: { title: "Refund Form Due", description: "Get reminders for refund form submissions" },
+  paymentReceived: { title: "Payment Received", description: "Get notified about mediator payment follow-ups and refunds" },
+  orderDelayed: { title: "Order Delayed", description: "Get notified about overdue reviews and refund forms" },
+  weeklyReports: { title: "Email Digest", description: "Receive a summary of upcoming deadlines and pending money by email" },
+};
+
+export const digestFrequencyLabels: Record<DigestFrequency, string> = {
+  daily: "Daily",
+  weekly: "Weekly (Mondays)",
+};
+
+// Topic that switches each reminder category on or off. General notifications are always shown.
+export const reminderCategoryTopics: Record<ReminderCategory, NotificationTopic | null> = {
+  General: null,
+  Delivery: "orderDelivered",
+  Review_Rating: "orderDelivered",
+  Refund_Form: "refundFormDue",
+  Mediator_Payment: "paymentReceived",
+};
+
+/**
+ * Whether a user wants a notification. Critical notifications are the overdue
+ * alerts, so they follow "orderDelayed" instead of their category. Without a
+ * channel this answers for the in-app notification list; with one it also
+ * requires that channel to be switched on.
+ */
+export function allowsNotification(
+  preferences: NotificationPreferenceSettings | undefined,
+  notification: { type: NotificationType; reminderCategory?: ReminderCategory },
+  channel?: NotificationChannel
+): boolean {
+  const settings = preferences ?? defaultNotificationPreferences;
+  const topic = notification.type === "Critical"
+    ? "orderDelayed"
+    : reminderCategoryTopics[notification.reminderCategory ?? "General"];
+  if (topic && settings[topic] !== 1) {
+    return false;
+  }
+  return channel ? settings[`${channel}Notifications`] === 1 : true;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * When `now` falls inside the user's quiet hours, the instant they end -
+ * otherwise null. A start later than the end spans midnight (22:00 - 07:00).
+ * Email, push and digests are held until then; the in-app list is not.
+ */
+export function quietHoursEndAt(
+  preferences: Pick<NotificationPreferenceSettings, "quietHoursStart" | "quietHoursEnd"> | undefined,
+  timeZone: string,
+  now: Date = new Date()
+): Date | null {
+  const start = preferences?.quietHoursStart;
+  const end = preferences?.quietHoursEnd;
+  if (!start || !end || start === end) {
+    return null;
+  }
+
+  const { hour, minute } = getZonedParts(now, timeZone);
+  const current = hour * 60 + minute;
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+  const inside = from < to ? current >= from && current < to : current >= from || current < to;
+  if (!inside) {
+    return null;
+  }
+
+  const today = calendarDayInTimezone(now, timeZone);
+  return zonedTime(current < to ? today : addDays(today, 1), Math.floor(to / 60), to % 60, timeZone);
+}
@@ -0,0 +1,188 @@
+import { z } from "zod";
+import { addDays, isValid, parse } from "date-fns";
+import type { OrderStatus } from "./order-status";
+
+export const orderImportFields = [
+  "productName",
+  "platform",
+  "accountName",
+  "orderId",
+  "orderAmount",
+  "refundAmount",
+  "productLink",
+  "mediatorName",
+  "bankAccountName",
+  "orderDate",
+  "deliveryDate",
+  "refundFormDate",
+  "remindRefundDate",
+  "currentStatus",
+] as const;
+
+export type OrderImportField = typeof orderImportFields[number];
+
+// The column headers of /order-import-template.csv, in its order
+export const orderImportFieldLabels: Record<OrderImportField, string> = {
+  productName: "Product Name",
+  platform: "Platform",
+  accountName: "Account Name",
+  orderId: "Order ID",
+  orderAmount: "Order Amount",
+  refundAmount: "Refund Amount",
+  productLink: "Product Link",
+  mediatorName: "Mediator Name",
+  bankAccountName: "Bank Account Name",
+  orderDate: "Order Date",
+  deliveryDate: "Delivery Date",
+  refundFormDate: "Refund Form Date",
+  remindRefundDate: "Remind Refund Date",
+  currentStatus: "Status",
+};
+
+export const requiredOrderImportFields: OrderImportField[] = [
+  "productName",
+  "accountName",
+  "orderId",
+  "orderAmount",
+  "refundAmount",
+  "mediatorName",
+];
+
+// Other headers a column is recognised by when the mapping is guessed
+const orderImportFieldAliases: Partial<Record<OrderImportField, string[]>> = {
+  productName: ["Product", "Item", "Item Name", "Product Title"],
+  platform: ["Marketplace", "Store"],
+  accountName: ["Account"],
+  orderId: ["Order No", "Order Number", "Order #"],
+  orderAmount: ["Amount", "Price", "Order Value", "Paid Amount"],
+  refundAmount: ["Refund", "Refund Value"],
+  productLink: ["Link", "URL", "Product URL"],
+  mediatorName: ["Mediator"],
+  bankAccountName: ["Bank Account", "Bank"],
+  deliveryDate: ["Delivered On", "Delivery"],
+  refundFormDate: ["Refund Form Due", "Form Date"],
+  remindRefundDate: ["Remind Date", "Reminder Date"],
+  currentStatus: ["Current Status", "Order Status"],
+};
+
+// Files larger than this are split up - every row is validated and sent back in the preview
+export const ORDER_IMPORT_MAX_ROWS = 5000;
+
+export const normalizeImportHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Which file column (by header) holds each order field - unmapped fields are not imported
+export const orderImportMappingSchema = z
+  .record(z.enum(orderImportFields), z.string().trim().min(1))
+  .superRefine((mapping, ctx) => {
+    for (const field of requiredOrderImportFields) {
+      if (!mapping[field]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `Choose the column for ${orderImportFieldLabels[field]}` });
+      }
+    }
+  });
+
+export type OrderImportMapping = z.infer<typeof orderImportMappingSchema>;
+
+export const orderImportSchema = z.object({
+  fileName: z.string().optional(),
+  // The file's rows as text, header row first - CSV and XLSX files are read in the browser
+  rows: z
+    .array(z.array(z.string()))
+    .min(2, "The file needs a header row and at least one order")
+    .max(ORDER_IMPORT_MAX_ROWS + 1, `Import at most ${ORDER_IMPORT_MAX_ROWS} orders at a time`),
+  mapping: orderImportMappingSchema,
+});
+
+export type OrderImport = z.infer<typeof orderImportSchema>;
+
+export const saveOrderImportMappingSchema = z.object({
+  name: z.string().trim().min(1, "Mapping name is required").max(100, "Mapping name must be at most 100 characters"),
+  mapping: orderImportMappingSchema,
+});
+
+export type SaveOrderImportMapping = z.infer<typeof saveOrderImportMappingSchema>;
+
+/**
+ * Guess the mapping from a file's header row - each field takes the first
+ * column named like its template header or one of its aliases.
+ */
+export function guessOrderImportMapping(headers: string[]): Partial<Record<OrderImportField, string>> {
+  const mapping: Partial<Record<OrderImportField, string>> = {};
+  for (const field of orderImportFields) {
+    const names = [orderImportFieldLabels[field], ...(orderImportFieldAliases[field] ?? [])].map(normalizeImportHeader);
+    const header = headers.find(candidate => names.includes(normalizeImportHeader(candidate)));
+    if (header) mapping[field] = header;
+  }
+  return mapping;
+}
+
+// Whether every column a saved mapping uses is in the file
+export function mappingMatchesHeaders(mapping: Partial<Record<OrderImportField, string>>, headers: string[]): boolean {
+  const available = new Set(headers.map(normalizeImportHeader));
+  return Object.values(mapping).every(header => !header || available.has(normalizeImportHeader(header)));
+}
+
+// Rupee amounts as exported by sheets - "₹1,500.00", "1500" - in paise
+export function parseImportAmount(value: string): number | null {
+  const cleaned = value.replace(/[₹,\s]/g, "").replace(/^(rs\.?|inr)/i, "");
+  if (cleaned === "") return null;
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) ? Math.round(amount * 100) : null;
+}
+
+// Day-first formats, as Indian sheets write dates, after ISO
+const importDateFormats = ["yyyy-MM-dd", "dd/MM/yyyy", "dd-MM-yyyy", "dd.MM.yyyy", "d MMM yyyy", "dd-MMM-yyyy", "d-MMM-yy", "dd/MM/yy", "MMM d, yyyy"];
+
+// Spreadsheets store dates as days since 30 Dec 1899
+const EXCEL_EPOCH = new Date(1899, 11, 30);
+
+export function parseImportDate(value: string): Date | null {
+  const trimmed = value.trim();
+  if (/^\d{5}(\.\d+)?$/.test(trimmed)) {
+    return addDays(EXCEL_EPOCH, Math.floor(Number(trimmed)));
+  }
+  // A time after the date is ignored - orders are kept by calendar day
+  const datePart = trimmed.replace(/[T\s]\d{1,2}:\d{2}(:\d{2})?(\.\d+)?\s*(Z|[AP]M)?$/i, "");
+  for (const format of importDateFormats) {
+    const date = parse(datePart, format, new Date());
+    // Two-digit years parse as the first century under four-digit formats
+    if (isValid(date) && date.getFullYear() >= 2000) return date;
+  }
+  return null;
+}
+
+export type OrderImportRowStatus = "valid" | "invalid";
+
+export interface OrderImportRow {
+  row: number; // line in the file - the header is line 1
+  status: OrderImportRowStatus;
+  errors: string[]; // the row is not imported
+  warnings: string[]; // imported, but worth checking
+  order: {
+    productName: string;
+    platform: string;
+    orderId: string;
+    accountName: string | null;
+    mediatorName: string | null;
+    orderAmount: number | null; // paise
+    refundAmount: number | null;
+    orderDate: string | null; // yyyy-MM-dd
+    currentStatus: OrderStatus | null;
+  };
+}
+
+// The dry run - every row of the file with what importing it would do
+export interface OrderImportPreview {
+  total: number;
+  valid: number;
+  invalid: number;
+  withWarnings: number;
+  rows: OrderImportRow[];
+}
+
+export interface OrderImportResult {
+  success: boolean;
+  imported: number;
+  errors: number; // rows skipped because they did not validate
+  errorDetails: { row: number; error: string }[];
+}
@@ -0,0 +1,153 @@
+import { z } from "zod";
+import type { Order, OrderWithRelations } from "./schema";
+import { orderStatusTransitions, type OrderStatus } from "./order-status";
+
+export const orderDateFields = [
+  "orderDate",
+  "deliveryDate",
+  "refundFormDate",
+  "remindRefundDate",
+  "createdAt",
+  "updatedAt",
+] as const;
+export type OrderDateField = typeof orderDateFields[number];
+
+export const orderAmountFields = ["orderAmount", "refundAmount"] as const;
+export type OrderAmountField = typeof orderAmountFields[number];
+
+export const orderSortFields = [
+  ...orderDateFields,
+  ...orderAmountFields,
+  "productName",
+  "orderId",
+  "currentStatus",
+  "platform",
+] as const;
+export type OrderSortField = typeof orderSortFields[number];
+
+export type OrderSort = { field: OrderSortField; direction: "asc" | "desc" };
+
+export const DEFAULT_ORDER_SORT: OrderSort[] = [{ field: "createdAt", direction: "desc" }];
+export const DEFAULT_ORDER_PAGE_SIZE = 50;
+export const MAX_ORDER_PAGE_SIZE = 200;
+
+export interface OrderQuery {
+  limit: number;
+  page?: number; // offset pagination, 1-based
+  cursor?: string; // keyset pagination, takes precedence over page
+  sort: OrderSort[];
+  status?: OrderStatus[];
+  platform?: Order["platform"][];
+  mediatorId?: string;
+  accountId?: string;
+  bankAccountId?: string; // "none" selects orders without a bank account
+  search?: string;
+  dateRanges: Partial<Record<OrderDateField, { from?: Date; to?: Date }>>;
+  amountRanges: Partial<Record<OrderAmountField, { min?: number; max?: number }>>; // in paise
+}
+
+export interface OrderPage {
+  items: OrderWithRelations[];
+  total: number;
+  limit: number;
+  nextCursor: string | null;
+  page?: number;
+  totalPages?: number;
+}
+
+// "-orderDate,refundAmount" sorts by order date descending, then refund amount ascending
+export function parseOrderSort(value: string | undefined): OrderSort[] {
+  if (!value) return DEFAULT_ORDER_SORT;
+  return value.split(",").filter(Boolean).map(part => {
+    const direction = part.startsWith("-") ? "desc" : "asc";
+    const field = part.replace(/^[-+]/, "");
+    if (!(orderSortFields as readonly string[]).includes(field)) {
+      throw new z.ZodError([{ code: "custom", path: ["sort"], message: `Cannot sort orders by "${field}"` }]);
+    }
+    return { field: field as OrderSortField, direction };
+  });
+}
+
+export function serializeOrderSort(sort: OrderSort[]): string {
+  return sort.map(({ field, direction }) => `${direction === "desc" ? "-" : ""}${field}`).join(",");
+}
+
+// Mirrors platformEnum in schema.ts, kept here so the client bundle does not pull in drizzle
+export const orderPlatforms = ["Amazon", "Flipkart", "Myntra", "Meesho", "Ajio", "Nykaa", "Paytm Mall", "Snapdeal"] as const;
+
+const listParam = <T extends string>(allowed: readonly T[], label: string) =>
+  z.string().optional().transform((value, ctx) => {
+    if (!value) return undefined;
+    const items = value.split(",").filter(Boolean);
+    const invalid = items.filter(item => !allowed.includes(item as T));
+    if (invalid.length > 0) {
+      ctx.addIssue({ code: "custom", message: `Invalid ${label}: ${invalid.join(", ")}` });
+      return z.NEVER;
+    }
+    return items as T[];
+  });
+const dateParam = z.string().optional().refine(value => !value || !isNaN(Date.parse(value)), "Invalid date");
+const amountParam = z.coerce.number().int().min(0).optional();
+
+const orderQueryParamsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_ORDER_PAGE_SIZE).default(DEFAULT_ORDER_PAGE_SIZE),
+  page: z.coerce.number().int().min(1).optional(),
+  cursor: z.string().optional(),
+  sort: z.string().optional(),
+  status: listParam(Object.keys(orderStatusTransitions) as OrderStatus[], "status"),
+  platform: listParam(orderPlatforms, "platform"),
+  mediatorId: z.string().optional(),
+  accountId: z.string().optional(),
+  bankAccountId: z.string().optional(),
+  search: z.string().trim().optional(),
+}).passthrough();
+
+/**
+ * Parse GET /api/orders query parameters. Date ranges use `<field>From` and
+ * `<field>To` (date-only "To" values include the whole day), amount ranges use
+ * `<field>Min` and `<field>Max` in paise.
+ */
+export function parseOrderQuery(params: Record<string, unknown>): OrderQuery {
+  const parsed = orderQueryParamsSchema.parse(params);
+
+  const query: OrderQuery = {
+    limit: parsed.limit,
+    page: parsed.page,
+    cursor: parsed.cursor,
+    sort: parseOrderSort(parsed.sort),
+    status: parsed.status,
+    platform: parsed.platform,
+    mediatorId: parsed.mediatorId || undefined,
+    accountId: parsed.accountId || undefined,
+    bankAccountId: parsed.bankAccountId || undefined,
+    search: parsed.search || undefined,
+    dateRanges: {},
+    amountRanges: {},
+  };
+
+  for (const field of orderDateFields) {
+    const from = dateParam.parse(params[`${field}From`], { path: [`${field}From`] });
+    const to = dateParam.parse(params[`${field}To`], { path: [`${field}To`] });
+    if (!from && !to) continue;
+
+    let toDate = to ? new Date(to) : undefined;
+    if (toDate && /^\d{4}-\d{2}-\d{2}$/.test(to!)) {
+      toDate = new Date(toDate.getTime() + 24 * 60 * 60 * 1000 - 1);
+    }
+    query.dateRanges[field] = { from: from ? new Date(from) : undefined, to: toDate };
+  }
+
+  for (const field of orderAmountFields) {
+    const min = amountParam.parse(params[`${field}Min`] || undefined, { path: [`${field}Min`] });
+    const max = amountParam.parse(params[`${field}Max`] || undefined, { path: [`${field}Max`] });
+    if (min === undefined && max === undefined) continue;
+    query.amountRanges[field] = { min, max };
+  }
+
+  return query;
+}
+
+// True when the request asks for a page rather than the full order list
+export function isPaginatedOrderRequest(params: Record<string, unknown>): boolean {
+  return params.limit !== undefined || params.cursor !== undefined || params.page !== undefined;
+}
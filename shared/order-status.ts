@@ -0,0 +1,148 @@
+import type { Order } from "./schema";
+
+export type OrderStatus = Order["currentStatus"];
+
+// Allowed next statuses for every order status
+export const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  "Ordered": ["Delivered", "Cancelled"],
+  "Delivered": ["Deliverables Done", "Overdue Passed for Refund Form", "Cancelled"],
+  "Deliverables Done": ["Refund Form Done", "Overdue Passed for Refund Form", "Cancelled"],
+  "Overdue Passed for Refund Form": ["Refund Form Done", "Cancelled"],
+  "Refund Form Done": ["Remind Mediator for Payment", "Refunded"],
+  "Remind Mediator for Payment": ["Refunded"],
+  "Refunded": [],
+  "Cancelled": ["Ordered"],
+};
+
+type StatusRequiredField = "deliveryDate" | "refundFormDate" | "refundFormLink";
+
+export const requiredFieldLabels: Record<StatusRequiredField, string> = {
+  deliveryDate: "Delivery Date",
+  refundFormDate: "Refund Form Date",
+  refundFormLink: "Refund Form Link",
+};
+
+// Fields that must be set on the order before it can move into a status
+export const statusRequiredFields: Partial<Record<OrderStatus, StatusRequiredField[]>> = {
+  "Delivered": ["deliveryDate"],
+  "Deliverables Done": ["deliveryDate"],
+  "Overdue Passed for Refund Form": ["refundFormDate"],
+  "Refund Form Done": ["refundFormLink"],
+  "Remind Mediator for Payment": ["refundFormLink"],
+};
+
+type TransitionOrderFields = Partial<Pick<Order, StatusRequiredField | "refundAmount">> & {
+  receivedAmount?: number;
+};
+
+// "Refunded" is driven by the payment ledger: it needs payments covering the refund amount
+export function isFullyPaid(order: TransitionOrderFields): boolean {
+  return order.refundAmount === undefined || (order.receivedAmount ?? 0) >= order.refundAmount;
+}
+
+export type StatusTransitionResult =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: string;
+      allowedStatuses: OrderStatus[];
+      missingFields: { field: StatusRequiredField; label: string }[];
+    };
+
+export function getAllowedTransitions(status: OrderStatus): OrderStatus[] {
+  return orderStatusTransitions[status] ?? [];
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return from === to || getAllowedTransitions(from).includes(to);
+}
+
+// Required fields for `status` that the order does not have
+function getMissingRequiredFields(status: OrderStatus, order: TransitionOrderFields) {
+  return (statusRequiredFields[status] ?? [])
+    .filter((field) => !order[field])
+    .map((field) => ({ field, label: requiredFieldLabels[field] }));
+}
+
+/**
+ * Check whether an order may move from its current status to `to`.
+ * `order` should reflect the values the order will have after the update,
+ * so fields set in the same request count towards the requirements. When the
+ * status stays the same, the update must still keep its required fields set.
+ */
+export function validateStatusTransition(
+  from: OrderStatus,
+  to: OrderStatus,
+  order: TransitionOrderFields,
+): StatusTransitionResult {
+  const allowedStatuses = getAllowedTransitions(from);
+
+  if (!canTransition(from, to)) {
+    return {
+      allowed: false,
+      reason: allowedStatuses.length > 0
+        ? `Cannot change status from "${from}" to "${to}". Allowed next statuses: ${allowedStatuses.join(", ")}`
+        : `Cannot change status from "${from}" - it is a final status`,
+      allowedStatuses,
+      missingFields: [],
+    };
+  }
+
+  const missingFields = getMissingRequiredFields(to, order);
+  if (missingFields.length > 0) {
+    const labels = missingFields.map((f) => f.label).join(", ");
+    return {
+      allowed: false,
+      reason: from === to
+        ? `${labels} cannot be cleared while the order is "${to}"`
+        : `${labels} must be set before moving to "${to}"`,
+      allowedStatuses,
+      missingFields,
+    };
+  }
+
+  if (from === to) {
+    return { allowed: true };
+  }
+
+  if (to === "Refunded" && !isFullyPaid(order)) {
+    return {
+      allowed: false,
+      reason: `Record payments covering the refund amount before moving to "Refunded"`,
+      allowedStatuses,
+      missingFields: [],
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check the status a new order is created with. The required fields apply as
+ * for a status change, and "Refunded" is never allowed - a new order has no
+ * payments yet, so the ledger moves it there once they are recorded.
+ */
+export function validateInitialStatus(status: OrderStatus, order: TransitionOrderFields): StatusTransitionResult {
+  const allowedStatuses = (Object.keys(orderStatusTransitions) as OrderStatus[]).filter((s) => s !== "Refunded");
+
+  if (status === "Refunded") {
+    return {
+      allowed: false,
+      reason: `New orders cannot start as "Refunded" - record payments covering the refund amount once the order exists`,
+      allowedStatuses,
+      missingFields: [],
+    };
+  }
+
+  const missingFields = getMissingRequiredFields(status, order);
+  if (missingFields.length > 0) {
+    return {
+      allowed: false,
+      reason: `${missingFields.map((f) => f.label).join(", ")} must be set for a new order in "${status}"`,
+      allowedStatuses,
+      missingFields,
+    };
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,87 @@
+import type { BankAccount, Mediator, OrderWithRelations } from "./schema";
+import type { OrderStatus } from "./order-status";
+import { formatMessageAmount, formatMessageDate } from "./message-templates";
+
+// Orders whose refund form is in and are waiting on the mediator's payment
+export const paymentRequestStatuses: OrderStatus[] = ["Refund Form Done", "Remind Mediator for Payment"];
+
+export type PaymentRequestOrder = Pick<
+  OrderWithRelations,
+  "id" | "orderId" | "productName" | "currentStatus" | "refundAmount" | "receivedAmount"
+> & {
+  refundFormDate: Date | string | null;
+  bankAccount?: Pick<BankAccount, "id" | "accountName" | "accountNumber"> | null;
+};
+
+export interface PaymentRequestLine {
+  orderId: string; // our order id
+  platformOrderId: string;
+  productName: string;
+  refundFormDate: Date | string | null;
+  amount: number; // outstanding, in paise
+}
+
+export interface PaymentRequestGroup {
+  bankAccount: Pick<BankAccount, "id" | "accountName" | "accountNumber"> | null;
+  lines: PaymentRequestLine[];
+  total: number;
+}
+
+export interface PaymentRequest {
+  groups: PaymentRequestGroup[];
+  orderCount: number;
+  total: number;
+  message: string;
+}
+
+export function isAwaitingPayment(order: PaymentRequestOrder): boolean {
+  return paymentRequestStatuses.includes(order.currentStatus) && order.refundAmount > (order.receivedAmount ?? 0);
+}
+
+/**
+ * One message covering every order the mediator still owes for, grouped by
+ * the bank account each order should be paid into.
+ */
+export function buildPaymentRequest(mediator: Pick<Mediator, "name">, orders: PaymentRequestOrder[]): PaymentRequest {
+  const groups = new Map<string, PaymentRequestGroup>();
+
+  for (const order of orders.filter(isAwaitingPayment)) {
+    const key = order.bankAccount?.id ?? "";
+    const group = groups.get(key) ?? { bankAccount: order.bankAccount ?? null, lines: [], total: 0 };
+    const amount = order.refundAmount - (order.receivedAmount ?? 0);
+    group.lines.push({
+      orderId: order.id,
+      platformOrderId: order.orderId,
+      productName: order.productName,
+      refundFormDate: order.refundFormDate,
+      amount,
+    });
+    group.total += amount;
+    groups.set(key, group);
+  }
+
+  // Orders with a bank account first, then anything left unassigned
+  const sortedGroups = Array.from(groups.values()).sort((a, b) => Number(!a.bankAccount) - Number(!b.bankAccount));
+  const orderCount = sortedGroups.reduce((count, group) => count + group.lines.length, 0);
+  const total = sortedGroups.reduce((sum, group) => sum + group.total, 0);
+
+  const sections = sortedGroups.map(group => {
+    const heading = group.bankAccount
+      ? `Pay into ${group.bankAccount.accountName} (A/c ${group.bankAccount.accountNumber}):`
+      : "Bank account to be confirmed:";
+    const lines = group.lines.map((line, index) =>
+      `${index + 1}. Order #${line.platformOrderId} - ${line.productName} - refund form ${formatMessageDate(line.refundFormDate)} - ${formatMessageAmount(line.amount)}`
+    );
+    const subtotal = sortedGroups.length > 1 ? [`Subtotal: ${formatMessageAmount(group.total)}`] : [];
+    return [heading, ...lines, ...subtotal].join("\n");
+  });
+
+  const message = [
+    `Hi ${mediator.name}, payment is pending for ${orderCount} ${orderCount === 1 ? "order" : "orders"}:`,
+    ...sections,
+    `Total due: ${formatMessageAmount(total)}`,
+    "Please share the payment details once done. Thank you!",
+  ].join("\n\n");
+
+  return { groups: sortedGroups, orderCount, total, message };
+}
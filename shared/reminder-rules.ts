@@ -0,0 +1,355 @@
+import { z } from "zod";
+import { addDays, differenceInCalendarDays, format, startOfDay } from "date-fns";
+import type {
+  KeyedNotification,
+  NotificationKeyState,
+  NotificationPreferences,
+  NotificationType,
+  Order,
+  ReminderCategory,
+  ReminderRule,
+  ReminderTrigger,
+} from "./schema";
+import { orderStatusTransitions, type OrderStatus } from "./order-status";
+import { orderPlatforms } from "./order-query";
+import { findUnknownVariables, renderMessageTemplate, type TemplateOrder } from "./message-templates";
+import { allowsNotification, notificationChannels } from "./notification-preferences";
+import { calendarDayInTimezone, DEFAULT_TIMEZONE } from "./timezone";
+
+export const reminderTriggers: [ReminderTrigger, ...ReminderTrigger[]] = ["date", "status"];
+
+export const reminderTriggerLabels: Record<ReminderTrigger, string> = {
+  date: "Days from an order date",
+  status: "Days in a status",
+};
+
+export const reminderDateFields = ["orderDate", "deliveryDate", "refundFormDate", "remindRefundDate"] as const;
+export type ReminderDateField = typeof reminderDateFields[number];
+
+export const reminderDateFieldLabels: Record<ReminderDateField, string> = {
+  orderDate: "Order Date",
+  deliveryDate: "Delivery Date",
+  refundFormDate: "Refund Form Date",
+  remindRefundDate: "Remind Refund Date",
+};
+
+// Ordered by priority - the dashboard lists critical reminders first
+export const reminderSeverities: [NotificationType, ...NotificationType[]] = ["Critical", "Warning", "Info", "Success"];
+
+export const reminderCategories: [ReminderCategory, ...ReminderCategory[]] = [
+  "General",
+  "Delivery",
+  "Review_Rating",
+  "Refund_Form",
+  "Mediator_Payment",
+];
+
+// Variables reminder titles and messages can use on top of the message template ones
+export const reminderTemplateVariables: Record<string, string> = {
+  daysUntil: "Days until the trigger date (0 once it has passed)",
+  daysSince: "Days since the trigger date, or days in the status",
+};
+
+const reminderVariableNames = Object.keys(reminderTemplateVariables);
+
+const reminderTextSchema = (label: string, max: number) => z.string().trim()
+  .min(1, `${label} is required`)
+  .max(max, `${label} must be at most ${max} characters`)
+  .superRefine((template, ctx) => {
+    for (const name of findUnknownVariables(template, reminderVariableNames)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown variable {{${name}}}` });
+    }
+  });
+
+const orderStatuses = Object.keys(orderStatusTransitions) as [OrderStatus, ...OrderStatus[]];
+
+export const reminderRuleSchema = z.object({
+  name: z.string().trim().min(1, "Rule name is required").max(100, "Rule name must be at most 100 characters"),
+  enabled: z.number().int().min(0).max(1),
+  trigger: z.enum(reminderTriggers),
+  dateField: z.enum(reminderDateFields).nullable(),
+  offsetDays: z.number().int().min(-365, "Offset must be within a year").max(365, "Offset must be within a year"),
+  statuses: z.array(z.enum(orderStatuses)),
+  platform: z.enum(orderPlatforms).nullable(),
+  mediatorId: z.string().min(1).nullable(),
+  accountId: z.string().min(1).nullable(),
+  severity: z.enum(reminderSeverities),
+  reminderCategory: z.enum(reminderCategories),
+  title: reminderTextSchema("Title", 200),
+  messageTemplate: reminderTextSchema("Message", 1000),
+  channels: z.array(z.enum(notificationChannels)),
+  escalationOffsetDays: z.number().int().min(-365, "Offset must be within a year").max(365, "Offset must be within a year").nullable(),
+}).superRefine((rule, ctx) => {
+  if (rule.trigger === "date" && !rule.dateField) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["dateField"], message: "Choose the date the reminder counts from" });
+  }
+  if (rule.trigger === "status") {
+    if (rule.statuses.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["statuses"], message: "Choose at least one status" });
+    }
+    if (rule.offsetDays < 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["offsetDays"], message: "Days in status cannot be negative" });
+    }
+  }
+  if (rule.escalationOffsetDays !== null) {
+    if (rule.escalationOffsetDays <= rule.offsetDays) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["escalationOffsetDays"], message: "Escalate after the reminder starts" });
+    } else if (rule.trigger === "date" && rule.offsetDays < 0 && rule.escalationOffsetDays > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["escalationOffsetDays"], message: "Advance reminders end on the date - escalate by then" });
+    }
+  }
+});
+
+export type ReminderRuleInput = z.infer<typeof reminderRuleSchema>;
+
+// Rules every workspace starts with - the thresholds the reminders used before they were configurable
+export const defaultReminderRules: ReminderRuleInput[] = [
+  {
+    name: "Delivery coming up",
+    enabled: 1,
+    trigger: "date",
+    dateField: "deliveryDate",
+    offsetDays: -3,
+    statuses: ["Ordered"],
+    platform: null,
+    mediatorId: null,
+    accountId: null,
+    severity: "Warning",
+    reminderCategory: "Delivery",
+    title: "Delivery Coming Up",
+    messageTemplate: "Product \"{{order.productName}}\" (Order #{{order.orderId}}) is expected on {{deliveryDate}}.",
+    channels: [],
+    escalationOffsetDays: null,
+  },
+  {
+    name: "Review overdue",
+    enabled: 1,
+    trigger: "date",
+    dateField: "deliveryDate",
+    offsetDays: 3,
+    statuses: ["Delivered"],
+    platform: null,
+    mediatorId: null,
+    accountId: null,
+    severity: "Critical",
+    reminderCategory: "Review_Rating",
+    title: "Review Overdue",
+    messageTemplate: "Product \"{{order.productName}}\" was delivered {{daysSince}} days ago. Complete review & rating now!",
+    channels: [],
+    escalationOffsetDays: null,
+  },
+  {
+    name: "Refund form due soon",
+    enabled: 1,
+    trigger: "date",
+    dateField: "refundFormDate",
+    offsetDays: -3,
+    statuses: ["Delivered", "Deliverables Done"],
+    platform: null,
+    mediatorId: null,
+    accountId: null,
+    severity: "Warning",
+    reminderCategory: "Refund_Form",
+    title: "Refund Form Due Soon",
+    messageTemplate: "Refund form for \"{{order.productName}}\" (Order #{{order.orderId}}) is due in {{daysUntil}} day(s).",
+    channels: [],
+    escalationOffsetDays: -1,
+  },
+  {
+    name: "Refund form deadline passed",
+    enabled: 1,
+    trigger: "date",
+    dateField: "refundFormDate",
+    offsetDays: 1,
+    statuses: ["Delivered", "Deliverables Done", "Overdue Passed for Refund Form"],
+    platform: null,
+    mediatorId: null,
+    accountId: null,
+    severity: "Critical",
+    reminderCategory: "Refund_Form",
+    title: "Refund Form Deadline Passed",
+    messageTemplate: "Refund form for \"{{order.productName}}\" (Order #{{order.orderId}}) was due on {{refundFormDate}}. Please submit immediately!",
+    channels: [],
+    escalationOffsetDays: null,
+  },
+  {
+    name: "Mediator payment pending",
+    enabled: 1,
+    trigger: "status",
+    dateField: null,
+    offsetDays: 3,
+    statuses: ["Remind Mediator for Payment"],
+    platform: null,
+    mediatorId: null,
+    accountId: null,
+    severity: "Info",
+    reminderCategory: "Mediator_Payment",
+    title: "Follow Up with Mediator",
+    messageTemplate: "Payment for \"{{order.productName}}\" has been pending with {{mediator.name}} for {{daysSince}} days.",
+    channels: [],
+    escalationOffsetDays: null,
+  },
+];
+
+// The order fields rules read - dates arrive as strings over JSON
+export type ReminderOrder = TemplateOrder & Pick<Order, "id" | "mediatorId" | "accountId"> & {
+  remindRefundDate: Date | string | null;
+  statusChangedAt: Date | string | null;
+};
+
+type EvaluatedRule = Pick<ReminderRule, keyof ReminderRuleInput | "id">;
+
+export interface ReminderMatch<O extends ReminderOrder = ReminderOrder> {
+  rule: EvaluatedRule;
+  order: O;
+  dueDate: Date; // the day the rule started matching
+  escalated: boolean; // past the rule's escalation day
+  severity: NotificationType; // the rule's severity, Critical once escalated
+  title: string;
+  message: string;
+}
+
+/**
+ * Check one rule against one order. Date rules match from `date + offsetDays`
+ * on, status rules once the order has spent `offsetDays` days in one of the
+ * rule's statuses. Either way the match lasts until the order leaves the
+ * rule's statuses - except advance reminders (a negative offset), which end
+ * once the date itself has passed. From `escalationOffsetDays` on (same
+ * scale) the match is escalated to Critical. With a timeZone, "today" and the
+ * day of a status change are the order owner's, not this process's.
+ */
+export function matchReminderRule<O extends ReminderOrder>(
+  rule: EvaluatedRule,
+  order: O,
+  now: Date = new Date(),
+  timeZone?: string
+): ReminderMatch<O> | null {
+  if (rule.enabled !== 1) return null;
+  if (rule.statuses.length > 0 && !rule.statuses.includes(order.currentStatus)) return null;
+  if (rule.platform && rule.platform !== order.platform) return null;
+  if (rule.mediatorId && rule.mediatorId !== order.mediatorId) return null;
+  if (rule.accountId && rule.accountId !== order.accountId) return null;
+
+  const anchor = rule.trigger === "date"
+    ? order[(rule.dateField ?? "orderDate") as ReminderDateField]
+    : order.statusChangedAt;
+  if (!anchor) return null;
+
+  const toDay = (date: Date) => (timeZone ? calendarDayInTimezone(date, timeZone) : startOfDay(date));
+  const today = toDay(now);
+  // Order dates are already calendar days; a status change is an instant
+  const anchorDay = rule.trigger === "date" ? startOfDay(new Date(anchor)) : toDay(new Date(anchor));
+  const dueDate = addDays(anchorDay, rule.offsetDays);
+  if (today < dueDate) return null;
+  if (rule.trigger === "date" && rule.offsetDays < 0 && today > anchorDay) return null;
+
+  const escalated = rule.escalationOffsetDays !== null && today >= addDays(anchorDay, rule.escalationOffsetDays);
+  const variables = {
+    daysUntil: String(Math.max(differenceInCalendarDays(anchorDay, today), 0)),
+    daysSince: String(Math.max(differenceInCalendarDays(today, anchorDay), 0)),
+  };
+  return {
+    rule,
+    order,
+    dueDate,
+    escalated,
+    severity: escalated ? "Critical" : rule.severity,
+    title: renderMessageTemplate(rule.title, order, variables),
+    message: renderMessageTemplate(rule.messageTemplate, order, variables),
+  };
+}
+
+/**
+ * Idempotency key for the notification a match creates. The occurrence is the
+ * day the rule started matching, so a moved date or re-entering a status is a
+ * new reminder while checking again is not.
+ */
+export function reminderNotificationKey(match: ReminderMatch): string {
+  return `reminder:${match.rule.id}:${match.order.id}:${format(match.dueDate, "yyyy-MM-dd")}`;
+}
+
+// Every rule match across the orders, most severe first
+export function evaluateReminderRules<O extends ReminderOrder>(
+  rules: EvaluatedRule[],
+  orders: O[],
+  now: Date = new Date(),
+  timeZone?: string
+): ReminderMatch<O>[] {
+  const matches: ReminderMatch<O>[] = [];
+  for (const order of orders) {
+    for (const rule of rules) {
+      const match = matchReminderRule(rule, order, now, timeZone);
+      if (match) matches.push(match);
+    }
+  }
+  return matches.sort(
+    (a, b) => reminderSeverities.indexOf(a.severity) - reminderSeverities.indexOf(b.severity)
+  );
+}
+
+type ReminderCheckOrder = ReminderOrder & Pick<Order, "workspaceId" | "userId">;
+
+export interface KeyedReminderMatch<O extends ReminderCheckOrder = ReminderCheckOrder> {
+  match: ReminderMatch<O>;
+  key: string; // idempotency key of the notification the match creates
+}
+
+/**
+ * Every rule match for the orders, keyed by the notification it creates. Each
+ * order is checked against its workspace's rules on its owner's day.
+ */
+export function collectReminderMatches<O extends ReminderCheckOrder>(
+  orders: O[],
+  rulesByWorkspace: Map<string, EvaluatedRule[]>,
+  timezones: Map<string, string>,
+  now: Date = new Date()
+): KeyedReminderMatch<O>[] {
+  const matches: KeyedReminderMatch<O>[] = [];
+  for (const order of orders) {
+    const rules = rulesByWorkspace.get(order.workspaceId);
+    if (!rules) continue;
+    const timeZone = timezones.get(order.userId) ?? DEFAULT_TIMEZONE;
+    for (const rule of rules) {
+      const match = matchReminderRule(rule, order, now, timeZone);
+      if (match) matches.push({ match, key: reminderNotificationKey(match) });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Decide which matches need a new notification and which notifications to
+ * escalate, given the ones `existing` says were already created. Dismissed
+ * and already escalated notifications are left alone, and members' category
+ * preferences apply before anything is written.
+ */
+export function planReminderNotifications(
+  matches: KeyedReminderMatch[],
+  preferences: Map<string, NotificationPreferences>,
+  existing: Map<string, NotificationKeyState>
+): { reminders: KeyedNotification[]; escalationKeys: string[] } {
+  const reminders: KeyedNotification[] = [];
+  const escalationKeys: string[] = [];
+  for (const { match, key } of matches) {
+    const { order, rule } = match;
+    const notification = {
+      orderId: order.id,
+      reminderRuleId: rule.id,
+      type: rule.severity,
+      reminderCategory: rule.reminderCategory,
+      title: match.title,
+      message: match.message,
+    };
+    const state = existing.get(key);
+    const allowed = allowsNotification(preferences.get(order.userId), notification);
+    if (!state && allowed) {
+      reminders.push({ ...notification, workspaceId: order.workspaceId, userId: order.userId, idempotencyKey: key });
+    }
+    // New notifications are escalated straight after they are inserted
+    const open = state ? !state.escalatedAt && !state.dismissedAt : allowed;
+    if (match.escalated && open && allowsNotification(preferences.get(order.userId), { ...notification, type: "Critical" })) {
+      escalationKeys.push(key);
+    }
+  }
+  return { reminders, escalationKeys };
+}
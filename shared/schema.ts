@@ -1,6 +1,7 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -12,6 +13,8 @@ import {
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidTimezone } from "./timezone";
+import type { OrderImportField } from "./order-import";
 
 // Session storage table (mandatory for Replit Auth)
 export const sessions = pgTable(
@@ -35,6 +38,38 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Workspace role enum - owner > manager > operator > viewer
+export const workspaceRoleEnum = pgEnum("workspace_role", [
+  "owner",
+  "manager",
+  "operator",
+  "viewer"
+]);
+
+// Workspaces table - a team that shares mediators, accounts, bank accounts and orders
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Workspace members - invited by email, linked to the user on their next login
+export const workspaceMembers = pgTable("workspace_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }), // null until the invite is accepted
+  email: varchar("email").notNull(), // stored lowercase
+  role: workspaceRoleEnum("role").notNull().default("operator"),
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_workspace_members_email").on(table.workspaceId, table.email),
+  index("IDX_workspace_members_user").on(table.userId),
+]);
+
 // Platform enum
 export const platformEnum = pgEnum("platform", [
   "Amazon",
@@ -76,6 +111,12 @@ export const reminderCategoryEnum = pgEnum("reminder_category", [
   "Mediator_Payment"
 ]);
 
+// Reminder trigger enum - what a reminder rule counts days from
+export const reminderTriggerEnum = pgEnum("reminder_trigger", [
+  "date", // an order date field plus an offset in days
+  "status", // days spent in the current status
+]);
+
 // Activity type enum - for tracking order changes
 export const activityTypeEnum = pgEnum("activity_type", [
   "Order Created",
@@ -84,13 +125,64 @@ export const activityTypeEnum = pgEnum("activity_type", [
   "Dates Modified",
   "Calendar Event Created",
   "Calendar Event Updated",
-  "Calendar Event Deleted"
+  "Calendar Event Deleted",
+  "Payment Recorded",
+  "Payment Removed",
+  "Payment Requested",
+  "Calendar Sync Conflict"
+]);
+
+// Outbound message channel and delivery state for the messaging outbox
+export const messageChannelEnum = pgEnum("message_channel", [
+  "whatsapp",
+  "email"
+]);
+
+export const messageStatusEnum = pgEnum("message_status", [
+  "pending",
+  "sending",
+  "sent",
+  "failed"
+]);
+
+// Calendar sync queue - what to do with an order's events and how far it got
+export const calendarSyncActionEnum = pgEnum("calendar_sync_action", [
+  "create",
+  "update",
+  "delete"
+]);
+
+export const calendarSyncStatusEnum = pgEnum("calendar_sync_status", [
+  "pending",
+  "syncing",
+  "synced",
+  "failed"
+]);
+
+// How often the email digest of upcoming deadlines and pending money is sent
+export const digestFrequencyEnum = pgEnum("digest_frequency", [
+  "daily",
+  "weekly"
+]);
+
+// Cron job runs - how each one ended and what started it
+export const jobRunStatusEnum = pgEnum("job_run_status", [
+  "running",
+  "succeeded",
+  "failed"
+]);
+
+export const jobRunTriggerEnum = pgEnum("job_run_trigger", [
+  "schedule",
+  "catch-up",
+  "manual"
 ]);
 
 // Mediators table
 export const mediators = pgTable("mediators", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   name: varchar("name").notNull(),
   whatsappNumber: varchar("whatsapp_number").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -101,22 +193,38 @@ export const mediators = pgTable("mediators", {
 export const accounts = pgTable("accounts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   name: varchar("name").notNull(),
   platform: platformEnum("platform").notNull(),
   email: varchar("email").notNull(),
   phone: varchar("phone").notNull(),
-  password: text("password"), // encrypted
+  password: text("password"), // envelope-encrypted on the server, never sent to the client
   comments: text("comments"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Account audit log - every time a stored account password is revealed
+export const accountAuditLogs = pgTable("account_audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  accountId: varchar("account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
+  action: varchar("action").notNull(), // e.g. "Password Revealed"
+  ipAddress: varchar("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_account_audit_logs_account").on(table.accountId),
+]);
+
 // Bank Accounts table
 export const bankAccounts = pgTable("bank_accounts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   accountName: varchar("account_name").notNull(), // Name for the account (e.g., "HDFC Savings", "ICICI Current")
   accountNumber: varchar("account_number").notNull(), // Bank account number
+  statementMapping: text("statement_mapping"), // JSON string - last used statement CSV layout and column mapping
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -125,6 +233,7 @@ export const bankAccounts = pgTable("bank_accounts", {
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   mediatorId: varchar("mediator_id").notNull().references(() => mediators.id),
   accountId: varchar("account_id").notNull().references(() => accounts.id),
   bankAccountId: varchar("bank_account_id").references(() => bankAccounts.id), // Bank account for refund
@@ -142,10 +251,57 @@ export const orders = pgTable("orders", {
   comments: text("comments"),
   currentStatus: orderStatusEnum("current_status").notNull().default("Ordered"),
   calendarEventIds: text("calendar_event_ids"), // JSON array of Google Calendar event IDs
+  calendarSequence: integer("calendar_sequence").notNull().default(0), // ICS SEQUENCE, bumped when the events change
+  statusChangedAt: timestamp("status_changed_at").defaultNow(), // when currentStatus last changed
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Payments table - money received from mediators
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  mediatorId: varchar("mediator_id").notNull().references(() => mediators.id),
+  bankAccountId: varchar("bank_account_id").references(() => bankAccounts.id), // Bank account the money arrived in
+  amount: integer("amount").notNull(), // in paise
+  paymentDate: timestamp("payment_date").notNull(),
+  reference: varchar("reference"), // UTR / transaction reference
+  notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Payment allocations - how much of a payment goes towards each order
+export const paymentAllocations = pgTable("payment_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentId: varchar("payment_id").notNull().references(() => payments.id, { onDelete: "cascade" }),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  amount: integer("amount").notNull(), // in paise
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_payment_allocations_order").on(table.orderId),
+  index("IDX_payment_allocations_payment").on(table.paymentId),
+]);
+
+// Bank statement lines - credits imported from bank statement CSVs for reconciliation
+export const bankStatementLines = pgTable("bank_statement_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  bankAccountId: varchar("bank_account_id").notNull().references(() => bankAccounts.id, { onDelete: "cascade" }),
+  transactionDate: timestamp("transaction_date").notNull(),
+  narration: text("narration").notNull(),
+  reference: varchar("reference"),
+  amount: integer("amount").notNull(), // credit in paise
+  fingerprint: varchar("fingerprint").notNull(), // stable hash so re-imported statements skip known lines
+  paymentId: varchar("payment_id").references(() => payments.id, { onDelete: "set null" }), // set once reconciled
+  ignored: integer("ignored").notNull().default(0), // 0 = false, 1 = true
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_bank_statement_lines_fingerprint").on(table.bankAccountId, table.fingerprint),
+]);
+
 // Settings table for user preferences
 export const userSettings = pgTable("user_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -155,47 +311,259 @@ export const userSettings = pgTable("user_settings", {
   googleRefreshToken: text("google_refresh_token"),
   googleTokenExpiry: timestamp("google_token_expiry"),
   calendarId: text("calendar_id"),
+  calendarSyncToken: text("calendar_sync_token"), // Google incremental sync token, null until the first pull
+  calendarLastSyncedAt: timestamp("calendar_last_synced_at"),
+  calendarFeedToken: varchar("calendar_feed_token").unique(), // secret in the ICS feed URL, null when revoked
   messagingEnabled: integer("messaging_enabled").notNull().default(1),
   messageTemplates: text("message_templates"), // JSON string
+  timezone: varchar("timezone").notNull().default("Asia/Kolkata"), // IANA zone for "today", event times and quiet hours
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Notification preferences - which reminders a user gets and on which channels
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  emailNotifications: integer("email_notifications").notNull().default(1), // 0 = false, 1 = true
+  pushNotifications: integer("push_notifications").notNull().default(1),
+  smsNotifications: integer("sms_notifications").notNull().default(0),
+  orderDelivered: integer("order_delivered").notNull().default(1),
+  refundFormDue: integer("refund_form_due").notNull().default(1),
+  paymentReceived: integer("payment_received").notNull().default(1),
+  orderDelayed: integer("order_delayed").notNull().default(1),
+  weeklyReports: integer("weekly_reports").notNull().default(1), // email digest on/off
+  digestFrequency: digestFrequencyEnum("digest_frequency").notNull().default("weekly"),
+  lastDigestSentAt: timestamp("last_digest_sent_at"),
+  quietHoursStart: varchar("quiet_hours_start"), // HH:mm in the user's timezone, null when quiet hours are off
+  quietHoursEnd: varchar("quiet_hours_end"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Web Push subscriptions - one per browser a user turned push notifications on in
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  endpoint: text("endpoint").notNull().unique(), // push service URL for the browser
+  p256dh: varchar("p256dh").notNull(), // browser public key for payload encryption, base64url
+  auth: varchar("auth").notNull(), // browser auth secret, base64url
+  userAgent: text("user_agent"),
+  lastSuccessAt: timestamp("last_success_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_push_subscriptions_user").on(table.userId),
+]);
+
+// VAPID key pair used to sign pushes when VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY are not set - a single row
+export const vapidKeys = pgTable("vapid_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  publicKey: text("public_key").notNull(), // uncompressed P-256 point, base64url
+  privateKey: text("private_key").notNull(), // encrypted with secret-box
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Reminder rules - when to raise a notification for an order, evaluated by the cron job and the dashboard
+export const reminderRules = pgTable("reminder_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  enabled: integer("enabled").notNull().default(1), // 0 = false, 1 = true
+  trigger: reminderTriggerEnum("trigger").notNull(),
+  dateField: varchar("date_field"), // order date field for "date" triggers
+  offsetDays: integer("offset_days").notNull().default(0), // days after the date (negative = before), or days in status
+  statuses: orderStatusEnum("statuses").array().notNull().default(sql`'{}'`), // only orders in these statuses, empty = any
+  platform: platformEnum("platform"),
+  mediatorId: varchar("mediator_id").references(() => mediators.id, { onDelete: "cascade" }),
+  accountId: varchar("account_id").references(() => accounts.id, { onDelete: "cascade" }),
+  severity: notificationTypeEnum("severity").notNull().default("Warning"),
+  reminderCategory: reminderCategoryEnum("reminder_category").notNull().default("General"),
+  title: varchar("title").notNull(),
+  messageTemplate: text("message_template").notNull(),
+  channels: text("channels").array().notNull().default(sql`'{}'`), // extra channels besides the in-app list
+  escalationOffsetDays: integer("escalation_offset_days"), // same scale as offsetDays - when an unresolved reminder turns Critical, null = never
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_reminder_rules_workspace").on(table.workspaceId),
+]);
+
+// Status automations - move orders to another status once a date passes or they sit in a status, applied by the daily cron job
+export const statusAutomations = pgTable("status_automations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  enabled: integer("enabled").notNull().default(0), // 0 = false, 1 = true
+  trigger: reminderTriggerEnum("trigger").notNull(),
+  dateField: varchar("date_field"), // order date field for "date" triggers
+  offsetDays: integer("offset_days").notNull().default(0), // days after the date, or days in status
+  statuses: orderStatusEnum("statuses").array().notNull(), // orders in these statuses are moved
+  toStatus: orderStatusEnum("to_status").notNull(),
+  missingDateField: varchar("missing_date_field"), // only orders where this date is still empty, null = any
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_status_automations_workspace").on(table.workspaceId),
+]);
+
+// Saved column mappings for order imports - reused for files exported the same way
+export const orderImportMappings = pgTable("order_import_mappings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  mapping: jsonb("mapping").$type<Partial<Record<OrderImportField, string>>>().notNull(), // order field -> column header
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_order_import_mappings_name").on(table.workspaceId, table.name),
+]);
+
 // Notifications table
 export const notifications = pgTable("notifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   orderId: varchar("order_id").references(() => orders.id, { onDelete: "cascade" }),
+  reminderRuleId: varchar("reminder_rule_id").references(() => reminderRules.id, { onDelete: "set null" }),
   type: notificationTypeEnum("type").notNull(),
   reminderCategory: reminderCategoryEnum("reminder_category").notNull().default("General"),
   title: varchar("title").notNull(),
   message: text("message").notNull(),
   isRead: integer("is_read").notNull().default(0), // 0 = false, 1 = true
+  idempotencyKey: varchar("idempotency_key"), // one notification per reminder occurrence, null for one-off notifications
+  snoozedUntil: timestamp("snoozed_until"), // hidden until this time
+  snoozedWhileStatus: orderStatusEnum("snoozed_while_status"), // hidden while the order is still in this status
+  dismissedAt: timestamp("dismissed_at"), // dismissed notifications are hidden for good and never escalate
+  escalatedAt: timestamp("escalated_at"),
+  pushHeldUntil: timestamp("push_held_until"), // push held back by the member's quiet hours
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("IDX_notifications_idempotency_key").on(table.idempotencyKey),
+  index("IDX_notifications_push_held").on(table.pushHeldUntil),
+]);
 
 // Activity logs table - tracks all order changes
 export const activityLogs = pgTable("activity_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
   activityType: activityTypeEnum("activity_type").notNull(),
   description: text("description").notNull(),
   oldValue: text("old_value"),
   newValue: text("new_value"),
-  triggeredBy: varchar("triggered_by").notNull().default("User"), // User or System
+  triggeredBy: varchar("triggered_by").notNull().default("User"), // Name of the workspace member, or System
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Outbox - every message sent from the server, with its delivery state and retries
+export const outboxMessages = pgTable("outbox_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  mediatorId: varchar("mediator_id").references(() => mediators.id, { onDelete: "set null" }),
+  orderId: varchar("order_id").references(() => orders.id, { onDelete: "set null" }),
+  channel: messageChannelEnum("channel").notNull(),
+  provider: varchar("provider").notNull(), // adapter that handled the last attempt
+  recipient: varchar("recipient").notNull(), // phone number or email address
+  subject: varchar("subject"), // email only
+  body: text("body").notNull(),
+  html: text("html"), // email only - HTML alternative to the plain-text body
+  status: messageStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  providerMessageId: varchar("provider_message_id"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_outbox_messages_workspace").on(table.workspaceId),
+  index("IDX_outbox_messages_due").on(table.status, table.nextAttemptAt),
+]);
+
+// Calendar sync jobs - one row per order, retried with backoff until Google accepts it
+export const calendarSyncJobs = pgTable("calendar_sync_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // owner of the calendar
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  orderId: varchar("order_id").references(() => orders.id, { onDelete: "cascade" }), // null once the order is deleted
+  action: calendarSyncActionEnum("action").notNull(),
+  eventIds: text("event_ids"), // events to remove for delete jobs, copied from the order
+  productName: varchar("product_name").notNull(),
+  status: calendarSyncStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  syncedAt: timestamp("synced_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_calendar_sync_jobs_workspace").on(table.workspaceId),
+  index("IDX_calendar_sync_jobs_order").on(table.orderId),
+  index("IDX_calendar_sync_jobs_due").on(table.status, table.nextAttemptAt),
+]);
+
+// Job runs - history of every cron job run across all server instances
+export const jobRuns = pgTable("job_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  job: varchar("job").notNull(), // one of cronJobNames
+  trigger: jobRunTriggerEnum("trigger").notNull().default("schedule"),
+  status: jobRunStatusEnum("status").notNull().default("running"),
+  scheduledFor: timestamp("scheduled_for").notNull(), // the schedule slot this run covers
+  instance: varchar("instance").notNull(), // host and process that ran it
+  counts: jsonb("counts").$type<Record<string, number>>(),
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("IDX_job_runs_job_slot").on(table.job, table.scheduledFor),
+  index("IDX_job_runs_started").on(table.startedAt),
+]);
+
 // Relations
 export const userRelations = relations(users, ({ many, one }) => ({
+  ownedWorkspaces: many(workspaces),
+  workspaceMemberships: many(workspaceMembers),
   mediators: many(mediators),
   accounts: many(accounts),
   bankAccounts: many(bankAccounts),
   orders: many(orders),
+  payments: many(payments),
   notifications: many(notifications),
   activityLogs: many(activityLogs),
   settings: one(userSettings),
+  notificationPreferences: one(notificationPreferences),
+  pushSubscriptions: many(pushSubscriptions),
+}));
+
+export const workspaceRelations = relations(workspaces, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [workspaces.ownerId],
+    references: [users.id],
+  }),
+  members: many(workspaceMembers),
+  mediators: many(mediators),
+  accounts: many(accounts),
+  bankAccounts: many(bankAccounts),
+  orders: many(orders),
+  reminderRules: many(reminderRules),
+  statusAutomations: many(statusAutomations),
+  orderImportMappings: many(orderImportMappings),
+}));
+
+export const workspaceMemberRelations = relations(workspaceMembers, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [workspaceMembers.workspaceId],
+    references: [workspaces.id],
+  }),
+  user: one(users, {
+    fields: [workspaceMembers.userId],
+    references: [users.id],
+  }),
 }));
 
 export const userSettingsRelations = relations(userSettings, ({ one }) => ({
@@ -205,11 +573,29 @@ export const userSettingsRelations = relations(userSettings, ({ one }) => ({
   }),
 }));
 
+export const notificationPreferencesRelations = relations(notificationPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
+export const pushSubscriptionRelations = relations(pushSubscriptions, ({ one }) => ({
+  user: one(users, {
+    fields: [pushSubscriptions.userId],
+    references: [users.id],
+  }),
+}));
+
 export const mediatorRelations = relations(mediators, ({ one, many }) => ({
   user: one(users, {
     fields: [mediators.userId],
     references: [users.id],
   }),
+  workspace: one(workspaces, {
+    fields: [mediators.workspaceId],
+    references: [workspaces.id],
+  }),
   orders: many(orders),
 }));
 
@@ -218,7 +604,23 @@ export const accountRelations = relations(accounts, ({ one, many }) => ({
     fields: [accounts.userId],
     references: [users.id],
   }),
+  workspace: one(workspaces, {
+    fields: [accounts.workspaceId],
+    references: [workspaces.id],
+  }),
   orders: many(orders),
+  auditLogs: many(accountAuditLogs),
+}));
+
+export const accountAuditLogRelations = relations(accountAuditLogs, ({ one }) => ({
+  user: one(users, {
+    fields: [accountAuditLogs.userId],
+    references: [users.id],
+  }),
+  account: one(accounts, {
+    fields: [accountAuditLogs.accountId],
+    references: [accounts.id],
+  }),
 }));
 
 export const bankAccountRelations = relations(bankAccounts, ({ one, many }) => ({
@@ -226,7 +628,12 @@ export const bankAccountRelations = relations(bankAccounts, ({ one, many }) => (
     fields: [bankAccounts.userId],
     references: [users.id],
   }),
+  workspace: one(workspaces, {
+    fields: [bankAccounts.workspaceId],
+    references: [workspaces.id],
+  }),
   orders: many(orders),
+  statementLines: many(bankStatementLines),
 }));
 
 export const orderRelations = relations(orders, ({ one, many }) => ({
@@ -234,6 +641,10 @@ export const orderRelations = relations(orders, ({ one, many }) => ({
     fields: [orders.userId],
     references: [users.id],
   }),
+  workspace: one(workspaces, {
+    fields: [orders.workspaceId],
+    references: [workspaces.id],
+  }),
   mediator: one(mediators, {
     fields: [orders.mediatorId],
     references: [mediators.id],
@@ -247,6 +658,53 @@ export const orderRelations = relations(orders, ({ one, many }) => ({
     references: [bankAccounts.id],
   }),
   activityLogs: many(activityLogs),
+  paymentAllocations: many(paymentAllocations),
+}));
+
+export const paymentRelations = relations(payments, ({ one, many }) => ({
+  user: one(users, {
+    fields: [payments.userId],
+    references: [users.id],
+  }),
+  workspace: one(workspaces, {
+    fields: [payments.workspaceId],
+    references: [workspaces.id],
+  }),
+  mediator: one(mediators, {
+    fields: [payments.mediatorId],
+    references: [mediators.id],
+  }),
+  bankAccount: one(bankAccounts, {
+    fields: [payments.bankAccountId],
+    references: [bankAccounts.id],
+  }),
+  allocations: many(paymentAllocations),
+}));
+
+export const paymentAllocationRelations = relations(paymentAllocations, ({ one }) => ({
+  payment: one(payments, {
+    fields: [paymentAllocations.paymentId],
+    references: [payments.id],
+  }),
+  order: one(orders, {
+    fields: [paymentAllocations.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const bankStatementLineRelations = relations(bankStatementLines, ({ one }) => ({
+  user: one(users, {
+    fields: [bankStatementLines.userId],
+    references: [users.id],
+  }),
+  bankAccount: one(bankAccounts, {
+    fields: [bankStatementLines.bankAccountId],
+    references: [bankAccounts.id],
+  }),
+  payment: one(payments, {
+    fields: [bankStatementLines.paymentId],
+    references: [payments.id],
+  }),
 }));
 
 export const notificationRelations = relations(notifications, ({ one }) => ({
@@ -258,6 +716,33 @@ export const notificationRelations = relations(notifications, ({ one }) => ({
     fields: [notifications.orderId],
     references: [orders.id],
   }),
+  reminderRule: one(reminderRules, {
+    fields: [notifications.reminderRuleId],
+    references: [reminderRules.id],
+  }),
+}));
+
+export const reminderRuleRelations = relations(reminderRules, ({ one, many }) => ({
+  workspace: one(workspaces, {
+    fields: [reminderRules.workspaceId],
+    references: [workspaces.id],
+  }),
+  mediator: one(mediators, {
+    fields: [reminderRules.mediatorId],
+    references: [mediators.id],
+  }),
+  account: one(accounts, {
+    fields: [reminderRules.accountId],
+    references: [accounts.id],
+  }),
+  notifications: many(notifications),
+}));
+
+export const statusAutomationRelations = relations(statusAutomations, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [statusAutomations.workspaceId],
+    references: [workspaces.id],
+  }),
 }));
 
 export const activityLogRelations = relations(activityLogs, ({ one }) => ({
@@ -271,10 +756,37 @@ export const activityLogRelations = relations(activityLogs, ({ one }) => ({
   }),
 }));
 
+export const outboxMessageRelations = relations(outboxMessages, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [outboxMessages.workspaceId],
+    references: [workspaces.id],
+  }),
+  mediator: one(mediators, {
+    fields: [outboxMessages.mediatorId],
+    references: [mediators.id],
+  }),
+  order: one(orders, {
+    fields: [outboxMessages.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const calendarSyncJobRelations = relations(calendarSyncJobs, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [calendarSyncJobs.workspaceId],
+    references: [workspaces.id],
+  }),
+  order: one(orders, {
+    fields: [calendarSyncJobs.orderId],
+    references: [orders.id],
+  }),
+}));
+
 // Insert schemas
 export const insertMediatorSchema = createInsertSchema(mediators).omit({
   id: true,
   userId: true,
+  workspaceId: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -282,13 +794,21 @@ export const insertMediatorSchema = createInsertSchema(mediators).omit({
 export const insertAccountSchema = createInsertSchema(accounts).omit({
   id: true,
   userId: true,
+  workspaceId: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertAccountAuditLogSchema = createInsertSchema(accountAuditLogs).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
 export const insertBankAccountSchema = createInsertSchema(bankAccounts).omit({
   id: true,
   userId: true,
+  workspaceId: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -296,6 +816,9 @@ export const insertBankAccountSchema = createInsertSchema(bankAccounts).omit({
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
   userId: true,
+  workspaceId: true,
+  calendarSequence: true,
+  statusChangedAt: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -305,61 +828,292 @@ export const insertOrderSchema = createInsertSchema(orders).omit({
   remindRefundDate: z.string().transform((str) => new Date(str)).nullable().optional(),
 });
 
+export const insertPaymentAllocationSchema = createInsertSchema(paymentAllocations).omit({
+  id: true,
+  paymentId: true,
+  createdAt: true,
+}).extend({
+  amount: z.number().int().positive("Allocated amount must be greater than 0"),
+});
+
+export const insertPaymentSchema = createInsertSchema(payments).omit({
+  id: true,
+  userId: true,
+  workspaceId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  amount: z.number().int().positive("Payment amount must be greater than 0"),
+  paymentDate: z.string().transform((str) => new Date(str)),
+  allocations: z.array(insertPaymentAllocationSchema).min(1, "Allocate the payment to at least one order"),
+});
+
+export const insertBankStatementLineSchema = createInsertSchema(bankStatementLines).omit({
+  id: true,
+  userId: true,
+  workspaceId: true,
+  createdAt: true,
+});
+
+export const confirmStatementMatchSchema = z.object({
+  mediatorId: z.string().min(1, "Mediator is required"),
+  allocations: z.array(insertPaymentAllocationSchema).min(1, "Match the statement line to at least one order"),
+});
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   userId: true,
+  workspaceId: true,
+  idempotencyKey: true,
+  snoozedUntil: true,
+  snoozedWhileStatus: true,
+  dismissedAt: true,
+  escalatedAt: true,
+  pushHeldUntil: true,
   createdAt: true,
 });
 
+// Snooze until a time, or until the notification's order changes status
+export const snoozeNotificationSchema = z.union([
+  z.object({ until: z.coerce.date() }).strict(),
+  z.object({ untilStatusChange: z.literal(true) }).strict(),
+]);
+
 export const insertActivityLogSchema = createInsertSchema(activityLogs).omit({
   id: true,
   userId: true,
+  workspaceId: true,
   createdAt: true,
 });
 
+export const insertWorkspaceSchema = createInsertSchema(workspaces).omit({
+  id: true,
+  ownerId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Workspace name is required").max(80),
+});
+
+export const insertWorkspaceMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  role: z.enum(["manager", "operator", "viewer"]),
+});
+
+export const updateWorkspaceMemberSchema = insertWorkspaceMemberSchema.pick({ role: true });
+
+// Message to a mediator queued from the client - either a written body or
+// one of the user's templates rendered against the order on the server
+export const sendMediatorMessageSchema = z.object({
+  mediatorId: z.string().min(1, "Mediator is required"),
+  orderId: z.string().min(1).optional(),
+  body: z.string().trim().min(1, "Message is required").max(4096).optional(),
+  templateKey: z.enum(["orderConfirmation", "deliveryReminder", "refundFormReminder", "paymentRequest", "statusUpdate"]).optional(),
+}).refine(data => data.body || (data.templateKey && data.orderId), {
+  message: "Provide a message, or a template and an order",
+  path: ["body"],
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
+export type WorkspaceRole = WorkspaceMember["role"];
+
 export type InsertMediator = z.infer<typeof insertMediatorSchema>;
 export type Mediator = typeof mediators.$inferSelect;
 
 export type InsertAccount = z.infer<typeof insertAccountSchema>;
 export type Account = typeof accounts.$inferSelect;
 
+// Account as returned by list endpoints - the password only comes back through the reveal endpoint
+export type AccountSummary = Omit<Account, "password"> & {
+  hasPassword: boolean;
+};
+
+export type AccountAuditLog = typeof accountAuditLogs.$inferSelect;
+export type InsertAccountAuditLog = z.infer<typeof insertAccountAuditLogSchema>;
+
 export type InsertBankAccount = z.infer<typeof insertBankAccountSchema>;
 export type BankAccount = typeof bankAccounts.$inferSelect;
 
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
 
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Payment = typeof payments.$inferSelect;
+
+export type InsertPaymentAllocation = z.infer<typeof insertPaymentAllocationSchema>;
+export type PaymentAllocation = typeof paymentAllocations.$inferSelect;
+
+export type InsertBankStatementLine = z.infer<typeof insertBankStatementLineSchema>;
+export type BankStatementLine = typeof bankStatementLines.$inferSelect;
+export type ConfirmStatementMatch = z.infer<typeof confirmStatementMatchSchema>;
+
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type Notification = typeof notifications.$inferSelect;
+// A generated notification - the key makes creating it again a no-op
+export type KeyedNotification = InsertNotification & Pick<Notification, "workspaceId" | "userId"> & {
+  idempotencyKey: string;
+};
+// What a reminder check needs to know about a notification it already created
+export type NotificationKeyState = Pick<Notification, "escalatedAt" | "dismissedAt">;
+export type SnoozeNotification = z.infer<typeof snoozeNotificationSchema>;
 
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
 export type ActivityLog = typeof activityLogs.$inferSelect;
 
+export type OutboxMessage = typeof outboxMessages.$inferSelect;
+export type InsertOutboxMessage = typeof outboxMessages.$inferInsert;
+export type MessageChannel = OutboxMessage["channel"];
+export type MessageStatus = OutboxMessage["status"];
+export type SendMediatorMessage = z.infer<typeof sendMediatorMessageSchema>;
+
+export type CalendarSyncJob = typeof calendarSyncJobs.$inferSelect;
+export type InsertCalendarSyncJob = typeof calendarSyncJobs.$inferInsert;
+export type CalendarSyncAction = CalendarSyncJob["action"];
+export type CalendarSyncStatus = CalendarSyncJob["status"];
+export type CalendarSyncJobWithOrder = CalendarSyncJob & {
+  order: Pick<Order, "id" | "orderId" | "productName"> | null;
+};
+
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = typeof jobRuns.$inferInsert;
+export type JobRunStatus = JobRun["status"];
+export type JobRunTrigger = JobRun["trigger"];
+
 export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({
   id: true,
   userId: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone"),
 });
 
 export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
 export type UserSettingsSelect = typeof userSettings.$inferSelect;
 
+const preferenceFlag = z.number().int().min(0).max(1);
+const quietHoursTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use a 24-hour time like 22:00").nullable();
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences).omit({
+  id: true,
+  userId: true,
+  lastDigestSentAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  emailNotifications: preferenceFlag,
+  pushNotifications: preferenceFlag,
+  smsNotifications: preferenceFlag,
+  orderDelivered: preferenceFlag,
+  refundFormDue: preferenceFlag,
+  paymentReceived: preferenceFlag,
+  orderDelayed: preferenceFlag,
+  weeklyReports: preferenceFlag,
+  quietHoursStart: quietHoursTime,
+  quietHoursEnd: quietHoursTime,
+});
+
+// What PushSubscription.toJSON() gives in the browser
+export const insertPushSubscriptionSchema = z.object({
+  endpoint: z.string().url("Invalid push endpoint").refine((endpoint) => endpoint.startsWith("https://"), "Push endpoints must use https"),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+export const insertReminderRuleSchema = createInsertSchema(reminderRules).omit({
+  id: true,
+  userId: true,
+  workspaceId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertReminderRule = z.infer<typeof insertReminderRuleSchema>;
+export type ReminderRule = typeof reminderRules.$inferSelect;
+export type ReminderTrigger = ReminderRule["trigger"];
+
+export const insertStatusAutomationSchema = createInsertSchema(statusAutomations).omit({
+  id: true,
+  userId: true,
+  workspaceId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertStatusAutomation = z.infer<typeof insertStatusAutomationSchema>;
+export type StatusAutomation = typeof statusAutomations.$inferSelect;
+export type SavedOrderImportMapping = typeof orderImportMappings.$inferSelect;
+
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+export type WebPushSubscription = typeof pushSubscriptions.$inferSelect;
+export type VapidKeys = typeof vapidKeys.$inferSelect;
+
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type DigestFrequency = NotificationPreferences["digestFrequency"];
+export type DigestRecipient = Pick<User, "id"> & { email: string } & Pick<
+  NotificationPreferences,
+  "digestFrequency" | "quietHoursStart" | "quietHoursEnd"
+>;
+export type ReminderCategory = Notification["reminderCategory"];
+export type NotificationType = Notification["type"];
+
 // Extended types with relations
 export type OrderWithRelations = Order & {
   mediator: Mediator;
-  account: Account;
+  account: AccountSummary;
+  bankAccount?: BankAccount;
+  receivedAmount?: number; // in paise, sum of payment allocations
+};
+
+export type PaymentWithRelations = Payment & {
+  mediator?: Mediator;
   bankAccount?: BankAccount;
+  allocations: (PaymentAllocation & { order?: Pick<Order, "id" | "orderId" | "productName" | "refundAmount"> })[];
+};
+
+// A suggested way to settle a bank statement credit against pending orders
+export type ReconciliationSuggestion = {
+  mediatorId: string;
+  mediatorName: string;
+  score: number; // 0-100
+  reasons: string[];
+  allocations: {
+    orderId: string;
+    orderNumber: string;
+    productName: string;
+    amount: number; // in paise
+    outstanding: number; // in paise
+  }[];
+};
+
+export type BankStatementLineWithSuggestions = BankStatementLine & {
+  payment?: PaymentWithRelations;
+  suggestions: ReconciliationSuggestion[];
 };
 
 export type NotificationWithOrder = Notification & {
   order?: OrderWithRelations;
 };
 
+export type WorkspaceWithRole = Workspace & {
+  role: WorkspaceRole;
+  isActive: boolean;
+};
+
+export type WorkspaceMemberWithUser = WorkspaceMember & {
+  user?: Pick<User, "id" | "firstName" | "lastName" | "profileImageUrl">;
+};
+
 export type ActivityLogWithOrder = ActivityLog & {
   order?: Order;
 };
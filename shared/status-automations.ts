@@ -0,0 +1,206 @@
+import { z } from "zod";
+import { addDays, differenceInCalendarDays, format, startOfDay } from "date-fns";
+import type { NotificationType, Order, ReminderCategory, StatusAutomation } from "./schema";
+import { canTransition, orderStatusTransitions, validateStatusTransition, type OrderStatus } from "./order-status";
+import { reminderDateFieldLabels, reminderDateFields, reminderTriggers, type ReminderDateField } from "./reminder-rules";
+import { calendarDayInTimezone, DEFAULT_TIMEZONE } from "./timezone";
+
+const orderStatuses = Object.keys(orderStatusTransitions) as [OrderStatus, ...OrderStatus[]];
+
+// "Refunded" follows the payment ledger, so automations never move orders there
+export type StatusAutomationTarget = Exclude<OrderStatus, "Refunded">;
+
+export const statusAutomationTargets = orderStatuses.filter(
+  (status): status is StatusAutomationTarget => status !== "Refunded"
+) as [StatusAutomationTarget, ...StatusAutomationTarget[]];
+
+export const statusAutomationSchema = z.object({
+  name: z.string().trim().min(1, "Automation name is required").max(100, "Automation name must be at most 100 characters"),
+  enabled: z.number().int().min(0).max(1),
+  trigger: z.enum(reminderTriggers),
+  dateField: z.enum(reminderDateFields).nullable(),
+  offsetDays: z.number().int().min(0, "Days cannot be negative").max(365, "Days must be within a year"),
+  statuses: z.array(z.enum(orderStatuses)).min(1, "Choose at least one status"),
+  toStatus: z.enum(statusAutomationTargets),
+  missingDateField: z.enum(reminderDateFields).nullable(),
+}).superRefine((automation, ctx) => {
+  if (automation.trigger === "date" && !automation.dateField) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["dateField"], message: "Choose the date the automation counts from" });
+  }
+  for (const status of automation.statuses) {
+    if (status === automation.toStatus) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["statuses"], message: `Orders already in "${status}" cannot move to it` });
+    } else if (!canTransition(status, automation.toStatus)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["statuses"], message: `Orders in "${status}" cannot move to "${automation.toStatus}"` });
+    }
+  }
+  if (automation.trigger === "date" && automation.missingDateField && automation.missingDateField === automation.dateField) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["missingDateField"], message: "The automation counts from this date, so it cannot be empty" });
+  }
+});
+
+export type StatusAutomationInput = z.infer<typeof statusAutomationSchema>;
+
+// Automations every workspace starts with - only the overdue check the cron job always ran is on
+export const defaultStatusAutomations: StatusAutomationInput[] = [
+  {
+    name: "Refund form deadline passed",
+    enabled: 1,
+    trigger: "date",
+    dateField: "refundFormDate",
+    offsetDays: 1,
+    statuses: ["Delivered", "Deliverables Done"],
+    toStatus: "Overdue Passed for Refund Form",
+    missingDateField: null,
+  },
+  {
+    name: "Delivery date passed",
+    enabled: 0,
+    trigger: "date",
+    dateField: "deliveryDate",
+    offsetDays: 1,
+    statuses: ["Ordered"],
+    toStatus: "Delivered",
+    missingDateField: null,
+  },
+  {
+    name: "Remind mediator for payment",
+    enabled: 0,
+    trigger: "date",
+    dateField: "remindRefundDate",
+    offsetDays: 0,
+    statuses: ["Refund Form Done"],
+    toStatus: "Remind Mediator for Payment",
+    missingDateField: null,
+  },
+  {
+    name: "Cancel orders never delivered",
+    enabled: 0,
+    trigger: "status",
+    dateField: null,
+    offsetDays: 30,
+    statuses: ["Ordered"],
+    toStatus: "Cancelled",
+    missingDateField: "deliveryDate",
+  },
+];
+
+// How the notification for an automatic change is raised, by the status the order moves to
+export const statusAutomationNotices: Record<StatusAutomationTarget, { type: NotificationType; reminderCategory: ReminderCategory }> = {
+  "Ordered": { type: "Info", reminderCategory: "General" },
+  "Delivered": { type: "Info", reminderCategory: "Delivery" },
+  "Deliverables Done": { type: "Info", reminderCategory: "Review_Rating" },
+  "Refund Form Done": { type: "Info", reminderCategory: "Refund_Form" },
+  "Overdue Passed for Refund Form": { type: "Critical", reminderCategory: "Refund_Form" },
+  "Remind Mediator for Payment": { type: "Warning", reminderCategory: "Mediator_Payment" },
+  "Cancelled": { type: "Warning", reminderCategory: "General" },
+};
+
+// The order fields automations read and the status checks need
+export type StatusAutomationOrder = Pick<
+  Order,
+  | "id"
+  | "workspaceId"
+  | "userId"
+  | "currentStatus"
+  | "orderDate"
+  | "deliveryDate"
+  | "refundFormDate"
+  | "remindRefundDate"
+  | "refundFormLink"
+  | "statusChangedAt"
+>;
+
+type EvaluatedAutomation = Pick<StatusAutomation, keyof StatusAutomationInput | "id">;
+
+export interface StatusAutomationMatch<O extends StatusAutomationOrder = StatusAutomationOrder> {
+  automation: EvaluatedAutomation;
+  order: O;
+  dueDate: Date; // the day the automation started applying
+  reason: string; // why the order moves, for the activity log
+}
+
+/**
+ * Check one automation against one order. Date automations apply from
+ * `date + offsetDays` on, status ones once the order has spent `offsetDays`
+ * days in one of the automation's statuses. The order must also be able to
+ * make the move - the required fields of the new status have to be set.
+ * "Today" and the day of a status change are the order owner's.
+ */
+export function matchStatusAutomation<O extends StatusAutomationOrder>(
+  automation: EvaluatedAutomation,
+  order: O,
+  now: Date = new Date(),
+  timeZone: string = DEFAULT_TIMEZONE
+): StatusAutomationMatch<O> | null {
+  if (!automation.statuses.includes(order.currentStatus)) return null;
+  if (automation.missingDateField && order[automation.missingDateField as ReminderDateField]) return null;
+
+  const dateField = (automation.dateField ?? "orderDate") as ReminderDateField;
+  const anchor = automation.trigger === "date" ? order[dateField] : order.statusChangedAt;
+  if (!anchor) return null;
+
+  const today = calendarDayInTimezone(now, timeZone);
+  // Order dates are already calendar days; a status change is an instant
+  const anchorDay = automation.trigger === "date" ? startOfDay(anchor) : calendarDayInTimezone(anchor, timeZone);
+  const dueDate = addDays(anchorDay, automation.offsetDays);
+  if (today < dueDate) return null;
+  if (!validateStatusTransition(order.currentStatus, automation.toStatus, order).allowed) return null;
+
+  const days = differenceInCalendarDays(today, anchorDay);
+  return {
+    automation,
+    order,
+    dueDate,
+    reason: automation.trigger === "date"
+      ? `${reminderDateFieldLabels[dateField]} was ${format(anchorDay, "MMM dd, yyyy")}`
+      : `${days} ${days === 1 ? "day" : "days"} in "${order.currentStatus}"`,
+  };
+}
+
+/**
+ * The status change each order is due, from the first of its workspace's
+ * automations that applies. An order moves once per run, so a change that
+ * leads into another automation's status is picked up by the next run.
+ */
+export function planStatusChanges<O extends StatusAutomationOrder>(
+  orders: O[],
+  automationsByWorkspace: Map<string, EvaluatedAutomation[]>,
+  timezones: Map<string, string>,
+  now: Date = new Date()
+): StatusAutomationMatch<O>[] {
+  const changes: StatusAutomationMatch<O>[] = [];
+  for (const order of orders) {
+    const automations = automationsByWorkspace.get(order.workspaceId) ?? [];
+    const timeZone = timezones.get(order.userId) ?? DEFAULT_TIMEZONE;
+    for (const automation of automations) {
+      const match = matchStatusAutomation(automation, order, now, timeZone);
+      if (match) {
+        changes.push(match);
+        break;
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * Idempotency key for the notification a change creates - the same order
+ * moved by the same automation for the same day notifies once.
+ */
+export function statusAutomationNotificationKey(match: StatusAutomationMatch): string {
+  return `status:${match.order.id}:${match.automation.id}:${format(match.dueDate, "yyyy-MM-dd")}`;
+}
+
+// What a dry run returns - the orders the automation would move now
+export interface StatusAutomationPreview {
+  total: number;
+  changes: {
+    id: string;
+    orderId: string;
+    productName: string;
+    fromStatus: OrderStatus;
+    toStatus: OrderStatus;
+    reason: string;
+  }[];
+}
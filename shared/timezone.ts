@@ -0,0 +1,108 @@
+/**
+ * Per-user timezone helpers. Order dates are calendar days kept as midnight
+ * (read with date-fns in this process's own timezone), so "today" for a user
+ * is turned into the same kind of value before comparing. Event times and
+ * quiet hours need real instants, which zonedTime gives.
+ */
+
+export const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+// Offered in the profile form; any other IANA zone is accepted too
+export const commonTimezones = [
+  "Asia/Kolkata",
+  "Asia/Dubai",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Europe/London",
+  "Europe/Berlin",
+  "America/New_York",
+  "America/Chicago",
+  "America/Los_Angeles",
+  "UTC",
+] as const;
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday, like Date.getDay
+}
+
+const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+// Reminder checks ask about the same few instants for every order - remember recent answers
+const readings = new Map<string, ZonedParts>();
+const MAX_READINGS = 1000;
+
+// The wall-clock reading of an instant in a timezone
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const readingKey = `${timeZone}|${date.getTime()}`;
+  const reading = readings.get(readingKey);
+  if (reading) {
+    return reading;
+  }
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+  const zoned = {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: weekdays.indexOf(parts.weekday),
+  };
+  if (readings.size >= MAX_READINGS) {
+    readings.clear();
+  }
+  readings.set(readingKey, zoned);
+  return zoned;
+}
+
+/**
+ * The calendar day an instant falls on in a timezone, as local midnight -
+ * the same kind of value date-fns startOfDay gives for an order date.
+ */
+export function calendarDayInTimezone(date: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * The instant the clock in a timezone shows hours:minutes on a calendar day
+ * (read in local time, like an order date).
+ */
+export function zonedTime(day: Date, hours: number, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+  const offsetAt = (instant: number) => {
+    const parts = getZonedParts(new Date(instant), timeZone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - instant;
+  };
+  // A second pass corrects the guess when a DST change falls between it and the answer
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
@@ -0,0 +1,27 @@
+import type { WorkspaceRole } from "./schema";
+
+// Higher rank includes every permission of the lower ranks
+const roleRank: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  operator: 1,
+  manager: 2,
+  owner: 3,
+};
+
+export const workspaceRoleLabels: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  operator: "Operator",
+  viewer: "Viewer",
+};
+
+export const workspaceRoleDescriptions: Record<WorkspaceRole, string> = {
+  owner: "Full access, including members and workspace settings",
+  manager: "Manage mediators, accounts, bank accounts, imports and deletions",
+  operator: "Create and update orders, record payments and reconcile statements",
+  viewer: "Read-only access to the workspace",
+};
+
+export function hasWorkspaceRole(role: WorkspaceRole | undefined, minimum: WorkspaceRole): boolean {
+  return role !== undefined && roleRank[role] >= roleRank[minimum];
+}